@@ -0,0 +1,476 @@
+import { BigNumberish, Contract, ContractRunner, ContractTransactionReceipt, Result } from "ethers";
+import { BLUEPRINT_ABI, BLUEPRINT_LENS_ABI } from "./abi";
+import { decodeBlueprintError } from "./errors";
+import {
+  AccountState,
+  DailyVolume,
+  FeeRule,
+  Limits,
+  Operation,
+  OperationItem,
+  OperationPreview,
+  OperationStatus,
+  OwnerTransfer,
+  Permit,
+  PreviewResult,
+  ScheduledUpgrade,
+  Version
+} from "./types";
+
+/**
+ * The typed client of the Blueprint contract.
+ *
+ * Transactional methods wait for the transaction to be mined and return its receipt.
+ * All methods throw typed errors from the `./errors` module if the call is reverted.
+ */
+export class BlueprintClient {
+  readonly contract: Contract;
+  readonly lens: Contract | null;
+
+  /**
+   * @param address The address of the Blueprint proxy.
+   * @param runner The signer or provider to send transactions and calls with.
+   * @param lensAddress The address of the BlueprintLens contract bound to the proxy, required only for previews.
+   */
+  constructor(address: string, runner: ContractRunner, lensAddress?: string) {
+    this.contract = new Contract(address, BLUEPRINT_ABI, runner);
+    this.lens = lensAddress ? new Contract(lensAddress, BLUEPRINT_LENS_ABI, runner) : null;
+  }
+
+  /**
+   * Returns a new client of the same contracts that uses another signer or provider.
+   */
+  connect(runner: ContractRunner): BlueprintClient {
+    return new BlueprintClient(this.contract.target as string, runner, this.lens?.target as string | undefined);
+  }
+
+  // ------------------ Primary functions ------------------------------- //
+
+  async deposit(account: string, amount: BigNumberish, opId: string): Promise<ContractTransactionReceipt> {
+    return this.send("deposit", account, amount, opId);
+  }
+
+  async depositWithPermit(
+    account: string,
+    amount: BigNumberish,
+    opId: string,
+    permit: Permit
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("depositWithPermit", account, amount, opId, permit);
+  }
+
+  async withdraw(account: string, amount: BigNumberish, opId: string): Promise<ContractTransactionReceipt> {
+    return this.send("withdraw", account, amount, opId);
+  }
+
+  async depositToken(
+    token: string,
+    account: string,
+    amount: BigNumberish,
+    opId: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("depositToken", token, account, amount, opId);
+  }
+
+  async withdrawToken(
+    token: string,
+    account: string,
+    amount: BigNumberish,
+    opId: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("withdrawToken", token, account, amount, opId);
+  }
+
+  async depositFrom(
+    payer: string,
+    account: string,
+    amount: BigNumberish,
+    opId: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("depositFrom", payer, account, amount, opId);
+  }
+
+  async withdrawTo(
+    account: string,
+    recipient: string,
+    amount: BigNumberish,
+    opId: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("withdrawTo", account, recipient, amount, opId);
+  }
+
+  async depositBatch(items: OperationItem[]): Promise<ContractTransactionReceipt> {
+    return this.send("depositBatch", items);
+  }
+
+  async withdrawBatch(items: OperationItem[]): Promise<ContractTransactionReceipt> {
+    return this.send("withdrawBatch", items);
+  }
+
+  async revertOperation(opId: string): Promise<ContractTransactionReceipt> {
+    return this.send("revertOperation", opId);
+  }
+
+  async freezeAccount(account: string, reasonCode: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("freezeAccount", account, reasonCode);
+  }
+
+  async freezeAccountBatch(accounts: string[], reasonCode: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("freezeAccountBatch", accounts, reasonCode);
+  }
+
+  async unfreezeAccount(account: string, reasonCode: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("unfreezeAccount", account, reasonCode);
+  }
+
+  async unfreezeAccountBatch(accounts: string[], reasonCode: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("unfreezeAccountBatch", accounts, reasonCode);
+  }
+
+  async getOperation(opId: string): Promise<Operation> {
+    return this.toOperation(await this.call("getOperation", opId));
+  }
+
+  async getAccountOperationIds(account: string, offset: BigNumberish, limit: BigNumberish): Promise<string[]> {
+    const opIds: Result = await this.call("getAccountOperationIds", account, offset, limit);
+    return [...opIds];
+  }
+
+  async getAccountOperations(account: string, offset: BigNumberish, limit: BigNumberish): Promise<Operation[]> {
+    const operations: Result = await this.call("getAccountOperations", account, offset, limit);
+    return operations.map((operation: Result) => this.toOperation(operation));
+  }
+
+  async getAccountState(account: string): Promise<AccountState> {
+    return this.toAccountState(await this.call("getAccountState", account));
+  }
+
+  async balanceOf(account: string): Promise<bigint> {
+    return this.call("balanceOf", account);
+  }
+
+  async getAccountTokenState(account: string, token: string): Promise<AccountState> {
+    return this.toAccountState(await this.call("getAccountTokenState", account, token));
+  }
+
+  async balanceOfToken(account: string, token: string): Promise<bigint> {
+    return this.call("balanceOfToken", account, token);
+  }
+
+  async previewDeposit(account: string, amount: BigNumberish, opId: string): Promise<OperationPreview> {
+    return this.toOperationPreview(await this.callLens("previewDeposit", account, amount, opId));
+  }
+
+  async previewWithdraw(account: string, amount: BigNumberish, opId: string): Promise<OperationPreview> {
+    return this.toOperationPreview(await this.callLens("previewWithdraw", account, amount, opId));
+  }
+
+  async isAccountFrozen(account: string): Promise<boolean> {
+    return this.call("isAccountFrozen", account);
+  }
+
+  async underlyingToken(): Promise<string> {
+    return this.call("underlyingToken");
+  }
+
+  async operationalTreasury(): Promise<string> {
+    return this.call("operationalTreasury");
+  }
+
+  async getTokenOperationalTreasury(token: string): Promise<string> {
+    return this.call("getTokenOperationalTreasury", token);
+  }
+
+  async getSupportedTokens(): Promise<string[]> {
+    const tokens: Result = await this.call("getSupportedTokens");
+    return [...tokens];
+  }
+
+  async version(): Promise<Version> {
+    return this.toVersion(await this.call("$__VERSION"));
+  }
+
+  async minCompatibleVersion(): Promise<Version> {
+    return this.toVersion(await this.call("$__MIN_COMPATIBLE_VERSION"));
+  }
+
+  // ------------------ Admin functions --------------------------------- //
+
+  async setOperationalTreasury(newTreasury: string): Promise<ContractTransactionReceipt> {
+    return this.send("setOperationalTreasury", newTreasury);
+  }
+
+  async registerToken(token: string): Promise<ContractTransactionReceipt> {
+    return this.send("registerToken", token);
+  }
+
+  async setTokenOperationalTreasury(token: string, newTreasury: string): Promise<ContractTransactionReceipt> {
+    return this.send("setTokenOperationalTreasury", token, newTreasury);
+  }
+
+  async setFeeTreasury(newTreasury: string): Promise<ContractTransactionReceipt> {
+    return this.send("setFeeTreasury", newTreasury);
+  }
+
+  async setDepositFeeRule(newRate: number, newMinimum: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("setDepositFeeRule", newRate, newMinimum);
+  }
+
+  async setWithdrawalFeeRule(newRate: number, newMinimum: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("setWithdrawalFeeRule", newRate, newMinimum);
+  }
+
+  async feeTreasury(): Promise<string> {
+    return this.call("feeTreasury");
+  }
+
+  async depositFeeRule(): Promise<FeeRule> {
+    return this.toFeeRule(await this.call("depositFeeRule"));
+  }
+
+  async withdrawalFeeRule(): Promise<FeeRule> {
+    return this.toFeeRule(await this.call("withdrawalFeeRule"));
+  }
+
+  async setDefaultLimits(newLimits: Limits): Promise<ContractTransactionReceipt> {
+    return this.send("setDefaultLimits", newLimits);
+  }
+
+  async setAccountLimits(account: string, newLimits: Limits): Promise<ContractTransactionReceipt> {
+    return this.send("setAccountLimits", account, newLimits);
+  }
+
+  async defaultLimits(): Promise<Limits> {
+    return this.toLimits(await this.call("defaultLimits"));
+  }
+
+  async getAccountLimits(account: string): Promise<Limits> {
+    return this.toLimits(await this.call("getAccountLimits", account));
+  }
+
+  async getEffectiveLimits(account: string): Promise<Limits> {
+    return this.toLimits(await this.call("getEffectiveLimits", account));
+  }
+
+  async getDailyVolume(account: string): Promise<DailyVolume> {
+    return this.toDailyVolume(await this.call("getDailyVolume", account));
+  }
+
+  async getTokenDailyVolume(account: string, token: string): Promise<DailyVolume> {
+    return this.toDailyVolume(await this.call("getTokenDailyVolume", account, token));
+  }
+
+  async pause(): Promise<ContractTransactionReceipt> {
+    return this.send("pause");
+  }
+
+  async unpause(): Promise<ContractTransactionReceipt> {
+    return this.send("unpause");
+  }
+
+  async paused(): Promise<boolean> {
+    return this.call("paused");
+  }
+
+  /**
+   * Pauses the operations of a kind, see {@link BlueprintOperationKind} for the kinds of the contract.
+   */
+  async pauseOperationKind(operationKind: string): Promise<ContractTransactionReceipt> {
+    return this.send("pauseOperationKind", operationKind);
+  }
+
+  async unpauseOperationKind(operationKind: string): Promise<ContractTransactionReceipt> {
+    return this.send("unpauseOperationKind", operationKind);
+  }
+
+  async isOperationKindPaused(operationKind: string): Promise<boolean> {
+    return this.call("isOperationKindPaused", operationKind);
+  }
+
+  async grantRole(role: string, account: string): Promise<ContractTransactionReceipt> {
+    return this.send("grantRole", role, account);
+  }
+
+  async revokeRole(role: string, account: string): Promise<ContractTransactionReceipt> {
+    return this.send("revokeRole", role, account);
+  }
+
+  async grantRoleBatch(role: string, accounts: string[]): Promise<ContractTransactionReceipt> {
+    return this.send("grantRoleBatch", role, accounts);
+  }
+
+  async revokeRoleBatch(role: string, accounts: string[]): Promise<ContractTransactionReceipt> {
+    return this.send("revokeRoleBatch", role, accounts);
+  }
+
+  async hasRole(role: string, account: string): Promise<boolean> {
+    return this.call("hasRole", role, account);
+  }
+
+  async proposeOwnerTransfer(newOwner: string): Promise<ContractTransactionReceipt> {
+    return this.send("proposeOwnerTransfer", newOwner);
+  }
+
+  async acceptOwnerTransfer(): Promise<ContractTransactionReceipt> {
+    return this.send("acceptOwnerTransfer");
+  }
+
+  async cancelOwnerTransfer(): Promise<ContractTransactionReceipt> {
+    return this.send("cancelOwnerTransfer");
+  }
+
+  async setOwnerTransferDelay(newDelay: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("setOwnerTransferDelay", newDelay);
+  }
+
+  async getPendingOwnerTransfer(): Promise<OwnerTransfer> {
+    const transfer: Result = await this.call("getPendingOwnerTransfer");
+    return {
+      proposer: transfer.proposer,
+      newOwner: transfer.newOwner,
+      readyAt: transfer.readyAt
+    };
+  }
+
+  async ownerTransferDelay(): Promise<bigint> {
+    return this.call("ownerTransferDelay");
+  }
+
+  async scheduleUpgrade(newImplementation: string): Promise<ContractTransactionReceipt> {
+    return this.send("scheduleUpgrade", newImplementation);
+  }
+
+  async cancelUpgrade(): Promise<ContractTransactionReceipt> {
+    return this.send("cancelUpgrade");
+  }
+
+  async setUpgradeDelay(newDelay: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("setUpgradeDelay", newDelay);
+  }
+
+  async getScheduledUpgrade(): Promise<ScheduledUpgrade> {
+    const upgrade: Result = await this.call("getScheduledUpgrade");
+    return {
+      newImplementation: upgrade.newImplementation,
+      codehash: upgrade.codehash,
+      readyAt: upgrade.readyAt
+    };
+  }
+
+  async upgradeDelay(): Promise<bigint> {
+    return this.call("upgradeDelay");
+  }
+
+  async rescueERC20(token: string, account: string, amount: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("rescueERC20", token, account, amount);
+  }
+
+  async rescueNative(account: string, amount: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("rescueNative", account, amount);
+  }
+
+  async rescueERC721(token: string, account: string, tokenId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send("rescueERC721", token, account, tokenId);
+  }
+
+  async rescueERC1155(
+    token: string,
+    account: string,
+    tokenId: BigNumberish,
+    amount: BigNumberish
+  ): Promise<ContractTransactionReceipt> {
+    return this.send("rescueERC1155", token, account, tokenId, amount);
+  }
+
+  // ------------------ Internal functions ------------------------------ //
+
+  private toOperation(operation: Result): Operation {
+    return {
+      status: Number(operation.status) as OperationStatus,
+      account: operation.account,
+      amount: operation.amount,
+      fee: operation.fee,
+      token: operation.token,
+      counterparty: operation.counterparty
+    };
+  }
+
+  private toAccountState(state: Result): AccountState {
+    return {
+      lastOpId: state.lastOpId,
+      balance: state.balance,
+      operationCount: state.operationCount
+    };
+  }
+
+  private toOperationPreview(preview: Result): OperationPreview {
+    return {
+      result: Number(preview.result) as PreviewResult,
+      newBalance: preview.newBalance
+    };
+  }
+
+  private toFeeRule(rule: Result): FeeRule {
+    return {
+      rate: Number(rule.rate),
+      minimum: rule.minimum
+    };
+  }
+
+  private toLimits(limits: Result): Limits {
+    return {
+      maxBalance: limits.maxBalance,
+      maxOperationAmount: limits.maxOperationAmount,
+      maxDailyDeposit: limits.maxDailyDeposit,
+      maxDailyWithdrawal: limits.maxDailyWithdrawal
+    };
+  }
+
+  private toDailyVolume(volume: Result): DailyVolume {
+    return {
+      day: Number(volume.day),
+      depositVolume: volume.depositVolume,
+      withdrawalVolume: volume.withdrawalVolume
+    };
+  }
+
+  private toVersion(version: Result): Version {
+    return {
+      major: Number(version.major),
+      minor: Number(version.minor),
+      patch: Number(version.patch)
+    };
+  }
+
+  private async call<T>(method: string, ...args: unknown[]): Promise<T> {
+    try {
+      return await this.contract.getFunction(method).staticCall(...args);
+    } catch (error) {
+      throw decodeBlueprintError(error);
+    }
+  }
+
+  private async callLens<T>(method: string, ...args: unknown[]): Promise<T> {
+    if (!this.lens) {
+      throw new Error("The address of the BlueprintLens contract is not provided to the client");
+    }
+    try {
+      return await this.lens.getFunction(method).staticCall(...args);
+    } catch (error) {
+      throw decodeBlueprintError(error);
+    }
+  }
+
+  private async send(method: string, ...args: unknown[]): Promise<ContractTransactionReceipt> {
+    try {
+      const tx = await this.contract.getFunction(method).send(...args);
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new Error(`The receipt of the transaction is empty: ${tx.hash}`);
+      }
+      return receipt;
+    } catch (error) {
+      throw decodeBlueprintError(error);
+    }
+  }
+}
@@ -0,0 +1,273 @@
+import { id } from "ethers";
+
+/**
+ * The role hashes of the Blueprint contract.
+ */
+export const BlueprintRole = {
+  OWNER_ROLE: id("OWNER_ROLE"),
+  GRANTOR_ROLE: id("GRANTOR_ROLE"),
+  PAUSER_ROLE: id("PAUSER_ROLE"),
+  RESCUER_ROLE: id("RESCUER_ROLE"),
+  MANAGER_ROLE: id("MANAGER_ROLE"),
+  LIMITS_ADMIN_ROLE: id("LIMITS_ADMIN_ROLE"),
+  FREEZER_ROLE: id("FREEZER_ROLE")
+} as const;
+
+/**
+ * The identifiers of the operation kinds of the Blueprint contract that can be paused separately.
+ */
+export const BlueprintOperationKind = {
+  DEPOSIT_OPERATION_KIND: id("DEPOSIT_OPERATION_KIND"),
+  WITHDRAWAL_OPERATION_KIND: id("WITHDRAWAL_OPERATION_KIND")
+} as const;
+
+const LIMITS_TUPLE =
+  "tuple(uint64 maxBalance, uint64 maxOperationAmount, uint64 maxDailyDeposit, uint64 maxDailyWithdrawal)";
+
+const OPERATION_TUPLE =
+  "tuple(uint8 status, address account, uint64 amount, uint64 fee, address token, address counterparty)";
+
+/**
+ * The human-readable ABI of the Blueprint contract including its base contracts.
+ */
+export const BLUEPRINT_ABI: string[] = [
+  // IBlueprintPrimary
+  "event BalanceUpdated(bytes32 indexed opId, address indexed account, uint256 newBalance, uint256 oldBalance)",
+  "event FeeCharged(bytes32 indexed opId, address indexed account, uint256 fee)",
+  "event OperationReverted(bytes32 indexed opId, address indexed account, uint256 newBalance, uint256 oldBalance)",
+  "event AccountFrozen(address indexed account, uint256 reasonCode)",
+  "event AccountUnfrozen(address indexed account, uint256 reasonCode)",
+  "event TokenBalanceUpdated(bytes32 indexed opId, address indexed account, address indexed token, " +
+  "uint256 newBalance, uint256 oldBalance)",
+  "event TokenOperationReverted(bytes32 indexed opId, address indexed account, address indexed token, " +
+  "uint256 newBalance, uint256 oldBalance)",
+  "event DepositedFrom(bytes32 indexed opId, address indexed account, address indexed payer)",
+  "event WithdrawnTo(bytes32 indexed opId, address indexed account, address indexed recipient)",
+  "function deposit(address account, uint256 amount, bytes32 opId)",
+  "function depositWithPermit(address account, uint256 amount, bytes32 opId, " +
+  "tuple(uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) permit)",
+  "function withdraw(address account, uint256 amount, bytes32 opId)",
+  "function depositToken(address token, address account, uint256 amount, bytes32 opId)",
+  "function withdrawToken(address token, address account, uint256 amount, bytes32 opId)",
+  "function depositFrom(address payer, address account, uint256 amount, bytes32 opId)",
+  "function withdrawTo(address account, address recipient, uint256 amount, bytes32 opId)",
+  "function depositBatch(tuple(address account, uint256 amount, bytes32 opId)[] items)",
+  "function withdrawBatch(tuple(address account, uint256 amount, bytes32 opId)[] items)",
+  "function revertOperation(bytes32 opId)",
+  "function freezeAccount(address account, uint256 reasonCode)",
+  "function freezeAccountBatch(address[] accounts, uint256 reasonCode)",
+  "function unfreezeAccount(address account, uint256 reasonCode)",
+  "function unfreezeAccountBatch(address[] accounts, uint256 reasonCode)",
+  `function getOperation(bytes32 opId) view returns (${OPERATION_TUPLE})`,
+  "function getAccountState(address account) view " +
+  "returns (tuple(bytes32 lastOpId, uint64 balance, uint32 operationCount))",
+  "function balanceOf(address account) view returns (uint256)",
+  "function getAccountTokenState(address account, address token) view " +
+  "returns (tuple(bytes32 lastOpId, uint64 balance, uint32 operationCount))",
+  "function balanceOfToken(address account, address token) view returns (uint256)",
+  "function getAccountOperationIds(address account, uint256 offset, uint256 limit) view returns (bytes32[])",
+  `function getAccountOperations(address account, uint256 offset, uint256 limit) view returns (${OPERATION_TUPLE}[])`,
+  "function isAccountFrozen(address account) view returns (bool)",
+  "function underlyingToken() view returns (address)",
+
+  // IBlueprintConfiguration
+  "event OperationalTreasuryChanged(address newTreasury, address oldTreasury)",
+  "event FeeTreasuryChanged(address newTreasury, address oldTreasury)",
+  "event DepositFeeRuleChanged(uint256 newRate, uint256 newMinimum, uint256 oldRate, uint256 oldMinimum)",
+  "event WithdrawalFeeRuleChanged(uint256 newRate, uint256 newMinimum, uint256 oldRate, uint256 oldMinimum)",
+  `event DefaultLimitsChanged(${LIMITS_TUPLE} newLimits, ${LIMITS_TUPLE} oldLimits)`,
+  `event AccountLimitsChanged(address indexed account, ${LIMITS_TUPLE} newLimits, ${LIMITS_TUPLE} oldLimits)`,
+  "event TokenRegistered(address indexed token)",
+  "event TokenOperationalTreasuryChanged(address indexed token, address newTreasury, address oldTreasury)",
+  "function setOperationalTreasury(address newTreasury)",
+  "function setFeeTreasury(address newTreasury)",
+  "function setDepositFeeRule(uint16 newRate, uint64 newMinimum)",
+  "function setWithdrawalFeeRule(uint16 newRate, uint64 newMinimum)",
+  `function setDefaultLimits(${LIMITS_TUPLE} newLimits)`,
+  `function setAccountLimits(address account, ${LIMITS_TUPLE} newLimits)`,
+  "function registerToken(address token)",
+  "function setTokenOperationalTreasury(address token, address newTreasury)",
+  "function operationalTreasury() view returns (address)",
+  "function getTokenOperationalTreasury(address token) view returns (address)",
+  "function getSupportedTokens() view returns (address[])",
+  "function feeTreasury() view returns (address)",
+  "function depositFeeRule() view returns (tuple(uint16 rate, uint64 minimum))",
+  "function withdrawalFeeRule() view returns (tuple(uint16 rate, uint64 minimum))",
+  `function defaultLimits() view returns (${LIMITS_TUPLE})`,
+  `function getAccountLimits(address account) view returns (${LIMITS_TUPLE})`,
+  `function getEffectiveLimits(address account) view returns (${LIMITS_TUPLE})`,
+  "function getDailyVolume(address account) view " +
+  "returns (tuple(uint32 day, uint64 depositVolume, uint64 withdrawalVolume))",
+  "function getTokenDailyVolume(address account, address token) view " +
+  "returns (tuple(uint32 day, uint64 depositVolume, uint64 withdrawalVolume))",
+
+  // IBlueprint
+  "function initialize(address token)",
+  "function proveBlueprint() pure",
+  "function MANAGER_ROLE() view returns (bytes32)",
+  "function LIMITS_ADMIN_ROLE() view returns (bytes32)",
+  "function FREEZER_ROLE() view returns (bytes32)",
+  "function DEPOSIT_OPERATION_KIND() view returns (bytes32)",
+  "function WITHDRAWAL_OPERATION_KIND() view returns (bytes32)",
+
+  // IBlueprintErrors
+  "error Blueprint_AccountAddressZero()",
+  "error Blueprint_AccountAlreadyFrozen(address account)",
+  "error Blueprint_AccountFrozen(address account)",
+  "error Blueprint_AccountNotFrozen(address account)",
+  "error Blueprint_AmountExcess()",
+  "error Blueprint_BalanceExcess()",
+  "error Blueprint_BalanceInsufficient(address account, uint256 balance, uint256 amount)",
+  "error Blueprint_BalanceLimitExceeded(address account, uint256 newBalance, uint256 limit)",
+  "error Blueprint_CounterpartyAddressZero()",
+  "error Blueprint_DailyDepositLimitExceeded(address account, uint256 volume, uint256 amount, uint256 limit)",
+  "error Blueprint_DailyWithdrawalLimitExceeded(address account, uint256 volume, uint256 amount, uint256 limit)",
+  "error Blueprint_FeeRateExcess()",
+  "error Blueprint_FeeRuleAlreadyConfigured()",
+  "error Blueprint_FeeTreasuryAddressZero()",
+  "error Blueprint_ImplementationAddressInvalid()",
+  "error Blueprint_ImplementationVersionIncompatible()",
+  "error Blueprint_ImplementationVersionNotGreater()",
+  "error Blueprint_LimitsAlreadyConfigured()",
+  "error Blueprint_OperationAlreadyExecuted(bytes32 opId)",
+  "error Blueprint_OperationAlreadyReverted(bytes32 opId)",
+  "error Blueprint_OperationAmountLimitExceeded(address account, uint256 amount, uint256 limit)",
+  "error Blueprint_OperationIdZero()",
+  "error Blueprint_OperationNonexistent(bytes32 opId)",
+  "error Blueprint_PermitFailed(bytes reason)",
+  "error Blueprint_TokenAddressZero()",
+  "error Blueprint_TokenAlreadyRegistered(address token)",
+  "error Blueprint_TokenNotSupported(address token)",
+  "error Blueprint_TreasuryAddressAlreadyConfigured()",
+  "error Blueprint_OperationalTreasuryAddressZero()",
+  "error Blueprint_TreasuryAllowanceZero()",
+  "error Blueprint_WithdrawalFeeExcess(uint256 amount, uint256 fee)",
+
+  // AccessControlExtUpgradeable
+  "event RoleAdminChanged(bytes32 indexed role, bytes32 indexed previousAdminRole, bytes32 indexed newAdminRole)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "function OWNER_ROLE() view returns (bytes32)",
+  "function GRANTOR_ROLE() view returns (bytes32)",
+  "function DEFAULT_ADMIN_ROLE() view returns (bytes32)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function getRoleAdmin(bytes32 role) view returns (bytes32)",
+  "function grantRole(bytes32 role, address account)",
+  "function revokeRole(bytes32 role, address account)",
+  "function renounceRole(bytes32 role, address callerConfirmation)",
+  "function grantRoleBatch(bytes32 role, address[] accounts)",
+  "function revokeRoleBatch(bytes32 role, address[] accounts)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "event OwnerTransferProposed(address indexed proposer, address indexed newOwner, uint256 readyAt)",
+  "event OwnerTransferCancelled(address indexed proposer, address indexed newOwner)",
+  "event OwnerTransferAccepted(address indexed previousOwner, address indexed newOwner)",
+  "event OwnerTransferDelayChanged(uint256 newDelay, uint256 oldDelay)",
+  "function proposeOwnerTransfer(address newOwner)",
+  "function acceptOwnerTransfer()",
+  "function cancelOwnerTransfer()",
+  "function setOwnerTransferDelay(uint64 newDelay)",
+  "function getPendingOwnerTransfer() view returns (address proposer, address newOwner, uint256 readyAt)",
+  "function ownerTransferDelay() view returns (uint256)",
+  "function MIN_OWNER_TRANSFER_DELAY() view returns (uint256)",
+  "function MAX_OWNER_TRANSFER_DELAY() view returns (uint256)",
+  "error AccessControlBadConfirmation()",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AccessControlExt_CallerNotPendingOwner(address account)",
+  "error AccessControlExt_NewOwnerAddressZero()",
+  "error AccessControlExt_NewOwnerAlreadyOwner(address account)",
+  "error AccessControlExt_OwnerRoleChangeProhibited()",
+  "error AccessControlExt_OwnerTransferDelayAlreadyConfigured()",
+  "error AccessControlExt_OwnerTransferDelayInvalid()",
+  "error AccessControlExt_OwnerTransferNotPending()",
+  "error AccessControlExt_OwnerTransferNotReady(uint256 readyAt)",
+
+  // PausableExtUpgradeable
+  "event Paused(address account)",
+  "event Unpaused(address account)",
+  "function PAUSER_ROLE() view returns (bytes32)",
+  "function pause()",
+  "function unpause()",
+  "function paused() view returns (bool)",
+  "event OperationKindPaused(bytes32 indexed operationKind, address account)",
+  "event OperationKindUnpaused(bytes32 indexed operationKind, address account)",
+  "function pauseOperationKind(bytes32 operationKind)",
+  "function unpauseOperationKind(bytes32 operationKind)",
+  "function isOperationKindPaused(bytes32 operationKind) view returns (bool)",
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+  "error PausableExt_OperationKindNotPaused(bytes32 operationKind)",
+  "error PausableExt_OperationKindPaused(bytes32 operationKind)",
+
+  // RescuableUpgradeable
+  "event Rescued(address indexed token, address indexed recipient, uint256 tokenId, uint256 amount)",
+  "function RESCUER_ROLE() view returns (bytes32)",
+  "function rescueERC20(address token, address account, uint256 amount)",
+  "function rescueNative(address account, uint256 amount)",
+  "function rescueERC721(address token, address account, uint256 tokenId)",
+  "function rescueERC1155(address token, address account, uint256 tokenId, uint256 amount)",
+  "function onERC1155Received(address, address, uint256, uint256, bytes) returns (bytes4)",
+  "function onERC1155BatchReceived(address, address, uint256[], uint256[], bytes) returns (bytes4)",
+  "error InsufficientBalance(uint256 balance, uint256 needed)",
+  "error Rescuable_AssetProtected(address token)",
+  "error SafeERC20FailedOperation(address token)",
+
+  // UUPSExtUpgradeable
+  "event Upgraded(address indexed implementation)",
+  "function UPGRADE_INTERFACE_VERSION() view returns (string)",
+  "function proxiableUUID() view returns (bytes32)",
+  "function upgradeToAndCall(address newImplementation, bytes data) payable",
+  "event UpgradeScheduled(address indexed newImplementation, bytes32 codehash, uint256 readyAt)",
+  "event UpgradeCancelled(address indexed newImplementation)",
+  "event UpgradeDelayChanged(uint256 newDelay, uint256 oldDelay)",
+  "function MIN_UPGRADE_DELAY() view returns (uint256)",
+  "function MAX_UPGRADE_DELAY() view returns (uint256)",
+  "function scheduleUpgrade(address newImplementation)",
+  "function cancelUpgrade()",
+  "function setUpgradeDelay(uint64 newDelay)",
+  "function getScheduledUpgrade() view returns (address newImplementation, bytes32 codehash, uint256 readyAt)",
+  "function upgradeDelay() view returns (uint256)",
+  "error AddressEmptyCode(address target)",
+  "error ERC1967InvalidImplementation(address implementation)",
+  "error ERC1967NonPayable()",
+  "error FailedCall()",
+  "error UUPSExtUpgradeable_ImplementationAddressNotContract()",
+  "error UUPSExtUpgradeable_ImplementationAddressZero()",
+  "error UUPSExtUpgradeable_ImplementationCodehashMismatch(bytes32 codehash)",
+  "error UUPSExtUpgradeable_UpgradeDelayAlreadyConfigured()",
+  "error UUPSExtUpgradeable_UpgradeDelayInvalid()",
+  "error UUPSExtUpgradeable_UpgradeNotScheduled(address newImplementation)",
+  "error UUPSExtUpgradeable_UpgradeNotReady(uint256 readyAt)",
+  "error UUPSUnauthorizedCallContext()",
+  "error UUPSUnsupportedProxiableUUID(bytes32 slot)",
+
+  // Initializable
+  "event Initialized(uint64 version)",
+  "error InvalidInitialization()",
+  "error NotInitializing()",
+
+  // Versionable
+  "function $__VERSION() pure returns (tuple(uint16 major, uint16 minor, uint16 patch))",
+  "function $__MIN_COMPATIBLE_VERSION() pure returns (tuple(uint16 major, uint16 minor, uint16 patch))",
+
+  // Errors of the underlying ERC20 token that can be bubbled up during token transfers
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC20InvalidSender(address sender)",
+
+  // Errors of the underlying ERC20 token that can be wrapped into the `Blueprint_PermitFailed` error
+  "error ERC2612ExpiredSignature(uint256 deadline)",
+  "error ERC2612InvalidSigner(address signer, address owner)"
+];
+
+/**
+ * The human-readable ABI of the BlueprintLens contract that previews operations of the Blueprint contract.
+ */
+export const BLUEPRINT_LENS_ABI: string[] = [
+  "function previewDeposit(address account, uint256 amount, bytes32 opId) view " +
+  "returns (uint8 result, uint256 newBalance)",
+  "function previewWithdraw(address account, uint256 amount, bytes32 opId) view " +
+  "returns (uint8 result, uint256 newBalance)",
+  "function blueprint() view returns (address)",
+  "error BlueprintLens_BlueprintAddressZero()"
+];
@@ -0,0 +1,571 @@
+import { ErrorDescription, Interface, isHexString } from "ethers";
+import { BLUEPRINT_ABI } from "./abi";
+
+const BLUEPRINT_INTERFACE = new Interface(BLUEPRINT_ABI);
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "Assertion failed",
+  0x11: "Arithmetic operation overflowed or underflowed",
+  0x12: "Division or modulo by zero",
+  0x21: "Conversion into a non-existent enum value",
+  0x22: "Access to an incorrectly encoded storage byte array",
+  0x31: "Pop from an empty array",
+  0x32: "Array index out of bounds",
+  0x41: "Too much memory allocated",
+  0x51: "Call to a zero-initialized internal function"
+};
+
+/**
+ * The base class of all errors thrown by the Blueprint client.
+ */
+export class BlueprintClientError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown if a call to the contract has been reverted.
+ */
+export class BlueprintRevertError extends BlueprintClientError {
+  readonly data: string;
+
+  constructor(message: string, data: string, cause?: unknown) {
+    super(message, cause);
+    this.data = data;
+  }
+}
+
+/**
+ * Thrown if a call has been reverted with a custom error that is known to the client.
+ */
+export class BlueprintCustomError extends BlueprintRevertError {
+  readonly errorName: string;
+  readonly args: unknown[];
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(`The call has been reverted with the custom error: ${description.signature}`, data, cause);
+    this.errorName = description.name;
+    this.args = [...description.args];
+  }
+}
+
+/**
+ * Thrown if a call has been reverted with a panic, e.g. due to an arithmetic underflow,
+ * instead of a named error.
+ */
+export class BlueprintPanicError extends BlueprintRevertError {
+  readonly code: bigint;
+  readonly reason: string;
+
+  constructor(code: bigint, data: string, cause?: unknown) {
+    const reason = PANIC_REASONS[Number(code)] ?? "Unknown panic";
+    super(`The call has been reverted with a panic. Code: 0x${code.toString(16)}. Reason: ${reason}`, data, cause);
+    this.code = code;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown if a call has been reverted with a reason string.
+ */
+export class BlueprintRevertReasonError extends BlueprintRevertError {
+  readonly reason: string;
+
+  constructor(reason: string, data: string, cause?: unknown) {
+    super(`The call has been reverted with the reason: ${reason}`, data, cause);
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown if a call has been reverted without data or with data that is unknown to the client.
+ */
+export class BlueprintUnknownRevertError extends BlueprintRevertError {
+  constructor(data: string, cause?: unknown) {
+    super(`The call has been reverted with unknown data: ${data}`, data, cause);
+  }
+}
+
+// ------------------ Errors of the Blueprint contract ------------------ //
+
+export class BlueprintAccountAddressZeroError extends BlueprintCustomError {}
+
+export class BlueprintAccountAlreadyFrozenError extends BlueprintCustomError {
+  readonly account: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+  }
+}
+
+export class BlueprintAccountFrozenError extends BlueprintCustomError {
+  readonly account: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+  }
+}
+
+export class BlueprintAccountNotFrozenError extends BlueprintCustomError {
+  readonly account: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+  }
+}
+
+export class BlueprintAmountExcessError extends BlueprintCustomError {}
+
+export class BlueprintBalanceExcessError extends BlueprintCustomError {}
+
+export class BlueprintBalanceInsufficientError extends BlueprintCustomError {
+  readonly account: string;
+  readonly balance: bigint;
+  readonly amount: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+    this.balance = description.args.balance;
+    this.amount = description.args.amount;
+  }
+}
+
+export class BlueprintBalanceLimitExceededError extends BlueprintCustomError {
+  readonly account: string;
+  readonly newBalance: bigint;
+  readonly limit: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+    this.newBalance = description.args.newBalance;
+    this.limit = description.args.limit;
+  }
+}
+
+export class BlueprintCounterpartyAddressZeroError extends BlueprintCustomError {}
+
+export class BlueprintDailyDepositLimitExceededError extends BlueprintCustomError {
+  readonly account: string;
+  readonly volume: bigint;
+  readonly amount: bigint;
+  readonly limit: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+    this.volume = description.args.volume;
+    this.amount = description.args.amount;
+    this.limit = description.args.limit;
+  }
+}
+
+export class BlueprintDailyWithdrawalLimitExceededError extends BlueprintCustomError {
+  readonly account: string;
+  readonly volume: bigint;
+  readonly amount: bigint;
+  readonly limit: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+    this.volume = description.args.volume;
+    this.amount = description.args.amount;
+    this.limit = description.args.limit;
+  }
+}
+
+export class BlueprintFeeRateExcessError extends BlueprintCustomError {}
+
+export class BlueprintFeeRuleAlreadyConfiguredError extends BlueprintCustomError {}
+
+export class BlueprintFeeTreasuryAddressZeroError extends BlueprintCustomError {}
+
+export class BlueprintImplementationAddressInvalidError extends BlueprintCustomError {}
+
+export class BlueprintImplementationVersionIncompatibleError extends BlueprintCustomError {}
+
+export class BlueprintImplementationVersionNotGreaterError extends BlueprintCustomError {}
+
+export class BlueprintLimitsAlreadyConfiguredError extends BlueprintCustomError {}
+
+export class BlueprintOperationAlreadyExecutedError extends BlueprintCustomError {
+  readonly opId: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.opId = description.args.opId;
+  }
+}
+
+export class BlueprintOperationAlreadyRevertedError extends BlueprintCustomError {
+  readonly opId: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.opId = description.args.opId;
+  }
+}
+
+export class BlueprintOperationAmountLimitExceededError extends BlueprintCustomError {
+  readonly account: string;
+  readonly amount: bigint;
+  readonly limit: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+    this.amount = description.args.amount;
+    this.limit = description.args.limit;
+  }
+}
+
+export class BlueprintOperationIdZeroError extends BlueprintCustomError {}
+
+export class BlueprintOperationNonexistentError extends BlueprintCustomError {
+  readonly opId: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.opId = description.args.opId;
+  }
+}
+
+/**
+ * Thrown if a permit cannot be consumed and the current allowance is not sufficient for the deposit.
+ * The original error of the permit call is decoded into the `permitError` field.
+ */
+export class BlueprintPermitFailedError extends BlueprintCustomError {
+  readonly reason: string;
+  readonly permitError: unknown;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.reason = description.args.reason;
+    this.permitError = decodeBlueprintError({ data: this.reason });
+  }
+}
+
+export class BlueprintTokenAddressZeroError extends BlueprintCustomError {}
+
+export class BlueprintTokenAlreadyRegisteredError extends BlueprintCustomError {
+  readonly token: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.token = description.args.token;
+  }
+}
+
+export class BlueprintTokenNotSupportedError extends BlueprintCustomError {
+  readonly token: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.token = description.args.token;
+  }
+}
+
+export class BlueprintTreasuryAddressAlreadyConfiguredError extends BlueprintCustomError {}
+
+export class BlueprintOperationalTreasuryAddressZeroError extends BlueprintCustomError {}
+
+export class BlueprintTreasuryAllowanceZeroError extends BlueprintCustomError {}
+
+export class BlueprintWithdrawalFeeExcessError extends BlueprintCustomError {
+  readonly amount: bigint;
+  readonly fee: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.amount = description.args.amount;
+    this.fee = description.args.fee;
+  }
+}
+
+// ------------------ Errors of the base contracts ---------------------- //
+
+export class UUPSExtUpgradeableImplementationAddressNotContractError extends BlueprintCustomError {}
+
+export class UUPSExtUpgradeableImplementationAddressZeroError extends BlueprintCustomError {}
+
+export class UUPSExtUpgradeableImplementationCodehashMismatchError extends BlueprintCustomError {
+  readonly codehash: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.codehash = description.args.codehash;
+  }
+}
+
+export class UUPSExtUpgradeableUpgradeDelayAlreadyConfiguredError extends BlueprintCustomError {}
+
+export class UUPSExtUpgradeableUpgradeDelayInvalidError extends BlueprintCustomError {}
+
+export class UUPSExtUpgradeableUpgradeNotScheduledError extends BlueprintCustomError {
+  readonly newImplementation: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.newImplementation = description.args.newImplementation;
+  }
+}
+
+export class UUPSExtUpgradeableUpgradeNotReadyError extends BlueprintCustomError {
+  readonly readyAt: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.readyAt = description.args.readyAt;
+  }
+}
+
+export class AccessControlExtCallerNotPendingOwnerError extends BlueprintCustomError {
+  readonly account: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+  }
+}
+
+export class AccessControlExtNewOwnerAddressZeroError extends BlueprintCustomError {}
+
+export class AccessControlExtNewOwnerAlreadyOwnerError extends BlueprintCustomError {
+  readonly account: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+  }
+}
+
+export class AccessControlExtOwnerRoleChangeProhibitedError extends BlueprintCustomError {}
+
+export class AccessControlExtOwnerTransferDelayAlreadyConfiguredError extends BlueprintCustomError {}
+
+export class AccessControlExtOwnerTransferDelayInvalidError extends BlueprintCustomError {}
+
+export class AccessControlExtOwnerTransferNotPendingError extends BlueprintCustomError {}
+
+export class AccessControlExtOwnerTransferNotReadyError extends BlueprintCustomError {
+  readonly readyAt: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.readyAt = description.args.readyAt;
+  }
+}
+
+export class PausableExtOperationKindNotPausedError extends BlueprintCustomError {
+  readonly operationKind: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.operationKind = description.args.operationKind;
+  }
+}
+
+export class PausableExtOperationKindPausedError extends BlueprintCustomError {
+  readonly operationKind: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.operationKind = description.args.operationKind;
+  }
+}
+
+export class RescuableAssetProtectedError extends BlueprintCustomError {
+  readonly token: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.token = description.args.token;
+  }
+}
+
+export class AccessControlUnauthorizedAccountError extends BlueprintCustomError {
+  readonly account: string;
+  readonly neededRole: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.account = description.args.account;
+    this.neededRole = description.args.neededRole;
+  }
+}
+
+export class EnforcedPauseError extends BlueprintCustomError {}
+
+// ------------------ Errors of the underlying token -------------------- //
+
+export class ERC20InsufficientAllowanceError extends BlueprintCustomError {
+  readonly spender: string;
+  readonly allowance: bigint;
+  readonly needed: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.spender = description.args.spender;
+    this.allowance = description.args.allowance;
+    this.needed = description.args.needed;
+  }
+}
+
+export class ERC20InsufficientBalanceError extends BlueprintCustomError {
+  readonly sender: string;
+  readonly balance: bigint;
+  readonly needed: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.sender = description.args.sender;
+    this.balance = description.args.balance;
+    this.needed = description.args.needed;
+  }
+}
+
+export class ERC2612ExpiredSignatureError extends BlueprintCustomError {
+  readonly deadline: bigint;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.deadline = description.args.deadline;
+  }
+}
+
+export class ERC2612InvalidSignerError extends BlueprintCustomError {
+  readonly signer: string;
+  readonly owner: string;
+
+  constructor(description: ErrorDescription, data: string, cause?: unknown) {
+    super(description, data, cause);
+    this.signer = description.args.signer;
+    this.owner = description.args.owner;
+  }
+}
+
+type CustomErrorClass = new (description: ErrorDescription, data: string, cause?: unknown) => BlueprintCustomError;
+
+const CUSTOM_ERROR_CLASSES: Record<string, CustomErrorClass> = {
+  Blueprint_AccountAddressZero: BlueprintAccountAddressZeroError,
+  Blueprint_AccountAlreadyFrozen: BlueprintAccountAlreadyFrozenError,
+  Blueprint_AccountFrozen: BlueprintAccountFrozenError,
+  Blueprint_AccountNotFrozen: BlueprintAccountNotFrozenError,
+  Blueprint_AmountExcess: BlueprintAmountExcessError,
+  Blueprint_BalanceExcess: BlueprintBalanceExcessError,
+  Blueprint_BalanceInsufficient: BlueprintBalanceInsufficientError,
+  Blueprint_BalanceLimitExceeded: BlueprintBalanceLimitExceededError,
+  Blueprint_CounterpartyAddressZero: BlueprintCounterpartyAddressZeroError,
+  Blueprint_DailyDepositLimitExceeded: BlueprintDailyDepositLimitExceededError,
+  Blueprint_DailyWithdrawalLimitExceeded: BlueprintDailyWithdrawalLimitExceededError,
+  Blueprint_FeeRateExcess: BlueprintFeeRateExcessError,
+  Blueprint_FeeRuleAlreadyConfigured: BlueprintFeeRuleAlreadyConfiguredError,
+  Blueprint_FeeTreasuryAddressZero: BlueprintFeeTreasuryAddressZeroError,
+  Blueprint_ImplementationAddressInvalid: BlueprintImplementationAddressInvalidError,
+  Blueprint_ImplementationVersionIncompatible: BlueprintImplementationVersionIncompatibleError,
+  Blueprint_ImplementationVersionNotGreater: BlueprintImplementationVersionNotGreaterError,
+  Blueprint_LimitsAlreadyConfigured: BlueprintLimitsAlreadyConfiguredError,
+  Blueprint_OperationAlreadyExecuted: BlueprintOperationAlreadyExecutedError,
+  Blueprint_OperationAlreadyReverted: BlueprintOperationAlreadyRevertedError,
+  Blueprint_OperationAmountLimitExceeded: BlueprintOperationAmountLimitExceededError,
+  Blueprint_OperationIdZero: BlueprintOperationIdZeroError,
+  Blueprint_OperationNonexistent: BlueprintOperationNonexistentError,
+  Blueprint_PermitFailed: BlueprintPermitFailedError,
+  Blueprint_TokenAddressZero: BlueprintTokenAddressZeroError,
+  Blueprint_TokenAlreadyRegistered: BlueprintTokenAlreadyRegisteredError,
+  Blueprint_TokenNotSupported: BlueprintTokenNotSupportedError,
+  Blueprint_TreasuryAddressAlreadyConfigured: BlueprintTreasuryAddressAlreadyConfiguredError,
+  Blueprint_OperationalTreasuryAddressZero: BlueprintOperationalTreasuryAddressZeroError,
+  Blueprint_TreasuryAllowanceZero: BlueprintTreasuryAllowanceZeroError,
+  Blueprint_WithdrawalFeeExcess: BlueprintWithdrawalFeeExcessError,
+  UUPSExtUpgradeable_ImplementationAddressNotContract: UUPSExtUpgradeableImplementationAddressNotContractError,
+  UUPSExtUpgradeable_ImplementationAddressZero: UUPSExtUpgradeableImplementationAddressZeroError,
+  UUPSExtUpgradeable_ImplementationCodehashMismatch: UUPSExtUpgradeableImplementationCodehashMismatchError,
+  UUPSExtUpgradeable_UpgradeDelayAlreadyConfigured: UUPSExtUpgradeableUpgradeDelayAlreadyConfiguredError,
+  UUPSExtUpgradeable_UpgradeDelayInvalid: UUPSExtUpgradeableUpgradeDelayInvalidError,
+  UUPSExtUpgradeable_UpgradeNotScheduled: UUPSExtUpgradeableUpgradeNotScheduledError,
+  UUPSExtUpgradeable_UpgradeNotReady: UUPSExtUpgradeableUpgradeNotReadyError,
+  AccessControlExt_CallerNotPendingOwner: AccessControlExtCallerNotPendingOwnerError,
+  AccessControlExt_NewOwnerAddressZero: AccessControlExtNewOwnerAddressZeroError,
+  AccessControlExt_NewOwnerAlreadyOwner: AccessControlExtNewOwnerAlreadyOwnerError,
+  AccessControlExt_OwnerRoleChangeProhibited: AccessControlExtOwnerRoleChangeProhibitedError,
+  AccessControlExt_OwnerTransferDelayAlreadyConfigured: AccessControlExtOwnerTransferDelayAlreadyConfiguredError,
+  AccessControlExt_OwnerTransferDelayInvalid: AccessControlExtOwnerTransferDelayInvalidError,
+  AccessControlExt_OwnerTransferNotPending: AccessControlExtOwnerTransferNotPendingError,
+  AccessControlExt_OwnerTransferNotReady: AccessControlExtOwnerTransferNotReadyError,
+  PausableExt_OperationKindNotPaused: PausableExtOperationKindNotPausedError,
+  PausableExt_OperationKindPaused: PausableExtOperationKindPausedError,
+  Rescuable_AssetProtected: RescuableAssetProtectedError,
+  AccessControlUnauthorizedAccount: AccessControlUnauthorizedAccountError,
+  EnforcedPause: EnforcedPauseError,
+  ERC20InsufficientAllowance: ERC20InsufficientAllowanceError,
+  ERC20InsufficientBalance: ERC20InsufficientBalanceError,
+  ERC2612ExpiredSignature: ERC2612ExpiredSignatureError,
+  ERC2612InvalidSigner: ERC2612InvalidSignerError
+};
+
+/**
+ * Searches for the revert data in an error thrown by ethers, a JSON-RPC provider or the Hardhat network.
+ */
+function findRevertData(error: unknown, depth: number = 0): string | undefined {
+  if (error == null || typeof error !== "object" || depth > 4) {
+    return undefined;
+  }
+  const { data } = error as { data?: unknown };
+  if (typeof data === "string" && isHexString(data)) {
+    return data;
+  }
+  for (const key of ["data", "error", "info", "cause"]) {
+    const revertData = findRevertData((error as Record<string, unknown>)[key], depth + 1);
+    if (revertData != null) {
+      return revertData;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Converts an error thrown during a call to the Blueprint contract into a typed client error.
+ *
+ * Errors without revert data, e.g. network ones, are returned as is.
+ *
+ * @param error The error to convert.
+ * @return The typed error if the revert data has been found in the provided one.
+ */
+export function decodeBlueprintError(error: unknown): unknown {
+  if (error instanceof BlueprintClientError) {
+    return error;
+  }
+  const data = findRevertData(error);
+  if (data == null) {
+    return error;
+  }
+
+  let description: ErrorDescription | null = null;
+  try {
+    description = BLUEPRINT_INTERFACE.parseError(data);
+  } catch {
+    // The data is malformed, so it is treated as unknown one below
+  }
+  if (!description) {
+    return new BlueprintUnknownRevertError(data, error);
+  }
+  if (description.name === "Panic") {
+    return new BlueprintPanicError(description.args[0], data, error);
+  }
+  if (description.name === "Error") {
+    return new BlueprintRevertReasonError(description.args[0], data, error);
+  }
+  const ErrorClass = CUSTOM_ERROR_CLASSES[description.name] ?? BlueprintCustomError;
+  return new ErrorClass(description, data, error);
+}
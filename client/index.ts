@@ -0,0 +1,4 @@
+export * from "./abi";
+export * from "./errors";
+export * from "./types";
+export { BlueprintClient } from "./BlueprintClient";
@@ -0,0 +1,147 @@
+import { BigNumberish } from "ethers";
+
+/**
+ * Possible statuses of an operation. Mirrors the `OperationStatus` enum of the `IBlueprintTypes` interface.
+ */
+export enum OperationStatus {
+  Nonexistent = 0,
+  Deposit = 1,
+  Withdrawal = 2,
+  DepositReverted = 3,
+  WithdrawalReverted = 4
+}
+
+/**
+ * Possible results of the preview of an operation. Mirrors the `PreviewResult` enum of the `IBlueprintTypes` interface.
+ */
+export enum PreviewResult {
+  Success = 0,
+  ContractPaused = 1,
+  AccountAddressZero = 2,
+  OperationIdZero = 3,
+  AmountExcess = 4,
+  AccountFrozen = 5,
+  OperationalTreasuryAddressZero = 6,
+  OperationAlreadyExecuted = 7,
+  BalanceInsufficient = 8,
+  BalanceExcess = 9,
+  OperationAmountLimitExceeded = 10,
+  BalanceLimitExceeded = 11,
+  DailyDepositLimitExceeded = 12,
+  DailyWithdrawalLimitExceeded = 13,
+  FeeTreasuryAddressZero = 14,
+  AccountAllowanceInsufficient = 15,
+  TreasuryAllowanceInsufficient = 16,
+  WithdrawalFeeExcess = 17
+}
+
+/**
+ * The data of a single operation. Mirrors the `Operation` structure of the `IBlueprintTypes` interface.
+ */
+export interface Operation {
+  status: OperationStatus;
+  account: string;
+  amount: bigint;
+  fee: bigint;
+  /** The token of the operation or the zero address for the default underlying token. */
+  token: string;
+  /** The payer of a deposit or the recipient of a withdrawal, the zero address if it is the account itself. */
+  counterparty: string;
+}
+
+/**
+ * The result of the preview of an operation. The new balance is zero if the operation cannot be executed.
+ */
+export interface OperationPreview {
+  result: PreviewResult;
+  newBalance: bigint;
+}
+
+/**
+ * The rule to calculate the fee of an operation. Mirrors the `FeeRule` structure of the `IBlueprintTypes` interface.
+ */
+export interface FeeRule {
+  rate: number;
+  minimum: bigint;
+}
+
+/**
+ * The limits of operations applied to an account. A zero field means that the related limit is not applied.
+ * Mirrors the `Limits` structure of the `IBlueprintTypes` interface.
+ */
+export interface Limits {
+  maxBalance: bigint;
+  maxOperationAmount: bigint;
+  maxDailyDeposit: bigint;
+  maxDailyWithdrawal: bigint;
+}
+
+/**
+ * The volume of operations of an account within a day.
+ * Mirrors the `DailyVolume` structure of the `IBlueprintTypes` interface.
+ */
+export interface DailyVolume {
+  day: number;
+  depositVolume: bigint;
+  withdrawalVolume: bigint;
+}
+
+/**
+ * The state of a single account. Mirrors the `AccountState` structure of the `IBlueprintTypes` interface.
+ */
+export interface AccountState {
+  lastOpId: string;
+  balance: bigint;
+  operationCount: bigint;
+}
+
+/**
+ * The parameters of a single operation within a batch one.
+ * Mirrors the `OperationItem` structure of the `IBlueprintTypes` interface.
+ */
+export interface OperationItem {
+  account: string;
+  amount: BigNumberish;
+  opId: string;
+}
+
+/**
+ * The EIP-2612 permit signed by an account to allow the contract to spend its tokens.
+ * Mirrors the `Permit` structure of the `IBlueprintTypes` interface.
+ */
+export interface Permit {
+  value: BigNumberish;
+  deadline: BigNumberish;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * The version of the contract. Mirrors the `Version` structure of the `IVersionable` interface.
+ */
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+/**
+ * The pending transfer of the owner role. All fields are zero if there is no pending transfer.
+ * Mirrors the result of the `getPendingOwnerTransfer()` function of the `AccessControlExtUpgradeable` contract.
+ */
+export interface OwnerTransfer {
+  proposer: string;
+  newOwner: string;
+  readyAt: bigint;
+}
+
+/**
+ * The scheduled upgrade of the contract. All fields are zero if there is no scheduled upgrade.
+ * Mirrors the result of the `getScheduledUpgrade()` function of the `UUPSExtUpgradeable` contract.
+ */
+export interface ScheduledUpgrade {
+  newImplementation: string;
+  codehash: string;
+  readyAt: bigint;
+}
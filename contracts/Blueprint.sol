@@ -2,7 +2,10 @@
 
 pragma solidity 0.8.24;
 
+import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { IERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import { EnumerableMap } from "@openzeppelin/contracts/utils/structs/EnumerableMap.sol";
 
 import { AccessControlExtUpgradeable } from "./base/AccessControlExtUpgradeable.sol";
 import { PausableExtUpgradeable } from "./base/PausableExtUpgradeable.sol";
@@ -13,6 +16,7 @@ import { UUPSExtUpgradeable } from "./base/UUPSExtUpgradeable.sol";
 import { IBlueprint } from "./interfaces/IBlueprint.sol";
 import { IBlueprintPrimary } from "./interfaces/IBlueprint.sol";
 import { IBlueprintConfiguration } from "./interfaces/IBlueprint.sol";
+import { IVersionable } from "./interfaces/IVersionable.sol";
 
 import { BlueprintStorageLayout } from "./BlueprintStorageLayout.sol";
 
@@ -33,6 +37,8 @@ contract Blueprint is
     Versionable,
     IBlueprint
 {
+    using EnumerableMap for EnumerableMap.AddressToAddressMap;
+
     // ------------------ Constants ------------------------------- //
 
     /// @dev The kind of operation that is deposit.
@@ -41,6 +47,12 @@ contract Blueprint is
     /// @dev The kind of operation that is withdrawal.
     uint256 internal constant OPERATION_KIND_WITHDRAWAL = 1;
 
+    /// @dev The denominator of fee rates in basis points.
+    uint256 internal constant FEE_RATE_DENOMINATOR = 10000;
+
+    /// @dev The duration of the window to apply the daily limits within.
+    uint256 internal constant DAY_DURATION = 1 days;
+
     // ------------------ Constructor ----------------------------- //
 
     /**
@@ -77,6 +89,8 @@ contract Blueprint is
         _getBlueprintStorage().token = token_;
 
         _setRoleAdmin(MANAGER_ROLE, GRANTOR_ROLE);
+        _setRoleAdmin(LIMITS_ADMIN_ROLE, GRANTOR_ROLE);
+        _setRoleAdmin(FREEZER_ROLE, GRANTOR_ROLE);
         _grantRole(OWNER_ROLE, _msgSender());
     }
 
@@ -92,19 +106,140 @@ contract Blueprint is
      * - The new operational treasury address must not be the same as already configured.
      */
     function setOperationalTreasury(address newTreasury) external onlyRole(OWNER_ROLE) {
+        _setOperationalTreasury(_getBlueprintStorage().token, newTreasury);
+    }
+
+    /**
+     * @inheritdoc IBlueprintConfiguration
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {OWNER_ROLE} role.
+     * - The provided token must be supported.
+     * - The new operational treasury must have granted the contract allowance to spend the token if it is non-zero.
+     * - The new operational treasury address must not be the same as already configured.
+     */
+    function setTokenOperationalTreasury(address token, address newTreasury) external onlyRole(OWNER_ROLE) {
+        _setOperationalTreasury(token, newTreasury);
+    }
+
+    /**
+     * @inheritdoc IBlueprintConfiguration
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {OWNER_ROLE} role.
+     * - The provided token address must not be zero.
+     * - The provided token must not be supported already.
+     */
+    function registerToken(address token) external onlyRole(OWNER_ROLE) {
         BlueprintStorage storage $ = _getBlueprintStorage();
-        address oldTreasury = $.operationalTreasury;
+        if (token == address(0)) {
+            revert Blueprint_TokenAddressZero();
+        }
+        if (_isTokenSupported(token, $)) {
+            revert Blueprint_TokenAlreadyRegistered(token);
+        }
+
+        emit TokenRegistered(token);
+        $.tokenTreasuries.set(token, address(0));
+    }
+
+    /**
+     * @inheritdoc IBlueprintConfiguration
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {OWNER_ROLE} role.
+     * - The new fee treasury address must not be the same as already configured.
+     */
+    function setFeeTreasury(address newTreasury) external onlyRole(OWNER_ROLE) {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        address oldTreasury = $.feeTreasury;
         if (newTreasury == oldTreasury) {
             revert Blueprint_TreasuryAddressAlreadyConfigured();
         }
-        if (newTreasury != address(0)) {
-            if (IERC20($.token).allowance(newTreasury, address(this)) == 0) {
-                revert Blueprint_TreasuryAllowanceZero();
-            }
+
+        emit FeeTreasuryChanged(newTreasury, oldTreasury);
+        $.feeTreasury = newTreasury;
+    }
+
+    /**
+     * @inheritdoc IBlueprintConfiguration
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {OWNER_ROLE} role.
+     * - The new fee rate must not be greater than 100%.
+     * - The new fee rule must not be the same as already configured.
+     */
+    function setDepositFeeRule(uint16 newRate, uint64 newMinimum) external onlyRole(OWNER_ROLE) {
+        FeeRule storage rule = _getBlueprintStorage().depositFeeRule;
+        _checkFeeRule(rule, newRate, newMinimum);
+
+        emit DepositFeeRuleChanged(newRate, newMinimum, rule.rate, rule.minimum);
+        rule.rate = newRate;
+        rule.minimum = newMinimum;
+    }
+
+    /**
+     * @inheritdoc IBlueprintConfiguration
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {OWNER_ROLE} role.
+     * - The new fee rate must not be greater than 100%.
+     * - The new fee rule must not be the same as already configured.
+     */
+    function setWithdrawalFeeRule(uint16 newRate, uint64 newMinimum) external onlyRole(OWNER_ROLE) {
+        FeeRule storage rule = _getBlueprintStorage().withdrawalFeeRule;
+        _checkFeeRule(rule, newRate, newMinimum);
+
+        emit WithdrawalFeeRuleChanged(newRate, newMinimum, rule.rate, rule.minimum);
+        rule.rate = newRate;
+        rule.minimum = newMinimum;
+    }
+
+    /**
+     * @inheritdoc IBlueprintConfiguration
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {LIMITS_ADMIN_ROLE} role.
+     * - The new limits must not be the same as already configured.
+     */
+    function setDefaultLimits(Limits calldata newLimits) external onlyRole(LIMITS_ADMIN_ROLE) {
+        Limits storage limits = _getBlueprintStorage().defaultLimits;
+        _checkLimitsChange(limits, newLimits);
+
+        emit DefaultLimitsChanged(newLimits, limits);
+        limits.maxBalance = newLimits.maxBalance;
+        limits.maxOperationAmount = newLimits.maxOperationAmount;
+        limits.maxDailyDeposit = newLimits.maxDailyDeposit;
+        limits.maxDailyWithdrawal = newLimits.maxDailyWithdrawal;
+    }
+
+    /**
+     * @inheritdoc IBlueprintConfiguration
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {LIMITS_ADMIN_ROLE} role.
+     * - The provided account address must not be zero.
+     * - The new limits must not be the same as already configured.
+     */
+    function setAccountLimits(address account, Limits calldata newLimits) external onlyRole(LIMITS_ADMIN_ROLE) {
+        if (account == address(0)) {
+            revert Blueprint_AccountAddressZero();
         }
+        Limits storage limits = _getBlueprintStorage().accountLimits[account];
+        _checkLimitsChange(limits, newLimits);
 
-        emit OperationalTreasuryChanged(newTreasury, oldTreasury);
-        $.operationalTreasury = newTreasury;
+        emit AccountLimitsChanged(account, newLimits, limits);
+        limits.maxBalance = newLimits.maxBalance;
+        limits.maxOperationAmount = newLimits.maxOperationAmount;
+        limits.maxDailyDeposit = newLimits.maxDailyDeposit;
+        limits.maxDailyWithdrawal = newLimits.maxDailyWithdrawal;
     }
 
     /**
@@ -113,16 +248,41 @@ contract Blueprint is
      * @dev Requirements:
      *
      * - The contract must not be paused.
+     * - Deposits must not be paused.
      * - The caller must have the {MANAGER_ROLE} role.
      * - The provided account address must not be zero.
      * - The provided operation identifier must not be zero.
+     * - The account must not be frozen.
+     * - The operation must not exceed the limits applied to the account.
+     * - The fee treasury must be configured if the fee of the operation is non-zero.
      */
     function deposit(
         address account, // Tools: this comment prevents Prettier from formatting into a single line
         uint256 amount,
         bytes32 opId
     ) external whenNotPaused onlyRole(MANAGER_ROLE) {
-        _executeOperation(account, amount, opId, OPERATION_KIND_DEPOSIT);
+        _executeOperation(_getBlueprintStorage().token, account, account, amount, opId, OPERATION_KIND_DEPOSIT);
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The contract must not be paused.
+     * - Deposits must not be paused.
+     * - The caller must have the {MANAGER_ROLE} role.
+     * - The permit must be consumed successfully or the current allowance must cover the amount and the fee.
+     * - All the requirements of the {deposit} function.
+     */
+    function depositWithPermit(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        uint256 amount,
+        bytes32 opId,
+        Permit calldata permit
+    ) external whenNotPaused onlyRole(MANAGER_ROLE) {
+        _consumePermit(account, amount, permit);
+        _executeOperation(_getBlueprintStorage().token, account, account, amount, opId, OPERATION_KIND_DEPOSIT);
     }
 
     /**
@@ -131,20 +291,284 @@ contract Blueprint is
      * @dev Requirements:
      *
      * - The contract must not be paused.
+     * - Withdrawals must not be paused.
      * - The caller must have the {MANAGER_ROLE} role.
      * - The provided account address must not be zero.
      * - The provided operation identifier must not be zero.
+     * - The account must not be frozen.
+     * - The balance of the account must not be less than the amount.
+     * - The operation must not exceed the limits applied to the account.
+     * - The fee treasury must be configured if the fee of the operation is non-zero.
+     * - The fee of the operation must not be greater than its amount.
      */
     function withdraw(
         address account, // Tools: this comment prevents Prettier from formatting into a single line
         uint256 amount,
         bytes32 opId
     ) external whenNotPaused onlyRole(MANAGER_ROLE) {
-        _executeOperation(account, amount, opId, OPERATION_KIND_WITHDRAWAL);
+        _executeOperation(_getBlueprintStorage().token, account, account, amount, opId, OPERATION_KIND_WITHDRAWAL);
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The contract must not be paused.
+     * - Deposits must not be paused.
+     * - The caller must have the {MANAGER_ROLE} role.
+     * - The provided token must be supported and have a configured operational treasury.
+     * - All the requirements of the {deposit} function.
+     */
+    function depositToken(
+        address token, // Tools: this comment prevents Prettier from formatting into a single line
+        address account,
+        uint256 amount,
+        bytes32 opId
+    ) external whenNotPaused onlyRole(MANAGER_ROLE) {
+        _executeOperation(token, account, account, amount, opId, OPERATION_KIND_DEPOSIT);
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The contract must not be paused.
+     * - Withdrawals must not be paused.
+     * - The caller must have the {MANAGER_ROLE} role.
+     * - The provided token must be supported and have a configured operational treasury.
+     * - All the requirements of the {withdraw} function.
+     */
+    function withdrawToken(
+        address token, // Tools: this comment prevents Prettier from formatting into a single line
+        address account,
+        uint256 amount,
+        bytes32 opId
+    ) external whenNotPaused onlyRole(MANAGER_ROLE) {
+        _executeOperation(token, account, account, amount, opId, OPERATION_KIND_WITHDRAWAL);
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The contract must not be paused.
+     * - Deposits must not be paused.
+     * - The caller must have the {MANAGER_ROLE} role.
+     * - The provided payer address must not be zero.
+     * - All the requirements of the {deposit} function.
+     */
+    function depositFrom(
+        address payer, // Tools: this comment prevents Prettier from formatting into a single line
+        address account,
+        uint256 amount,
+        bytes32 opId
+    ) external whenNotPaused onlyRole(MANAGER_ROLE) {
+        _executeOperation(_getBlueprintStorage().token, account, payer, amount, opId, OPERATION_KIND_DEPOSIT);
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The contract must not be paused.
+     * - Withdrawals must not be paused.
+     * - The caller must have the {MANAGER_ROLE} role.
+     * - The provided recipient address must not be zero.
+     * - All the requirements of the {withdraw} function.
+     */
+    function withdrawTo(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        address recipient,
+        uint256 amount,
+        bytes32 opId
+    ) external whenNotPaused onlyRole(MANAGER_ROLE) {
+        _executeOperation(_getBlueprintStorage().token, account, recipient, amount, opId, OPERATION_KIND_WITHDRAWAL);
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The contract must not be paused.
+     * - Deposits must not be paused.
+     * - The caller must have the {MANAGER_ROLE} role.
+     * - Each item must meet the requirements of the {deposit} function.
+     */
+    function depositBatch(OperationItem[] calldata items) external whenNotPaused onlyRole(MANAGER_ROLE) {
+        _executeOperationBatch(items, OPERATION_KIND_DEPOSIT);
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The contract must not be paused.
+     * - Withdrawals must not be paused.
+     * - The caller must have the {MANAGER_ROLE} role.
+     * - Each item must meet the requirements of the {withdraw} function.
+     */
+    function withdrawBatch(OperationItem[] calldata items) external whenNotPaused onlyRole(MANAGER_ROLE) {
+        _executeOperationBatch(items, OPERATION_KIND_WITHDRAWAL);
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The contract must not be paused.
+     * - The caller must have the {MANAGER_ROLE} role.
+     * - The operation with the provided identifier must be executed and not reverted yet.
+     * - The account of the operation must not be frozen.
+     * - The balance of the account must be sufficient to revert a deposit.
+     * - The balance of the account must not exceed its limit after a withdrawal is reverted.
+     */
+    function revertOperation(bytes32 opId) external whenNotPaused onlyRole(MANAGER_ROLE) {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        Operation storage operation = $.operations[opId];
+        OperationStatus status = operation.status;
+        if (status == OperationStatus.Nonexistent) {
+            revert Blueprint_OperationNonexistent(opId);
+        }
+        if (status == OperationStatus.DepositReverted || status == OperationStatus.WithdrawalReverted) {
+            revert Blueprint_OperationAlreadyReverted(opId);
+        }
+
+        address token = operation.token;
+        if (token == address(0)) {
+            token = $.token;
+        }
+        address treasury = _getAndCheckOperationalTreasury(token, $);
+        address account = operation.account;
+        _checkAccountNotFrozen(account, $);
+        uint256 amount = operation.amount;
+        AccountState storage state = _getAccountState(account, token, $);
+
+        uint256 oldBalance = state.balance;
+        uint256 newBalance = oldBalance;
+
+        if (status == OperationStatus.Deposit) {
+            operation.status = OperationStatus.DepositReverted;
+            if (amount > oldBalance) {
+                revert Blueprint_BalanceInsufficient(account, oldBalance, amount);
+            }
+            newBalance -= amount;
+        } else {
+            operation.status = OperationStatus.WithdrawalReverted;
+            // The fee is not refunded, so only the amount received by the recipient is returned
+            newBalance += amount - operation.fee;
+            if (newBalance > type(uint64).max) {
+                revert Blueprint_BalanceExcess();
+            }
+            uint256 maxBalance = _getEffectiveLimits(account, $).maxBalance;
+            if (maxBalance != 0 && newBalance > maxBalance) {
+                revert Blueprint_BalanceLimitExceeded(account, newBalance, maxBalance);
+            }
+        }
+        _rollBackDailyVolume(account, token, amount, opId, status == OperationStatus.Deposit, $);
+
+        state.balance = uint64(newBalance);
+        state.operationCount += 1;
+        state.lastOpId = opId;
+
+        if (token == $.token) {
+            emit OperationReverted(
+                opId, // Tools: this comment prevents Prettier from formatting into a single line
+                account,
+                newBalance,
+                oldBalance
+            );
+        } else {
+            emit TokenOperationReverted(opId, account, token, newBalance, oldBalance);
+        }
+
+        address counterparty = operation.counterparty;
+        if (counterparty == address(0)) {
+            counterparty = account;
+        }
+        if (status == OperationStatus.Deposit) {
+            _transferTokens(token, treasury, counterparty, amount);
+        } else {
+            _transferTokens(token, counterparty, treasury, newBalance - oldBalance);
+        }
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {FREEZER_ROLE} role.
+     * - The provided account address must not be zero.
+     * - The account must not be frozen already.
+     */
+    function freezeAccount(address account, uint256 reasonCode) external onlyRole(FREEZER_ROLE) {
+        _freezeAccount(account, reasonCode, _getBlueprintStorage());
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {FREEZER_ROLE} role.
+     * - Each account must meet the requirements of the {freezeAccount} function.
+     */
+    function freezeAccountBatch(address[] calldata accounts, uint256 reasonCode) external onlyRole(FREEZER_ROLE) {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        uint256 count = accounts.length;
+        for (uint256 i = 0; i < count; ++i) {
+            _freezeAccount(accounts[i], reasonCode, $);
+        }
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {FREEZER_ROLE} role.
+     * - The account must be frozen.
+     */
+    function unfreezeAccount(address account, uint256 reasonCode) external onlyRole(FREEZER_ROLE) {
+        _unfreezeAccount(account, reasonCode, _getBlueprintStorage());
+    }
+
+    /**
+     * @inheritdoc IBlueprintPrimary
+     *
+     * @dev Requirements:
+     *
+     * - The caller must have the {FREEZER_ROLE} role.
+     * - Each account must meet the requirements of the {unfreezeAccount} function.
+     */
+    function unfreezeAccountBatch(address[] calldata accounts, uint256 reasonCode) external onlyRole(FREEZER_ROLE) {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        uint256 count = accounts.length;
+        for (uint256 i = 0; i < count; ++i) {
+            _unfreezeAccount(accounts[i], reasonCode, $);
+        }
     }
 
     // ------------------ View functions -------------------------- //
 
+    /**
+     * @dev Returns true if the contract implements the interface defined by the provided identifier.
+     *
+     * Combines the interfaces of the access control and the rescue of assets.
+     */
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view override(AccessControlUpgradeable, RescuableUpgradeable) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
     /// @inheritdoc IBlueprintPrimary
     function getOperation(bytes32 opId) external view returns (Operation memory) {
         return _getBlueprintStorage().operations[opId];
@@ -160,6 +584,48 @@ contract Blueprint is
         return _getBlueprintStorage().accountStates[account].balance;
     }
 
+    /// @inheritdoc IBlueprintPrimary
+    function getAccountTokenState(address account, address token) external view returns (AccountState memory) {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        return _getAccountState(account, token, $);
+    }
+
+    /// @inheritdoc IBlueprintPrimary
+    function balanceOfToken(address account, address token) external view returns (uint256) {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        return _getAccountState(account, token, $).balance;
+    }
+
+    /// @inheritdoc IBlueprintPrimary
+    function getAccountOperationIds(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        uint256 offset,
+        uint256 limit
+    ) external view returns (bytes32[] memory) {
+        return _getAccountOperationIds(account, offset, limit, _getBlueprintStorage());
+    }
+
+    /// @inheritdoc IBlueprintPrimary
+    function getAccountOperations(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Operation[] memory) {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        bytes32[] memory opIds = _getAccountOperationIds(account, offset, limit, $);
+        uint256 count = opIds.length;
+        Operation[] memory operations = new Operation[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            operations[i] = $.operations[opIds[i]];
+        }
+        return operations;
+    }
+
+    /// @inheritdoc IBlueprintPrimary
+    function isAccountFrozen(address account) external view returns (bool) {
+        return _getBlueprintStorage().frozenAccounts[account];
+    }
+
     /// @inheritdoc IBlueprintPrimary
     function underlyingToken() external view returns (address) {
         return _getBlueprintStorage().token;
@@ -170,6 +636,71 @@ contract Blueprint is
         return _getBlueprintStorage().operationalTreasury;
     }
 
+    /**
+     * @inheritdoc IBlueprintConfiguration
+     *
+     * @dev Requirements:
+     *
+     * - The provided token must be supported.
+     */
+    function getTokenOperationalTreasury(address token) external view returns (address) {
+        return _getOperationalTreasury(token, _getBlueprintStorage());
+    }
+
+    /// @inheritdoc IBlueprintConfiguration
+    function getSupportedTokens() external view returns (address[] memory) {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        address[] memory additionalTokens = $.tokenTreasuries.keys();
+        uint256 count = additionalTokens.length;
+        address[] memory tokens = new address[](count + 1);
+        tokens[0] = $.token;
+        for (uint256 i = 0; i < count; ++i) {
+            tokens[i + 1] = additionalTokens[i];
+        }
+        return tokens;
+    }
+
+    /// @inheritdoc IBlueprintConfiguration
+    function feeTreasury() external view returns (address) {
+        return _getBlueprintStorage().feeTreasury;
+    }
+
+    /// @inheritdoc IBlueprintConfiguration
+    function depositFeeRule() external view returns (FeeRule memory) {
+        return _getBlueprintStorage().depositFeeRule;
+    }
+
+    /// @inheritdoc IBlueprintConfiguration
+    function withdrawalFeeRule() external view returns (FeeRule memory) {
+        return _getBlueprintStorage().withdrawalFeeRule;
+    }
+
+    /// @inheritdoc IBlueprintConfiguration
+    function defaultLimits() external view returns (Limits memory) {
+        return _getBlueprintStorage().defaultLimits;
+    }
+
+    /// @inheritdoc IBlueprintConfiguration
+    function getAccountLimits(address account) external view returns (Limits memory) {
+        return _getBlueprintStorage().accountLimits[account];
+    }
+
+    /// @inheritdoc IBlueprintConfiguration
+    function getEffectiveLimits(address account) external view returns (Limits memory) {
+        return _getEffectiveLimits(account, _getBlueprintStorage());
+    }
+
+    /// @inheritdoc IBlueprintConfiguration
+    function getDailyVolume(address account) external view returns (DailyVolume memory) {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        return _getCurrentDailyVolume(account, $.token, $);
+    }
+
+    /// @inheritdoc IBlueprintConfiguration
+    function getTokenDailyVolume(address account, address token) external view returns (DailyVolume memory) {
+        return _getCurrentDailyVolume(account, token, _getBlueprintStorage());
+    }
+
     // ------------------ Pure functions -------------------------- //
 
     /// @inheritdoc IBlueprint
@@ -179,21 +710,50 @@ contract Blueprint is
 
     /**
      * @dev Executes an operation on the contract.
+     *
+     * The token and the counterparty of the operation are stored only if they are not the default underlying token
+     * and the account itself to keep the usual operations the same as the ones executed by the previous versions.
+     *
+     * The checks are mirrored by the {BlueprintLens} contract, so they must be updated together with it.
+     *
+     * @param token The token of the operation.
      * @param account The account involved in the operation.
+     * @param counterparty The payer of a deposit or the recipient of a withdrawal, usually the account itself.
      * @param amount The amount of the operation.
      * @param opId The off-chain identifier of the operation.
      * @param operationKind The kind of operation: 0 - deposit, 1 - withdrawal.
      */
-    function _executeOperation(address account, uint256 amount, bytes32 opId, uint256 operationKind) internal {
+    function _executeOperation(
+        address token,
+        address account,
+        address counterparty,
+        uint256 amount,
+        bytes32 opId,
+        uint256 operationKind
+    ) internal {
+        _requireOperationKindNotPaused(
+            operationKind == OPERATION_KIND_DEPOSIT ? DEPOSIT_OPERATION_KIND : WITHDRAWAL_OPERATION_KIND
+        );
         _checkOperationParameters(account, amount, opId);
+        if (counterparty == address(0)) {
+            revert Blueprint_CounterpartyAddressZero();
+        }
         BlueprintStorage storage $ = _getBlueprintStorage();
-        address treasury = _getAndCheckOperationalTreasury($);
+        _checkAccountNotFrozen(account, $);
+        address treasury = _getAndCheckOperationalTreasury(token, $);
+        bool isDefaultToken = token == $.token;
 
         Operation storage operation = _getAndCheckOperation(opId, $);
         operation.account = account;
         operation.amount = uint64(amount);
+        if (!isDefaultToken) {
+            operation.token = token;
+        }
+        if (counterparty != account) {
+            operation.counterparty = counterparty;
+        }
 
-        AccountState storage state = $.accountStates[account];
+        AccountState storage state = _getAccountState(account, token, $);
 
         uint256 oldBalance = state.balance;
         uint256 newBalance = oldBalance;
@@ -205,26 +765,371 @@ contract Blueprint is
                 revert Blueprint_BalanceExcess();
             }
         } else {
+            if (amount > oldBalance) {
+                revert Blueprint_BalanceInsufficient(account, oldBalance, amount);
+            }
             newBalance -= amount;
             operation.status = OperationStatus.Withdrawal;
         }
 
+        _checkAndUpdateLimits(account, token, amount, newBalance, opId, operationKind, $);
+
         state.balance = uint64(newBalance);
         state.operationCount += 1;
         state.lastOpId = opId;
+        $.accountOperationIds[account].push(opId);
 
-        emit BalanceUpdated(
-            opId, // Tools: this comment prevents Prettier from formatting into a single line
-            account,
-            newBalance,
-            oldBalance
+        uint256 fee = _calculateFee(
+            operationKind == OPERATION_KIND_DEPOSIT ? $.depositFeeRule : $.withdrawalFeeRule,
+            amount
         );
+        if (operationKind == OPERATION_KIND_WITHDRAWAL && fee > amount) {
+            revert Blueprint_WithdrawalFeeExcess(amount, fee);
+        }
+        address feeTreasury_ = address(0);
+        if (fee != 0) {
+            feeTreasury_ = $.feeTreasury;
+            if (feeTreasury_ == address(0)) {
+                revert Blueprint_FeeTreasuryAddressZero();
+            }
+            operation.fee = uint64(fee);
+        }
+
+        if (isDefaultToken) {
+            emit BalanceUpdated(
+                opId, // Tools: this comment prevents Prettier from formatting into a single line
+                account,
+                newBalance,
+                oldBalance
+            );
+        } else {
+            emit TokenBalanceUpdated(opId, account, token, newBalance, oldBalance);
+        }
 
         if (operationKind == OPERATION_KIND_DEPOSIT) {
-            IERC20($.token).transferFrom(account, treasury, amount);
+            if (counterparty != account) {
+                emit DepositedFrom(opId, account, counterparty);
+            }
+            _transferTokens(token, counterparty, treasury, amount);
         } else {
-            IERC20($.token).transferFrom(treasury, account, amount);
+            if (counterparty != account) {
+                emit WithdrawnTo(opId, account, counterparty);
+            }
+            _transferTokens(token, treasury, counterparty, amount - fee);
+        }
+
+        if (fee != 0) {
+            emit FeeCharged(opId, account, fee);
+            _transferTokens(token, operationKind == OPERATION_KIND_DEPOSIT ? counterparty : treasury, feeTreasury_, fee);
+        }
+    }
+
+    /**
+     * @dev Returns a page of the identifiers of the operations of an account.
+     * @param account The account to get the operations of.
+     * @param offset The index of the first operation of the page.
+     * @param limit The maximum number of operations in the page.
+     * @return The identifiers of the operations, an empty array if the offset is beyond the end of the list.
+     */
+    function _getAccountOperationIds(
+        address account,
+        uint256 offset,
+        uint256 limit,
+        BlueprintStorage storage $
+    ) internal view returns (bytes32[] memory) {
+        bytes32[] storage allOpIds = $.accountOperationIds[account];
+        uint256 length = allOpIds.length;
+        if (offset >= length) {
+            return new bytes32[](0);
+        }
+        uint256 count = length - offset;
+        if (count > limit) {
+            count = limit;
+        }
+        bytes32[] memory opIds = new bytes32[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            opIds[i] = allOpIds[offset + i];
         }
+        return opIds;
+    }
+
+    /**
+     * @dev Consumes the permit of an account to set its allowance for the contract.
+     *
+     * Anyone can submit a permit to the token once it is signed, so the permit call can fail
+     * if the permit has been already consumed by front-running. In that case the allowance it has set is used,
+     * otherwise the original error of the permit call is wrapped.
+     *
+     * @param account The account that has signed the permit.
+     * @param amount The amount of the deposit operation.
+     * @param permit The permit of the account for the contract to spend its tokens.
+     */
+    function _consumePermit(address account, uint256 amount, Permit calldata permit) internal {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        address token = $.token;
+        try
+            IERC20Permit(token).permit(
+                account,
+                address(this),
+                permit.value,
+                permit.deadline,
+                permit.v,
+                permit.r,
+                permit.s
+            )
+        {} catch (bytes memory reason) {
+            uint256 needed = amount + _calculateFee($.depositFeeRule, amount);
+            if (_getAllowance(token, account) < needed) {
+                revert Blueprint_PermitFailed(reason);
+            }
+        }
+    }
+
+    /**
+     * @dev Freezes an account.
+     * @param account The account to freeze.
+     * @param reasonCode The off-chain code of the reason to freeze the account.
+     */
+    function _freezeAccount(address account, uint256 reasonCode, BlueprintStorage storage $) internal {
+        if (account == address(0)) {
+            revert Blueprint_AccountAddressZero();
+        }
+        if ($.frozenAccounts[account]) {
+            revert Blueprint_AccountAlreadyFrozen(account);
+        }
+
+        emit AccountFrozen(account, reasonCode);
+        $.frozenAccounts[account] = true;
+    }
+
+    /**
+     * @dev Unfreezes an account.
+     * @param account The account to unfreeze.
+     * @param reasonCode The off-chain code of the reason to unfreeze the account.
+     */
+    function _unfreezeAccount(address account, uint256 reasonCode, BlueprintStorage storage $) internal {
+        if (!$.frozenAccounts[account]) {
+            revert Blueprint_AccountNotFrozen(account);
+        }
+
+        emit AccountUnfrozen(account, reasonCode);
+        delete $.frozenAccounts[account];
+    }
+
+    /// @dev Checks that an account is not frozen.
+    function _checkAccountNotFrozen(address account, BlueprintStorage storage $) internal view {
+        if ($.frozenAccounts[account]) {
+            revert Blueprint_AccountFrozen(account);
+        }
+    }
+
+    /**
+     * @dev Checks an operation against the limits applied to the account and updates its daily volume in the token.
+     *
+     * The daily volume of deposits or withdrawals is updated only if the related daily limit is applied.
+     * In that case the day of the volume is recorded for the operation to remove it from the volume if it is reverted.
+     *
+     * @param account The account involved in the operation.
+     * @param token The token of the operation.
+     * @param amount The amount of the operation.
+     * @param newBalance The balance of the account after the operation.
+     * @param opId The off-chain identifier of the operation.
+     * @param operationKind The kind of operation: 0 - deposit, 1 - withdrawal.
+     */
+    function _checkAndUpdateLimits(
+        address account,
+        address token,
+        uint256 amount,
+        uint256 newBalance,
+        bytes32 opId,
+        uint256 operationKind,
+        BlueprintStorage storage $
+    ) internal {
+        Limits memory limits = _getEffectiveLimits(account, $);
+        if (limits.maxOperationAmount != 0 && amount > limits.maxOperationAmount) {
+            revert Blueprint_OperationAmountLimitExceeded(account, amount, limits.maxOperationAmount);
+        }
+
+        uint256 dailyLimit;
+        if (operationKind == OPERATION_KIND_DEPOSIT) {
+            if (limits.maxBalance != 0 && newBalance > limits.maxBalance) {
+                revert Blueprint_BalanceLimitExceeded(account, newBalance, limits.maxBalance);
+            }
+            dailyLimit = limits.maxDailyDeposit;
+        } else {
+            dailyLimit = limits.maxDailyWithdrawal;
+        }
+        if (dailyLimit == 0) {
+            return;
+        }
+
+        DailyVolume storage volume = _getDailyVolume(account, token, $);
+        uint32 today = uint32(block.timestamp / DAY_DURATION);
+        if (volume.day != today) {
+            volume.day = today;
+            volume.depositVolume = 0;
+            volume.withdrawalVolume = 0;
+        }
+        if (operationKind == OPERATION_KIND_DEPOSIT) {
+            uint256 oldVolume = volume.depositVolume;
+            if (oldVolume + amount > dailyLimit) {
+                revert Blueprint_DailyDepositLimitExceeded(account, oldVolume, amount, dailyLimit);
+            }
+            volume.depositVolume = uint64(oldVolume + amount);
+        } else {
+            uint256 oldVolume = volume.withdrawalVolume;
+            if (oldVolume + amount > dailyLimit) {
+                revert Blueprint_DailyWithdrawalLimitExceeded(account, oldVolume, amount, dailyLimit);
+            }
+            volume.withdrawalVolume = uint64(oldVolume + amount);
+        }
+        $.operationVolumeDays[opId] = today;
+    }
+
+    /**
+     * @dev Removes a reverted operation from the daily volume of the account if the volume is still tracked.
+     * @param account The account involved in the operation.
+     * @param token The token of the operation.
+     * @param amount The amount of the operation.
+     * @param opId The off-chain identifier of the operation.
+     * @param isDeposit True if the operation is a deposit, false if it is a withdrawal.
+     */
+    function _rollBackDailyVolume(
+        address account,
+        address token,
+        uint256 amount,
+        bytes32 opId,
+        bool isDeposit,
+        BlueprintStorage storage $
+    ) internal {
+        uint32 day = $.operationVolumeDays[opId];
+        if (day == 0) {
+            return;
+        }
+        delete $.operationVolumeDays[opId];
+
+        // The volume includes the operation until the day changes, so the subtraction cannot underflow
+        DailyVolume storage volume = _getDailyVolume(account, token, $);
+        if (volume.day != day) {
+            return;
+        }
+        if (isDeposit) {
+            volume.depositVolume -= uint64(amount);
+        } else {
+            volume.withdrawalVolume -= uint64(amount);
+        }
+    }
+
+    /**
+     * @dev Returns the limits applied to an account.
+     *
+     * Each non-zero field of the account limits overrides the related field of the default ones.
+     *
+     * @param account The account to get the limits of.
+     * @return The effective limits of the account.
+     */
+    function _getEffectiveLimits(address account, BlueprintStorage storage $) internal view returns (Limits memory) {
+        Limits memory limits = $.defaultLimits;
+        Limits storage accountLimits = $.accountLimits[account];
+        if (accountLimits.maxBalance != 0) {
+            limits.maxBalance = accountLimits.maxBalance;
+        }
+        if (accountLimits.maxOperationAmount != 0) {
+            limits.maxOperationAmount = accountLimits.maxOperationAmount;
+        }
+        if (accountLimits.maxDailyDeposit != 0) {
+            limits.maxDailyDeposit = accountLimits.maxDailyDeposit;
+        }
+        if (accountLimits.maxDailyWithdrawal != 0) {
+            limits.maxDailyWithdrawal = accountLimits.maxDailyWithdrawal;
+        }
+        return limits;
+    }
+
+    /**
+     * @dev Checks new limits before setting them.
+     * @param limits The currently configured limits.
+     * @param newLimits The new limits.
+     */
+    function _checkLimitsChange(Limits storage limits, Limits calldata newLimits) internal view {
+        if (
+            limits.maxBalance == newLimits.maxBalance &&
+            limits.maxOperationAmount == newLimits.maxOperationAmount &&
+            limits.maxDailyDeposit == newLimits.maxDailyDeposit &&
+            limits.maxDailyWithdrawal == newLimits.maxDailyWithdrawal
+        ) {
+            revert Blueprint_LimitsAlreadyConfigured();
+        }
+    }
+
+    /**
+     * @dev Calculates the fee of an operation.
+     * @param rule The fee rule of the operation kind.
+     * @param amount The amount of the operation.
+     * @return The fee that is the amount multiplied by the rate, but not less than the minimum.
+     */
+    function _calculateFee(FeeRule storage rule, uint256 amount) internal view returns (uint256) {
+        uint256 fee = (amount * rule.rate) / FEE_RATE_DENOMINATOR;
+        uint256 minimum = rule.minimum;
+        return fee < minimum ? minimum : fee;
+    }
+
+    /**
+     * @dev Checks a new fee rule before setting it.
+     * @param rule The currently configured fee rule.
+     * @param newRate The new fee rate in basis points.
+     * @param newMinimum The new minimum fee.
+     */
+    function _checkFeeRule(FeeRule storage rule, uint16 newRate, uint64 newMinimum) internal view {
+        if (newRate > FEE_RATE_DENOMINATOR) {
+            revert Blueprint_FeeRateExcess();
+        }
+        if (rule.rate == newRate && rule.minimum == newMinimum) {
+            revert Blueprint_FeeRuleAlreadyConfigured();
+        }
+    }
+
+    /**
+     * @dev Executes a batch of operations on the contract.
+     *
+     * The items are executed in order like single operations with the default underlying token.
+     * The original error of a failed item reverts the whole batch as is.
+     *
+     * @param items The parameters of the operations.
+     * @param operationKind The kind of the operations: 0 - deposit, 1 - withdrawal.
+     */
+    function _executeOperationBatch(OperationItem[] calldata items, uint256 operationKind) internal {
+        address token = _getBlueprintStorage().token;
+        uint256 count = items.length;
+        for (uint256 i = 0; i < count; ++i) {
+            OperationItem calldata item = items[i];
+            _executeOperation(token, item.account, item.account, item.amount, item.opId, operationKind);
+        }
+    }
+
+    /**
+     * @dev Returns the allowance of an account for the contract in a token.
+     * @param token The token to check the allowance in.
+     * @param owner The account that has granted the allowance.
+     * @return The amount of tokens that the contract is allowed to spend on behalf of the account.
+     */
+    function _getAllowance(address token, address owner) internal view returns (uint256) {
+        return IERC20(token).allowance(owner, address(this));
+    }
+
+    /**
+     * @dev Transfers tokens on behalf of the contract.
+     *
+     * All token calls of the contract are made through this function and the {_getAllowance} one
+     * to keep the contract code size smaller.
+     *
+     * @param token The token to transfer.
+     * @param from The account to transfer the tokens from.
+     * @param to The account to transfer the tokens to.
+     * @param amount The amount of tokens to transfer.
+     */
+    function _transferTokens(address token, address from, address to, uint256 amount) internal {
+        IERC20(token).transferFrom(from, to, amount);
     }
 
     /**
@@ -245,15 +1150,109 @@ contract Blueprint is
         }
     }
 
-    /// @dev Returns the operational treasury address after checking it.
-    function _getAndCheckOperationalTreasury(BlueprintStorage storage $) internal view returns (address) {
-        address operationalTreasury_ = $.operationalTreasury;
+    /**
+     * @dev Sets the operational treasury of a supported token.
+     * @param token The token to set the operational treasury for.
+     * @param newTreasury The new address of the operational treasury.
+     */
+    function _setOperationalTreasury(address token, address newTreasury) internal {
+        BlueprintStorage storage $ = _getBlueprintStorage();
+        address oldTreasury = _getOperationalTreasury(token, $);
+        if (newTreasury == oldTreasury) {
+            revert Blueprint_TreasuryAddressAlreadyConfigured();
+        }
+        if (newTreasury != address(0)) {
+            if (_getAllowance(token, newTreasury) == 0) {
+                revert Blueprint_TreasuryAllowanceZero();
+            }
+        }
+
+        if (token == $.token) {
+            emit OperationalTreasuryChanged(newTreasury, oldTreasury);
+            $.operationalTreasury = newTreasury;
+        } else {
+            emit TokenOperationalTreasuryChanged(token, newTreasury, oldTreasury);
+            $.tokenTreasuries.set(token, newTreasury);
+        }
+    }
+
+    /// @dev Checks whether a token is the default underlying one or a registered additional one.
+    function _isTokenSupported(address token, BlueprintStorage storage $) internal view returns (bool) {
+        return token == $.token || $.tokenTreasuries.contains(token);
+    }
+
+    /// @dev Returns the operational treasury address of a supported token.
+    function _getOperationalTreasury(address token, BlueprintStorage storage $) internal view returns (address) {
+        if (token == $.token) {
+            return $.operationalTreasury;
+        }
+        (bool exists, address treasury) = $.tokenTreasuries.tryGet(token);
+        if (!exists) {
+            revert Blueprint_TokenNotSupported(token);
+        }
+        return treasury;
+    }
+
+    /// @dev Returns the operational treasury address of a supported token after checking it.
+    function _getAndCheckOperationalTreasury(
+        address token,
+        BlueprintStorage storage $
+    ) internal view returns (address) {
+        address operationalTreasury_ = _getOperationalTreasury(token, $);
         if (operationalTreasury_ == address(0)) {
             revert Blueprint_OperationalTreasuryAddressZero();
         }
         return operationalTreasury_;
     }
 
+    /**
+     * @dev Returns the state of an account in a token.
+     *
+     * The states in the default underlying token are kept in the original mapping,
+     * while the ones in additional tokens are kept in a separate mapping.
+     */
+    function _getAccountState(
+        address account,
+        address token,
+        BlueprintStorage storage $
+    ) internal view returns (AccountState storage) {
+        if (token == $.token) {
+            return $.accountStates[account];
+        }
+        return $.tokenAccountStates[token][account];
+    }
+
+    /**
+     * @dev Returns the daily volume of an account in a token.
+     *
+     * The volumes in the default underlying token are kept in the original mapping,
+     * while the ones in additional tokens are kept in a separate mapping.
+     */
+    function _getDailyVolume(
+        address account,
+        address token,
+        BlueprintStorage storage $
+    ) internal view returns (DailyVolume storage) {
+        if (token == $.token) {
+            return $.dailyVolumes[account];
+        }
+        return $.tokenDailyVolumes[token][account];
+    }
+
+    /// @dev Returns the daily volume of an account in a token for the current day, zero volumes if it is not tracked.
+    function _getCurrentDailyVolume(
+        address account,
+        address token,
+        BlueprintStorage storage $
+    ) internal view returns (DailyVolume memory) {
+        DailyVolume memory volume = _getDailyVolume(account, token, $);
+        uint32 today = uint32(block.timestamp / DAY_DURATION);
+        if (volume.day != today) {
+            volume = DailyVolume(today, 0, 0);
+        }
+        return volume;
+    }
+
     /**
      * @dev Fetches the current data of an operation and checks it.
      * @param opId The off-chain identifier of the operation.
@@ -269,11 +1268,26 @@ contract Blueprint is
 
     /**
      * @dev The upgrade validation function for the UUPSExtUpgradeable contract.
+     *
+     * Besides the authorization and the type of the new implementation, checks that its version is greater than
+     * the current one and that the current version is not lower than the minimum compatible version of it.
+     *
      * @param newImplementation The address of the new implementation.
      */
     function _validateUpgrade(address newImplementation) internal view override onlyRole(OWNER_ROLE) {
         try IBlueprint(newImplementation).proveBlueprint() {} catch {
             revert Blueprint_ImplementationAddressInvalid();
         }
+
+        uint256 currentVersion = _toVersionNumber($__VERSION());
+        if (_toVersionNumber(IVersionable(newImplementation).$__VERSION()) <= currentVersion) {
+            revert Blueprint_ImplementationVersionNotGreater();
+        }
+        if (currentVersion < _toVersionNumber(IVersionable(newImplementation).$__MIN_COMPATIBLE_VERSION())) {
+            revert Blueprint_ImplementationVersionIncompatible();
+        }
     }
+
+    /// @dev The authorization function of the upgrade scheduling for the UUPSExtUpgradeable contract.
+    function _authorizeUpgradeScheduling() internal view override onlyRole(OWNER_ROLE) {}
 }
@@ -0,0 +1,214 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.24;
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import { IBlueprintLens } from "./interfaces/IBlueprintLens.sol";
+
+import { Blueprint } from "./Blueprint.sol";
+
+/**
+ * @title BlueprintLens contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev The smart contract that previews operations of a blueprint smart contract without executing them.
+ *
+ * The previews are kept outside the blueprint smart contract to keep its code size within the limit.
+ *
+ * See details about the contract in the comments of the {IBlueprintLens} interface.
+ */
+contract BlueprintLens is IBlueprintLens {
+    // ------------------ Constants ------------------------------- //
+
+    /// @dev The denominator of fee rates in basis points. Must be equal to the one of the blueprint contract.
+    uint256 internal constant FEE_RATE_DENOMINATOR = 10000;
+
+    /// @dev The duration of the window to apply the daily limits within. Must be equal to the one of the blueprint.
+    uint256 internal constant DAY_DURATION = 1 days;
+
+    // ------------------ Immutables ------------------------------ //
+
+    /// @dev The blueprint smart contract the lens is bound to.
+    Blueprint internal immutable _blueprint;
+
+    // ------------------ Constructor ----------------------------- //
+
+    /**
+     * @dev Constructor that binds the lens to a blueprint smart contract.
+     * @param blueprint_ The address of the blueprint smart contract, usually its proxy.
+     */
+    constructor(address blueprint_) {
+        if (blueprint_ == address(0)) {
+            revert BlueprintLens_BlueprintAddressZero();
+        }
+        Blueprint(blueprint_).proveBlueprint();
+        _blueprint = Blueprint(blueprint_);
+    }
+
+    // ------------------ View functions -------------------------- //
+
+    /// @inheritdoc IBlueprintLens
+    function previewDeposit(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        uint256 amount,
+        bytes32 opId
+    ) external view returns (PreviewResult, uint256) {
+        return _previewOperation(account, amount, opId, true);
+    }
+
+    /// @inheritdoc IBlueprintLens
+    function previewWithdraw(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        uint256 amount,
+        bytes32 opId
+    ) external view returns (PreviewResult, uint256) {
+        return _previewOperation(account, amount, opId, false);
+    }
+
+    /// @inheritdoc IBlueprintLens
+    function blueprint() external view returns (address) {
+        return address(_blueprint);
+    }
+
+    // ------------------ Internal functions ---------------------- //
+
+    /**
+     * @dev Previews an operation with the default underlying token without executing it.
+     *
+     * The checks mirror the ones of the {Blueprint-_executeOperation} function and the following token transfers,
+     * so the function must be updated together with it.
+     *
+     * @param account The account involved in the operation.
+     * @param amount The amount of the operation.
+     * @param opId The off-chain identifier of the operation.
+     * @param isDeposit True if the operation is a deposit, false if it is a withdrawal.
+     * @return The result of the preview and the balance of the account after the operation if it can be executed.
+     */
+    function _previewOperation(
+        address account,
+        uint256 amount,
+        bytes32 opId,
+        bool isDeposit
+    ) internal view returns (PreviewResult, uint256) {
+        Blueprint blueprint_ = _blueprint;
+        bytes32 operationKind = isDeposit
+            ? blueprint_.DEPOSIT_OPERATION_KIND()
+            : blueprint_.WITHDRAWAL_OPERATION_KIND();
+        if (blueprint_.paused() || blueprint_.isOperationKindPaused(operationKind)) {
+            return (PreviewResult.ContractPaused, 0);
+        }
+        if (account == address(0)) {
+            return (PreviewResult.AccountAddressZero, 0);
+        }
+        if (opId == bytes32(0)) {
+            return (PreviewResult.OperationIdZero, 0);
+        }
+        if (amount > type(uint64).max) {
+            return (PreviewResult.AmountExcess, 0);
+        }
+        if (blueprint_.isAccountFrozen(account)) {
+            return (PreviewResult.AccountFrozen, 0);
+        }
+        address treasury = blueprint_.operationalTreasury();
+        if (treasury == address(0)) {
+            return (PreviewResult.OperationalTreasuryAddressZero, 0);
+        }
+        if (blueprint_.getOperation(opId).status != OperationStatus.Nonexistent) {
+            return (PreviewResult.OperationAlreadyExecuted, 0);
+        }
+
+        uint256 newBalance = blueprint_.balanceOf(account);
+        if (isDeposit) {
+            newBalance += amount;
+            if (newBalance > type(uint64).max) {
+                return (PreviewResult.BalanceExcess, 0);
+            }
+        } else {
+            if (amount > newBalance) {
+                return (PreviewResult.BalanceInsufficient, 0);
+            }
+            newBalance -= amount;
+        }
+
+        PreviewResult result = _previewLimits(account, amount, newBalance, isDeposit);
+        if (result != PreviewResult.Success) {
+            return (result, 0);
+        }
+
+        uint256 fee = _calculateFee(isDeposit ? blueprint_.depositFeeRule() : blueprint_.withdrawalFeeRule(), amount);
+        if (!isDeposit && fee > amount) {
+            return (PreviewResult.WithdrawalFeeExcess, 0);
+        }
+        if (fee != 0 && blueprint_.feeTreasury() == address(0)) {
+            return (PreviewResult.FeeTreasuryAddressZero, 0);
+        }
+        // The fee of a deposit is paid by the account, while the fee of a withdrawal is deducted from the amount
+        address token = blueprint_.underlyingToken();
+        if (isDeposit && _getAllowance(token, account) < amount + fee) {
+            return (PreviewResult.AccountAllowanceInsufficient, 0);
+        }
+        if (!isDeposit && _getAllowance(token, treasury) < amount) {
+            return (PreviewResult.TreasuryAllowanceInsufficient, 0);
+        }
+
+        return (PreviewResult.Success, newBalance);
+    }
+
+    /**
+     * @dev Previews an operation against the limits applied to the account like the blueprint contract checks them.
+     * @param account The account involved in the operation.
+     * @param amount The amount of the operation.
+     * @param newBalance The balance of the account after the operation.
+     * @param isDeposit True if the operation is a deposit, false if it is a withdrawal.
+     * @return The result of the preview.
+     */
+    function _previewLimits(
+        address account,
+        uint256 amount,
+        uint256 newBalance,
+        bool isDeposit
+    ) internal view returns (PreviewResult) {
+        Limits memory limits = _blueprint.getEffectiveLimits(account);
+        if (limits.maxOperationAmount != 0 && amount > limits.maxOperationAmount) {
+            return PreviewResult.OperationAmountLimitExceeded;
+        }
+        DailyVolume memory volume = _blueprint.getDailyVolume(account);
+        if (volume.day != uint32(block.timestamp / DAY_DURATION)) {
+            volume = DailyVolume(0, 0, 0);
+        }
+        if (isDeposit) {
+            if (limits.maxBalance != 0 && newBalance > limits.maxBalance) {
+                return PreviewResult.BalanceLimitExceeded;
+            }
+            if (limits.maxDailyDeposit != 0 && volume.depositVolume + amount > limits.maxDailyDeposit) {
+                return PreviewResult.DailyDepositLimitExceeded;
+            }
+        } else if (limits.maxDailyWithdrawal != 0 && volume.withdrawalVolume + amount > limits.maxDailyWithdrawal) {
+            return PreviewResult.DailyWithdrawalLimitExceeded;
+        }
+
+        return PreviewResult.Success;
+    }
+
+    /**
+     * @dev Calculates the fee of an operation like the blueprint contract does.
+     * @param rule The fee rule of the operation kind.
+     * @param amount The amount of the operation.
+     * @return The fee that is the amount multiplied by the rate, but not less than the minimum.
+     */
+    function _calculateFee(FeeRule memory rule, uint256 amount) internal pure returns (uint256) {
+        uint256 fee = (amount * rule.rate) / FEE_RATE_DENOMINATOR;
+        uint256 minimum = rule.minimum;
+        return fee < minimum ? minimum : fee;
+    }
+
+    /**
+     * @dev Returns the allowance of an account for the blueprint contract in a token.
+     * @param token The token to check the allowance in.
+     * @param owner The account that has granted the allowance.
+     * @return The amount of tokens that the blueprint contract is allowed to spend on behalf of the account.
+     */
+    function _getAllowance(address token, address owner) internal view returns (uint256) {
+        return IERC20(token).allowance(owner, address(_blueprint));
+    }
+}
@@ -2,6 +2,8 @@
 
 pragma solidity ^0.8.18;
 
+import { EnumerableMap } from "@openzeppelin/contracts/utils/structs/EnumerableMap.sol";
+
 import { IBlueprintTypes } from "./interfaces/IBlueprintTypes.sol";
 
 /**
@@ -17,6 +19,18 @@ abstract contract BlueprintStorageLayout is IBlueprintTypes {
     /// @dev The role of manager that is allowed to deposit and withdraw tokens to the contract.
     bytes32 public constant MANAGER_ROLE = keccak256("MANAGER_ROLE");
 
+    /// @dev The role of limits admin that is allowed to configure the limits of operations.
+    bytes32 public constant LIMITS_ADMIN_ROLE = keccak256("LIMITS_ADMIN_ROLE");
+
+    /// @dev The role of freezer that is allowed to freeze and unfreeze accounts.
+    bytes32 public constant FREEZER_ROLE = keccak256("FREEZER_ROLE");
+
+    /// @dev The kind of operations that are deposits. It is used to pause deposits separately.
+    bytes32 public constant DEPOSIT_OPERATION_KIND = keccak256("DEPOSIT_OPERATION_KIND");
+
+    /// @dev The kind of operations that are withdrawals. It is used to pause withdrawals separately.
+    bytes32 public constant WITHDRAWAL_OPERATION_KIND = keccak256("WITHDRAWAL_OPERATION_KIND");
+
     // ------------------ Storage layout -------------------------- //
 
     /*
@@ -31,13 +45,29 @@ abstract contract BlueprintStorageLayout is IBlueprintTypes {
      *
      * The fields:
      *
-     * - token ---------------- The address of the underlying token.
-     * - operationalTreasury -- The address of the operational treasury.
+     * - token ---------------- The address of the default underlying token.
+     * - operationalTreasury -- The address of the operational treasury of the default underlying token.
      * - operations ----------- The mapping of an operation structure for a given off-chain operation identifier.
-     * - accountStates -------- The mapping of a state for a given account.
+     * - accountStates -------- The mapping of a state for a given account in the default underlying token.
+     * - feeTreasury ---------- The address of the fee treasury.
+     * - depositFeeRule ------- The rule to calculate the fee of a deposit operation.
+     * - withdrawalFeeRule ---- The rule to calculate the fee of a withdrawal operation.
+     * - defaultLimits -------- The limits of operations applied to all accounts by default.
+     * - accountLimits -------- The mapping of the limits that override the default ones for a given account.
+     * - dailyVolumes --------- The mapping of the volume of operations within the current day for a given account.
+     * - frozenAccounts ------- The mapping of the freeze status for a given account.
+     * - tokenTreasuries ------ The enumerable mapping of the operational treasury for a given additional token.
+     * - tokenAccountStates --- The mapping of the account state for a given additional token and account.
+     * - accountOperationIds -- The mapping of the identifiers of all operations for a given account in execution order.
+     * - operationVolumeDays -- The mapping of the day whose daily volume includes a given operation, zero if none.
+     * - tokenDailyVolumes ---- The mapping of the daily volume for a given additional token and account.
      *
      * Notes:
      * 1. The operational treasury is used to deposit and withdraw tokens through special functions.
+     * 2. The fee treasury receives the fees of operations. It is placed after the existing fields
+     *    to keep the storage layout compatible with the previous versions of the contract.
+     * 3. The additional tokens are kept separately from the default underlying token for the same reason,
+     *    so the existing balances and treasury of the default token are not moved.
      *
      * @custom:storage-location erc7201:cloudwalk.storage.Blueprint
      */
@@ -57,6 +87,54 @@ abstract contract BlueprintStorageLayout is IBlueprintTypes {
         // Slot 4
         mapping(address account => AccountState state) accountStates;
         // No reserve until the end of the storage slot
+
+        // Slot 5
+        address feeTreasury;
+        // uint96 __reserved3; // Reserved for future use until the end of the storage slot
+
+        // Slot 6
+        FeeRule depositFeeRule;
+        // uint176 __reserved4; // Reserved for future use until the end of the storage slot
+
+        // Slot 7
+        FeeRule withdrawalFeeRule;
+        // uint176 __reserved5; // Reserved for future use until the end of the storage slot
+
+        // Slot 8
+        Limits defaultLimits;
+        // No reserve until the end of the storage slot
+
+        // Slot 9
+        mapping(address account => Limits limits) accountLimits;
+        // No reserve until the end of the storage slot
+
+        // Slot 10
+        mapping(address account => DailyVolume volume) dailyVolumes;
+        // No reserve until the end of the storage slot
+
+        // Slot 11
+        mapping(address account => bool isFrozen) frozenAccounts;
+        // No reserve until the end of the storage slot
+
+        // Slots 12, 13, 14
+        EnumerableMap.AddressToAddressMap tokenTreasuries;
+        // No reserve until the end of the storage slot
+
+        // Slot 15
+        mapping(address token => mapping(address account => AccountState state)) tokenAccountStates;
+        // No reserve until the end of the storage slot
+
+        // Slot 16
+        mapping(address account => bytes32[] opIds) accountOperationIds;
+        // No reserve until the end of the storage slot
+
+        // Slot 17
+        mapping(bytes32 opId => uint32 day) operationVolumeDays;
+        // No reserve until the end of the storage slot
+
+        // Slot 18
+        mapping(address token => mapping(address account => DailyVolume volume)) tokenDailyVolumes;
+        // No reserve until the end of the storage slot
     }
 
     // ------------------ Internal functions ---------------------- //
@@ -7,8 +7,12 @@ import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/ac
 /**
  * @title AccessControlExtUpgradeable base contract
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
- * @dev Extends the OpenZeppelin's {AccessControlUpgradeable} contract by introducing new roles and
- *      adding functions for granting and revoking roles in batch.
+ * @dev Extends the OpenZeppelin's {AccessControlUpgradeable} contract by introducing new roles,
+ *      adding functions for granting and revoking roles in batch and a two-step delayed transfer of the owner role.
+ *
+ * The owner role cannot be granted, revoked or renounced directly. Instead, the current owner proposes a new owner,
+ * that accepts the proposal after the configured delay. The acceptance grants the owner role to the new owner and
+ * revokes it from the proposer in the same transaction, so the contract always has an owner.
  */
 abstract contract AccessControlExtUpgradeable is AccessControlUpgradeable {
     // ------------------ Constants ------------------------------- //
@@ -19,6 +23,111 @@ abstract contract AccessControlExtUpgradeable is AccessControlUpgradeable {
     /// @dev The role of a grantor that is allowed to grant and revoke other roles, except itself and the owner role.
     bytes32 public constant GRANTOR_ROLE = keccak256("GRANTOR_ROLE");
 
+    /// @dev The minimum delay in seconds that can be configured between a proposal of a new owner and its acceptance.
+    uint256 public constant MIN_OWNER_TRANSFER_DELAY = 1 hours;
+
+    /// @dev The maximum delay in seconds between a proposal of a new owner and its acceptance.
+    uint256 public constant MAX_OWNER_TRANSFER_DELAY = 30 days;
+
+    // ------------------ Storage layout -------------------------- //
+
+    /*
+     * ERC-7201: Namespaced Storage Layout
+     * keccak256(abi.encode(uint256(keccak256("cloudwalk.storage.AccessControlExt")) - 1)) & ~bytes32(uint256(0xff))
+     */
+    bytes32 private constant ACCESS_CONTROL_EXT_STORAGE_LOCATION =
+        0x5eabf3afd42c6970835eb99f573a8387e6406e686f3093b93851caa8d677e000;
+
+    /**
+     * @dev Defines the contract storage structure.
+     *
+     * The fields:
+     *
+     * - pendingOwner ------------ The address of the proposed new owner or zero if there is no pending transfer.
+     * - ownerTransferReadyAt ---- The timestamp since which the pending transfer can be accepted.
+     * - ownerTransferProposer --- The address of the owner that has proposed the pending transfer.
+     * - ownerTransferDelay ------ The delay in seconds between a proposal of a new owner and its acceptance.
+     *
+     * @custom:storage-location erc7201:cloudwalk.storage.AccessControlExt
+     */
+    struct AccessControlExtStorage {
+        // Slot 1
+        address pendingOwner;
+        uint64 ownerTransferReadyAt;
+        // uint32 __reserved1; // Reserved for future use until the end of the storage slot
+
+        // Slot 2
+        address ownerTransferProposer;
+        uint64 ownerTransferDelay;
+        // uint32 __reserved2; // Reserved for future use until the end of the storage slot
+    }
+
+    // ------------------ Events ---------------------------------- //
+
+    /**
+     * @dev Emitted when a transfer of the owner role has been proposed.
+     * @param proposer The address of the owner that has proposed the transfer.
+     * @param newOwner The address of the proposed new owner.
+     * @param readyAt The timestamp since which the transfer can be accepted.
+     */
+    event OwnerTransferProposed(address indexed proposer, address indexed newOwner, uint256 readyAt);
+
+    /**
+     * @dev Emitted when a pending transfer of the owner role has been cancelled.
+     * @param proposer The address of the owner that has proposed the transfer.
+     * @param newOwner The address of the proposed new owner.
+     */
+    event OwnerTransferCancelled(address indexed proposer, address indexed newOwner);
+
+    /**
+     * @dev Emitted when a pending transfer of the owner role has been accepted.
+     * @param previousOwner The address of the owner that has proposed the transfer and lost the owner role.
+     * @param newOwner The address of the new owner.
+     */
+    event OwnerTransferAccepted(address indexed previousOwner, address indexed newOwner);
+
+    /**
+     * @dev Emitted when the delay of transfers of the owner role has been changed.
+     * @param newDelay The new delay in seconds.
+     * @param oldDelay The old delay in seconds.
+     */
+    event OwnerTransferDelayChanged(uint256 newDelay, uint256 oldDelay);
+
+    // ------------------ Errors ---------------------------------- //
+
+    /**
+     * @dev Thrown if the caller is not the pending owner.
+     * @param account The address of the caller.
+     */
+    error AccessControlExt_CallerNotPendingOwner(address account);
+
+    /// @dev Thrown if the provided new owner address is zero.
+    error AccessControlExt_NewOwnerAddressZero();
+
+    /**
+     * @dev Thrown if the provided new owner already has the owner role.
+     * @param account The address of the provided new owner.
+     */
+    error AccessControlExt_NewOwnerAlreadyOwner(address account);
+
+    /// @dev Thrown if the owner role is being granted, revoked or renounced directly.
+    error AccessControlExt_OwnerRoleChangeProhibited();
+
+    /// @dev Thrown if the provided delay of owner transfers is already configured.
+    error AccessControlExt_OwnerTransferDelayAlreadyConfigured();
+
+    /// @dev Thrown if the provided delay of owner transfers is out of the allowed range.
+    error AccessControlExt_OwnerTransferDelayInvalid();
+
+    /// @dev Thrown if there is no pending transfer of the owner role.
+    error AccessControlExt_OwnerTransferNotPending();
+
+    /**
+     * @dev Thrown if the pending transfer of the owner role cannot be accepted yet.
+     * @param readyAt The timestamp since which the transfer can be accepted.
+     */
+    error AccessControlExt_OwnerTransferNotReady(uint256 readyAt);
+
     // ------------------ Initializers ---------------------------- //
 
     /**
@@ -35,17 +144,75 @@ abstract contract AccessControlExtUpgradeable is AccessControlUpgradeable {
 
     // ------------------ Transactional functions ----------------- //
 
+    /**
+     * @dev Grants a role to an account.
+     *
+     * Emits a {RoleGranted} event if the account has not been granted the provided role previously.
+     *
+     * Requirements:
+     *
+     * - The caller must have the role that is the admin for the role that is being granted.
+     * - The role must not be the owner role, see {proposeOwnerTransfer}.
+     *
+     * @param role The role to grant.
+     * @param account The account to grant the role to.
+     */
+    function grantRole(bytes32 role, address account) public virtual override {
+        _checkRoleChangeAllowed(role);
+        super.grantRole(role, account);
+    }
+
+    /**
+     * @dev Revokes a role from an account.
+     *
+     * Emits a {RoleRevoked} event if the account has the provided role previously.
+     *
+     * Requirements:
+     *
+     * - The caller must have the role that is the admin for the role that is being revoked.
+     * - The role must not be the owner role, see {proposeOwnerTransfer}.
+     *
+     * @param role The role to revoke.
+     * @param account The account to revoke the role from.
+     */
+    function revokeRole(bytes32 role, address account) public virtual override {
+        _checkRoleChangeAllowed(role);
+        super.revokeRole(role, account);
+    }
+
+    /**
+     * @dev Revokes a role from the calling account.
+     *
+     * Emits a {RoleRevoked} event if the caller has the provided role previously.
+     *
+     * Requirements:
+     *
+     * - The provided confirmation must be the caller address.
+     * - The role must not be the owner role, see {proposeOwnerTransfer}.
+     *
+     * @param role The role to renounce.
+     * @param callerConfirmation The address of the caller to confirm the renouncement.
+     */
+    function renounceRole(bytes32 role, address callerConfirmation) public virtual override {
+        _checkRoleChangeAllowed(role);
+        super.renounceRole(role, callerConfirmation);
+    }
+
     /**
      * @dev Grants a role to accounts in batch.
      *
      * Emits a {RoleGranted} event for each account that has not been granted the provided role previously.
      *
-     * Requirement: the caller must have the role that is the admin for the role that is being granted.
+     * Requirements:
+     *
+     * - The caller must have the role that is the admin for the role that is being granted.
+     * - The role must not be the owner role, see {proposeOwnerTransfer}.
      *
      * @param role The role to grant.
      * @param accounts The accounts to grant the role to.
      */
     function grantRoleBatch(bytes32 role, address[] memory accounts) public virtual onlyRole(getRoleAdmin(role)) {
+        _checkRoleChangeAllowed(role);
         uint256 count = accounts.length;
         for (uint256 i = 0; i < count; ) {
             _grantRole(role, accounts[i]);
@@ -60,12 +227,16 @@ abstract contract AccessControlExtUpgradeable is AccessControlUpgradeable {
      *
      * Emits a {RoleRevoked} event for each account that has the provided role previously.
      *
-     * Requirement: the caller must have the role that is the admin for the role that is being revoked.
+     * Requirements:
+     *
+     * - The caller must have the role that is the admin for the role that is being revoked.
+     * - The role must not be the owner role, see {proposeOwnerTransfer}.
      *
      * @param role The role to revoke.
      * @param accounts The accounts to revoke the role from.
      */
     function revokeRoleBatch(bytes32 role, address[] memory accounts) public virtual onlyRole(getRoleAdmin(role)) {
+        _checkRoleChangeAllowed(role);
         uint256 count = accounts.length;
         for (uint256 i = 0; i < count; ) {
             _revokeRole(role, accounts[i]);
@@ -74,4 +245,182 @@ abstract contract AccessControlExtUpgradeable is AccessControlUpgradeable {
             }
         }
     }
+
+    /**
+     * @dev Proposes a new owner of the contract.
+     *
+     * A pending transfer proposed previously is replaced by the new one.
+     *
+     * Emits an {OwnerTransferProposed} event.
+     *
+     * Requirements:
+     *
+     * - The caller must have the {OWNER_ROLE} role.
+     * - The new owner address must not be zero.
+     * - The new owner must not have the {OWNER_ROLE} role.
+     *
+     * @param newOwner The address of the proposed new owner.
+     */
+    function proposeOwnerTransfer(address newOwner) external onlyRole(OWNER_ROLE) {
+        if (newOwner == address(0)) {
+            revert AccessControlExt_NewOwnerAddressZero();
+        }
+        if (hasRole(OWNER_ROLE, newOwner)) {
+            revert AccessControlExt_NewOwnerAlreadyOwner(newOwner);
+        }
+
+        AccessControlExtStorage storage $ = _getAccessControlExtStorage();
+        uint64 readyAt = uint64(block.timestamp) + _getOwnerTransferDelay($);
+
+        emit OwnerTransferProposed(_msgSender(), newOwner, readyAt);
+
+        $.pendingOwner = newOwner;
+        $.ownerTransferReadyAt = readyAt;
+        $.ownerTransferProposer = _msgSender();
+    }
+
+    /**
+     * @dev Accepts the pending transfer of the owner role.
+     *
+     * Grants the {OWNER_ROLE} role to the caller and revokes it from the proposer of the transfer.
+     *
+     * Emits an {OwnerTransferAccepted} event.
+     *
+     * Requirements:
+     *
+     * - The caller must be the pending owner.
+     * - The delay of the transfer must have passed since the proposal.
+     */
+    function acceptOwnerTransfer() external {
+        AccessControlExtStorage storage $ = _getAccessControlExtStorage();
+        address newOwner = $.pendingOwner;
+        if (newOwner != _msgSender()) {
+            revert AccessControlExt_CallerNotPendingOwner(_msgSender());
+        }
+        if (block.timestamp < $.ownerTransferReadyAt) {
+            revert AccessControlExt_OwnerTransferNotReady($.ownerTransferReadyAt);
+        }
+        address previousOwner = $.ownerTransferProposer;
+
+        emit OwnerTransferAccepted(previousOwner, newOwner);
+
+        _clearPendingOwnerTransfer($);
+        _grantRole(OWNER_ROLE, newOwner);
+        _revokeRole(OWNER_ROLE, previousOwner);
+    }
+
+    /**
+     * @dev Cancels the pending transfer of the owner role.
+     *
+     * Emits an {OwnerTransferCancelled} event.
+     *
+     * Requirements:
+     *
+     * - The caller must have the {OWNER_ROLE} role or be the pending owner.
+     * - There must be a pending transfer of the owner role.
+     */
+    function cancelOwnerTransfer() external {
+        AccessControlExtStorage storage $ = _getAccessControlExtStorage();
+        address newOwner = $.pendingOwner;
+        if (newOwner == address(0)) {
+            revert AccessControlExt_OwnerTransferNotPending();
+        }
+        if (newOwner != _msgSender()) {
+            _checkRole(OWNER_ROLE);
+        }
+
+        emit OwnerTransferCancelled($.ownerTransferProposer, newOwner);
+
+        _clearPendingOwnerTransfer($);
+    }
+
+    /**
+     * @dev Sets the delay between a proposal of a new owner and its acceptance.
+     *
+     * The new delay is applied to the transfers that are proposed after the change.
+     *
+     * Emits an {OwnerTransferDelayChanged} event.
+     *
+     * Requirements:
+     *
+     * - The caller must have the {OWNER_ROLE} role.
+     * - The new delay must be within the range from {MIN_OWNER_TRANSFER_DELAY} to {MAX_OWNER_TRANSFER_DELAY}.
+     * - The new delay must differ from the current one.
+     *
+     * @param newDelay The new delay in seconds.
+     */
+    function setOwnerTransferDelay(uint64 newDelay) external onlyRole(OWNER_ROLE) {
+        if (newDelay < MIN_OWNER_TRANSFER_DELAY || newDelay > MAX_OWNER_TRANSFER_DELAY) {
+            revert AccessControlExt_OwnerTransferDelayInvalid();
+        }
+        AccessControlExtStorage storage $ = _getAccessControlExtStorage();
+        uint64 oldDelay = _getOwnerTransferDelay($);
+        if (newDelay == oldDelay) {
+            revert AccessControlExt_OwnerTransferDelayAlreadyConfigured();
+        }
+
+        emit OwnerTransferDelayChanged(newDelay, oldDelay);
+
+        $.ownerTransferDelay = newDelay;
+    }
+
+    // ------------------ View functions -------------------------- //
+
+    /**
+     * @dev Returns the pending transfer of the owner role.
+     * @return proposer The address of the owner that has proposed the transfer or zero if there is no transfer.
+     * @return newOwner The address of the proposed new owner or zero if there is no transfer.
+     * @return readyAt The timestamp since which the transfer can be accepted.
+     */
+    function getPendingOwnerTransfer() external view returns (address proposer, address newOwner, uint256 readyAt) {
+        AccessControlExtStorage storage $ = _getAccessControlExtStorage();
+        return ($.ownerTransferProposer, $.pendingOwner, $.ownerTransferReadyAt);
+    }
+
+    /**
+     * @dev Returns the delay in seconds between a proposal of a new owner and its acceptance.
+     *
+     * The {MIN_OWNER_TRANSFER_DELAY} delay is returned if the delay has not been configured yet.
+     */
+    function ownerTransferDelay() external view returns (uint256) {
+        return _getOwnerTransferDelay(_getAccessControlExtStorage());
+    }
+
+    // ------------------ Internal functions ---------------------- //
+
+    /**
+     * @dev Checks that the provided role can be changed directly.
+     * @param role The role to check.
+     */
+    function _checkRoleChangeAllowed(bytes32 role) internal pure {
+        if (role == OWNER_ROLE) {
+            revert AccessControlExt_OwnerRoleChangeProhibited();
+        }
+    }
+
+    /**
+     * @dev Clears the pending transfer of the owner role.
+     * @param $ The storage of the contract.
+     */
+    function _clearPendingOwnerTransfer(AccessControlExtStorage storage $) internal {
+        $.pendingOwner = address(0);
+        $.ownerTransferReadyAt = 0;
+        $.ownerTransferProposer = address(0);
+    }
+
+    /**
+     * @dev Returns the configured owner transfer delay or the minimum one if the delay has not been configured yet.
+     * @param $ The storage of the contract.
+     */
+    function _getOwnerTransferDelay(AccessControlExtStorage storage $) internal view returns (uint64) {
+        uint64 delay = $.ownerTransferDelay;
+        return delay < MIN_OWNER_TRANSFER_DELAY ? uint64(MIN_OWNER_TRANSFER_DELAY) : delay;
+    }
+
+    /// @dev Returns the storage slot location for the `AccessControlExtStorage` struct.
+    function _getAccessControlExtStorage() internal pure returns (AccessControlExtStorage storage $) {
+        assembly {
+            $.slot := ACCESS_CONTROL_EXT_STORAGE_LOCATION
+        }
+    }
 }
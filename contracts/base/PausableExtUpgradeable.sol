@@ -9,8 +9,12 @@ import { AccessControlExtUpgradeable } from "./AccessControlExtUpgradeable.sol";
 /**
  * @title PausableExtUpgradeable base contract
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
- * @dev Extends the OpenZeppelin's {PausableUpgradeable} contract by adding the {PAUSER_ROLE} role and implementing
- *      the external pausing and unpausing functions.
+ * @dev Extends the OpenZeppelin's {PausableUpgradeable} contract by adding the {PAUSER_ROLE} role, implementing
+ *      the external pausing and unpausing functions and the pausing of separate operation kinds.
+ *
+ * An operation kind is an arbitrary identifier defined by a successor contract, e.g. `keccak256("DEPOSIT")`.
+ * The paused state of an operation kind is independent of the paused state of the whole contract,
+ * so an operation of a kind is allowed only if neither the contract nor the kind is paused.
  */
 abstract contract PausableExtUpgradeable is AccessControlExtUpgradeable, PausableUpgradeable {
     // ------------------ Constants ------------------------------- //
@@ -18,6 +22,72 @@ abstract contract PausableExtUpgradeable is AccessControlExtUpgradeable, Pausabl
     /// @dev The role of a pauser that is allowed to trigger the paused or unpaused state of the contract.
     bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
 
+    // ------------------ Storage layout -------------------------- //
+
+    /*
+     * ERC-7201: Namespaced Storage Layout
+     * keccak256(abi.encode(uint256(keccak256("cloudwalk.storage.PausableExt")) - 1)) & ~bytes32(uint256(0xff))
+     */
+    bytes32 private constant PAUSABLE_EXT_STORAGE_LOCATION =
+        0x04ddf6156f06ffd68ac622e44e2c0a5f6783507b8babbb2560d6c6af3f5ce300;
+
+    /**
+     * @dev Defines the contract storage structure.
+     *
+     * The fields:
+     *
+     * - pausedOperationKinds -- The mapping of the paused state for each operation kind.
+     *
+     * @custom:storage-location erc7201:cloudwalk.storage.PausableExt
+     */
+    struct PausableExtStorage {
+        // Slot 1
+        mapping(bytes32 operationKind => bool) pausedOperationKinds;
+        // No reserve until the end of the storage slot
+    }
+
+    // ------------------ Events ---------------------------------- //
+
+    /**
+     * @dev Emitted when an operation kind has been paused.
+     * @param operationKind The identifier of the operation kind.
+     * @param account The account that has paused the operation kind.
+     */
+    event OperationKindPaused(bytes32 indexed operationKind, address account);
+
+    /**
+     * @dev Emitted when an operation kind has been unpaused.
+     * @param operationKind The identifier of the operation kind.
+     * @param account The account that has unpaused the operation kind.
+     */
+    event OperationKindUnpaused(bytes32 indexed operationKind, address account);
+
+    // ------------------ Errors ---------------------------------- //
+
+    /**
+     * @dev Thrown if the operation kind is expected to be paused, but it is not.
+     * @param operationKind The identifier of the operation kind.
+     */
+    error PausableExt_OperationKindNotPaused(bytes32 operationKind);
+
+    /**
+     * @dev Thrown if the operation kind is paused.
+     * @param operationKind The identifier of the operation kind.
+     */
+    error PausableExt_OperationKindPaused(bytes32 operationKind);
+
+    // ------------------ Modifiers ------------------------------- //
+
+    /**
+     * @dev Throws if the contract or the provided operation kind is paused.
+     * @param operationKind The identifier of the operation kind.
+     */
+    modifier whenOperationKindNotPaused(bytes32 operationKind) {
+        _requireNotPaused();
+        _requireOperationKindNotPaused(operationKind);
+        _;
+    }
+
     // ------------------ Initializers ---------------------------- //
 
     /**
@@ -50,4 +120,83 @@ abstract contract PausableExtUpgradeable is AccessControlExtUpgradeable, Pausabl
     function unpause() public onlyRole(PAUSER_ROLE) {
         _unpause();
     }
+
+    /**
+     * @dev Triggers the paused state of an operation kind.
+     *
+     * Emits an {OperationKindPaused} event.
+     *
+     * Requirements:
+     *
+     * - The caller must have the {PAUSER_ROLE} role.
+     * - The operation kind must not be paused already.
+     *
+     * @param operationKind The identifier of the operation kind to pause.
+     */
+    function pauseOperationKind(bytes32 operationKind) external onlyRole(PAUSER_ROLE) {
+        _requireOperationKindNotPaused(operationKind);
+
+        emit OperationKindPaused(operationKind, _msgSender());
+
+        _getPausableExtStorage().pausedOperationKinds[operationKind] = true;
+    }
+
+    /**
+     * @dev Triggers the unpaused state of an operation kind.
+     *
+     * Emits an {OperationKindUnpaused} event.
+     *
+     * Requirements:
+     *
+     * - The caller must have the {PAUSER_ROLE} role.
+     * - The operation kind must be paused.
+     *
+     * @param operationKind The identifier of the operation kind to unpause.
+     */
+    function unpauseOperationKind(bytes32 operationKind) external onlyRole(PAUSER_ROLE) {
+        PausableExtStorage storage $ = _getPausableExtStorage();
+        if (!$.pausedOperationKinds[operationKind]) {
+            revert PausableExt_OperationKindNotPaused(operationKind);
+        }
+
+        emit OperationKindUnpaused(operationKind, _msgSender());
+
+        $.pausedOperationKinds[operationKind] = false;
+    }
+
+    // ------------------ View functions -------------------------- //
+
+    /**
+     * @dev Checks whether an operation kind is paused.
+     *
+     * The result does not take into account the paused state of the whole contract, see the {paused} function.
+     *
+     * @param operationKind The identifier of the operation kind to check.
+     * @return True if the operation kind is paused, false otherwise.
+     */
+    function isOperationKindPaused(bytes32 operationKind) public view returns (bool) {
+        return _getPausableExtStorage().pausedOperationKinds[operationKind];
+    }
+
+    // ------------------ Internal functions ---------------------- //
+
+    /**
+     * @dev Throws if the provided operation kind is paused.
+     *
+     * The paused state of the whole contract is not checked here.
+     *
+     * @param operationKind The identifier of the operation kind to check.
+     */
+    function _requireOperationKindNotPaused(bytes32 operationKind) internal view {
+        if (_getPausableExtStorage().pausedOperationKinds[operationKind]) {
+            revert PausableExt_OperationKindPaused(operationKind);
+        }
+    }
+
+    /// @dev Returns the storage slot location for the `PausableExtStorage` struct.
+    function _getPausableExtStorage() internal pure returns (PausableExtStorage storage $) {
+        assembly {
+            $.slot := PAUSABLE_EXT_STORAGE_LOCATION
+        }
+    }
 }
@@ -3,16 +3,29 @@
 pragma solidity ^0.8.20;
 
 import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { IERC721 } from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import { IERC1155 } from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import { IERC1155Receiver } from "@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol";
+import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { Address } from "@openzeppelin/contracts/utils/Address.sol";
 
 import { AccessControlExtUpgradeable } from "./AccessControlExtUpgradeable.sol";
 
 /**
  * @title RescuableUpgradeable base contract
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
- * @dev Allows rescuing ERC20 tokens locked in the contract using the {RESCUER_ROLE} role.
+ * @dev Allows rescuing the native coin, ERC20, ERC721 and ERC1155 tokens locked in the contract
+ *      using the {RESCUER_ROLE} role.
+ *
+ * A successor contract can refuse the rescue of assets it relies on by overriding the {_isRescueProtected} function.
+ *
+ * The contract accepts ERC1155 tokens transferred with the safe transfer functions, so they can be rescued later.
+ * ERC721 tokens are not accepted by the `safeTransferFrom()` function, but can be rescued if they are transferred
+ * with the `transferFrom()` one.
  */
-abstract contract RescuableUpgradeable is AccessControlExtUpgradeable {
+abstract contract RescuableUpgradeable is AccessControlExtUpgradeable, IERC1155Receiver {
     // ------------------ Types ----------------------------------- //
 
     using SafeERC20 for IERC20;
@@ -22,6 +35,25 @@ abstract contract RescuableUpgradeable is AccessControlExtUpgradeable {
     /// @dev The role of a rescuer that is allowed to rescue tokens locked in the contract.
     bytes32 public constant RESCUER_ROLE = keccak256("RESCUER_ROLE");
 
+    // ------------------ Events ---------------------------------- //
+
+    /**
+     * @dev Emitted when an asset has been rescued from the contract.
+     * @param token The address of the token smart contract or zero for the native coin.
+     * @param recipient The account the rescued asset has been transferred to.
+     * @param tokenId The identifier of the rescued ERC721 or ERC1155 token or zero for other assets.
+     * @param amount The rescued amount, it is always one for an ERC721 token.
+     */
+    event Rescued(address indexed token, address indexed recipient, uint256 tokenId, uint256 amount);
+
+    // ------------------ Errors ---------------------------------- //
+
+    /**
+     * @dev Thrown if the asset is protected from rescue by the successor contract.
+     * @param token The address of the token smart contract or zero for the native coin.
+     */
+    error Rescuable_AssetProtected(address token);
+
     // ------------------ Initializers ---------------------------- //
 
     /**
@@ -40,11 +72,12 @@ abstract contract RescuableUpgradeable is AccessControlExtUpgradeable {
     /**
      * @dev Rescues tokens that were accidentally transferred to this contract.
      *
-     * Does not emit special events except ones related to the token transfer.
+     * Emits a {Rescued} event.
      *
      * Requirements:
      *
      * - The caller must have the {RESCUER_ROLE} role.
+     * - The token must not be protected from rescue.
      * - The provided account address must not be zero. It is usually checked inside the token smart-contract.
      *
      * @param token The address of the token smart contract to rescue its coins from this smart contract's account.
@@ -56,6 +89,151 @@ abstract contract RescuableUpgradeable is AccessControlExtUpgradeable {
         address account,
         uint256 amount
     ) public onlyRole(RESCUER_ROLE) {
+        _beforeRescue(token, account, 0, amount);
         IERC20(token).safeTransfer(account, amount);
     }
+
+    /**
+     * @dev Rescues the native coin that was transferred to this contract, e.g. as a mining reward.
+     *
+     * Emits a {Rescued} event with the zero token address.
+     *
+     * Requirements:
+     *
+     * - The caller must have the {RESCUER_ROLE} role.
+     * - The native coin must not be protected from rescue.
+     * - The contract balance must cover the amount and the account must accept the native coin.
+     *
+     * @param account The account to transfer the rescued native coin to.
+     * @param amount The amount of the native coin to rescue.
+     */
+    function rescueNative(address payable account, uint256 amount) public onlyRole(RESCUER_ROLE) {
+        _beforeRescue(address(0), account, 0, amount);
+        Address.sendValue(account, amount);
+    }
+
+    /**
+     * @dev Rescues an ERC721 token that was accidentally transferred to this contract.
+     *
+     * Emits a {Rescued} event with the amount of one.
+     *
+     * Requirements:
+     *
+     * - The caller must have the {RESCUER_ROLE} role.
+     * - The token must not be protected from rescue.
+     * - The token must be owned by this contract and the account must be able to receive it,
+     *   it is checked inside the token smart-contract.
+     *
+     * @param token The address of the ERC721 token smart contract.
+     * @param account The account to transfer the rescued token to.
+     * @param tokenId The identifier of the token to rescue.
+     */
+    function rescueERC721(
+        address token, // Tools: this comment prevents Prettier from formatting into a single line
+        address account,
+        uint256 tokenId
+    ) public onlyRole(RESCUER_ROLE) {
+        _beforeRescue(token, account, tokenId, 1);
+        IERC721(token).safeTransferFrom(address(this), account, tokenId);
+    }
+
+    /**
+     * @dev Rescues ERC1155 tokens that were accidentally transferred to this contract.
+     *
+     * Emits a {Rescued} event.
+     *
+     * Requirements:
+     *
+     * - The caller must have the {RESCUER_ROLE} role.
+     * - The token must not be protected from rescue.
+     * - The balance of this contract must cover the amount and the account must be able to receive the tokens,
+     *   it is checked inside the token smart-contract.
+     *
+     * @param token The address of the ERC1155 token smart contract.
+     * @param account The account to transfer the rescued tokens to.
+     * @param tokenId The identifier of the tokens to rescue.
+     * @param amount The amount of tokens to rescue.
+     */
+    function rescueERC1155(
+        address token, // Tools: this comment prevents Prettier from formatting into a single line
+        address account,
+        uint256 tokenId,
+        uint256 amount
+    ) public onlyRole(RESCUER_ROLE) {
+        _beforeRescue(token, account, tokenId, amount);
+        IERC1155(token).safeTransferFrom(address(this), account, tokenId, amount, "");
+    }
+
+    /**
+     * @dev Accepts a single ERC1155 token type, see {IERC1155Receiver-onERC1155Received}.
+     * @return The selector of this function to confirm the acceptance.
+     */
+    function onERC1155Received(
+        address, // operator
+        address, // from
+        uint256, // id
+        uint256, // value
+        bytes calldata // data
+    ) external pure returns (bytes4) {
+        return IERC1155Receiver.onERC1155Received.selector;
+    }
+
+    /**
+     * @dev Accepts multiple ERC1155 token types, see {IERC1155Receiver-onERC1155BatchReceived}.
+     * @return The selector of this function to confirm the acceptance.
+     */
+    function onERC1155BatchReceived(
+        address, // operator
+        address, // from
+        uint256[] calldata, // ids
+        uint256[] calldata, // values
+        bytes calldata // data
+    ) external pure returns (bytes4) {
+        return IERC1155Receiver.onERC1155BatchReceived.selector;
+    }
+
+    // ------------------ View functions -------------------------- //
+
+    /**
+     * @dev Returns true if the contract implements the interface defined by the provided identifier.
+     *
+     * Besides the interfaces of the parent contract, the {IERC1155Receiver} interface is supported.
+     *
+     * @param interfaceId The identifier of the interface to check.
+     */
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(AccessControlUpgradeable, IERC165) returns (bool) {
+        return interfaceId == type(IERC1155Receiver).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    // ------------------ Internal functions ---------------------- //
+
+    /**
+     * @dev Checks that an asset can be rescued and emits the {Rescued} event.
+     * @param token The address of the token smart contract or zero for the native coin.
+     * @param recipient The account to transfer the rescued asset to.
+     * @param tokenId The identifier of the ERC721 or ERC1155 token or zero for other assets.
+     * @param amount The amount to rescue.
+     */
+    function _beforeRescue(address token, address recipient, uint256 tokenId, uint256 amount) internal {
+        if (_isRescueProtected(token)) {
+            revert Rescuable_AssetProtected(token);
+        }
+
+        emit Rescued(token, recipient, tokenId, amount);
+    }
+
+    /**
+     * @dev Checks whether an asset is protected from rescue.
+     *
+     * It is expected that this function will be overridden in successor contracts that hold assets of their own.
+     *
+     * @param token The address of the token smart contract or zero for the native coin.
+     * @return True if the asset cannot be rescued, false otherwise.
+     */
+    function _isRescueProtected(address token) internal view virtual returns (bool) {
+        token; // Suppresses a compiler warning about the unused variable
+        return false;
+    }
 }
@@ -7,9 +7,84 @@ import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils
 /**
  * @title UUPSExtUpgradeable base contract
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
- * @dev Extends OpenZeppelin's {UUPSUpgradeable} contract with additional checks for the new implementation address.
+ * @dev Extends OpenZeppelin's {UUPSUpgradeable} contract with additional checks for the new implementation address
+ *      and a mandatory scheduling step of upgrades.
+ *
+ * An upgrade must be scheduled with the {scheduleUpgrade} function first. The schedule records the address and
+ * the code hash of the new implementation, the upgrade to it is allowed only after the configured delay
+ * and only if its code has not been changed since then.
  */
 abstract contract UUPSExtUpgradeable is UUPSUpgradeable {
+    // ------------------ Constants ------------------------------- //
+
+    /// @dev The minimum delay in seconds that can be configured between scheduling an upgrade and executing it.
+    uint256 public constant MIN_UPGRADE_DELAY = 1 hours;
+
+    /// @dev The maximum delay in seconds that can be configured between scheduling an upgrade and executing it.
+    uint256 public constant MAX_UPGRADE_DELAY = 30 days;
+
+    // ------------------ Storage layout -------------------------- //
+
+    /*
+     * ERC-7201: Namespaced Storage Layout
+     * keccak256(abi.encode(uint256(keccak256("cloudwalk.storage.UUPSExt")) - 1)) & ~bytes32(uint256(0xff))
+     */
+    bytes32 private constant UUPS_EXT_STORAGE_LOCATION =
+        0x7f92810978071c12983404cd0202670bcbaadd6d4cb42f8b88303195a67d1400;
+
+    /**
+     * @dev Defines the contract storage structure.
+     *
+     * The fields:
+     *
+     * - scheduledImplementation -- The address of the scheduled new implementation or zero if there is no schedule.
+     * - upgradeReadyAt ----------- The timestamp since which the scheduled upgrade can be executed.
+     * - scheduledCodehash -------- The code hash of the scheduled new implementation.
+     * - upgradeDelay ------------- The delay in seconds between scheduling an upgrade and executing it.
+     *
+     * Note: The delay is zero until it is configured with the {setUpgradeDelay} function,
+     *       the {MIN_UPGRADE_DELAY} delay is applied instead in that case.
+     *
+     * @custom:storage-location erc7201:cloudwalk.storage.UUPSExt
+     */
+    struct UUPSExtStorage {
+        // Slot 1
+        address scheduledImplementation;
+        uint64 upgradeReadyAt;
+        // uint32 __reserved1; // Reserved for future use until the end of the storage slot
+
+        // Slot 2
+        bytes32 scheduledCodehash;
+        // No reserve until the end of the storage slot
+
+        // Slot 3
+        uint64 upgradeDelay;
+        // uint192 __reserved2; // Reserved for future use until the end of the storage slot
+    }
+
+    // ------------------ Events ---------------------------------- //
+
+    /**
+     * @dev Emitted when an upgrade has been scheduled.
+     * @param newImplementation The address of the new implementation.
+     * @param codehash The code hash of the new implementation.
+     * @param readyAt The timestamp since which the upgrade can be executed.
+     */
+    event UpgradeScheduled(address indexed newImplementation, bytes32 codehash, uint256 readyAt);
+
+    /**
+     * @dev Emitted when a scheduled upgrade has been cancelled.
+     * @param newImplementation The address of the new implementation of the cancelled upgrade.
+     */
+    event UpgradeCancelled(address indexed newImplementation);
+
+    /**
+     * @dev Emitted when the delay between scheduling an upgrade and executing it has been changed.
+     * @param newDelay The new delay in seconds.
+     * @param oldDelay The old delay in seconds.
+     */
+    event UpgradeDelayChanged(uint256 newDelay, uint256 oldDelay);
+
     // ------------------ Errors ---------------------------------- //
 
     /// @dev Thrown if the provided new implementation address is not a contract.
@@ -18,6 +93,30 @@ abstract contract UUPSExtUpgradeable is UUPSUpgradeable {
     /// @dev Thrown if the provided new implementation contract address is zero.
     error UUPSExtUpgradeable_ImplementationAddressZero();
 
+    /**
+     * @dev Thrown if the code of the new implementation has been changed since the upgrade was scheduled.
+     * @param codehash The current code hash of the new implementation.
+     */
+    error UUPSExtUpgradeable_ImplementationCodehashMismatch(bytes32 codehash);
+
+    /// @dev Thrown if the provided upgrade delay is already configured.
+    error UUPSExtUpgradeable_UpgradeDelayAlreadyConfigured();
+
+    /// @dev Thrown if the provided upgrade delay is out of the allowed range.
+    error UUPSExtUpgradeable_UpgradeDelayInvalid();
+
+    /**
+     * @dev Thrown if the upgrade to the provided implementation has not been scheduled.
+     * @param newImplementation The address of the new implementation or zero if there is no scheduled upgrade at all.
+     */
+    error UUPSExtUpgradeable_UpgradeNotScheduled(address newImplementation);
+
+    /**
+     * @dev Thrown if the scheduled upgrade cannot be executed yet.
+     * @param readyAt The timestamp since which the upgrade can be executed.
+     */
+    error UUPSExtUpgradeable_UpgradeNotReady(uint256 readyAt);
+
     // ------------------ Initializers ---------------------------- //
 
     /**
@@ -29,13 +128,156 @@ abstract contract UUPSExtUpgradeable is UUPSUpgradeable {
      */
     function __UUPSExt_init_unchained() internal onlyInitializing {}
 
+    // ------------------ Transactional functions ----------------- //
+
+    /**
+     * @dev Schedules an upgrade to a new implementation.
+     *
+     * An upgrade scheduled previously is cancelled and replaced by the new one.
+     *
+     * Emits an {UpgradeCancelled} event if an upgrade has been scheduled previously.
+     * Emits an {UpgradeScheduled} event.
+     *
+     * Requirements:
+     *
+     * - The new implementation address must not be zero and must be a contract.
+     * - The validation steps of the {_validateUpgrade} function must pass, including the authorization.
+     *
+     * @param newImplementation The address of the new implementation.
+     */
+    function scheduleUpgrade(address newImplementation) external {
+        _checkImplementationAddress(newImplementation);
+        _validateUpgrade(newImplementation);
+
+        UUPSExtStorage storage $ = _getUUPSExtStorage();
+        if ($.scheduledImplementation != address(0)) {
+            emit UpgradeCancelled($.scheduledImplementation);
+        }
+        bytes32 codehash = newImplementation.codehash;
+        uint64 readyAt = uint64(block.timestamp) + _getUpgradeDelay($);
+
+        emit UpgradeScheduled(newImplementation, codehash, readyAt);
+
+        $.scheduledImplementation = newImplementation;
+        $.upgradeReadyAt = readyAt;
+        $.scheduledCodehash = codehash;
+    }
+
+    /**
+     * @dev Cancels the scheduled upgrade.
+     *
+     * Emits an {UpgradeCancelled} event.
+     *
+     * Requirements:
+     *
+     * - The caller must be authorized by the {_authorizeUpgradeScheduling} function.
+     * - There must be a scheduled upgrade.
+     */
+    function cancelUpgrade() external {
+        _authorizeUpgradeScheduling();
+
+        UUPSExtStorage storage $ = _getUUPSExtStorage();
+        address newImplementation = $.scheduledImplementation;
+        if (newImplementation == address(0)) {
+            revert UUPSExtUpgradeable_UpgradeNotScheduled(address(0));
+        }
+
+        emit UpgradeCancelled(newImplementation);
+
+        _clearScheduledUpgrade($);
+    }
+
+    /**
+     * @dev Sets the delay between scheduling an upgrade and executing it.
+     *
+     * The new delay is applied to the upgrades that are scheduled after the change.
+     *
+     * Emits an {UpgradeDelayChanged} event.
+     *
+     * Requirements:
+     *
+     * - The caller must be authorized by the {_authorizeUpgradeScheduling} function.
+     * - The new delay must be within the range from {MIN_UPGRADE_DELAY} to {MAX_UPGRADE_DELAY}.
+     * - The new delay must differ from the current one.
+     *
+     * @param newDelay The new delay in seconds.
+     */
+    function setUpgradeDelay(uint64 newDelay) external {
+        _authorizeUpgradeScheduling();
+
+        if (newDelay < MIN_UPGRADE_DELAY || newDelay > MAX_UPGRADE_DELAY) {
+            revert UUPSExtUpgradeable_UpgradeDelayInvalid();
+        }
+        UUPSExtStorage storage $ = _getUUPSExtStorage();
+        uint64 oldDelay = _getUpgradeDelay($);
+        if (newDelay == oldDelay) {
+            revert UUPSExtUpgradeable_UpgradeDelayAlreadyConfigured();
+        }
+
+        emit UpgradeDelayChanged(newDelay, oldDelay);
+
+        $.upgradeDelay = newDelay;
+    }
+
+    // ------------------ View functions -------------------------- //
+
+    /**
+     * @dev Returns the scheduled upgrade.
+     * @return newImplementation The address of the new implementation or zero if there is no scheduled upgrade.
+     * @return codehash The code hash of the new implementation.
+     * @return readyAt The timestamp since which the upgrade can be executed.
+     */
+    function getScheduledUpgrade()
+        external
+        view
+        returns (address newImplementation, bytes32 codehash, uint256 readyAt)
+    {
+        UUPSExtStorage storage $ = _getUUPSExtStorage();
+        return ($.scheduledImplementation, $.scheduledCodehash, $.upgradeReadyAt);
+    }
+
+    /**
+     * @dev Returns the delay in seconds between scheduling an upgrade and executing it.
+     *
+     * The {MIN_UPGRADE_DELAY} delay is returned if the delay has not been configured yet.
+     */
+    function upgradeDelay() external view returns (uint256) {
+        return _getUpgradeDelay(_getUUPSExtStorage());
+    }
+
     // ------------------ Internal functions ---------------------- //
 
     /**
      * @dev Overrides the upgrade authorization function for UUPSUpgradeable.
+     *
+     * Checks that the upgrade to the new implementation has been scheduled, its delay has passed and
+     * the code of the new implementation has not been changed, then clears the schedule.
+     *
      * @param newImplementation The address of the new implementation of a proxy smart contract.
      */
     function _authorizeUpgrade(address newImplementation) internal override {
+        _checkImplementationAddress(newImplementation);
+        _validateUpgrade(newImplementation);
+
+        UUPSExtStorage storage $ = _getUUPSExtStorage();
+        if ($.scheduledImplementation != newImplementation) {
+            revert UUPSExtUpgradeable_UpgradeNotScheduled(newImplementation);
+        }
+        if (block.timestamp < $.upgradeReadyAt) {
+            revert UUPSExtUpgradeable_UpgradeNotReady($.upgradeReadyAt);
+        }
+        if (newImplementation.codehash != $.scheduledCodehash) {
+            revert UUPSExtUpgradeable_ImplementationCodehashMismatch(newImplementation.codehash);
+        }
+
+        _clearScheduledUpgrade($);
+    }
+
+    /**
+     * @dev Checks the address of a new implementation.
+     * @param newImplementation The address of the new implementation.
+     */
+    function _checkImplementationAddress(address newImplementation) internal view {
         if (newImplementation == address(0)) {
             revert UUPSExtUpgradeable_ImplementationAddressZero();
         }
@@ -43,16 +285,48 @@ abstract contract UUPSExtUpgradeable is UUPSUpgradeable {
         if (newImplementation.code.length == 0) {
             revert UUPSExtUpgradeable_ImplementationAddressNotContract();
         }
+    }
 
-        _validateUpgrade(newImplementation);
+    /**
+     * @dev Clears the scheduled upgrade.
+     * @param $ The storage of the contract.
+     */
+    function _clearScheduledUpgrade(UUPSExtStorage storage $) internal {
+        $.scheduledImplementation = address(0);
+        $.upgradeReadyAt = 0;
+        $.scheduledCodehash = bytes32(0);
+    }
+
+    /**
+     * @dev Returns the configured upgrade delay or the minimum one if the delay has not been configured yet.
+     * @param $ The storage of the contract.
+     */
+    function _getUpgradeDelay(UUPSExtStorage storage $) internal view returns (uint64) {
+        uint64 delay = $.upgradeDelay;
+        return delay < MIN_UPGRADE_DELAY ? uint64(MIN_UPGRADE_DELAY) : delay;
+    }
+
+    /// @dev Returns the storage slot location for the `UUPSExtStorage` struct.
+    function _getUUPSExtStorage() internal pure returns (UUPSExtStorage storage $) {
+        assembly {
+            $.slot := UUPS_EXT_STORAGE_LOCATION
+        }
     }
 
     /**
      * @dev Executes further validation steps of the upgrade, including authorization and implementation address checks.
      *
+     * It is called both when an upgrade is scheduled and when it is executed.
      * It is expected that this function will be overridden in successor contracts.
      *
      * @param newImplementation The address of the new implementation.
      */
     function _validateUpgrade(address newImplementation) internal virtual;
+
+    /**
+     * @dev Authorizes the cancellation of a scheduled upgrade and the change of the upgrade delay.
+     *
+     * It is expected that this function will be overridden in successor contracts.
+     */
+    function _authorizeUpgradeScheduling() internal virtual;
 }
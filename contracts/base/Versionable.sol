@@ -7,11 +7,30 @@ import "../interfaces/IVersionable.sol";
 /**
  * @title Versionable base contract
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
- * @dev Defines the contract version.
+ * @dev Defines the contract version and the minimum version of the previous implementation compatible with it.
  */
 abstract contract Versionable is IVersionable {
     /// @inheritdoc IVersionable
-    function $__VERSION() external pure returns (Version memory) {
-        return Version(1, 1, 0);
+    function $__VERSION() public pure virtual returns (Version memory) {
+        return Version(1, 2, 0);
+    }
+
+    /**
+     * @inheritdoc IVersionable
+     *
+     * @dev Override this function if the storage migration of the new version cannot be applied to
+     * some of the previous versions, e.g. because it relies on a migration of an intermediate version.
+     */
+    function $__MIN_COMPATIBLE_VERSION() external pure virtual returns (Version memory) {
+        return Version(0, 0, 0);
+    }
+
+    /**
+     * @dev Converts a version into a number that keeps the order of versions.
+     * @param version The version to convert.
+     * @return The number that is greater for a greater version.
+     */
+    function _toVersionNumber(Version memory version) internal pure returns (uint256) {
+        return (uint256(version.major) << 32) | (uint256(version.minor) << 16) | version.patch;
     }
 }
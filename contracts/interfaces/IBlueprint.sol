@@ -31,6 +31,122 @@ interface IBlueprintPrimary is IBlueprintTypes {
         uint256 oldBalance
     );
 
+    /**
+     * @dev Emitted when a fee has been charged for an operation.
+     *
+     * The fee of a deposit is transferred from the payer to the fee treasury in addition to the amount of the operation.
+     * The fee of a withdrawal is deducted from the amount transferred to the recipient and is transferred
+     * from the operational treasury to the fee treasury. In both cases it does not affect the balance of the account.
+     *
+     * @param opId The off-chain identifier of the operation.
+     * @param account The account the fee has been charged from.
+     * @param fee The amount of the fee.
+     */
+    event FeeCharged(
+        bytes32 indexed opId, // Tools: this comment prevents Prettier from formatting into a single line
+        address indexed account,
+        uint256 fee
+    );
+
+    /**
+     * @dev Emitted when a previously executed operation has been reverted.
+     *
+     * The balance of the account is restored by the amount of the original operation.
+     *
+     * @param opId The off-chain identifier of the original operation.
+     * @param account The account whose balance has been updated.
+     * @param newBalance The updated balance of the account.
+     * @param oldBalance The previous balance of the account.
+     */
+    event OperationReverted(
+        bytes32 indexed opId, // Tools: this comment prevents Prettier from formatting into a single line
+        address indexed account,
+        uint256 newBalance,
+        uint256 oldBalance
+    );
+
+    /**
+     * @dev Emitted when an account has been frozen.
+     * @param account The account that has been frozen.
+     * @param reasonCode The off-chain code of the reason to freeze the account, e.g. a court order.
+     */
+    event AccountFrozen(address indexed account, uint256 reasonCode);
+
+    /**
+     * @dev Emitted when an account has been unfrozen.
+     * @param account The account that has been unfrozen.
+     * @param reasonCode The off-chain code of the reason to unfreeze the account.
+     */
+    event AccountUnfrozen(address indexed account, uint256 reasonCode);
+
+    /**
+     * @dev Emitted when the balance of a specific account in an additional token has been updated.
+     *
+     * The event is emitted instead of the {BalanceUpdated} one for the operations with additional tokens.
+     *
+     * @param opId The off-chain identifier of the operation.
+     * @param account The account whose balance has been updated.
+     * @param token The token of the operation.
+     * @param newBalance The updated balance of the account in the token.
+     * @param oldBalance The previous balance of the account in the token.
+     */
+    event TokenBalanceUpdated(
+        bytes32 indexed opId,
+        address indexed account,
+        address indexed token,
+        uint256 newBalance,
+        uint256 oldBalance
+    );
+
+    /**
+     * @dev Emitted when a previously executed operation with an additional token has been reverted.
+     *
+     * The event is emitted instead of the {OperationReverted} one for the operations with additional tokens.
+     *
+     * @param opId The off-chain identifier of the original operation.
+     * @param account The account whose balance has been updated.
+     * @param token The token of the operation.
+     * @param newBalance The updated balance of the account in the token.
+     * @param oldBalance The previous balance of the account in the token.
+     */
+    event TokenOperationReverted(
+        bytes32 indexed opId,
+        address indexed account,
+        address indexed token,
+        uint256 newBalance,
+        uint256 oldBalance
+    );
+
+    /**
+     * @dev Emitted when the tokens of a deposit have been transferred from a payer other than the account.
+     *
+     * The event is emitted in addition to the {BalanceUpdated} one.
+     *
+     * @param opId The off-chain identifier of the operation.
+     * @param account The account whose balance has been increased.
+     * @param payer The address the tokens have been transferred from.
+     */
+    event DepositedFrom(
+        bytes32 indexed opId, // Tools: this comment prevents Prettier from formatting into a single line
+        address indexed account,
+        address indexed payer
+    );
+
+    /**
+     * @dev Emitted when the tokens of a withdrawal have been transferred to a recipient other than the account.
+     *
+     * The event is emitted in addition to the {BalanceUpdated} one.
+     *
+     * @param opId The off-chain identifier of the operation.
+     * @param account The account whose balance has been decreased.
+     * @param recipient The address the tokens have been transferred to.
+     */
+    event WithdrawnTo(
+        bytes32 indexed opId, // Tools: this comment prevents Prettier from formatting into a single line
+        address indexed account,
+        address indexed recipient
+    );
+
     // ------------------ Transactional functions ----------------- //
 
     /**
@@ -39,9 +155,13 @@ interface IBlueprintPrimary is IBlueprintTypes {
      * During the function call the specified amount of tokens will be transferred from the caller to
      * the configured treasury of the contract and the balance of the provided account will be increased accordingly.
      *
+     * If the deposit fee rule is configured, the fee is transferred from the account to the fee treasury.
+     * The operation must not exceed the limits applied to the account, see the {setDefaultLimits} function.
+     *
      * This function can be called only by an account with a special role.
      *
      * Emits a {BalanceUpdated} event.
+     * Emits a {FeeCharged} event if the fee is non-zero.
      *
      * @param account The account to increase balance for.
      * @param amount The amount to increase the balance by.
@@ -53,6 +173,31 @@ interface IBlueprintPrimary is IBlueprintTypes {
         bytes32 opId
     ) external;
 
+    /**
+     * @dev Deposits tokens to the smart contract using an EIP-2612 permit of the account instead of an approval.
+     *
+     * The permit is consumed in the same call to set the allowance of the account for the contract,
+     * then the deposit is executed like the {deposit} function does.
+     * If the permit cannot be consumed, e.g. because it has been already submitted to the token by front-running,
+     * the deposit is still executed if the current allowance is sufficient for the amount and the fee.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {BalanceUpdated} event.
+     * Emits a {FeeCharged} event if the fee is non-zero.
+     *
+     * @param account The account to increase the balance for, that is also the signer of the permit.
+     * @param amount The amount to increase the balance by.
+     * @param opId The off-chain identifier of the operation.
+     * @param permit The permit of the account for the contract to spend its tokens.
+     */
+    function depositWithPermit(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        uint256 amount,
+        bytes32 opId,
+        Permit calldata permit
+    ) external;
+
     /**
      * @dev Withdraws tokens from the smart contract.
      *
@@ -60,9 +205,14 @@ interface IBlueprintPrimary is IBlueprintTypes {
      * the configured treasury of the contract to the provided account and
      * the balance of the account will be decreased accordingly.
      *
+     * If the withdrawal fee rule is configured, the fee is deducted from the amount transferred to the account
+     * and is transferred from the treasury to the fee treasury, so the fee must not be greater than the amount.
+     * The operation must not exceed the limits applied to the account, see the {setDefaultLimits} function.
+     *
      * This function can be called only by an account with a special role.
      *
      * Emits a {BalanceUpdated} event.
+     * Emits a {FeeCharged} event if the fee is non-zero.
      *
      * @param account The account to decrease the balance for.
      * @param amount The amount to decrease the balance by.
@@ -74,6 +224,216 @@ interface IBlueprintPrimary is IBlueprintTypes {
         bytes32 opId
     ) external;
 
+    /**
+     * @dev Deposits tokens of a supported token to the smart contract.
+     *
+     * The deposit is executed like the {deposit} function does, but with the provided token and
+     * its operational treasury. The balance of the account is tracked separately for each token.
+     * If the token is the default underlying one, the function is equivalent to the {deposit} function.
+     * The fee rules and limits are applied to the operations with the token in its units.
+     * The fee is charged in the token and the daily volumes of the account are tracked separately for each token.
+     * The deposits with a payer, a permit or in a batch are executed with the default underlying token only.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {BalanceUpdated} event for the default underlying token or a {TokenBalanceUpdated} event otherwise.
+     * Emits a {FeeCharged} event if the fee is non-zero.
+     *
+     * @param token The token to deposit, see the {getSupportedTokens} function.
+     * @param account The account to increase the balance for.
+     * @param amount The amount to increase the balance by.
+     * @param opId The off-chain identifier of the operation.
+     */
+    function depositToken(
+        address token, // Tools: this comment prevents Prettier from formatting into a single line
+        address account,
+        uint256 amount,
+        bytes32 opId
+    ) external;
+
+    /**
+     * @dev Withdraws tokens of a supported token from the smart contract.
+     *
+     * The withdrawal is executed like the {withdraw} function does, but with the provided token and
+     * its operational treasury. The balance of the account is tracked separately for each token.
+     * If the token is the default underlying one, the function is equivalent to the {withdraw} function.
+     * The fee rules and limits are applied to the operations with the token in its units.
+     * The fee is charged in the token and the daily volumes of the account are tracked separately for each token.
+     * The withdrawals to a recipient or in a batch are executed with the default underlying token only.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {BalanceUpdated} event for the default underlying token or a {TokenBalanceUpdated} event otherwise.
+     * Emits a {FeeCharged} event if the fee is non-zero.
+     *
+     * @param token The token to withdraw, see the {getSupportedTokens} function.
+     * @param account The account to decrease the balance for.
+     * @param amount The amount to decrease the balance by.
+     * @param opId The off-chain identifier of the operation.
+     */
+    function withdrawToken(
+        address token, // Tools: this comment prevents Prettier from formatting into a single line
+        address account,
+        uint256 amount,
+        bytes32 opId
+    ) external;
+
+    /**
+     * @dev Deposits tokens of a payer to the smart contract for an account, e.g. a company funding its employee.
+     *
+     * The deposit is executed like the {deposit} function does, but the amount and the fee are transferred
+     * from the payer instead of the account. The payer is stored in the `counterparty` field of the operation.
+     * If the payer is the account itself, the function is equivalent to the {deposit} function.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {BalanceUpdated} event.
+     * Emits a {DepositedFrom} event if the payer is not the account.
+     * Emits a {FeeCharged} event if the fee is non-zero.
+     *
+     * @param payer The address to transfer the tokens from.
+     * @param account The account to increase the balance for.
+     * @param amount The amount to increase the balance by.
+     * @param opId The off-chain identifier of the operation.
+     */
+    function depositFrom(
+        address payer, // Tools: this comment prevents Prettier from formatting into a single line
+        address account,
+        uint256 amount,
+        bytes32 opId
+    ) external;
+
+    /**
+     * @dev Withdraws tokens from the smart contract for an account to a recipient, e.g. a settlement address.
+     *
+     * The withdrawal is executed like the {withdraw} function does, but the amount is transferred to
+     * the recipient instead of the account. The fee is deducted from the amount transferred to the recipient.
+     * The recipient is stored in the `counterparty` field of the operation.
+     * If the recipient is the account itself, the function is equivalent to the {withdraw} function.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {BalanceUpdated} event.
+     * Emits a {WithdrawnTo} event if the recipient is not the account.
+     * Emits a {FeeCharged} event if the fee is non-zero.
+     *
+     * @param account The account to decrease the balance for.
+     * @param recipient The address to transfer the tokens to.
+     * @param amount The amount to decrease the balance by.
+     * @param opId The off-chain identifier of the operation.
+     */
+    function withdrawTo(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        address recipient,
+        uint256 amount,
+        bytes32 opId
+    ) external;
+
+    /**
+     * @dev Deposits tokens to the smart contract for several accounts at once.
+     *
+     * The items are executed in order like separate {deposit} function calls.
+     * The batch is all-or-nothing: if any item fails, the whole call is reverted with the original error of the item.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {BalanceUpdated} event for each item.
+     *
+     * @param items The parameters of the deposit operations.
+     */
+    function depositBatch(OperationItem[] calldata items) external;
+
+    /**
+     * @dev Withdraws tokens from the smart contract for several accounts at once.
+     *
+     * The items are executed in order like separate {withdraw} function calls.
+     * The batch is all-or-nothing: if any item fails, the whole call is reverted with the original error of the item.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {BalanceUpdated} event for each item.
+     *
+     * @param items The parameters of the withdrawal operations.
+     */
+    function withdrawBatch(OperationItem[] calldata items) external;
+
+    /**
+     * @dev Reverts a previously executed deposit or withdrawal operation.
+     *
+     * During the function call the amount of the original operation will be transferred back:
+     * from the configured treasury to the account for a deposit or from the account to the treasury for a withdrawal.
+     * The balance of the account is restored accordingly, its operation count is increased,
+     * and the original operation gets the `DepositReverted` or `WithdrawalReverted` status.
+     * The original operation identifier becomes the last one of the account.
+     * If the original operation has a payer or a recipient, the amount is transferred back to or from it instead.
+     * The fee of the original operation is not refunded. So the reversal of a withdrawal restores the balance and
+     * transfers the tokens back only by the amount the recipient has received, i.e. the amount without the fee.
+     * The balance limit of the account is applied to the reversal of a withdrawal, other limits are not applied.
+     * If the original operation is included in the daily volume of the account that is still tracked,
+     * its amount is removed from the volume.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits an {OperationReverted} event.
+     *
+     * @param opId The off-chain identifier of the operation to revert.
+     */
+    function revertOperation(bytes32 opId) external;
+
+    /**
+     * @dev Freezes an account.
+     *
+     * Deposits, withdrawals, and reversals of operations are prohibited for a frozen account until it is unfrozen.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits an {AccountFrozen} event.
+     *
+     * @param account The account to freeze.
+     * @param reasonCode The off-chain code of the reason to freeze the account.
+     */
+    function freezeAccount(address account, uint256 reasonCode) external;
+
+    /**
+     * @dev Freezes several accounts at once with the same reason code.
+     *
+     * The accounts are processed in order like separate {freezeAccount} function calls.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits an {AccountFrozen} event for each account.
+     *
+     * @param accounts The accounts to freeze.
+     * @param reasonCode The off-chain code of the reason to freeze the accounts.
+     */
+    function freezeAccountBatch(address[] calldata accounts, uint256 reasonCode) external;
+
+    /**
+     * @dev Unfreezes a previously frozen account.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits an {AccountUnfrozen} event.
+     *
+     * @param account The account to unfreeze.
+     * @param reasonCode The off-chain code of the reason to unfreeze the account.
+     */
+    function unfreezeAccount(address account, uint256 reasonCode) external;
+
+    /**
+     * @dev Unfreezes several previously frozen accounts at once with the same reason code.
+     *
+     * The accounts are processed in order like separate {unfreezeAccount} function calls.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits an {AccountUnfrozen} event for each account.
+     *
+     * @param accounts The accounts to unfreeze.
+     * @param reasonCode The off-chain code of the reason to unfreeze the accounts.
+     */
+    function unfreezeAccountBatch(address[] calldata accounts, uint256 reasonCode) external;
+
     // ------------------ View and pure functions ----------------- //
 
     /**
@@ -100,7 +460,70 @@ interface IBlueprintPrimary is IBlueprintTypes {
      */
     function balanceOf(address account) external view returns (uint256);
 
-    /// @dev Returns the address of the underlying token contract.
+    /**
+     * @dev Returns the state of an account in a supported token.
+     * @param account The account to get the state of.
+     * @param token The token to get the state in.
+     * @return state The state of the account in the token.
+     */
+    function getAccountTokenState(address account, address token) external view returns (AccountState memory state);
+
+    /**
+     * @dev Retrieves the balance of an account in a supported token.
+     *
+     * This function is a shortcut for `getAccountTokenState().balance`.
+     *
+     * @param account The account to check the balance of.
+     * @param token The token to check the balance in.
+     * @return The resulting amount of tokens that were transferred to the contract after all operations.
+     */
+    function balanceOfToken(address account, address token) external view returns (uint256);
+
+    /**
+     * @dev Returns a page of the identifiers of the operations of an account in the execution order.
+     *
+     * Each executed operation is added to the list of its account once, its reversal does not add a new item.
+     * The list includes the operations with all tokens. So it differs from the `operationCount` field of
+     * the account states that is kept for each token separately and is increased by reversals as well:
+     * the length of the list is the sum of the operation counts in all tokens minus the number of reversals,
+     * except for the operations executed by the versions of the contract before 1.2.0 that are not listed.
+     * The page is shorter than the limit if the end of the list has been reached.
+     *
+     * @param account The account to get the operations of.
+     * @param offset The index of the first operation of the page in the list.
+     * @param limit The maximum number of operations in the page.
+     * @return opIds The off-chain identifiers of the operations.
+     */
+    function getAccountOperationIds(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        uint256 offset,
+        uint256 limit
+    ) external view returns (bytes32[] memory opIds);
+
+    /**
+     * @dev Returns a page of the operations of an account in the execution order.
+     *
+     * The page contains the same operations as the {getAccountOperationIds} function returns.
+     *
+     * @param account The account to get the operations of.
+     * @param offset The index of the first operation of the page in the list.
+     * @param limit The maximum number of operations in the page.
+     * @return operations The data of the operations.
+     */
+    function getAccountOperations(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Operation[] memory operations);
+
+    /**
+     * @dev Checks whether an account is frozen.
+     * @param account The account to check.
+     * @return True if the account is frozen.
+     */
+    function isAccountFrozen(address account) external view returns (bool);
+
+    /// @dev Returns the address of the default underlying token contract.
     function underlyingToken() external view returns (address);
 }
 
@@ -109,7 +532,7 @@ interface IBlueprintPrimary is IBlueprintTypes {
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
  * @dev The configuration part of the blueprint smart contract interface.
  */
-interface IBlueprintConfiguration {
+interface IBlueprintConfiguration is IBlueprintTypes {
     // ------------------ Events ---------------------------------- //
 
     /**
@@ -122,6 +545,68 @@ interface IBlueprintConfiguration {
      */
     event OperationalTreasuryChanged(address newTreasury, address oldTreasury);
 
+    /**
+     * @dev Emitted when the fee treasury address has been changed.
+     *
+     * See the {feeTreasury} view function comments for more details.
+     *
+     * @param newTreasury The updated address of the fee treasury.
+     * @param oldTreasury The previous address of the fee treasury.
+     */
+    event FeeTreasuryChanged(address newTreasury, address oldTreasury);
+
+    /**
+     * @dev Emitted when the fee rule of deposit operations has been changed.
+     *
+     * @param newRate The updated fee rate in basis points.
+     * @param newMinimum The updated minimum fee.
+     * @param oldRate The previous fee rate in basis points.
+     * @param oldMinimum The previous minimum fee.
+     */
+    event DepositFeeRuleChanged(uint256 newRate, uint256 newMinimum, uint256 oldRate, uint256 oldMinimum);
+
+    /**
+     * @dev Emitted when the fee rule of withdrawal operations has been changed.
+     *
+     * @param newRate The updated fee rate in basis points.
+     * @param newMinimum The updated minimum fee.
+     * @param oldRate The previous fee rate in basis points.
+     * @param oldMinimum The previous minimum fee.
+     */
+    event WithdrawalFeeRuleChanged(uint256 newRate, uint256 newMinimum, uint256 oldRate, uint256 oldMinimum);
+
+    /**
+     * @dev Emitted when the default limits of operations have been changed.
+     *
+     * @param newLimits The updated default limits.
+     * @param oldLimits The previous default limits.
+     */
+    event DefaultLimitsChanged(Limits newLimits, Limits oldLimits);
+
+    /**
+     * @dev Emitted when the limits of operations of a specific account have been changed.
+     *
+     * @param account The account whose limits have been changed.
+     * @param newLimits The updated limits of the account.
+     * @param oldLimits The previous limits of the account.
+     */
+    event AccountLimitsChanged(address indexed account, Limits newLimits, Limits oldLimits);
+
+    /**
+     * @dev Emitted when an additional token has been registered.
+     * @param token The address of the registered token.
+     */
+    event TokenRegistered(address indexed token);
+
+    /**
+     * @dev Emitted when the operational treasury of an additional token has been changed.
+     *
+     * @param token The token whose operational treasury has been changed.
+     * @param newTreasury The updated address of the operational treasury.
+     * @param oldTreasury The previous address of the operational treasury.
+     */
+    event TokenOperationalTreasuryChanged(address indexed token, address newTreasury, address oldTreasury);
+
     // ------------------ Transactional functions ----------------- //
 
     /**
@@ -135,10 +620,163 @@ interface IBlueprintConfiguration {
      */
     function setOperationalTreasury(address newTreasury) external;
 
+    /**
+     * @dev Sets the fee treasury address.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {FeeTreasuryChanged} event.
+     *
+     * @param newTreasury The new address of the fee treasury to set.
+     */
+    function setFeeTreasury(address newTreasury) external;
+
+    /**
+     * @dev Sets the fee rule of deposit operations.
+     *
+     * The rule is applied to the operations with all supported tokens in the units of the token of an operation.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {DepositFeeRuleChanged} event.
+     *
+     * @param newRate The new fee rate in basis points, where 10000 is 100%.
+     * @param newMinimum The new minimum fee.
+     */
+    function setDepositFeeRule(uint16 newRate, uint64 newMinimum) external;
+
+    /**
+     * @dev Sets the fee rule of withdrawal operations.
+     *
+     * The rule is applied to the operations with all supported tokens in the units of the token of an operation.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {WithdrawalFeeRuleChanged} event.
+     *
+     * @param newRate The new fee rate in basis points, where 10000 is 100%.
+     * @param newMinimum The new minimum fee.
+     */
+    function setWithdrawalFeeRule(uint16 newRate, uint64 newMinimum) external;
+
+    /**
+     * @dev Sets the limits of operations applied to all accounts that do not override them.
+     *
+     * The limits are applied to the operations with all supported tokens in the units of the token of an operation.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {DefaultLimitsChanged} event.
+     *
+     * @param newLimits The new default limits. A zero field means that the related limit is not applied.
+     */
+    function setDefaultLimits(Limits calldata newLimits) external;
+
+    /**
+     * @dev Sets the limits of operations of a specific account that override the default ones.
+     *
+     * Each non-zero field of the provided limits overrides the related default limit,
+     * while a zero field means that the default limit is applied. Pass all zero fields to remove the override.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits an {AccountLimitsChanged} event.
+     *
+     * @param account The account to set the limits for.
+     * @param newLimits The new limits of the account.
+     */
+    function setAccountLimits(address account, Limits calldata newLimits) external;
+
+    /**
+     * @dev Registers an additional token that can be deposited and withdrawn in addition to the default one.
+     *
+     * The operations with the token are disabled until its operational treasury is configured,
+     * see the {setTokenOperationalTreasury} function.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits a {TokenRegistered} event.
+     *
+     * @param token The address of the token to register.
+     */
+    function registerToken(address token) external;
+
+    /**
+     * @dev Sets the operational treasury address of a supported token.
+     *
+     * If the token is the default underlying one, the function is equivalent to the {setOperationalTreasury} one.
+     *
+     * This function can be called only by an account with a special role.
+     *
+     * Emits an {OperationalTreasuryChanged} event for the default underlying token or
+     * a {TokenOperationalTreasuryChanged} event otherwise.
+     *
+     * @param token The token to set the operational treasury for.
+     * @param newTreasury The new address of the operational treasury to set.
+     */
+    function setTokenOperationalTreasury(address token, address newTreasury) external;
+
     // ------------------ View functions -------------------------- //
 
-    /// @dev Returns the address of the operational treasury of this smart contract.
+    /// @dev Returns the address of the operational treasury of the default underlying token.
     function operationalTreasury() external view returns (address);
+
+    /**
+     * @dev Returns the address of the operational treasury of a supported token.
+     * @param token The token to get the operational treasury of.
+     */
+    function getTokenOperationalTreasury(address token) external view returns (address);
+
+    /// @dev Returns the addresses of all supported tokens starting with the default underlying one.
+    function getSupportedTokens() external view returns (address[] memory);
+
+    /**
+     * @dev Returns the address of the fee treasury of this smart contract.
+     *
+     * The fee treasury receives the fees of operations. It must be configured if any fee rule charges non-zero fees.
+     */
+    function feeTreasury() external view returns (address);
+
+    /// @dev Returns the fee rule of deposit operations.
+    function depositFeeRule() external view returns (FeeRule memory);
+
+    /// @dev Returns the fee rule of withdrawal operations.
+    function withdrawalFeeRule() external view returns (FeeRule memory);
+
+    /// @dev Returns the limits of operations applied to all accounts by default.
+    function defaultLimits() external view returns (Limits memory);
+
+    /**
+     * @dev Returns the limits that override the default ones for an account.
+     * @param account The account to get the limits of.
+     */
+    function getAccountLimits(address account) external view returns (Limits memory);
+
+    /**
+     * @dev Returns the limits that are actually applied to an account taking into account the default ones.
+     * @param account The account to get the limits of.
+     */
+    function getEffectiveLimits(address account) external view returns (Limits memory);
+
+    /**
+     * @dev Returns the volume of operations of an account within the current day.
+     *
+     * The volume of deposits or withdrawals is tracked only while the related daily limit is applied to the account.
+     *
+     * @param account The account to get the volume of.
+     */
+    function getDailyVolume(address account) external view returns (DailyVolume memory);
+
+    /**
+     * @dev Returns the volume of operations of an account in a supported token within the current day.
+     *
+     * The volumes are tracked separately for each token like the {getDailyVolume} function describes.
+     * If the token is the default underlying one, the function is equivalent to the {getDailyVolume} function.
+     *
+     * @param account The account to get the volume of.
+     * @param token The token to get the volume in.
+     */
+    function getTokenDailyVolume(address account, address token) external view returns (DailyVolume memory);
 }
 
 /**
@@ -152,31 +790,142 @@ interface IBlueprintErrors {
     /// @dev Thrown if the provided account address is zero.
     error Blueprint_AccountAddressZero();
 
+    /**
+     * @dev Thrown if the account is already frozen.
+     * @param account The account to freeze.
+     */
+    error Blueprint_AccountAlreadyFrozen(address account);
+
+    /**
+     * @dev Thrown if the account of an operation is frozen.
+     * @param account The frozen account.
+     */
+    error Blueprint_AccountFrozen(address account);
+
+    /**
+     * @dev Thrown if the account to unfreeze is not frozen.
+     * @param account The account to unfreeze.
+     */
+    error Blueprint_AccountNotFrozen(address account);
+
     /// @dev Thrown if the provided amount is greater than the allowed maximum.
     error Blueprint_AmountExcess();
 
     /// @dev Thrown if the result account balance is greater than the allowed maximum.
     error Blueprint_BalanceExcess();
 
+    /**
+     * @dev Thrown if the balance of an account is not sufficient for the operation.
+     * @param account The account of the operation.
+     * @param balance The current balance of the account.
+     * @param amount The amount to decrease the balance by.
+     */
+    error Blueprint_BalanceInsufficient(address account, uint256 balance, uint256 amount);
+
+    /**
+     * @dev Thrown if the result account balance is greater than the configured limit.
+     * @param account The account of the operation.
+     * @param newBalance The balance of the account that would be after the operation.
+     * @param limit The maximum balance of the account.
+     */
+    error Blueprint_BalanceLimitExceeded(address account, uint256 newBalance, uint256 limit);
+
+    /// @dev Thrown if the provided payer or recipient address of an operation is zero.
+    error Blueprint_CounterpartyAddressZero();
+
+    /**
+     * @dev Thrown if the total amount of deposits of an account within a day would be greater than the limit.
+     * @param account The account of the operation.
+     * @param volume The total amount of deposits of the account within the current day before the operation.
+     * @param amount The amount of the operation.
+     * @param limit The maximum total amount of deposits within a day.
+     */
+    error Blueprint_DailyDepositLimitExceeded(address account, uint256 volume, uint256 amount, uint256 limit);
+
+    /**
+     * @dev Thrown if the total amount of withdrawals of an account within a day would be greater than the limit.
+     * @param account The account of the operation.
+     * @param volume The total amount of withdrawals of the account within the current day before the operation.
+     * @param amount The amount of the operation.
+     * @param limit The maximum total amount of withdrawals within a day.
+     */
+    error Blueprint_DailyWithdrawalLimitExceeded(address account, uint256 volume, uint256 amount, uint256 limit);
+
+    /// @dev Thrown if the provided fee rate is greater than 100%.
+    error Blueprint_FeeRateExcess();
+
+    /// @dev Thrown if the provided fee rule is already configured.
+    error Blueprint_FeeRuleAlreadyConfigured();
+
+    /// @dev Thrown if the fee of an operation is non-zero, but the fee treasury is not configured.
+    error Blueprint_FeeTreasuryAddressZero();
+
     /// @dev Thrown if the provided new implementation address is not of a blueprint contract.
     error Blueprint_ImplementationAddressInvalid();
 
+    /// @dev Thrown if the current version is lower than the minimum compatible version of the new implementation.
+    error Blueprint_ImplementationVersionIncompatible();
+
+    /// @dev Thrown if the version of the new implementation is not greater than the current version.
+    error Blueprint_ImplementationVersionNotGreater();
+
+    /// @dev Thrown if the provided limits are already configured.
+    error Blueprint_LimitsAlreadyConfigured();
+
     /**
      * @dev Thrown if the operation with the provided identifier is already executed.
      * @param opId The provided off-chain identifier of the related operation.
      */
     error Blueprint_OperationAlreadyExecuted(bytes32 opId);
 
+    /**
+     * @dev Thrown if the operation with the provided identifier is already reverted.
+     * @param opId The provided off-chain identifier of the related operation.
+     */
+    error Blueprint_OperationAlreadyReverted(bytes32 opId);
+
+    /**
+     * @dev Thrown if the amount of an operation is greater than the configured limit.
+     * @param account The account of the operation.
+     * @param amount The amount of the operation.
+     * @param limit The maximum amount of a single operation.
+     */
+    error Blueprint_OperationAmountLimitExceeded(address account, uint256 amount, uint256 limit);
+
     /// @dev Thrown if the provided off-chain operation identifier is zero.
     error Blueprint_OperationIdZero();
 
+    /**
+     * @dev Thrown if the operation with the provided identifier does not exist.
+     * @param opId The provided off-chain identifier of the related operation.
+     */
+    error Blueprint_OperationNonexistent(bytes32 opId);
+
+    /**
+     * @dev Thrown if the permit cannot be consumed and the current allowance is not sufficient for the deposit.
+     * @param reason The original error data of the permit call.
+     */
+    error Blueprint_PermitFailed(bytes reason);
+
     /**
      * @dev Thrown if the provided underlying token address is zero.
      *
-     * This error can be thrown during the contract initialization.
+     * This error can be thrown during the contract initialization or a token registration.
      */
     error Blueprint_TokenAddressZero();
 
+    /**
+     * @dev Thrown if the token to register is already supported.
+     * @param token The address of the token.
+     */
+    error Blueprint_TokenAlreadyRegistered(address token);
+
+    /**
+     * @dev Thrown if the provided token is not supported.
+     * @param token The address of the token.
+     */
+    error Blueprint_TokenNotSupported(address token);
+
     /// @dev Thrown if the provided treasury address is already configured.
     error Blueprint_TreasuryAddressAlreadyConfigured();
 
@@ -185,6 +934,13 @@ interface IBlueprintErrors {
 
     /// @dev Thrown if the provided treasury has not granted the contract allowance to spend tokens.
     error Blueprint_TreasuryAllowanceZero();
+
+    /**
+     * @dev Thrown if the fee of a withdrawal is greater than its amount, so it cannot be deducted from the amount.
+     * @param amount The amount of the withdrawal.
+     * @param fee The fee of the withdrawal.
+     */
+    error Blueprint_WithdrawalFeeExcess(uint256 amount, uint256 fee);
 }
 
 /**
@@ -198,6 +954,8 @@ interface IBlueprintErrors {
  * It uses an external storage called the operational treasury that can be configured by the owner of the contract.
  * The contract can be paused, in that case only configuration and non-transactional functions can be called.
  * Deposit, withdrawal, and similar functions are reverted if the contract is paused.
+ * Deposits and withdrawals can also be paused separately, see the {DEPOSIT_OPERATION_KIND} and
+ * {WITHDRAWAL_OPERATION_KIND} operation kinds.
  *
  * Some logic and entities of this contract are just for demonstration purposes and do not have any real use.
  */
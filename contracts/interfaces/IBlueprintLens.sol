@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+import { IBlueprintTypes } from "./IBlueprintTypes.sol";
+
+/**
+ * @title IBlueprintLens interface
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev The interface of the lens smart contract that previews operations of a blueprint smart contract.
+ *
+ * The lens does not store any data except the address of the blueprint smart contract it is bound to.
+ * It reads the state through the view functions of the blueprint smart contract and the underlying token,
+ * so it can be redeployed at any time without affecting the blueprint smart contract.
+ */
+interface IBlueprintLens is IBlueprintTypes {
+    // ------------------ Errors ---------------------------------- //
+
+    /// @dev Thrown if the provided blueprint contract address is zero.
+    error BlueprintLens_BlueprintAddressZero();
+
+    // ------------------ View functions -------------------------- //
+
+    /**
+     * @dev Previews a deposit of the default underlying token without executing it.
+     *
+     * The same checks as during the execution of the {IBlueprintPrimary-deposit} function are performed including
+     * the allowance of the account for the blueprint contract to transfer the amount and the fee.
+     *
+     * @param account The account to increase the balance for.
+     * @param amount The amount to increase the balance by.
+     * @param opId The off-chain identifier of the operation.
+     * @return result The result of the preview, see the {PreviewResult} enum.
+     * @return newBalance The balance of the account after the deposit if it can be executed, otherwise zero.
+     */
+    function previewDeposit(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        uint256 amount,
+        bytes32 opId
+    ) external view returns (PreviewResult result, uint256 newBalance);
+
+    /**
+     * @dev Previews a withdrawal of the default underlying token without executing it.
+     *
+     * The same checks as during the execution of the {IBlueprintPrimary-withdraw} function are performed including
+     * the allowance of the operational treasury to transfer the amount, the fee is deducted from it.
+     *
+     * @param account The account to decrease the balance for.
+     * @param amount The amount to decrease the balance by.
+     * @param opId The off-chain identifier of the operation.
+     * @return result The result of the preview, see the {PreviewResult} enum.
+     * @return newBalance The balance of the account after the withdrawal if it can be executed, otherwise zero.
+     */
+    function previewWithdraw(
+        address account, // Tools: this comment prevents Prettier from formatting into a single line
+        uint256 amount,
+        bytes32 opId
+    ) external view returns (PreviewResult result, uint256 newBalance);
+
+    /// @dev Returns the address of the blueprint smart contract the lens is bound to.
+    function blueprint() external view returns (address);
+}
@@ -15,14 +15,68 @@ interface IBlueprintTypes {
      *
      * The values:
      *
-     * - Nonexistent = 0 -- The operation does not exist (the default value).
-     * - Deposit = 1 ------ The deposit operation has been executed.
-     * - Withdrawal = 2 --- The withdrawal operation has been executed.
+     * - Nonexistent = 0 ---------- The operation does not exist (the default value).
+     * - Deposit = 1 -------------- The deposit operation has been executed.
+     * - Withdrawal = 2 ----------- The withdrawal operation has been executed.
+     * - DepositReverted = 3 ------ The deposit operation has been executed and then reverted.
+     * - WithdrawalReverted = 4 --- The withdrawal operation has been executed and then reverted.
      */
     enum OperationStatus {
         Nonexistent,
         Deposit,
-        Withdrawal
+        Withdrawal,
+        DepositReverted,
+        WithdrawalReverted
+    }
+
+    /**
+     * @dev Possible results of the preview of an operation used in the blueprint lens smart contract.
+     *
+     * Each value except the first one names the reason why the operation would fail if it was executed.
+     * The reasons are checked in the same order as during the execution, so only the first one is returned.
+     *
+     * The values:
+     *
+     * - Success = 0 ------------------------------ The operation can be executed.
+     * - ContractPaused = 1 ----------------------- The contract or the kind of the operation is paused.
+     * - AccountAddressZero = 2 ------------------- The account address is zero.
+     * - OperationIdZero = 3 ---------------------- The off-chain operation identifier is zero.
+     * - AmountExcess = 4 ------------------------- The amount is greater than the allowed maximum.
+     * - AccountFrozen = 5 ------------------------ The account is frozen.
+     * - OperationalTreasuryAddressZero = 6 ------- The operational treasury is not configured.
+     * - OperationAlreadyExecuted = 7 ------------- The operation identifier is already used.
+     * - BalanceInsufficient = 8 ------------------ The balance of the account is less than the withdrawal amount.
+     * - BalanceExcess = 9 ------------------------ The result balance is greater than the allowed maximum.
+     * - OperationAmountLimitExceeded = 10 -------- The amount is greater than the limit of the account.
+     * - BalanceLimitExceeded = 11 ---------------- The result balance is greater than the limit of the account.
+     * - DailyDepositLimitExceeded = 12 ----------- The daily volume of deposits would exceed the limit.
+     * - DailyWithdrawalLimitExceeded = 13 -------- The daily volume of withdrawals would exceed the limit.
+     * - FeeTreasuryAddressZero = 14 -------------- The fee is non-zero, but the fee treasury is not configured.
+     * - AccountAllowanceInsufficient = 15 -------- The account allowance for the contract does not cover
+     *                                              the tokens to transfer from the account.
+     * - TreasuryAllowanceInsufficient = 16 ------- The operational treasury allowance for the contract does not
+     *                                              cover the amount of the withdrawal.
+     * - WithdrawalFeeExcess = 17 ----------------- The fee of the withdrawal is greater than its amount.
+     */
+    enum PreviewResult {
+        Success,
+        ContractPaused,
+        AccountAddressZero,
+        OperationIdZero,
+        AmountExcess,
+        AccountFrozen,
+        OperationalTreasuryAddressZero,
+        OperationAlreadyExecuted,
+        BalanceInsufficient,
+        BalanceExcess,
+        OperationAmountLimitExceeded,
+        BalanceLimitExceeded,
+        DailyDepositLimitExceeded,
+        DailyWithdrawalLimitExceeded,
+        FeeTreasuryAddressZero,
+        AccountAllowanceInsufficient,
+        TreasuryAllowanceInsufficient,
+        WithdrawalFeeExcess
     }
 
     /**
@@ -30,15 +84,28 @@ interface IBlueprintTypes {
      *
      * The fields:
      *
-     * - status --- The status of the operation according to the {OperationStatus} enum.
-     * - account -- The address of the account involved in the operation.
-     * - amount --- The amount parameter of the related operation.
+     * - status --------- The status of the operation according to the {OperationStatus} enum.
+     * - account -------- The address of the account involved in the operation.
+     * - amount --------- The amount parameter of the related operation.
+     * - fee ------------ The fee charged in addition to the amount of a deposit or deducted from a withdrawal.
+     * - token ---------- The address of the token of the operation or zero for the default underlying token.
+     * - counterparty --- The payer of a deposit or the recipient of a withdrawal, zero if it is the account itself.
      */
     struct Operation {
+        // Slot 1
         OperationStatus status;
         address account;
         uint64 amount;
-        // uint24 __reserved; // Reserved for future use until the end of the storage slot
+        // uint24 __reserved1; // Reserved for future use until the end of the storage slot
+
+        // Slot 2
+        uint64 fee;
+        address token;
+        // uint32 __reserved2; // Reserved for future use until the end of the storage slot
+
+        // Slot 3
+        address counterparty;
+        // uint96 __reserved3; // Reserved for future use until the end of the storage slot
     }
 
     /**
@@ -48,7 +115,7 @@ interface IBlueprintTypes {
      *
      * - lastOpId -------- The identifier of the last operation related to the account.
      * - balance --------- The balance of the account.
-     * - operationCount -- The number of operations related to the account.
+     * - operationCount -- The number of operations related to the account, including the reversals of operations.
      */
     struct AccountState {
         // Slot 1
@@ -60,4 +127,90 @@ interface IBlueprintTypes {
         uint32 operationCount;
         // uint160 __reserved; // Reserved for future use until the end of the storage slot
     }
+
+    /**
+     * @dev The rule to calculate the fee of an operation.
+     *
+     * The fee is the amount of the operation multiplied by the rate, but not less than the minimum.
+     *
+     * The fields:
+     *
+     * - rate ----- The rate of the fee in basis points, where 10000 is 100%.
+     * - minimum -- The minimum fee of an operation.
+     */
+    struct FeeRule {
+        uint16 rate;
+        uint64 minimum;
+        // uint176 __reserved; // Reserved for future use until the end of the storage slot
+    }
+
+    /**
+     * @dev The limits of operations applied to an account.
+     *
+     * A zero value of a field means that the related limit is not applied.
+     * The daily limits are applied to the volume of operations within a calendar day in UTC.
+     *
+     * The fields:
+     *
+     * - maxBalance ----------- The maximum balance of the account after a deposit.
+     * - maxOperationAmount --- The maximum amount of a single deposit or withdrawal.
+     * - maxDailyDeposit ------ The maximum total amount of deposits within a day.
+     * - maxDailyWithdrawal --- The maximum total amount of withdrawals within a day.
+     */
+    struct Limits {
+        uint64 maxBalance;
+        uint64 maxOperationAmount;
+        uint64 maxDailyDeposit;
+        uint64 maxDailyWithdrawal;
+    }
+
+    /**
+     * @dev The volume of operations of an account within a day.
+     *
+     * The fields:
+     *
+     * - day ---------------- The number of the day since the Unix epoch the volume is tracked for.
+     * - depositVolume ------ The total amount of deposits within the day.
+     * - withdrawalVolume --- The total amount of withdrawals within the day.
+     */
+    struct DailyVolume {
+        uint32 day;
+        uint64 depositVolume;
+        uint64 withdrawalVolume;
+        // uint96 __reserved; // Reserved for future use until the end of the storage slot
+    }
+
+    /**
+     * @dev The parameters of a single operation within a batch one.
+     *
+     * The fields:
+     *
+     * - account -- The account involved in the operation.
+     * - amount --- The amount of the operation.
+     * - opId ----- The off-chain identifier of the operation.
+     */
+    struct OperationItem {
+        address account;
+        uint256 amount;
+        bytes32 opId;
+    }
+
+    /**
+     * @dev The EIP-2612 permit signed by an account to allow the contract to spend its tokens.
+     *
+     * See details: https://eips.ethereum.org/EIPS/eip-2612
+     *
+     * The fields:
+     *
+     * - value ------ The allowance to set for the contract.
+     * - deadline --- The timestamp until which the permit is valid.
+     * - v, r, s ---- The components of the signature of the permit.
+     */
+    struct Permit {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
 }
@@ -29,4 +29,11 @@ interface IVersionable {
 
     /// @dev Returns the version of the contract.
     function $__VERSION() external pure returns (Version memory);
+
+    /**
+     * @dev Returns the minimum version of the previous implementation that can be upgraded to this one.
+     *
+     * The zero version means that an upgrade from any previous version is allowed.
+     */
+    function $__MIN_COMPATIBLE_VERSION() external pure returns (Version memory);
 }
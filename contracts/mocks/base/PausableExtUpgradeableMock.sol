@@ -12,6 +12,11 @@ import { PausableExtUpgradeable } from "../../base/PausableExtUpgradeable.sol";
  * @dev An implementation of the {PausableExtUpgradeable} contract for test purposes.
  */
 contract PausableExtUpgradeableMock is PausableExtUpgradeable, UUPSUpgradeable {
+    // ------------------ Events ---------------------------------- //
+
+    /// @dev Emitted when the mock operation of a kind has been executed.
+    event MockOperationExecuted(bytes32 operationKind);
+
     // ------------------ Initializers ---------------------------- //
 
     /**
@@ -36,6 +41,14 @@ contract PausableExtUpgradeableMock is PausableExtUpgradeable, UUPSUpgradeable {
         __PausableExt_init_unchained();
     }
 
+    /**
+     * @dev Executes a mock operation of a kind to verify the 'whenOperationKindNotPaused' modifier.
+     * @param operationKind The identifier of the operation kind.
+     */
+    function executeOperation(bytes32 operationKind) external whenOperationKindNotPaused(operationKind) {
+        emit MockOperationExecuted(operationKind);
+    }
+
     // ------------------ Internal functions ---------------------- //
 
     /**
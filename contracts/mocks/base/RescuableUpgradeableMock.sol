@@ -12,6 +12,11 @@ import { RescuableUpgradeable } from "../../base/RescuableUpgradeable.sol";
  * @dev An implementation of the {RescuableUpgradeable} contract for test purposes.
  */
 contract RescuableUpgradeableMock is RescuableUpgradeable, UUPSUpgradeable {
+    // ------------------ Storage variables ----------------------- //
+
+    /// @dev The tokens that are protected from rescue.
+    mapping(address => bool) public protectedTokens;
+
     // ------------------ Initializers ---------------------------- //
 
     /**
@@ -36,8 +41,26 @@ contract RescuableUpgradeableMock is RescuableUpgradeable, UUPSUpgradeable {
         __Rescuable_init_unchained();
     }
 
+    /**
+     * @dev Protects a token from rescue or removes the protection to verify the '_isRescueProtected' hook.
+     * @param token The address of the token smart contract or zero for the native coin.
+     * @param protected True to protect the token, false to remove the protection.
+     */
+    function setTokenProtection(address token, bool protected) external {
+        protectedTokens[token] = protected;
+    }
+
     // ------------------ Internal functions ---------------------- //
 
+    /**
+     * @dev Protects the tokens configured with the {setTokenProtection} function from rescue.
+     * @param token The address of the token smart contract or zero for the native coin.
+     * @return True if the token is protected.
+     */
+    function _isRescueProtected(address token) internal view override returns (bool) {
+        return protectedTokens[token];
+    }
+
     /**
      * @dev The implementation of the upgrade authorization function of the parent UUPSUpgradeable contract.
      * @param newImplementation The address of the new implementation.
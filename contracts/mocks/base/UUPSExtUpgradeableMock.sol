@@ -15,6 +15,9 @@ contract UUPSExtUpgradeableMock is UUPSExtUpgradeable {
     /// @dev Emitted when the internal `_validateUpgrade()` function is called with the function's parameters.
     event MockValidateUpgradeCall(address newImplementation);
 
+    /// @dev Emitted when the internal `_authorizeUpgradeScheduling()` function is called.
+    event MockAuthorizeUpgradeSchedulingCall();
+
     // ------------------ Initializers ---------------------------- //
 
     /**
@@ -45,4 +48,13 @@ contract UUPSExtUpgradeableMock is UUPSExtUpgradeable {
     function _validateUpgrade(address newImplementation) internal override {
         emit MockValidateUpgradeCall(newImplementation);
     }
+
+    /**
+     * @dev An implementation of the authorizeUpgradeScheduling function of the UUPSExtUpgradeable contract.
+     *
+     * Does not execute any authorization steps, just emits an event.
+     */
+    function _authorizeUpgradeScheduling() internal override {
+        emit MockAuthorizeUpgradeSchedulingCall();
+    }
 }
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+import { ERC1155 } from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+
+/**
+ * @title ERC1155TokenMock contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev An implementation of the {ERC1155} contract for testing purposes.
+ */
+contract ERC1155TokenMock is ERC1155 {
+    // ------------------ Constructor ----------------------------- //
+
+    /**
+     * @dev The constructor of the contract.
+     * @param uri_ The URI of the token metadata to set for this ERC1155-compatible contract.
+     */
+    constructor(string memory uri_) ERC1155(uri_) {}
+
+    // ------------------ Transactional functions ----------------- //
+
+    /**
+     * @dev Calls the appropriate internal function to mint needed amount of tokens for an account.
+     *
+     * Like the safe transfer functions, it checks that a contract receiver accepts the tokens.
+     *
+     * @param account The address of an account to mint for.
+     * @param tokenId The identifier of the tokens to mint.
+     * @param amount The amount of tokens to mint.
+     */
+    function mint(address account, uint256 tokenId, uint256 amount) external {
+        _mint(account, tokenId, amount, "");
+    }
+}
@@ -3,13 +3,14 @@
 pragma solidity ^0.8.20;
 
 import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { ERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
 /**
  * @title ERC20TokenMock contract
  * @author CloudWalk Inc. (See https://www.cloudwalk.io)
- * @dev An implementation of the {ERC20} contract for testing purposes.
+ * @dev An implementation of the {ERC20} contract with EIP-2612 permits for testing purposes.
  */
-contract ERC20TokenMock is ERC20 {
+contract ERC20TokenMock is ERC20, ERC20Permit {
     // ------------------ Constructor ----------------------------- //
 
     /**
@@ -17,7 +18,7 @@ contract ERC20TokenMock is ERC20 {
      * @param name_ The name of the token to set for this ERC20-compatible contract.
      * @param symbol_ The symbol of the token to set for this ERC20-compatible contract.
      */
-    constructor(string memory name_, string memory symbol_) ERC20(name_, symbol_) {}
+    constructor(string memory name_, string memory symbol_) ERC20(name_, symbol_) ERC20Permit(name_) {}
 
     // ------------------ Transactional functions ----------------- //
 
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+/**
+ * @title ERC721TokenMock contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev An implementation of the {ERC721} contract for testing purposes.
+ */
+contract ERC721TokenMock is ERC721 {
+    // ------------------ Constructor ----------------------------- //
+
+    /**
+     * @dev The constructor of the contract.
+     * @param name_ The name of the token to set for this ERC721-compatible contract.
+     * @param symbol_ The symbol of the token to set for this ERC721-compatible contract.
+     */
+    constructor(string memory name_, string memory symbol_) ERC721(name_, symbol_) {}
+
+    // ------------------ Transactional functions ----------------- //
+
+    /**
+     * @dev Calls the appropriate internal function to mint a token for an account.
+     *
+     * The receiver of the token is not checked, so the token can be minted to any contract.
+     *
+     * @param account The address of an account to mint for.
+     * @param tokenId The identifier of the token to mint.
+     */
+    function mint(address account, uint256 tokenId) external {
+        _mint(account, tokenId);
+    }
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.24;
+
+import { Blueprint } from "../Blueprint.sol";
+
+/**
+ * @title BlueprintIncompatibleVersionTestable contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev The version of the blueprint contract that cannot be upgraded to from the original contract.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract BlueprintIncompatibleVersionTestable is Blueprint {
+    /// @dev Returns the version of the contract that is greater than the one of the original contract.
+    function $__VERSION() public pure override returns (Version memory) {
+        return Version(type(uint16).max, 0, 0);
+    }
+
+    /// @dev Returns the minimum compatible version that is greater than the version of the original contract.
+    function $__MIN_COMPATIBLE_VERSION() external pure override returns (Version memory) {
+        return Version(type(uint16).max - 1, 0, 0);
+    }
+}
@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.24;
+
+import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+
+import { IVersionable } from "../interfaces/IVersionable.sol";
+
+import { BlueprintStorageLayout } from "../BlueprintStorageLayout.sol";
+
+/**
+ * @title BlueprintLegacyTestable contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev The reduced implementation of the blueprint contract of version 1.1.0 to test upgrades from it.
+ *
+ * Like the release of that version, it has no scheduling of upgrades and the owner upgrades it immediately.
+ */
+contract BlueprintLegacyTestable is BlueprintStorageLayout, AccessControlUpgradeable, UUPSUpgradeable {
+    // ------------------ Constants ------------------------------- //
+
+    /// @dev The role of this contract owner.
+    bytes32 public constant OWNER_ROLE = keccak256("OWNER_ROLE");
+
+    /// @dev The role of a grantor that is allowed to grant and revoke other roles.
+    bytes32 public constant GRANTOR_ROLE = keccak256("GRANTOR_ROLE");
+
+    // ------------------ Constructor ----------------------------- //
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    // ------------------ Initializers ---------------------------- //
+
+    /**
+     * @dev Initializer of the upgradeable contract.
+     * @param token_ The address of the token to set as the underlying one.
+     */
+    function initialize(address token_) external initializer {
+        _getBlueprintStorage().token = token_;
+
+        _setRoleAdmin(OWNER_ROLE, OWNER_ROLE);
+        _setRoleAdmin(GRANTOR_ROLE, OWNER_ROLE);
+        _grantRole(OWNER_ROLE, _msgSender());
+    }
+
+    // ------------------ Pure functions -------------------------- //
+
+    /// @dev Returns the version of the contract.
+    function $__VERSION() external pure returns (IVersionable.Version memory) {
+        return IVersionable.Version(1, 1, 0);
+    }
+
+    // ------------------ Internal functions ---------------------- //
+
+    /**
+     * @dev Authorizes an immediate upgrade of the contract by the owner.
+     * @param newImplementation The address of the new implementation.
+     */
+    function _authorizeUpgrade(address newImplementation) internal view override onlyRole(OWNER_ROLE) {
+        newImplementation; // Suppresses a compiler warning about the unused variable
+    }
+}
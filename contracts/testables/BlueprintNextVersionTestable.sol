@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.24;
+
+import { Blueprint } from "../Blueprint.sol";
+
+/**
+ * @title BlueprintNextVersionTestable contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev The version of the blueprint contract with a greater version number to test upgrades.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract BlueprintNextVersionTestable is Blueprint {
+    /// @dev Returns the version of the contract that is greater than the one of the original contract.
+    function $__VERSION() public pure override returns (Version memory) {
+        return Version(type(uint16).max, 0, 0);
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.24;
+
+import { Blueprint } from "../Blueprint.sol";
+
+/**
+ * @title BlueprintPreviousVersionTestable contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev The version of the blueprint contract with a lower version number to test upgrades.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract BlueprintPreviousVersionTestable is Blueprint {
+    /// @dev Returns the version of the contract that is lower than the one of the original contract.
+    function $__VERSION() public pure override returns (Version memory) {
+        return Version(1, 1, 0);
+    }
+}
@@ -5,17 +5,64 @@ import "hardhat-contract-sizer";
 import "hardhat-gas-reporter";
 import dotenv from "dotenv";
 
+import "./tasks/auditRoles";
+import "./tasks/deploy";
+import "./tasks/indexer";
+import "./tasks/reconcile";
+import "./tasks/submitOperations";
+import "./tasks/upgrade";
+
 dotenv.config();
 
+// The Blueprint contract does not fit the size limit of the runtime code with the default compiler settings,
+// so it and the contracts that inherit or import it are compiled with the settings below.
+// See the measured sizes and gas in the "Compiler settings" section of the README file.
+const BLUEPRINT_SOURCES: string[] = [
+  "contracts/Blueprint.sol",
+  "contracts/BlueprintLens.sol",
+  "contracts/testables/BlueprintIncompatibleVersionTestable.sol",
+  "contracts/testables/BlueprintNextVersionTestable.sol",
+  "contracts/testables/BlueprintPreviousVersionTestable.sol",
+  "contracts/testables/BlueprintTestable.sol"
+];
+const BLUEPRINT_OPTIMIZER_RUNS = 200;
+
+// The default sequence of the Yul optimizer steps without the function specializer ("F"),
+// which duplicates the operation functions for each operation kind and makes the Blueprint contract too big
+const BLUEPRINT_YUL_OPTIMIZER_STEPS =
+  "dhfoDgvulfnTUtnIf[xa[r]EscLMVcul [j]Tpeulxa[rul]xa[r]cLgvifCTUca[r]LSsTOtfDnca[r]Iulc]jmul[jul] VcTOcul jmul" +
+  ":fDnTOcmu";
+
+const BLUEPRINT_COMPILER = {
+  version: process.env.SOLIDITY_VERSION ?? "",
+  settings: {
+    viaIR: true,
+    optimizer: {
+      enabled: process.env.OPTIMIZER_ENABLED === "true",
+      runs: BLUEPRINT_OPTIMIZER_RUNS,
+      details: {
+        yulDetails: {
+          optimizerSteps: BLUEPRINT_YUL_OPTIMIZER_STEPS
+        }
+      }
+    }
+  }
+};
+
 const config: HardhatUserConfig = {
   solidity: {
-    version: process.env.SOLIDITY_VERSION ?? "",
-    settings: {
-      optimizer: {
-        enabled: process.env.OPTIMIZER_ENABLED === "true",
-        runs: Number(process.env.OPTIMIZER_RUNS)
+    compilers: [
+      {
+        version: process.env.SOLIDITY_VERSION ?? "",
+        settings: {
+          optimizer: {
+            enabled: process.env.OPTIMIZER_ENABLED === "true",
+            runs: Number(process.env.OPTIMIZER_RUNS)
+          }
+        }
       }
-    }
+    ],
+    overrides: Object.fromEntries(BLUEPRINT_SOURCES.map(source => [source, BLUEPRINT_COMPILER]))
   },
   networks: {
     hardhat: {
@@ -0,0 +1,348 @@
+import { Interface, Log, Provider } from "ethers";
+import { BLUEPRINT_ABI } from "../client/abi";
+import { IndexerStore } from "./stores";
+import {
+  BalanceUpdatedRecord,
+  BlockCheckpoint,
+  EventLocation,
+  FeeChargedRecord,
+  FreezeChangedRecord,
+  IndexerData,
+  OperationalTreasuryChangedRecord
+} from "./types";
+
+const BLUEPRINT_INTERFACE = new Interface(BLUEPRINT_ABI);
+const EVENT_ACCOUNT_FROZEN = BLUEPRINT_INTERFACE.getEvent("AccountFrozen")!;
+const EVENT_ACCOUNT_UNFROZEN = BLUEPRINT_INTERFACE.getEvent("AccountUnfrozen")!;
+const EVENT_BALANCE_UPDATED = BLUEPRINT_INTERFACE.getEvent("BalanceUpdated")!;
+const EVENT_FEE_CHARGED = BLUEPRINT_INTERFACE.getEvent("FeeCharged")!;
+const EVENT_OPERATION_REVERTED = BLUEPRINT_INTERFACE.getEvent("OperationReverted")!;
+const EVENT_OPERATIONAL_TREASURY_CHANGED = BLUEPRINT_INTERFACE.getEvent("OperationalTreasuryChanged")!;
+const EVENT_TOKEN_BALANCE_UPDATED = BLUEPRINT_INTERFACE.getEvent("TokenBalanceUpdated")!;
+const EVENT_TOKEN_OPERATION_REVERTED = BLUEPRINT_INTERFACE.getEvent("TokenOperationReverted")!;
+const EVENT_TOKEN_OPERATIONAL_TREASURY_CHANGED = BLUEPRINT_INTERFACE.getEvent("TokenOperationalTreasuryChanged")!;
+
+const DEFAULT_CONFIRMATIONS = 12;
+const DEFAULT_BATCH_SIZE = 2000;
+const MAX_CHECKPOINT_COUNT = 128;
+
+export interface IndexerOptions {
+  startBlock: number;
+  confirmations?: number;
+  batchSize?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  eventCount: number;
+  rolledBackToBlock?: number;
+}
+
+function compareLogs(left: Log, right: Log): number {
+  return left.blockNumber - right.blockNumber || left.index - right.index;
+}
+
+/**
+ * Checks whether a record belongs to the provided additional token or to the default one if the token is omitted.
+ */
+function isOfToken(record: { token?: string }, token: string | undefined): boolean {
+  return record.token?.toLowerCase() === token?.toLowerCase();
+}
+
+/**
+ * Follows a Blueprint proxy and indexes its `BalanceUpdated`, `OperationReverted`, `FeeCharged`,
+ * `AccountFrozen`, `AccountUnfrozen` and `OperationalTreasuryChanged` events, as well as
+ * the `TokenBalanceUpdated`, `TokenOperationReverted` and `TokenOperationalTreasuryChanged` ones of additional tokens.
+ *
+ * Only blocks that are at least `confirmations` blocks deep are indexed.
+ * The hashes of indexed blocks are kept as checkpoints, so if a reorganization deeper than that happens anyway,
+ * the events after the last still canonical checkpoint are dropped and indexed again.
+ */
+export class BlueprintIndexer {
+  readonly confirmations: number;
+  readonly batchSize: number;
+  private data: IndexerData;
+
+  constructor(
+    readonly provider: Provider,
+    readonly proxy: string,
+    readonly store: IndexerStore,
+    options: IndexerOptions
+  ) {
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+    const storedData = store.load();
+    if (storedData && storedData.proxy.toLowerCase() !== proxy.toLowerCase()) {
+      throw new Error(`The indexer store belongs to another proxy: ${storedData.proxy}`);
+    }
+    this.data = storedData ?? {
+      proxy,
+      startBlock: options.startBlock,
+      lastIndexedBlock: options.startBlock - 1,
+      checkpoints: [],
+      balanceUpdates: [],
+      feeCharges: [],
+      freezeChanges: [],
+      treasuryChanges: []
+    };
+    // The data stored by the previous versions of the indexer has no fees and freezes
+    this.data.feeCharges ??= [];
+    this.data.freezeChanges ??= [];
+  }
+
+  get startBlock(): number {
+    return this.data.startBlock;
+  }
+
+  get lastIndexedBlock(): number {
+    return this.data.lastIndexedBlock;
+  }
+
+  // ------------------ Indexing ---------------------------------------- //
+
+  /**
+   * Indexes all confirmed blocks after the last indexed one and saves the result to the store.
+   */
+  async sync(): Promise<SyncResult> {
+    const rolledBackToBlock = await this.rollBackReorganizedBlocks();
+    const fromBlock = this.data.lastIndexedBlock + 1;
+    const confirmedBlock = await this.provider.getBlockNumber() - this.confirmations;
+    let eventCount = 0;
+
+    for (let batchFromBlock = fromBlock; batchFromBlock <= confirmedBlock; batchFromBlock += this.batchSize) {
+      const batchToBlock = Math.min(batchFromBlock + this.batchSize - 1, confirmedBlock);
+      const logs = await this.provider.getLogs({
+        address: this.proxy,
+        fromBlock: batchFromBlock,
+        toBlock: batchToBlock,
+        topics: [[
+          EVENT_BALANCE_UPDATED.topicHash,
+          EVENT_OPERATION_REVERTED.topicHash,
+          EVENT_FEE_CHARGED.topicHash,
+          EVENT_ACCOUNT_FROZEN.topicHash,
+          EVENT_ACCOUNT_UNFROZEN.topicHash,
+          EVENT_OPERATIONAL_TREASURY_CHANGED.topicHash,
+          EVENT_TOKEN_BALANCE_UPDATED.topicHash,
+          EVENT_TOKEN_OPERATION_REVERTED.topicHash,
+          EVENT_TOKEN_OPERATIONAL_TREASURY_CHANGED.topicHash
+        ]]
+      });
+      // The logs of a batch follow all the indexed ones, so the records stay sorted if the batch is sorted
+      logs.sort(compareLogs).forEach(log => this.processLog(log));
+      eventCount += logs.length;
+
+      await this.addCheckpoint(batchToBlock);
+      this.data.lastIndexedBlock = batchToBlock;
+      this.store.save(this.data);
+    }
+
+    return { fromBlock, toBlock: Math.max(confirmedBlock, fromBlock - 1), eventCount, rolledBackToBlock };
+  }
+
+  /**
+   * Indexes new blocks periodically until the returned stop function is called.
+   */
+  follow(intervalMs: number, onError: (error: unknown) => void = console.error): () => void {
+    let stopped = false;
+    const loop = async () => {
+      while (!stopped) {
+        try {
+          await this.sync();
+        } catch (error) {
+          onError(error);
+        }
+        await new Promise(resolve => setTimeout(resolve, intervalMs));
+      }
+    };
+    void loop();
+    return () => {
+      stopped = true;
+    };
+  }
+
+  // ------------------ Queries ----------------------------------------- //
+
+  getBalanceUpdates(): BalanceUpdatedRecord[] {
+    return [...this.data.balanceUpdates];
+  }
+
+  getFeeCharges(): FeeChargedRecord[] {
+    return [...this.data.feeCharges];
+  }
+
+  getFee(opId: string): bigint {
+    return this.data.feeCharges.find(record => record.opId === opId)?.fee ?? 0n;
+  }
+
+  /**
+   * Returns the freezes and unfreezes of all accounts or of the provided account only.
+   */
+  getFreezeChanges(account?: string): FreezeChangedRecord[] {
+    const accountLowerCase = account?.toLowerCase();
+    return this.data.freezeChanges.filter(
+      record => accountLowerCase == null || record.account.toLowerCase() === accountLowerCase
+    );
+  }
+
+  isFrozenAt(account: string, blockNumber: number): boolean {
+    const records = this.getFreezeChanges(account).filter(record => record.blockNumber <= blockNumber);
+    return records.length > 0 && records[records.length - 1].frozen;
+  }
+
+  getTreasuryChanges(): OperationalTreasuryChangedRecord[] {
+    return [...this.data.treasuryChanges];
+  }
+
+  getOperationsForAccount(account: string): BalanceUpdatedRecord[] {
+    const accountLowerCase = account.toLowerCase();
+    return this.data.balanceUpdates.filter(record => record.account.toLowerCase() === accountLowerCase);
+  }
+
+  /**
+   * Returns the record of the original operation, see {@link getReversal} for its reversal.
+   */
+  getOperation(opId: string): BalanceUpdatedRecord | undefined {
+    return this.data.balanceUpdates.find(record => record.opId === opId && !record.reversal);
+  }
+
+  getReversal(opId: string): BalanceUpdatedRecord | undefined {
+    return this.data.balanceUpdates.find(record => record.opId === opId && record.reversal);
+  }
+
+  /**
+   * Returns the balance of an account at the end of a block in the provided additional token
+   * or in the default underlying token if the token is omitted.
+   *
+   * The result is reliable only for blocks that have been already indexed.
+   */
+  getBalanceAt(account: string, blockNumber: number, token?: string): bigint {
+    if (blockNumber > this.data.lastIndexedBlock) {
+      throw new Error(
+        `The block has not been indexed yet. Block: ${blockNumber}. Last indexed block: ${this.data.lastIndexedBlock}`
+      );
+    }
+    const records = this.getOperationsForAccount(account).filter(
+      record => record.blockNumber <= blockNumber && isOfToken(record, token)
+    );
+    return records.length > 0 ? records[records.length - 1].newBalance : 0n;
+  }
+
+  /**
+   * Returns the operational treasury at the end of a block of the provided additional token
+   * or of the default underlying token if the token is omitted.
+   */
+  getTreasuryAt(blockNumber: number, token?: string): string | undefined {
+    const records = this.data.treasuryChanges.filter(
+      record => record.blockNumber <= blockNumber && isOfToken(record, token)
+    );
+    return records.length > 0 ? records[records.length - 1].newTreasury : undefined;
+  }
+
+  // ------------------ Internal functions ------------------------------ //
+
+  private processLog(log: Log) {
+    const location: EventLocation = {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      logIndex: log.index
+    };
+    const event = BLUEPRINT_INTERFACE.parseLog(log);
+    const balanceEventNames = [
+      EVENT_BALANCE_UPDATED.name,
+      EVENT_OPERATION_REVERTED.name,
+      EVENT_TOKEN_BALANCE_UPDATED.name,
+      EVENT_TOKEN_OPERATION_REVERTED.name
+    ];
+    if (event && balanceEventNames.includes(event.name)) {
+      const record: BalanceUpdatedRecord = {
+        ...location,
+        opId: event.args.opId,
+        account: event.args.account,
+        newBalance: event.args.newBalance,
+        oldBalance: event.args.oldBalance
+      };
+      if (event.name === EVENT_OPERATION_REVERTED.name || event.name === EVENT_TOKEN_OPERATION_REVERTED.name) {
+        record.reversal = true;
+      }
+      if (event.name === EVENT_TOKEN_BALANCE_UPDATED.name || event.name === EVENT_TOKEN_OPERATION_REVERTED.name) {
+        record.token = event.args.token;
+      }
+      this.data.balanceUpdates.push(record);
+    } else if (event?.name === EVENT_FEE_CHARGED.name) {
+      this.data.feeCharges.push({
+        ...location,
+        opId: event.args.opId,
+        account: event.args.account,
+        fee: event.args.fee
+      });
+    } else if (event?.name === EVENT_ACCOUNT_FROZEN.name || event?.name === EVENT_ACCOUNT_UNFROZEN.name) {
+      this.data.freezeChanges.push({
+        ...location,
+        account: event.args.account,
+        frozen: event.name === EVENT_ACCOUNT_FROZEN.name,
+        reasonCode: event.args.reasonCode
+      });
+    } else if (
+      event?.name === EVENT_OPERATIONAL_TREASURY_CHANGED.name ||
+      event?.name === EVENT_TOKEN_OPERATIONAL_TREASURY_CHANGED.name
+    ) {
+      const record: OperationalTreasuryChangedRecord = {
+        ...location,
+        newTreasury: event.args.newTreasury,
+        oldTreasury: event.args.oldTreasury
+      };
+      if (event.name === EVENT_TOKEN_OPERATIONAL_TREASURY_CHANGED.name) {
+        record.token = event.args.token;
+      }
+      this.data.treasuryChanges.push(record);
+    }
+  }
+
+  private async addCheckpoint(blockNumber: number) {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block?.hash) {
+      throw new Error(`The block to add a checkpoint for has not been found: ${blockNumber}`);
+    }
+    this.data.checkpoints.push({ blockNumber, blockHash: block.hash });
+    this.data.checkpoints = this.data.checkpoints.slice(-MAX_CHECKPOINT_COUNT);
+  }
+
+  private async isCanonical(checkpoint: BlockCheckpoint): Promise<boolean> {
+    const block = await this.provider.getBlock(checkpoint.blockNumber);
+    return block?.hash === checkpoint.blockHash;
+  }
+
+  /**
+   * Drops the indexed data after the latest checkpoint that is still on the canonical chain.
+   *
+   * @return The block the data has been rolled back to or `undefined` if no reorganization has been detected.
+   */
+  private async rollBackReorganizedBlocks(): Promise<number | undefined> {
+    const checkpoints = this.data.checkpoints;
+    if (checkpoints.length === 0 || await this.isCanonical(checkpoints[checkpoints.length - 1])) {
+      return undefined;
+    }
+
+    let validCheckpointCount = checkpoints.length - 1;
+    while (validCheckpointCount > 0 && !(await this.isCanonical(checkpoints[validCheckpointCount - 1]))) {
+      --validCheckpointCount;
+    }
+    const rollbackBlock = validCheckpointCount > 0
+      ? checkpoints[validCheckpointCount - 1].blockNumber
+      : this.data.startBlock - 1;
+
+    // The records are filtered, so they stay sorted by their locations
+    this.data.checkpoints = checkpoints.slice(0, validCheckpointCount);
+    this.data.balanceUpdates = this.data.balanceUpdates.filter(record => record.blockNumber <= rollbackBlock);
+    this.data.feeCharges = this.data.feeCharges.filter(record => record.blockNumber <= rollbackBlock);
+    this.data.freezeChanges = this.data.freezeChanges.filter(record => record.blockNumber <= rollbackBlock);
+    this.data.treasuryChanges = this.data.treasuryChanges.filter(record => record.blockNumber <= rollbackBlock);
+    this.data.lastIndexedBlock = rollbackBlock;
+    this.store.save(this.data);
+
+    return rollbackBlock;
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./stores";
+export * from "./BlueprintIndexer";
+export * from "./reconcile";
@@ -0,0 +1,371 @@
+import { Contract, Interface, ZeroAddress, ZeroHash } from "ethers";
+import { BLUEPRINT_ABI } from "../client/abi";
+import { OperationStatus } from "../client/types";
+import { BlueprintIndexer } from "./BlueprintIndexer";
+import { BalanceUpdatedRecord } from "./types";
+
+const TOKEN_INTERFACE = new Interface([
+  "event Transfer(address indexed from, address indexed to, uint256 value)"
+]);
+const EVENT_TRANSFER = TOKEN_INTERFACE.getEvent("Transfer")!;
+
+/**
+ * The kinds of discrepancies that the reconciliation can find.
+ *
+ * - `EVENT_BALANCE_GAP` — the old balance of an event does not match the new balance of the previous one.
+ * - `ACCOUNT_BALANCE`, `ACCOUNT_OPERATION_COUNT`, `ACCOUNT_LAST_OP_ID` — the account state in the contract
+ *    does not match the one rebuilt from the events.
+ * - `OPERATION_STATUS`, `OPERATION_ACCOUNT`, `OPERATION_AMOUNT`, `OPERATION_FEE`, `OPERATION_TOKEN` — the operation
+ *    in the contract does not match its events.
+ * - `OPERATION_TRANSFER_MISSING` — the transaction of an operation has no matching token transfer
+ *    between the account (or the payer or recipient of the operation if any) and the operational treasury,
+ *    or no transfer of the withdrawal fee from the operational treasury.
+ * - `TOKEN_FLOW` — the sum of all balances does not match the net token flow into the operational treasuries.
+ *
+ * The balances in additional tokens are checked separately from the ones in the default underlying token
+ * against the operational treasuries of these tokens.
+ */
+export type DriftKind =
+  | "EVENT_BALANCE_GAP"
+  | "ACCOUNT_BALANCE"
+  | "ACCOUNT_OPERATION_COUNT"
+  | "ACCOUNT_LAST_OP_ID"
+  | "OPERATION_STATUS"
+  | "OPERATION_ACCOUNT"
+  | "OPERATION_AMOUNT"
+  | "OPERATION_FEE"
+  | "OPERATION_TOKEN"
+  | "OPERATION_TRANSFER_MISSING"
+  | "TOKEN_FLOW";
+
+/**
+ * A single discrepancy found by the reconciliation. Values are strings to keep the report JSON-friendly.
+ *
+ * The `token` field is set only for the drifts in additional tokens.
+ */
+export interface Drift {
+  kind: DriftKind;
+  account?: string;
+  opId?: string;
+  token?: string;
+  expected: string;
+  actual: string;
+}
+
+/**
+ * The sum of all balances in an additional token and the net flow of the token into its operational treasuries.
+ */
+export interface TokenFlowReport {
+  token: string;
+  sumOfBalances: string;
+  netTokenFlow: string;
+}
+
+/**
+ * The machine-readable result of the reconciliation.
+ *
+ * The `sumOfBalances` and `netTokenFlow` fields are of the default underlying token,
+ * see the `additionalTokens` field for the other tokens.
+ */
+export interface ReconciliationReport {
+  proxy: string;
+  token: string;
+  fromBlock: number;
+  toBlock: number;
+  accountCount: number;
+  operationCount: number;
+  sumOfBalances: string;
+  netTokenFlow: string;
+  additionalTokens: TokenFlowReport[];
+  ok: boolean;
+  offendingAccounts: string[];
+  offendingOpIds: string[];
+  drifts: Drift[];
+}
+
+interface ReplayedAccountState {
+  account: string;
+  token?: string;
+  balance: bigint;
+  operationCount: bigint;
+  lastOpId: string;
+}
+
+interface TokenTransfer {
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+function isSameAddress(left: string, right: string | undefined): boolean {
+  return right != null && left.toLowerCase() === right.toLowerCase();
+}
+
+function unique(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((value): value is string => value != null))];
+}
+
+/**
+ * Returns the fields to add to a drift of the provided additional token, none for the default one.
+ */
+function withToken(token: string | undefined): { token?: string } {
+  return token == null ? {} : { token };
+}
+
+/**
+ * Returns the direction and the amount of the balance change of a record.
+ * A deposit and the reversal of a withdrawal increase the balance, so both are treated as deposits here.
+ */
+function getBalanceChange(record: BalanceUpdatedRecord): { isDeposit: boolean; amount: bigint } {
+  const isDeposit = record.newBalance >= record.oldBalance;
+  const amount = isDeposit ? record.newBalance - record.oldBalance : record.oldBalance - record.newBalance;
+  return { isDeposit, amount };
+}
+
+/**
+ * Finds a transfer between the provided addresses with the provided value and removes it from the list,
+ * because several operations can be executed in one transaction.
+ *
+ * @param to The recipient of the transfer or `null` to match any recipient.
+ * @return True if the transfer has been found.
+ */
+function takeTransfer(transfers: TokenTransfer[], from: string, to: string | null, value: bigint): boolean {
+  const index = transfers.findIndex(transfer => (
+    isSameAddress(from, transfer.from) && (to === null || isSameAddress(to, transfer.to)) && transfer.value === value
+  ));
+  if (index < 0) {
+    return false;
+  }
+  transfers.splice(index, 1);
+  return true;
+}
+
+/**
+ * Rebuilds the account states from the events indexed by the provided indexer and compares them with
+ * the contract state at the last indexed block, see the {@link DriftKind} type for the performed checks.
+ *
+ * The indexer must be synchronized before the call.
+ */
+export async function reconcile(indexer: BlueprintIndexer): Promise<ReconciliationReport> {
+  const blockTag = indexer.lastIndexedBlock;
+  const blueprint = new Contract(indexer.proxy, BLUEPRINT_ABI, indexer.provider);
+  const token: string = await blueprint.underlyingToken({ blockTag });
+  const balanceUpdates = indexer.getBalanceUpdates();
+  const drifts: Drift[] = [];
+
+  // Rebuild the account states from the events, the states in every token are rebuilt separately
+  const replayedStates = new Map<string, ReplayedAccountState>();
+  for (const record of balanceUpdates) {
+    const key = `${record.account.toLowerCase()}:${record.token?.toLowerCase() ?? ""}`;
+    const state = replayedStates.get(key) ?? {
+      account: record.account,
+      token: record.token,
+      balance: 0n,
+      operationCount: 0n,
+      lastOpId: ZeroHash
+    };
+    if (record.oldBalance !== state.balance) {
+      drifts.push({
+        kind: "EVENT_BALANCE_GAP",
+        account: record.account,
+        opId: record.opId,
+        ...withToken(record.token),
+        expected: state.balance.toString(),
+        actual: record.oldBalance.toString()
+      });
+    }
+    state.balance = record.newBalance;
+    state.operationCount += 1n;
+    state.lastOpId = record.opId;
+    replayedStates.set(key, state);
+  }
+
+  // Compare the rebuilt account states with the contract ones
+  const sumsOfBalances = new Map<string | undefined, bigint>();
+  for (const replayed of replayedStates.values()) {
+    const actual = replayed.token == null
+      ? await blueprint.getAccountState(replayed.account, { blockTag })
+      : await blueprint.getAccountTokenState(replayed.account, replayed.token, { blockTag });
+    sumsOfBalances.set(replayed.token, (sumsOfBalances.get(replayed.token) ?? 0n) + actual.balance);
+    const checks: [DriftKind, unknown, unknown][] = [
+      ["ACCOUNT_BALANCE", replayed.balance, actual.balance],
+      ["ACCOUNT_OPERATION_COUNT", replayed.operationCount, actual.operationCount],
+      ["ACCOUNT_LAST_OP_ID", replayed.lastOpId, actual.lastOpId]
+    ];
+    for (const [kind, expected, actualValue] of checks) {
+      if (expected !== actualValue) {
+        drifts.push({
+          kind,
+          account: replayed.account,
+          ...withToken(replayed.token),
+          expected: String(expected),
+          actual: String(actualValue)
+        });
+      }
+    }
+  }
+
+  // Compare every operation with its event taking into account its reversal if any
+  const reversedOpIds = new Set(balanceUpdates.filter(record => record.reversal).map(record => record.opId));
+  const counterparties = new Map<string, string>();
+  for (const record of balanceUpdates.filter(record => !record.reversal)) {
+    const operation = await blueprint.getOperation(record.opId, { blockTag });
+    const status = Number(operation.status) as OperationStatus;
+    const { isDeposit, amount } = getBalanceChange(record);
+    const isReverted = reversedOpIds.has(record.opId);
+    const depositStatus = isReverted ? OperationStatus.DepositReverted : OperationStatus.Deposit;
+    const withdrawalStatus = isReverted ? OperationStatus.WithdrawalReverted : OperationStatus.Withdrawal;
+    const base = { account: record.account, opId: record.opId, ...withToken(record.token) };
+    if (operation.counterparty !== ZeroAddress) {
+      counterparties.set(record.opId, operation.counterparty);
+    }
+
+    // A zero amount operation does not change the balance, so it can be of any kind
+    const isStatusValid =
+      (status === depositStatus && isDeposit) || (status === withdrawalStatus && (!isDeposit || amount === 0n));
+    if (!isStatusValid) {
+      drifts.push({
+        ...base,
+        kind: "OPERATION_STATUS",
+        expected: OperationStatus[isDeposit ? depositStatus : withdrawalStatus],
+        actual: OperationStatus[status] ?? String(status)
+      });
+    }
+    if (!isSameAddress(record.account, operation.account)) {
+      drifts.push({ ...base, kind: "OPERATION_ACCOUNT", expected: record.account, actual: operation.account });
+    }
+    if (operation.amount !== amount) {
+      drifts.push({
+        ...base,
+        kind: "OPERATION_AMOUNT",
+        expected: amount.toString(),
+        actual: operation.amount.toString()
+      });
+    }
+    const fee = indexer.getFee(record.opId);
+    if (operation.fee !== fee) {
+      drifts.push({ ...base, kind: "OPERATION_FEE", expected: fee.toString(), actual: operation.fee.toString() });
+    }
+    // The operations with the default underlying token keep the zero token address
+    const operationToken = record.token ?? ZeroAddress;
+    if (!isSameAddress(operationToken, operation.token)) {
+      drifts.push({ ...base, kind: "OPERATION_TOKEN", expected: operationToken, actual: operation.token });
+    }
+  }
+
+  // Match the operations with the token transfers of their transactions and sum up the net flow of every token
+  const tokenFlows: TokenFlowReport[] = [];
+  for (const additionalToken of [undefined, ...unique(balanceUpdates.map(record => record.token))]) {
+    const tokenAddress = additionalToken ?? token;
+    const tokenBalanceUpdates = balanceUpdates.filter(record => record.token === additionalToken);
+    const treasuries = indexer.getTreasuryChanges()
+      .filter(record => record.token === additionalToken)
+      .map(record => record.newTreasury);
+    const transfersByTx = await fetchTreasuryTransfers(indexer, tokenAddress, treasuries, tokenBalanceUpdates);
+    let netTokenFlow = 0n;
+    for (const record of tokenBalanceUpdates) {
+      const treasury = indexer.getTreasuryAt(record.blockNumber, additionalToken) ?? ZeroAddress;
+      const { isDeposit, amount } = getBalanceChange(record);
+      const counterparty = counterparties.get(record.opId) ?? record.account;
+      const [from, to] = isDeposit ? [counterparty, treasury] : [treasury, counterparty];
+      // The fee of a withdrawal is deducted from the amount and is transferred from the treasury to the fee treasury
+      const fee = isDeposit || record.reversal ? 0n : indexer.getFee(record.opId);
+      const transfers = transfersByTx.get(record.txHash) ?? [];
+      const actual = transfers.map(transfer => `${transfer.from} -> ${transfer.to}: ${transfer.value}`).join(", ");
+      const isMatched =
+        takeTransfer(transfers, from, to, amount - fee) && (fee === 0n || takeTransfer(transfers, treasury, null, fee));
+      if (!isMatched) {
+        drifts.push({
+          kind: "OPERATION_TRANSFER_MISSING",
+          account: record.account,
+          opId: record.opId,
+          ...withToken(additionalToken),
+          expected: `${from} -> ${to}: ${amount - fee}` + (fee === 0n ? "" : `, ${treasury} -> fee treasury: ${fee}`),
+          actual
+        });
+        continue;
+      }
+      netTokenFlow += isDeposit ? amount : -amount;
+    }
+    const sumOfBalances = sumsOfBalances.get(additionalToken) ?? 0n;
+    if (netTokenFlow !== sumOfBalances) {
+      drifts.push({
+        kind: "TOKEN_FLOW",
+        ...withToken(additionalToken),
+        expected: netTokenFlow.toString(),
+        actual: sumOfBalances.toString()
+      });
+    }
+    tokenFlows.push({
+      token: tokenAddress,
+      sumOfBalances: sumOfBalances.toString(),
+      netTokenFlow: netTokenFlow.toString()
+    });
+  }
+
+  return {
+    proxy: indexer.proxy,
+    token,
+    fromBlock: indexer.startBlock,
+    toBlock: blockTag,
+    accountCount: unique([...replayedStates.values()].map(state => state.account.toLowerCase())).length,
+    operationCount: balanceUpdates.length,
+    sumOfBalances: tokenFlows[0].sumOfBalances,
+    netTokenFlow: tokenFlows[0].netTokenFlow,
+    additionalTokens: tokenFlows.slice(1),
+    ok: drifts.length === 0,
+    offendingAccounts: unique(drifts.map(drift => drift.account)),
+    offendingOpIds: unique(drifts.map(drift => drift.opId)),
+    drifts
+  };
+}
+
+/**
+ * Fetches the transfers of a token from and to the provided operational treasuries of the token that happened in
+ * the transactions of the provided operations.
+ *
+ * @return The transfers grouped by the transaction hash.
+ */
+async function fetchTreasuryTransfers(
+  indexer: BlueprintIndexer,
+  token: string,
+  treasuries: string[],
+  balanceUpdates: BalanceUpdatedRecord[]
+): Promise<Map<string, TokenTransfer[]>> {
+  const result = new Map<string, TokenTransfer[]>();
+  const txHashes = new Set(balanceUpdates.map(record => record.txHash));
+  const treasuryTopics = unique(treasuries)
+    .filter(treasury => treasury !== ZeroAddress)
+    .map(treasury => TOKEN_INTERFACE.getAbiCoder().encode(["address"], [treasury]));
+  if (txHashes.size === 0 || treasuryTopics.length === 0) {
+    return result;
+  }
+
+  const seenLogs = new Set<string>();
+  for (let fromBlock = indexer.startBlock; fromBlock <= indexer.lastIndexedBlock; fromBlock += indexer.batchSize) {
+    const toBlock = Math.min(fromBlock + indexer.batchSize - 1, indexer.lastIndexedBlock);
+    const logs = [
+      ...await indexer.provider.getLogs({
+        address: token, fromBlock, toBlock, topics: [EVENT_TRANSFER.topicHash, treasuryTopics]
+      }),
+      ...await indexer.provider.getLogs({
+        address: token, fromBlock, toBlock, topics: [EVENT_TRANSFER.topicHash, null, treasuryTopics]
+      })
+    ];
+    for (const log of logs) {
+      const logKey = `${log.transactionHash}:${log.index}`;
+      if (!txHashes.has(log.transactionHash) || seenLogs.has(logKey)) {
+        continue;
+      }
+      seenLogs.add(logKey);
+      const event = TOKEN_INTERFACE.parseLog(log);
+      if (!event) {
+        continue;
+      }
+      const transfers = result.get(log.transactionHash) ?? [];
+      transfers.push({ from: event.args.from, to: event.args.to, value: event.args.value });
+      result.set(log.transactionHash, transfers);
+    }
+  }
+  return result;
+}
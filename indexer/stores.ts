@@ -0,0 +1,56 @@
+import * as fs from "fs";
+import * as path from "path";
+import { IndexerData } from "./types";
+
+const BIGINT_FIELDS: string[] = ["newBalance", "oldBalance", "fee", "reasonCode"];
+
+/**
+ * The persistent storage of the indexer state.
+ */
+export interface IndexerStore {
+  load(): IndexerData | undefined;
+
+  save(data: IndexerData): void;
+}
+
+/**
+ * Keeps the indexer state in memory only, e.g. for tests or one-off runs.
+ */
+export class MemoryStore implements IndexerStore {
+  private data?: IndexerData;
+
+  load(): IndexerData | undefined {
+    return this.data ? structuredClone(this.data) : undefined;
+  }
+
+  save(data: IndexerData) {
+    this.data = structuredClone(data);
+  }
+}
+
+/**
+ * Keeps the indexer state in a JSON file. Big integers are stored as decimal strings.
+ */
+export class JsonFileStore implements IndexerStore {
+  constructor(readonly filePath: string) {}
+
+  load(): IndexerData | undefined {
+    if (!fs.existsSync(this.filePath)) {
+      return undefined;
+    }
+    return JSON.parse(
+      fs.readFileSync(this.filePath, "utf8"),
+      (key, value) => (BIGINT_FIELDS.includes(key) ? BigInt(value) : value)
+    );
+  }
+
+  save(data: IndexerData) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const content = JSON.stringify(data, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+
+    // Writing to a temporary file first keeps the previous state intact if the process is interrupted
+    const tempFilePath = this.filePath + ".tmp";
+    fs.writeFileSync(tempFilePath, content + "\n");
+    fs.renameSync(tempFilePath, this.filePath);
+  }
+}
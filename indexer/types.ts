@@ -0,0 +1,82 @@
+/**
+ * The location of an indexed event on the chain.
+ */
+export interface EventLocation {
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+/**
+ * The indexed `BalanceUpdated` or `OperationReverted` event of the Blueprint contract
+ * or their `TokenBalanceUpdated` and `TokenOperationReverted` counterparts for additional tokens.
+ *
+ * All these events change the balance of an account, so they are kept in the same ordered list.
+ * The `reversal` field is set only for the reverting events whose `opId` is of the original operation.
+ * The `token` field is set only for the events of additional tokens, the balances in which are tracked separately.
+ */
+export interface BalanceUpdatedRecord extends EventLocation {
+  opId: string;
+  account: string;
+  newBalance: bigint;
+  oldBalance: bigint;
+  reversal?: boolean;
+  token?: string;
+}
+
+/**
+ * The indexed `FeeCharged` event of the Blueprint contract.
+ *
+ * The fee is charged in addition to the amount of the operation, so it is not included into the balance change.
+ */
+export interface FeeChargedRecord extends EventLocation {
+  opId: string;
+  account: string;
+  fee: bigint;
+}
+
+/**
+ * The indexed `AccountFrozen` or `AccountUnfrozen` event of the Blueprint contract.
+ *
+ * The `frozen` field is `true` for the `AccountFrozen` event and `false` for the `AccountUnfrozen` one.
+ */
+export interface FreezeChangedRecord extends EventLocation {
+  account: string;
+  frozen: boolean;
+  reasonCode: bigint;
+}
+
+/**
+ * The indexed `OperationalTreasuryChanged` event of the Blueprint contract
+ * or its `TokenOperationalTreasuryChanged` counterpart for additional tokens.
+ *
+ * The `token` field is set only for the events of additional tokens.
+ */
+export interface OperationalTreasuryChangedRecord extends EventLocation {
+  newTreasury: string;
+  oldTreasury: string;
+  token?: string;
+}
+
+/**
+ * The hash of an indexed block used to detect reorganizations of the chain.
+ */
+export interface BlockCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+/**
+ * The whole state of the indexer that is kept in a store.
+ */
+export interface IndexerData {
+  proxy: string;
+  startBlock: number;
+  lastIndexedBlock: number;
+  checkpoints: BlockCheckpoint[];
+  balanceUpdates: BalanceUpdatedRecord[];
+  feeCharges: FeeChargedRecord[];
+  freezeChanges: FreezeChangedRecord[];
+  treasuryChanges: OperationalTreasuryChangedRecord[];
+}
@@ -0,0 +1,443 @@
+import * as fs from "fs";
+import * as path from "path";
+import { artifacts } from "hardhat";
+import { Interface, id } from "ethers";
+
+// Script parameters
+
+const OUTPUT_DIR = process.env.SP_OUTPUT_DIR ?? "./docs/api";
+const SOURCES = splitList(
+  process.env.SP_SOURCES ??
+  "contracts/interfaces/IBlueprint.sol," +
+  "contracts/interfaces/IBlueprintLens.sol," +
+  "contracts/interfaces/IBlueprintTypes.sol," +
+  "contracts/interfaces/IVersionable.sol," +
+  "contracts/BlueprintStorageLayout.sol," +
+  "contracts/base/AccessControlExtUpgradeable.sol," +
+  "contracts/base/PausableExtUpgradeable.sol," +
+  "contracts/base/RescuableUpgradeable.sol," +
+  "contracts/base/UUPSExtUpgradeable.sol," +
+  "contracts/base/Versionable.sol"
+);
+const IMPLEMENTATION = process.env.SP_IMPLEMENTATION ?? "contracts/Blueprint.sol:Blueprint";
+const CHECK_MODE = process.argv.includes("--check") || process.env.SP_CHECK === "true";
+
+const REQUIREMENTS_TITLE = "Requirements:";
+
+interface AstNode {
+  nodeType: string;
+  name: string;
+  src: string;
+  nodes?: AstNode[];
+  contractKind?: string;
+  documentation?: { text: string };
+  kind?: string;
+  visibility?: string;
+  stateMutability?: string;
+  constant?: boolean;
+  functionSelector?: string;
+  eventSelector?: string;
+  errorSelector?: string;
+  parameters?: { parameters: AstNode[] };
+  returnParameters?: { parameters: AstNode[] };
+  members?: AstNode[];
+  typeName?: AstNode;
+  storageLocation?: string;
+  indexed?: boolean;
+  value?: AstNode & { arguments?: AstNode[] };
+  pathNode?: { name: string };
+  baseType?: AstNode;
+  length?: { value: string };
+  keyType?: AstNode;
+  valueType?: AstNode;
+  typeDescriptions?: { typeString: string };
+}
+
+/**
+ * The NatSpec of a single item as it is provided in the `devdoc` and `userdoc` compiler outputs.
+ */
+interface ItemDoc {
+  details?: string;
+  notice?: string;
+  params?: Record<string, string>;
+  returns?: Record<string, string>;
+}
+
+interface ContractDocs {
+  title?: string;
+  details?: string;
+  notice?: string;
+  methods: Record<string, ItemDoc>;
+  events: Record<string, ItemDoc>;
+  errors: Record<string, ItemDoc>;
+  stateVariables: Record<string, ItemDoc>;
+}
+
+interface SourceData {
+  sourceName: string;
+  content: string;
+  ast: AstNode;
+}
+
+interface RoleData {
+  name: string;
+  value: string;
+  description: string;
+  contractName: string;
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Merges the `devdoc` and `userdoc` outputs stored in the metadata of a compiled contract.
+ * The errors are provided by the compiler as arrays, because several errors can have the same signature.
+ */
+async function readContractDocs(fullyQualifiedName: string): Promise<ContractDocs> {
+  const [sourceName, contractName] = fullyQualifiedName.split(":");
+  const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+  if (!buildInfo) {
+    throw new Error(`The build information has not been found for the contract: ${fullyQualifiedName}`);
+  }
+  const output = buildInfo.output.contracts[sourceName][contractName] as { metadata?: string };
+  const { devdoc, userdoc } = JSON.parse(output.metadata ?? "{}").output ?? {};
+
+  const merge = (devItems: Record<string, ItemDoc> = {}, userItems: Record<string, ItemDoc> = {}) => {
+    const result: Record<string, ItemDoc> = {};
+    for (const key of new Set([...Object.keys(devItems), ...Object.keys(userItems)])) {
+      result[key] = { ...devItems[key], notice: userItems[key]?.notice };
+    }
+    return result;
+  };
+  const firstItems = (items: Record<string, ItemDoc[]> = {}) => Object.fromEntries(
+    Object.entries(items).map(([key, docs]) => [key, docs[0]])
+  );
+
+  return {
+    title: devdoc?.title,
+    details: devdoc?.details,
+    notice: userdoc?.notice,
+    methods: merge(devdoc?.methods, userdoc?.methods),
+    events: merge(devdoc?.events, userdoc?.events),
+    errors: merge(firstItems(devdoc?.errors), firstItems(userdoc?.errors)),
+    stateVariables: merge(devdoc?.stateVariables)
+  };
+}
+
+async function readSource(sourceName: string): Promise<SourceData> {
+  const fullyQualifiedName = (await artifacts.getAllFullyQualifiedNames())
+    .find(name => name.startsWith(`${sourceName}:`));
+  const buildInfo = fullyQualifiedName ? await artifacts.getBuildInfo(fullyQualifiedName) : undefined;
+  if (!buildInfo) {
+    throw new Error(`The compiled source has not been found: ${sourceName}`);
+  }
+  return {
+    sourceName,
+    content: buildInfo.input.sources[sourceName].content,
+    ast: buildInfo.output.sources[sourceName].ast as AstNode
+  };
+}
+
+// ------------------ Formatting -------------------------------------- //
+
+function formatTypeName(node: AstNode): string {
+  switch (node.nodeType) {
+    case "ElementaryTypeName":
+      return node.name;
+    case "UserDefinedTypeName":
+      return node.pathNode?.name ?? node.typeDescriptions?.typeString ?? "";
+    case "ArrayTypeName":
+      return `${formatTypeName(node.baseType!)}[${node.length?.value ?? ""}]`;
+    case "Mapping":
+      return `mapping(${formatTypeName(node.keyType!)} => ${formatTypeName(node.valueType!)})`;
+    default:
+      return node.typeDescriptions?.typeString ?? "";
+  }
+}
+
+function formatParameter(node: AstNode): string {
+  const location = node.storageLocation && node.storageLocation !== "default" ? ` ${node.storageLocation}` : "";
+  const indexed = node.indexed ? " indexed" : "";
+  const name = node.name ? ` ${node.name}` : "";
+  return `${formatTypeName(node.typeName!)}${indexed}${location}${name}`;
+}
+
+function formatParameters(nodes: AstNode[] = []): string {
+  return nodes.map(formatParameter).join(", ");
+}
+
+function formatDeclaration(node: AstNode): string {
+  switch (node.nodeType) {
+    case "FunctionDefinition": {
+      const mutability = node.stateMutability !== "nonpayable" ? ` ${node.stateMutability}` : "";
+      const returnParameters = node.returnParameters?.parameters ?? [];
+      const returns = returnParameters.length > 0 ? ` returns (${formatParameters(returnParameters)})` : "";
+      return `function ${node.name}(${formatParameters(node.parameters?.parameters)}) ` +
+        `${node.visibility}${mutability}${returns}`;
+    }
+    case "EventDefinition":
+      return `event ${node.name}(${formatParameters(node.parameters?.parameters)})`;
+    case "ErrorDefinition":
+      return `error ${node.name}(${formatParameters(node.parameters?.parameters)})`;
+    default:
+      return `${formatTypeName(node.typeName!)} public${node.constant ? " constant" : ""} ${node.name}`;
+  }
+}
+
+/**
+ * Replaces the NatSpec references like `{deposit}` with the Markdown code spans.
+ */
+function formatReferences(text: string): string {
+  return text.replace(/\{([A-Za-z0-9_$-]+)\}/g, "`$1`");
+}
+
+/**
+ * Splits the flattened details of an item into the description and the items of the requirements list if any.
+ */
+function splitRequirements(details: string = ""): { description: string; requirements: string[] } {
+  const index = details.indexOf(REQUIREMENTS_TITLE);
+  if (index < 0) {
+    return { description: details.trim(), requirements: [] };
+  }
+  const requirements = details.slice(index + REQUIREMENTS_TITLE.length)
+    .split(/(?:^|\s)-\s/)
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+  return { description: details.slice(0, index).trim(), requirements };
+}
+
+/**
+ * Orders the parameter and return descriptions like the declaration does, because the compiler sorts them by name.
+ */
+function orderByDeclaration(doc: ItemDoc, node: AstNode): ItemDoc {
+  const order = (entries: Record<string, string> | undefined, names: string[]) => entries && Object.fromEntries(
+    names.filter(name => name in entries).map(name => [name, entries[name]])
+  );
+  const parameterNames = (node.parameters?.parameters ?? []).map(parameter => parameter.name);
+  const returnNames = (node.returnParameters?.parameters ?? [])
+    .map((parameter, index) => parameter.name || `_${index}`);
+  return { ...doc, params: order(doc.params, parameterNames), returns: order(doc.returns, returnNames) };
+}
+
+function formatItemDoc(doc: ItemDoc, implementationDoc?: ItemDoc): string {
+  const { description, requirements } = splitRequirements(doc.details);
+  const lines: string[] = [];
+  if (doc.notice) {
+    lines.push(formatReferences(doc.notice), "");
+  }
+  if (description) {
+    lines.push(formatReferences(description), "");
+  }
+
+  const allRequirements = [...requirements, ...splitRequirements(implementationDoc?.details).requirements];
+  if (allRequirements.length > 0) {
+    lines.push("Requirements:", "");
+    allRequirements.forEach(requirement => lines.push(`- ${formatReferences(requirement)}`));
+    lines.push("");
+  }
+
+  const tables: [string, Record<string, string> | undefined][] = [["Parameter", doc.params], ["Return", doc.returns]];
+  for (const [title, entries] of tables) {
+    if (entries && Object.keys(entries).length > 0) {
+      lines.push(`| ${title} | Description |`, "| --- | --- |");
+      Object.entries(entries).forEach(([name, text]) => lines.push(`| \`${name}\` | ${formatReferences(text)} |`));
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Formats the NatSpec of a struct or enum that is not provided by the compiler in the `devdoc` output.
+ * The slot notes like `// Slot 1` or `// Slots 2, 3` are taken from the source code preceding each field.
+ */
+function formatTypeDefinition(node: AstNode, source: SourceData): string {
+  const lines = [`### ${node.name}`, ""];
+  const docText = (node.documentation?.text ?? "")
+    .split("\n")
+    .map(line => line.trim())
+    .map(line => line.replace(/^@dev\s*/, ""))
+    .map(line => line.replace(/^@custom:storage-location\s+(\S+)/, "Storage location: `$1`."))
+    .join("\n")
+    .trim();
+  if (docText) {
+    lines.push(formatReferences(docText), "");
+  }
+
+  if (node.nodeType === "EnumDefinition") {
+    lines.push("| Value | Name |", "| --- | --- |");
+    node.members?.forEach((member, index) => lines.push(`| ${index} | \`${member.name}\` |`));
+  } else {
+    const structStart = Number(node.src.split(":")[0]);
+    lines.push("| Field | Type | Slot |", "| --- | --- | --- |");
+    for (const member of node.members ?? []) {
+      const memberStart = Number(member.src.split(":")[0]);
+      // The AST offsets are in bytes, so the content is sliced as a buffer to handle non-ASCII characters
+      const precedingText = Buffer.from(source.content).subarray(structStart, memberStart).toString("utf8");
+      const slotNotes = [...precedingText.matchAll(/\/\/\s*Slots?\s+(\d+(?:,\s*\d+)*)/g)];
+      const slot = slotNotes.length > 0 ? slotNotes[slotNotes.length - 1][1] : "";
+      lines.push(`| \`${member.name}\` | \`${formatTypeName(member.typeName!)}\` | ${slot} |`);
+    }
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+// ------------------ Generation -------------------------------------- //
+
+function isPublicFunction(node: AstNode): boolean {
+  return node.nodeType === "FunctionDefinition" &&
+    node.kind === "function" &&
+    (node.visibility === "public" || node.visibility === "external");
+}
+
+function isPublicVariable(node: AstNode): boolean {
+  return node.nodeType === "VariableDeclaration" && node.visibility === "public";
+}
+
+function hasDoc(doc: ItemDoc | undefined): boolean {
+  return !!(doc?.details || doc?.notice);
+}
+
+/**
+ * Generates the Markdown page of a source file and collects the roles and the undocumented items of its contracts.
+ */
+async function generateSourcePage(
+  source: SourceData,
+  implementationDocs: ContractDocs,
+  roles: RoleData[],
+  undocumentedItems: string[]
+): Promise<string> {
+  const lines = [`# \`${source.sourceName}\``, ""];
+  const contracts = (source.ast.nodes ?? []).filter(node => node.nodeType === "ContractDefinition");
+
+  for (const contract of contracts) {
+    const fullyQualifiedName = `${source.sourceName}:${contract.name}`;
+    const docs = await readContractDocs(fullyQualifiedName);
+    const abiInterface = new Interface((await artifacts.readArtifact(fullyQualifiedName)).abi);
+    const members = contract.nodes ?? [];
+
+    lines.push(`## ${contract.contractKind} \`${contract.name}\``, "");
+    if (docs.title) {
+      lines.push(`*${docs.title}*`, "");
+    }
+    [docs.notice, docs.details].filter(text => !!text).forEach(text => lines.push(formatReferences(text!), ""));
+
+    const sections: [string, AstNode[], (node: AstNode) => [string, ItemDoc | undefined, ItemDoc?]][] = [
+      ["Constants and variables", members.filter(isPublicVariable), node => (
+        [node.name, docs.stateVariables[node.name]]
+      )],
+      ["Functions", members.filter(isPublicFunction), node => {
+        const signature = abiInterface.getFunction("0x" + node.functionSelector)!.format("sighash");
+        return [signature, docs.methods[signature], implementationDocs.methods[signature]];
+      }],
+      ["Events", members.filter(node => node.nodeType === "EventDefinition"), node => {
+        const signature = abiInterface.getEvent("0x" + node.eventSelector)!.format("sighash");
+        return [signature, docs.events[signature]];
+      }],
+      ["Errors", members.filter(node => node.nodeType === "ErrorDefinition"), node => {
+        const signature = abiInterface.getError("0x" + node.errorSelector)!.format("sighash");
+        return [signature, docs.errors[signature]];
+      }]
+    ];
+
+    for (const [title, nodes, getDocs] of sections) {
+      if (nodes.length === 0) {
+        continue;
+      }
+      lines.push(`### ${title}`, "");
+      for (const node of nodes) {
+        const [signature, doc, implementationDoc] = getDocs(node);
+        if (!hasDoc(doc) && !hasDoc(implementationDoc)) {
+          undocumentedItems.push(`${fullyQualifiedName}: ${signature}`);
+        }
+        lines.push(`#### \`${node.name}\``, "", "```solidity", formatDeclaration(node), "```", "");
+        lines.push(formatItemDoc(orderByDeclaration(doc ?? {}, node), implementationDoc));
+
+        const roleName = node.value?.arguments?.[0]?.value;
+        if (isPublicVariable(node) && node.name.endsWith("_ROLE") && typeof roleName === "string") {
+          roles.push({
+            name: node.name,
+            value: id(roleName),
+            description: doc?.details ?? "",
+            contractName: contract.name
+          });
+        }
+      }
+    }
+
+    const typeDefinitions = members.filter(node => (
+      node.nodeType === "StructDefinition" || node.nodeType === "EnumDefinition"
+    ));
+    if (typeDefinitions.length > 0) {
+      lines.push("### Types", "");
+      typeDefinitions.forEach(node => lines.push(formatTypeDefinition(node, source).replace(/^###/, "####")));
+    }
+  }
+
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n");
+}
+
+function generateIndexPage(pageNames: Map<string, string>, roles: RoleData[]): string {
+  const lines = [
+    "# API Reference",
+    "",
+    "The reference is generated from the NatSpec comments of the smart contracts with the command:",
+    "",
+    "```bash",
+    "npx hardhat run scripts/generateApiReference.ts",
+    "```",
+    "",
+    "## Sources",
+    ""
+  ];
+  pageNames.forEach((pageName, sourceName) => lines.push(`- [\`${sourceName}\`](${pageName})`));
+  lines.push("", "## Roles", "", "| Role | Value | Contract | Description |", "| --- | --- | --- | --- |");
+  [...roles].sort((left, right) => left.name.localeCompare(right.name)).forEach(role => lines.push(
+    `| \`${role.name}\` | \`${role.value}\` | \`${role.contractName}\` | ${formatReferences(role.description)} |`
+  ));
+  lines.push("");
+  return lines.join("\n");
+}
+
+async function main(): Promise<void> {
+  const implementationDocs = await readContractDocs(IMPLEMENTATION);
+  const roles: RoleData[] = [];
+  const undocumentedItems: string[] = [];
+  const pages = new Map<string, string>();
+  const pageNames = new Map<string, string>();
+
+  for (const sourceName of SOURCES) {
+    const source = await readSource(sourceName);
+    const pageName = path.basename(sourceName, ".sol") + ".md";
+    pages.set(pageName, await generateSourcePage(source, implementationDocs, roles, undocumentedItems));
+    pageNames.set(sourceName, pageName);
+  }
+
+  if (CHECK_MODE) {
+    if (undocumentedItems.length > 0) {
+      console.error("The following public items lack documentation:");
+      undocumentedItems.forEach(item => console.error(`  ${item}`));
+      process.exitCode = 1;
+    } else {
+      console.log("All public items are documented");
+    }
+    return;
+  }
+
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  pages.set("README.md", generateIndexPage(pageNames, roles));
+  pages.forEach((content, pageName) => fs.writeFileSync(path.join(OUTPUT_DIR, pageName), content));
+  console.log(`The API reference has been generated. Directory: "${OUTPUT_DIR}". Pages: ${pages.size}`);
+  if (undocumentedItems.length > 0) {
+    console.warn(
+      `Undocumented public items: ${undocumentedItems.length}. Run the script in the check mode to list them`
+    );
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -5,9 +5,27 @@ import * as path from "path";
 
 const FILE_TO_UPDATE = process.env.SP_FILE_TO_UPDATE ?? ".cursor/rules/solidity-rules.mdc";
 const CONTRACTS_DIR = process.env.SP_CONTRACTS_DIR ?? "./contracts";
+const TEST_DIRS = splitList(process.env.SP_TEST_DIRS ?? "./test,./test-utils");
+const INCLUDE_TESTS = process.argv.includes("--include-tests") || process.env.SP_INCLUDE_TESTS === "true";
+const INCLUDE_GLOBS = splitList(process.env.SP_INCLUDE_GLOBS ?? "**/*.sol,**/*.ts");
+const EXCLUDE_GLOBS = splitList(process.env.SP_EXCLUDE_GLOBS ?? "");
+const CHECK_MODE = process.argv.includes("--check") || process.env.SP_CHECK === "true";
 const SECTION_START_STRING = process.env.SP_SECTION_START_STRING ?? "# 6. Example Project";
 const SECTION_INITIAL_NUMBER = parseInt(process.env.SP_INITIAL_NUMBER ?? "6");
 const INDENT_STRING = process.env.SP_INDENT_STRING ?? "  ";
+const DIFF_CONTEXT_LINES = 3;
+const DIFF_MAX_MATRIX_SIZE = 16_000_000;
+
+const FENCE_LANGUAGES: Record<string, string> = {
+  ".js": "javascript",
+  ".json": "json",
+  ".md": "markdown",
+  ".sol": "solidity",
+  ".ts": "typescript",
+  ".yaml": "yaml",
+  ".yml": "yaml"
+};
+const DEFAULT_FENCE_LANGUAGE = "text";
 
 interface FileStructure {
   name: string;
@@ -16,10 +34,74 @@ interface FileStructure {
   content?: string;
 }
 
-function scanDirectory(dirPath: string): FileStructure {
-  const name = path.basename(dirPath);
+interface DiffLine {
+  kind: " " | "-" | "+";
+  text: string;
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Converts a glob pattern to a regular expression.
+ * Supports the `**` (any number of directories), `*` (any characters except `/`) and `?` (one character) wildcards.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; ++i) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+const INCLUDE_REGEXPS = INCLUDE_GLOBS.map(globToRegExp);
+const EXCLUDE_REGEXPS = EXCLUDE_GLOBS.map(globToRegExp);
+
+/**
+ * Checks whether a file must be embedded into the example.
+ * The globs are matched against the path relative to the parent of the scanned directory, like `contracts/Foo.sol`.
+ */
+function isFileIncluded(filePath: string): boolean {
+  return (
+    INCLUDE_REGEXPS.some(regExp => regExp.test(filePath)) &&
+    !EXCLUDE_REGEXPS.some(regExp => regExp.test(filePath))
+  );
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
+
+/**
+ * Compares names by their code points to get the same order regardless of the file system and the locale.
+ * Files go before directories like in the original layout of the example.
+ */
+function compareNodes(left: FileStructure, right: FileStructure): number {
+  if (left.isDirectory !== right.isDirectory) {
+    return left.isDirectory ? 1 : -1;
+  }
+  return left.name < right.name ? -1 : left.name > right.name ? 1 : 0;
+}
+
+function scanDirectory(dirPath: string, relativePath: string = path.basename(dirPath)): FileStructure {
   const structure: FileStructure = {
-    name,
+    name: path.basename(dirPath),
     isDirectory: true,
     children: []
   };
@@ -28,19 +110,27 @@ function scanDirectory(dirPath: string): FileStructure {
 
   for (const item of items) {
     const fullPath = path.join(dirPath, item);
+    const itemRelativePath = `${relativePath}/${item}`;
     const stats = fs.statSync(fullPath);
 
     if (stats.isDirectory()) {
-      structure.children!.push(scanDirectory(fullPath));
-    } else {
-      structure.children!.push({
-        name: item,
-        isDirectory: false,
-        content: fs.readFileSync(fullPath, "utf8")
-      });
+      const child = scanDirectory(fullPath, itemRelativePath);
+      if (child.children!.length > 0) {
+        structure.children!.push(child);
+      }
+    } else if (isFileIncluded(itemRelativePath)) {
+      const content = fs.readFileSync(fullPath);
+      if (!isBinary(content)) {
+        structure.children!.push({
+          name: item,
+          isDirectory: false,
+          content: content.toString("utf8").replace(/\r\n/g, "\n")
+        });
+      }
     }
   }
 
+  structure.children!.sort(compareNodes);
   return structure;
 }
 
@@ -48,10 +138,6 @@ function generateFileStructureDoc(structure: FileStructure, level: number = 0):
   let doc = "";
   const indent = INDENT_STRING.repeat(level);
 
-  if (level === 0) {
-    doc += "## " + SECTION_INITIAL_NUMBER + ".1 File Structure\n\n";
-  }
-
   if (structure.isDirectory) {
     doc += `${indent}* \`${structure.name}/\`\n`;
     if (structure.children) {
@@ -66,7 +152,7 @@ function generateFileStructureDoc(structure: FileStructure, level: number = 0):
   return doc;
 }
 
-function generateFileContentDoc(structure: FileStructure): string {
+function generateFileContentDoc(structures: FileStructure[]): string {
   let doc = "## " + SECTION_INITIAL_NUMBER + ".2 Project Files\n\n";
 
   function processFiles(node: FileStructure, currentPath: string = "") {
@@ -78,20 +164,131 @@ function generateFileContentDoc(structure: FileStructure): string {
         node.children.forEach(child => processFiles(child, newPath));
       }
     } else if (node.content) {
+      const language = FENCE_LANGUAGES[path.extname(node.name).toLowerCase()] ?? DEFAULT_FENCE_LANGUAGE;
       doc += `#### File \`${currentPath}/${node.name}\`\n\n`;
-      doc += "```solidity\n";
-      doc += node.content;
+      doc += "```" + language + "\n";
+      doc += node.content.endsWith("\n") ? node.content : node.content + "\n";
       doc += "```\n\n";
     }
   }
 
-  processFiles(structure);
+  structures.forEach(structure => processFiles(structure));
   return doc;
 }
 
+/**
+ * Returns the line-by-line difference between two texts using the longest common subsequence.
+ * If the changed parts of the texts are too large for that, they are treated as replaced entirely.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefixLength = 0;
+  while (
+    prefixLength < oldLines.length &&
+    prefixLength < newLines.length &&
+    oldLines[prefixLength] === newLines[prefixLength]
+  ) {
+    ++prefixLength;
+  }
+  let suffixLength = 0;
+  while (
+    suffixLength < oldLines.length - prefixLength &&
+    suffixLength < newLines.length - prefixLength &&
+    oldLines[oldLines.length - 1 - suffixLength] === newLines[newLines.length - 1 - suffixLength]
+  ) {
+    ++suffixLength;
+  }
+
+  const oldMiddle = oldLines.slice(prefixLength, oldLines.length - suffixLength);
+  const newMiddle = newLines.slice(prefixLength, newLines.length - suffixLength);
+  const result: DiffLine[] = oldLines.slice(0, prefixLength).map(text => ({ kind: " ", text }));
+
+  if ((oldMiddle.length + 1) * (newMiddle.length + 1) > DIFF_MAX_MATRIX_SIZE) {
+    oldMiddle.forEach(text => result.push({ kind: "-", text }));
+    newMiddle.forEach(text => result.push({ kind: "+", text }));
+  } else {
+    // lengths[i * width + j] is the length of the common subsequence of oldMiddle[i..] and newMiddle[j..]
+    const width = newMiddle.length + 1;
+    const lengths = new Uint32Array((oldMiddle.length + 1) * width);
+    for (let i = oldMiddle.length - 1; i >= 0; --i) {
+      for (let j = newMiddle.length - 1; j >= 0; --j) {
+        lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        result.push({ kind: " ", text: oldMiddle[i++] });
+        ++j;
+      } else if (
+        j < newMiddle.length &&
+        (i === oldMiddle.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])
+      ) {
+        result.push({ kind: "+", text: newMiddle[j++] });
+      } else {
+        result.push({ kind: "-", text: oldMiddle[i++] });
+      }
+    }
+  }
+
+  oldLines.slice(oldLines.length - suffixLength).forEach(text => result.push({ kind: " ", text }));
+  return result;
+}
+
+/**
+ * Formats the difference between two texts as a unified diff with the default number of context lines.
+ */
+function createUnifiedDiff(fileName: string, oldText: string, newText: string): string {
+  const lines = diffLines(oldText.split("\n"), newText.split("\n"));
+  const output: string[] = [`--- a/${fileName}`, `+++ b/${fileName}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    while (index < lines.length && lines[index].kind === " ") {
+      ++index;
+    }
+    if (index === lines.length) {
+      break;
+    }
+
+    // Extend the hunk until there is a gap of unchanged lines longer than the context on both sides of it
+    const start = Math.max(0, index - DIFF_CONTEXT_LINES);
+    let end = index;
+    while (end < lines.length) {
+      let gapEnd = end;
+      while (gapEnd < lines.length && lines[gapEnd].kind === " ") {
+        ++gapEnd;
+      }
+      if (gapEnd === lines.length || gapEnd - end > DIFF_CONTEXT_LINES * 2) {
+        end = Math.min(gapEnd, end + DIFF_CONTEXT_LINES);
+        break;
+      }
+      end = gapEnd;
+      while (end < lines.length && lines[end].kind !== " ") {
+        ++end;
+      }
+    }
+
+    const oldStart = lines.slice(0, start).filter(line => line.kind !== "+").length;
+    const newStart = lines.slice(0, start).filter(line => line.kind !== "-").length;
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(line => line.kind !== "+").length;
+    const newCount = hunk.filter(line => line.kind !== "-").length;
+    output.push(`@@ -${oldStart + 1},${oldCount} +${newStart + 1},${newCount} @@`);
+    hunk.forEach(line => output.push(line.kind + line.text));
+    index = end;
+  }
+
+  return output.join("\n");
+}
+
 function main(): void {
-  const fileContentToUpdate = fs.readFileSync(FILE_TO_UPDATE, "utf8");
-  const structure = scanDirectory(CONTRACTS_DIR);
+  // Line endings are normalized here and in the embedded files to get the same result for CRLF checkouts on Windows
+  const fileContentToUpdate = fs.readFileSync(FILE_TO_UPDATE, "utf8").replace(/\r\n/g, "\n");
+  const dirs = INCLUDE_TESTS ? [CONTRACTS_DIR, ...TEST_DIRS] : [CONTRACTS_DIR];
+  const structures = dirs.map(dir => scanDirectory(dir));
   const startSymbol = fileContentToUpdate.indexOf(SECTION_START_STRING);
   if (startSymbol < 0) {
     throw Error(
@@ -102,12 +299,27 @@ function main(): void {
 
   let documentation = fileContentToUpdate.slice(0, startSymbol + SECTION_START_STRING.length);
   documentation += "\n\n";
-  documentation += generateFileStructureDoc(structure);
+  documentation += "## " + SECTION_INITIAL_NUMBER + ".1 File Structure\n\n";
+  documentation += structures.map(structure => generateFileStructureDoc(structure)).join("");
   documentation += "\n\n";
-  documentation += generateFileContentDoc(structure);
+  documentation += generateFileContentDoc(structures);
   documentation = documentation.slice(0, -1); // Remove last `\n`.
 
-  fs.writeFileSync(FILE_TO_UPDATE, documentation);
+  if (!CHECK_MODE) {
+    fs.writeFileSync(FILE_TO_UPDATE, documentation);
+    return;
+  }
+
+  if (documentation === fileContentToUpdate) {
+    console.log(`The example project is up to date. File: "${FILE_TO_UPDATE}"`);
+    return;
+  }
+  console.log(createUnifiedDiff(FILE_TO_UPDATE, fileContentToUpdate, documentation));
+  console.error(
+    `The example project is out of date. Run the script without the check mode to update it. ` +
+    `File: "${FILE_TO_UPDATE}"`
+  );
+  process.exitCode = 1;
 }
 
 main();
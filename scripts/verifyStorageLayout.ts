@@ -0,0 +1,444 @@
+import * as fs from "fs";
+import { artifacts, run } from "hardhat";
+import {
+  TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+  TASK_COMPILE_SOLIDITY_RUN_SOLC,
+  TASK_COMPILE_SOLIDITY_RUN_SOLCJS
+} from "hardhat/builtin-tasks/task-names";
+import { AbiCoder, keccak256, toUtf8Bytes } from "ethers";
+
+// Script parameters
+
+const CONTRACT = process.env.SP_CONTRACT ?? "contracts/Blueprint.sol:Blueprint";
+const SOURCES_PREFIX = process.env.SP_SOURCES_PREFIX ?? "contracts/";
+const SNAPSHOT_FILE = process.env.SP_SNAPSHOT_FILE ?? "./storage-layout.json";
+const UPDATE_SNAPSHOT = process.argv.includes("--update-snapshot") || process.env.SP_UPDATE_SNAPSHOT === "true";
+
+const WRAPPER_SOURCE_NAME = "__StorageLayoutWrapper.sol";
+const WRAPPER_CONTRACT_NAME = "StorageLayoutWrapper";
+const SLOT_SIZE = 32;
+const ERC7201_PREFIX = "erc7201:";
+
+const STORAGE_LOCATION_TAG_REGEXP = /@custom:storage-location\s+(\S+)/;
+const STORAGE_LOCATION_FORMULA_REGEXP = /keccak256\("([^"]+)"\)/;
+const SLOT_COMMENT_REGEXP = /\/\/\s*Slots?\s+(\d+(?:,\s*\d+)*)/;
+const RESERVE_COMMENT_REGEXP = /\/\/\s*uint(\d+)\s+__reserved\d*;/;
+const NO_RESERVE_COMMENT_REGEXP = /\/\/\s*No reserve until the end of the storage slot/;
+
+interface AstNode {
+  nodeType: string;
+  name: string;
+  src: string;
+  nodes?: AstNode[];
+  members?: AstNode[];
+  documentation?: { text: string } | string;
+  constant?: boolean;
+  value?: { value?: string };
+}
+
+interface SolcStorageItem {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+interface SolcStorageType {
+  label: string;
+  encoding: string;
+  numberOfBytes: string;
+  members?: SolcStorageItem[];
+}
+
+interface SolcStorageLayout {
+  storage: SolcStorageItem[];
+  types: Record<string, SolcStorageType>;
+}
+
+/**
+ * The layout of a struct field as it is stored in the snapshot. The slot is relative to the beginning of the struct.
+ */
+interface MemberLayout {
+  label: string;
+  type: string;
+  slot: number;
+  offset: number;
+  size: number;
+}
+
+interface StructLayout {
+  location?: string;
+  members: MemberLayout[];
+}
+
+interface StorageLayoutSnapshot {
+  structs: Record<string, StructLayout>;
+}
+
+/**
+ * A struct found in the sources with everything needed to verify it.
+ */
+interface StructData {
+  name: string;
+  sourceName: string;
+  content: Buffer;
+  node: AstNode;
+  contract?: AstNode;
+}
+
+function getNodeStart(node: AstNode): number {
+  return Number(node.src.split(":")[0]);
+}
+
+function getNodeEnd(node: AstNode): number {
+  const [start, length] = node.src.split(":").map(Number);
+  return start + length;
+}
+
+function getDocumentationText(node: AstNode): string {
+  return typeof node.documentation === "string" ? node.documentation : node.documentation?.text ?? "";
+}
+
+/**
+ * Returns the location of a byte offset of a source like `contracts/Foo.sol:12` to refer to it in the problems.
+ */
+function formatLocation(struct: StructData, offset: number): string {
+  return `${struct.sourceName}:${struct.content.subarray(0, offset).toString("utf8").split("\n").length}`;
+}
+
+function calculateErc7201Location(namespaceId: string): bigint {
+  const innerHash = BigInt(keccak256(toUtf8Bytes(namespaceId))) - 1n;
+  return BigInt(keccak256(AbiCoder.defaultAbiCoder().encode(["uint256"], [innerHash]))) & ~0xffn;
+}
+
+// ------------------ Collecting structs and layouts ------------------ //
+
+async function collectStructs(): Promise<{ structs: StructData[]; input: Record<string, unknown> }> {
+  const buildInfo = await artifacts.getBuildInfo(CONTRACT);
+  if (!buildInfo) {
+    throw new Error(`The build information has not been found for the contract: ${CONTRACT}`);
+  }
+
+  const structs: StructData[] = [];
+  for (const sourceName of Object.keys(buildInfo.output.sources).filter(name => name.startsWith(SOURCES_PREFIX))) {
+    const content = Buffer.from(buildInfo.input.sources[sourceName].content, "utf8");
+    for (const node of (buildInfo.output.sources[sourceName].ast as AstNode).nodes ?? []) {
+      if (node.nodeType === "StructDefinition") {
+        structs.push({ name: node.name, sourceName, content, node });
+      } else if (node.nodeType === "ContractDefinition") {
+        (node.nodes ?? [])
+          .filter(child => child.nodeType === "StructDefinition")
+          .forEach(child => structs.push({
+            name: `${node.name}.${child.name}`,
+            sourceName,
+            content,
+            node: child,
+            contract: node
+          }));
+      }
+    }
+  }
+  return { structs, input: buildInfo.input as unknown as Record<string, unknown> };
+}
+
+/**
+ * Compiles a wrapper contract with a state variable of each struct to get their layouts from the compiler,
+ * because the compiler does not provide the storage layout of the structs that are not used as state variables.
+ */
+async function compileStructLayouts(
+  structs: StructData[],
+  input: Record<string, unknown>,
+  solcVersion: string
+): Promise<SolcStorageLayout> {
+  const importedContracts = [...new Set(structs.map(struct => `${struct.sourceName}:${struct.name.split(".")[0]}`))];
+  const aliases = new Map(importedContracts.map((name, index) => [name, `__T${index}`]));
+  const lines = ["// SPDX-License-Identifier: UNLICENSED", "", `pragma solidity ${solcVersion};`, ""];
+  aliases.forEach((alias, name) => {
+    const [sourceName, contractName] = name.split(":");
+    lines.push(`import { ${contractName} as ${alias} } from "${sourceName}";`);
+  });
+  lines.push("", `contract ${WRAPPER_CONTRACT_NAME} {`);
+  structs.forEach((struct, index) => {
+    const [contractName, ...rest] = struct.name.split(".");
+    const alias = aliases.get(`${struct.sourceName}:${contractName}`)!;
+    lines.push(`    ${[alias, ...rest].join(".")} internal s${index};`);
+  });
+  lines.push("}", "");
+
+  const settings = input.settings as Record<string, unknown>;
+  const layoutInput = {
+    language: "Solidity",
+    sources: { ...(input.sources as object), [WRAPPER_SOURCE_NAME]: { content: lines.join("\n") } },
+    settings: {
+      remappings: settings.remappings,
+      evmVersion: settings.evmVersion,
+      outputSelection: { [WRAPPER_SOURCE_NAME]: { [WRAPPER_CONTRACT_NAME]: ["storageLayout"] } }
+    }
+  };
+
+  const solcBuild = await run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, { quiet: true, solcVersion });
+  const output = solcBuild.isSolcJs
+    ? await run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, { input: layoutInput, solcJsPath: solcBuild.compilerPath })
+    : await run(TASK_COMPILE_SOLIDITY_RUN_SOLC, { input: layoutInput, solcPath: solcBuild.compilerPath, solcVersion });
+  const errors = (output.errors ?? []).filter((error: { severity: string }) => error.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(
+      "The compilation of the storage layout wrapper has failed:\n" +
+      errors.map((error: { formattedMessage: string }) => error.formattedMessage).join("\n")
+    );
+  }
+  return output.contracts[WRAPPER_SOURCE_NAME][WRAPPER_CONTRACT_NAME].storageLayout;
+}
+
+function toStructLayout(struct: StructData, typeId: string, layout: SolcStorageLayout): StructLayout {
+  const location = getDocumentationText(struct.node).match(STORAGE_LOCATION_TAG_REGEXP)?.[1];
+  const members = (layout.types[typeId].members ?? []).map(member => ({
+    label: member.label,
+    type: layout.types[member.type].label,
+    slot: Number(member.slot),
+    offset: member.offset,
+    size: Number(layout.types[member.type].numberOfBytes)
+  }));
+  return location ? { location, members } : { members };
+}
+
+// ------------------ Verification ------------------------------------ //
+
+/**
+ * Checks that the constant with the location of a namespaced struct matches the ERC-7201 formula
+ * and the namespace identifier from the `@custom:storage-location` tag, as well as the formula in its comment.
+ */
+function verifyStorageLocation(struct: StructData, location: string, problems: string[]) {
+  const structLocation = formatLocation(struct, getNodeStart(struct.node));
+  if (!location.startsWith(ERC7201_PREFIX)) {
+    problems.push(`${structLocation}: The storage location of ${struct.name} is not an ERC-7201 one: ${location}`);
+    return;
+  }
+  const namespaceId = location.slice(ERC7201_PREFIX.length);
+  const siblings = struct.contract?.nodes ?? [];
+  const constants = siblings.filter(node => (
+    node.nodeType === "VariableDeclaration" && node.constant && node.name.endsWith("STORAGE_LOCATION")
+  ));
+  if (constants.length !== 1) {
+    problems.push(
+      `${structLocation}: Exactly one storage location constant is expected next to ${struct.name}, ` +
+      `found: ${constants.length}`
+    );
+    return;
+  }
+
+  const constant = constants[0];
+  const constantLocation = formatLocation(struct, getNodeStart(constant));
+  const expectedValue = calculateErc7201Location(namespaceId);
+  const actualValue = BigInt(constant.value?.value ?? "0");
+  if (actualValue !== expectedValue) {
+    problems.push(
+      `${constantLocation}: The value of ${constant.name} does not match the namespace "${namespaceId}". ` +
+      `Expected: 0x${expectedValue.toString(16).padStart(64, "0")}`
+    );
+  }
+
+  const previousSibling = siblings[siblings.indexOf(constant) - 1];
+  const previousEnd = previousSibling ? getNodeEnd(previousSibling) : getNodeStart(struct.contract!);
+  const comment = struct.content.subarray(previousEnd, getNodeStart(constant)).toString("utf8");
+  const formulaId = comment.match(STORAGE_LOCATION_FORMULA_REGEXP)?.[1];
+  if (formulaId !== namespaceId) {
+    problems.push(
+      `${constantLocation}: The formula comment of ${constant.name} must use the namespace "${namespaceId}", ` +
+      `found: ${formulaId ? `"${formulaId}"` : "no formula"}`
+    );
+  }
+}
+
+/**
+ * Returns the number of bytes used in the last slot of a field, taking into account the nested structs.
+ */
+function getUsedBytesInLastSlot(item: SolcStorageItem, layout: SolcStorageLayout): number {
+  const type = layout.types[item.type];
+  if (type.members && type.members.length > 0) {
+    return getUsedBytesInLastSlot(type.members[type.members.length - 1], layout);
+  }
+  const size = Number(type.numberOfBytes);
+  return type.encoding === "inplace" && size < SLOT_SIZE ? item.offset + size : SLOT_SIZE;
+}
+
+/**
+ * Checks the hand-written `// Slot N`, `// Slots N, M`, `// uintN __reserved` and `// No reserve` comments
+ * between the fields of a struct against the compiler layout.
+ */
+function verifySlotComments(struct: StructData, typeId: string, layout: SolcStorageLayout, problems: string[]) {
+  const nodes = struct.node.members ?? [];
+  const items = layout.types[typeId].members ?? [];
+  const gaps = nodes.map((node, index) => (
+    struct.content.subarray(index > 0 ? getNodeEnd(nodes[index - 1]) : getNodeStart(struct.node), getNodeStart(node))
+  ));
+  gaps.push(struct.content.subarray(getNodeEnd(nodes[nodes.length - 1]), getNodeEnd(struct.node)));
+  const hasSlotComments = gaps.some(gap => SLOT_COMMENT_REGEXP.test(gap.toString("utf8")));
+
+  items.forEach((item, index) => {
+    const location = formatLocation(struct, getNodeStart(nodes[index]));
+    const firstSlot = Number(item.slot);
+    const slotCount = Math.max(1, Math.ceil(Number(layout.types[item.type].numberOfBytes) / SLOT_SIZE));
+    const actualSlots = Array.from({ length: slotCount }, (_, i) => firstSlot + i + 1).join(", ");
+    const lastSlot = firstSlot + slotCount - 1;
+
+    const slotComment = gaps[index].toString("utf8").match(SLOT_COMMENT_REGEXP);
+    if (slotComment) {
+      const commentSlots = slotComment[1].split(",").map(slot => slot.trim()).join(", ");
+      if (commentSlots !== actualSlots) {
+        problems.push(
+          `${location}: The slot comment of ${struct.name}.${item.label} does not match the layout. ` +
+          `Comment: ${commentSlots}. Actual: ${actualSlots}`
+        );
+      }
+    } else if (hasSlotComments && index > 0) {
+      const previous = items[index - 1];
+      const previousSlotCount = Math.ceil(Number(layout.types[previous.type].numberOfBytes) / SLOT_SIZE);
+      if (firstSlot !== Number(previous.slot) + Math.max(1, previousSlotCount) - 1) {
+        problems.push(
+          `${location}: The field ${struct.name}.${item.label} starts slot ${actualSlots} without a slot comment`
+        );
+      }
+    } else if (hasSlotComments) {
+      problems.push(`${location}: The first field of ${struct.name} has no slot comment`);
+    }
+
+    const reserveGap = gaps[index + 1].toString("utf8");
+    const reserveComment = reserveGap.match(RESERVE_COMMENT_REGEXP);
+    const hasNoReserveComment = NO_RESERVE_COMMENT_REGEXP.test(reserveGap);
+    if (!reserveComment && !hasNoReserveComment) {
+      return;
+    }
+    const next = items[index + 1];
+    if (next && Number(next.slot) === lastSlot) {
+      problems.push(
+        `${location}: The reserve comment after ${struct.name}.${item.label} is followed by a field in the same slot`
+      );
+      return;
+    }
+    const freeBits = (SLOT_SIZE - getUsedBytesInLastSlot(item, layout)) * 8;
+    if (reserveComment && Number(reserveComment[1]) !== freeBits) {
+      problems.push(
+        `${location}: The reserve comment after ${struct.name}.${item.label} does not match the layout. ` +
+        `Comment: uint${reserveComment[1]}. Actual: ${freeBits === 0 ? "no reserve" : `uint${freeBits}`}`
+      );
+    }
+    if (hasNoReserveComment && freeBits !== 0) {
+      problems.push(
+        `${location}: The slot of ${struct.name}.${item.label} has ${freeBits} free bits, ` +
+        `but the comment says there is no reserve`
+      );
+    }
+  });
+}
+
+// ------------------ Snapshot ---------------------------------------- //
+
+function formatMember(member: MemberLayout): string {
+  return `${member.label} (${member.type}, slot ${member.slot}, offset ${member.offset})`;
+}
+
+/**
+ * Compares the current layouts with the snapshot. The fields can only be appended to the end of a struct
+ * and renamed, all other changes break the storage of the deployed proxies.
+ *
+ * @return The lines of the difference and whether the changes are incompatible.
+ */
+function diffLayouts(snapshot: StorageLayoutSnapshot, current: StorageLayoutSnapshot): [string[], boolean] {
+  const lines: string[] = [];
+  let isIncompatible = false;
+  const reportIncompatible = (line: string) => {
+    lines.push(line);
+    isIncompatible = true;
+  };
+
+  for (const [name, oldStruct] of Object.entries(snapshot.structs)) {
+    const newStruct = current.structs[name];
+    if (!newStruct) {
+      reportIncompatible(`- ${name}: the struct has been removed`);
+      continue;
+    }
+    if (oldStruct.location !== newStruct.location) {
+      reportIncompatible(
+        `~ ${name}: the storage location has been changed: ${oldStruct.location} -> ${newStruct.location}`
+      );
+    }
+    oldStruct.members.forEach((oldMember, index) => {
+      const newMember = newStruct.members[index];
+      if (!newMember) {
+        reportIncompatible(`- ${name}.${oldMember.label}: ${formatMember(oldMember)}`);
+      } else if (
+        newMember.type !== oldMember.type ||
+        newMember.slot !== oldMember.slot ||
+        newMember.offset !== oldMember.offset
+      ) {
+        reportIncompatible(`~ ${name}.${oldMember.label}: ${formatMember(oldMember)} -> ${formatMember(newMember)}`);
+      } else if (newMember.label !== oldMember.label) {
+        lines.push(`~ ${name}.${oldMember.label}: renamed to ${newMember.label}`);
+      }
+    });
+    newStruct.members.slice(oldStruct.members.length).forEach(member => {
+      lines.push(`+ ${name}.${member.label}: ${formatMember(member)}`);
+    });
+  }
+  Object.keys(current.structs)
+    .filter(name => !snapshot.structs[name])
+    .forEach(name => lines.push(`+ ${name}: the struct has been added`));
+
+  return [lines, isIncompatible];
+}
+
+async function main(): Promise<void> {
+  const { structs, input } = await collectStructs();
+  const solcVersion = (await artifacts.getBuildInfo(CONTRACT))!.solcVersion;
+  const layout = await compileStructLayouts(structs, input, solcVersion);
+  const problems: string[] = [];
+  const current: StorageLayoutSnapshot = { structs: {} };
+
+  structs.forEach((struct, index) => {
+    const typeId = layout.storage.find(item => item.label === `s${index}`)!.type;
+    const structLayout = toStructLayout(struct, typeId, layout);
+    if (structLayout.location) {
+      verifyStorageLocation(struct, structLayout.location, problems);
+    }
+    verifySlotComments(struct, typeId, layout, problems);
+    current.structs[struct.name] = structLayout;
+  });
+
+  if (problems.length > 0) {
+    console.error("The storage layout comments and locations do not match the compiler output:");
+    problems.forEach(problem => console.error(`  ${problem}`));
+    process.exitCode = 1;
+  } else {
+    console.log(`The storage locations and slot comments of ${structs.length} structs match the compiler output`);
+  }
+
+  if (UPDATE_SNAPSHOT) {
+    fs.writeFileSync(SNAPSHOT_FILE, JSON.stringify(current, null, 2) + "\n");
+    console.log(`The storage layout snapshot has been updated. File: "${SNAPSHOT_FILE}"`);
+    return;
+  }
+  if (!fs.existsSync(SNAPSHOT_FILE)) {
+    console.error(`The storage layout snapshot has not been found. File: "${SNAPSHOT_FILE}"`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const snapshot: StorageLayoutSnapshot = JSON.parse(fs.readFileSync(SNAPSHOT_FILE, "utf8"));
+  const [diffLines, isIncompatible] = diffLayouts(snapshot, current);
+  if (diffLines.length === 0) {
+    console.log(`The storage layout matches the snapshot. File: "${SNAPSHOT_FILE}"`);
+    return;
+  }
+  console.log(`The storage layout differs from the snapshot. File: "${SNAPSHOT_FILE}"`);
+  diffLines.forEach(line => console.log(`  ${line}`));
+  if (isIncompatible) {
+    console.error("The storage layout is incompatible with the snapshot");
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
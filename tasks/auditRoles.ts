@@ -0,0 +1,315 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Interface, ZeroHash } from "ethers";
+import { BLUEPRINT_ABI, BlueprintRole } from "../client/abi";
+import { DEFAULT_MANIFEST_DIR, resolveProxyAndStartBlock } from "./utils/manifest";
+
+const DEFAULT_REPORT_DIR = "role-audit-reports";
+const DEFAULT_ADMIN_ROLE_NAME = "DEFAULT_ADMIN_ROLE";
+
+const BLUEPRINT_INTERFACE = new Interface(BLUEPRINT_ABI);
+const EVENT_ROLE_ADMIN_CHANGED = BLUEPRINT_INTERFACE.getEvent("RoleAdminChanged")!;
+const EVENT_ROLE_GRANTED = BLUEPRINT_INTERFACE.getEvent("RoleGranted")!;
+const EVENT_ROLE_REVOKED = BLUEPRINT_INTERFACE.getEvent("RoleRevoked")!;
+
+const ROLE_NAMES: Map<string, string> = new Map([
+  [ZeroHash, DEFAULT_ADMIN_ROLE_NAME],
+  ...Object.entries(BlueprintRole).map(([name, role]): [string, string] => [role, name])
+]);
+
+export type RoleFindingSeverity = "critical" | "warning";
+
+// The severities in the ascending order of importance
+const SEVERITIES: RoleFindingSeverity[] = ["warning", "critical"];
+
+export interface RoleHolder {
+  account: string;
+  isContract: boolean;
+  grantedAtBlock: number;
+  grantTx: string;
+}
+
+export interface RoleAuditEntry {
+  role: string;
+  name: string;
+  adminRole: string;
+  adminName: string;
+  holders: RoleHolder[];
+}
+
+export interface AdminTreeNode {
+  role: string;
+  name: string;
+  holderCount: number;
+  children: AdminTreeNode[];
+}
+
+export interface RoleFinding {
+  severity: RoleFindingSeverity;
+  code: string;
+  message: string;
+  accounts: string[];
+}
+
+export interface RoleAuditReport {
+  network: string;
+  chainId: number;
+  proxy: string;
+  fromBlock: number;
+  toBlock: number;
+  toBlockTimestamp: number;
+  eventCount: number;
+  roles: RoleAuditEntry[];
+  adminTree: AdminTreeNode[];
+  failOn: RoleFindingSeverity;
+  ok: boolean;
+  findings: RoleFinding[];
+}
+
+interface AuditRolesTaskArgs {
+  proxy?: string;
+  startBlock?: number;
+  endBlock?: number;
+  batchSize: number;
+  output?: string;
+  manifestDir: string;
+  strict: boolean;
+  failOn: string;
+}
+
+interface ReplayedRoleState {
+  adminRole: string;
+  holders: Map<string, { blockNumber: number; txHash: string }>;
+}
+
+function getRoleName(role: string): string {
+  return ROLE_NAMES.get(role) ?? role;
+}
+
+/**
+ * Replays the role events of the proxy in the block range and returns the admin role and the holders of every role.
+ *
+ * Roles without a `RoleAdminChanged` event are administered by the default admin role like in OpenZeppelin's
+ * `AccessControl` contract. The known roles of the contract are always included even if they have no events.
+ */
+async function replayRoleEvents(
+  hre: HardhatRuntimeEnvironment,
+  proxy: string,
+  fromBlock: number,
+  toBlock: number,
+  batchSize: number
+): Promise<{ states: Map<string, ReplayedRoleState>; eventCount: number }> {
+  const states = new Map<string, ReplayedRoleState>();
+  const getState = (role: string): ReplayedRoleState => {
+    let state = states.get(role);
+    if (!state) {
+      state = { adminRole: ZeroHash, holders: new Map() };
+      states.set(role, state);
+    }
+    return state;
+  };
+  Object.values(BlueprintRole).forEach(getState);
+
+  let eventCount = 0;
+  for (let batchFromBlock = fromBlock; batchFromBlock <= toBlock; batchFromBlock += batchSize) {
+    const batchToBlock = Math.min(batchFromBlock + batchSize - 1, toBlock);
+    const logs = await hre.ethers.provider.getLogs({
+      address: proxy,
+      fromBlock: batchFromBlock,
+      toBlock: batchToBlock,
+      topics: [[EVENT_ROLE_ADMIN_CHANGED.topicHash, EVENT_ROLE_GRANTED.topicHash, EVENT_ROLE_REVOKED.topicHash]]
+    });
+    logs.sort((left, right) => left.blockNumber - right.blockNumber || left.index - right.index);
+
+    for (const log of logs) {
+      const event = BLUEPRINT_INTERFACE.parseLog(log);
+      if (!event) {
+        continue;
+      }
+      ++eventCount;
+      const state = getState(event.args.role);
+      switch (event.name) {
+        case EVENT_ROLE_ADMIN_CHANGED.name:
+          state.adminRole = event.args.newAdminRole;
+          break;
+        case EVENT_ROLE_GRANTED.name:
+          state.holders.set(event.args.account, { blockNumber: log.blockNumber, txHash: log.transactionHash });
+          break;
+        case EVENT_ROLE_REVOKED.name:
+          state.holders.delete(event.args.account);
+          break;
+      }
+    }
+  }
+  return { states, eventCount };
+}
+
+/**
+ * Builds the admin hierarchy of the roles.
+ *
+ * The roots are the roles that administer themselves or are administered by a role unknown to the replayed state.
+ * A role that is a part of a longer administration cycle appears only once in the tree.
+ */
+function buildAdminTree(entries: RoleAuditEntry[]): AdminTreeNode[] {
+  const entriesByRole = new Map(entries.map(entry => [entry.role, entry]));
+  const visitedRoles = new Set<string>();
+  const buildNode = (entry: RoleAuditEntry): AdminTreeNode => {
+    visitedRoles.add(entry.role);
+    const children = entries
+      .filter(child => child.adminRole === entry.role && !visitedRoles.has(child.role))
+      .map(buildNode);
+    return { role: entry.role, name: entry.name, holderCount: entry.holders.length, children };
+  };
+
+  const roots = entries
+    .filter(entry => entry.adminRole === entry.role || !entriesByRole.has(entry.adminRole))
+    .map(buildNode);
+  entries.filter(entry => !visitedRoles.has(entry.role)).forEach(entry => roots.push(buildNode(entry)));
+  return roots;
+}
+
+function findRisks(entries: RoleAuditEntry[]): RoleFinding[] {
+  const findings: RoleFinding[] = [];
+  const getHolders = (role: string): RoleHolder[] => entries.find(entry => entry.role === role)?.holders ?? [];
+  const owners = getHolders(BlueprintRole.OWNER_ROLE);
+  const managerAccounts = new Set(getHolders(BlueprintRole.MANAGER_ROLE).map(holder => holder.account));
+
+  if (owners.length === 0) {
+    findings.push({
+      severity: "critical",
+      code: "NO_OWNER",
+      message: "The OWNER_ROLE role has no holders, so the contract cannot be upgraded and its roles cannot be managed",
+      accounts: []
+    });
+  } else if (owners.length === 1) {
+    findings.push({
+      severity: "warning",
+      code: "SINGLE_OWNER",
+      message: "The OWNER_ROLE role has a single holder, so the contract depends on one key",
+      accounts: [owners[0].account]
+    });
+  }
+
+  owners
+    .filter(owner => !owner.isContract && managerAccounts.has(owner.account))
+    .forEach(owner => findings.push({
+      severity: "warning",
+      code: "EOA_OWNER_AND_MANAGER",
+      message: "An externally owned account holds both the OWNER_ROLE and MANAGER_ROLE roles",
+      accounts: [owner.account]
+    }));
+
+  return findings;
+}
+
+function printAdminTree(nodes: AdminTreeNode[], indent: string = ""): void {
+  for (const node of nodes) {
+    console.log(`${indent}- ${node.name} (holders: ${node.holderCount})`);
+    printAdminTree(node.children, indent + "  ");
+  }
+}
+
+function printReport(report: RoleAuditReport): void {
+  console.log(`ℹ️ The role holders of proxy ${report.proxy} at block ${report.toBlock}:`);
+  for (const entry of report.roles) {
+    console.log(`- ${entry.name} (admin: ${entry.adminName})`);
+    if (entry.holders.length === 0) {
+      console.log("    <no holders>");
+    }
+    for (const holder of entry.holders) {
+      const accountType = holder.isContract ? "contract" : "EOA";
+      console.log(`    ${holder.account} (${accountType}, granted at block ${holder.grantedAtBlock})`);
+    }
+  }
+  console.log("ℹ️ The admin hierarchy of the roles:");
+  printAdminTree(report.adminTree);
+  for (const finding of report.findings) {
+    const icon = finding.severity === "critical" ? "❌" : "⚠️";
+    const accounts = finding.accounts.length > 0 ? ` Accounts: ${finding.accounts.join(", ")}` : "";
+    console.log(`${icon} [${finding.code}] ${finding.message}.${accounts}`);
+  }
+}
+
+function parseSeverity(value: string): RoleFindingSeverity {
+  const severity = SEVERITIES.find(item => item === value);
+  if (!severity) {
+    throw new Error(`The severity is unknown: "${value}". Expected one of: ${SEVERITIES.join(", ")}`);
+  }
+  return severity;
+}
+
+function isAtLeast(severity: RoleFindingSeverity, threshold: RoleFindingSeverity): boolean {
+  return SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(threshold);
+}
+
+async function auditRoles(taskArgs: AuditRolesTaskArgs, hre: HardhatRuntimeEnvironment): Promise<RoleAuditReport> {
+  const failOn = parseSeverity(taskArgs.failOn);
+  const { proxy, startBlock } = await resolveProxyAndStartBlock(hre, taskArgs);
+  const endBlock = taskArgs.endBlock ?? await hre.ethers.provider.getBlockNumber();
+  const { states, eventCount } = await replayRoleEvents(hre, proxy, startBlock, endBlock, taskArgs.batchSize);
+
+  const roles: RoleAuditEntry[] = [];
+  for (const [role, state] of states) {
+    const holders: RoleHolder[] = [];
+    for (const [account, grant] of state.holders) {
+      const code = await hre.ethers.provider.getCode(account, endBlock);
+      holders.push({ account, isContract: code !== "0x", grantedAtBlock: grant.blockNumber, grantTx: grant.txHash });
+    }
+    roles.push({
+      role,
+      name: getRoleName(role),
+      adminRole: state.adminRole,
+      adminName: getRoleName(state.adminRole),
+      holders
+    });
+  }
+
+  const network = await hre.ethers.provider.getNetwork();
+  const block = await hre.ethers.provider.getBlock(endBlock);
+  const findings = findRisks(roles);
+  const failures = findings.filter(finding => isAtLeast(finding.severity, failOn));
+  const report: RoleAuditReport = {
+    network: hre.network.name,
+    chainId: Number(network.chainId),
+    proxy,
+    fromBlock: startBlock,
+    toBlock: endBlock,
+    toBlockTimestamp: block?.timestamp ?? 0,
+    eventCount,
+    roles,
+    adminTree: buildAdminTree(roles),
+    failOn,
+    ok: failures.length === 0,
+    findings
+  };
+  printReport(report);
+
+  const reportPath = taskArgs.output ?? path.join(DEFAULT_REPORT_DIR, `${hre.network.name}-${report.toBlock}.json`);
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + "\n");
+
+  if (!report.ok && taskArgs.strict) {
+    throw new Error(
+      `The role audit of proxy ${proxy} has found ${failures.length} risk(s) of severity "${failOn}" or higher ` +
+      `in blocks ${report.fromBlock}..${report.toBlock}. Report: ${reportPath}`
+    );
+  }
+  console.log(
+    `✅ The roles of proxy ${proxy} have been audited in blocks ${report.fromBlock}..${report.toBlock}. ` +
+    `Events: ${eventCount}. Findings: ${findings.length}. Report: ${reportPath}`
+  );
+  return report;
+}
+
+task("audit-roles", "Rebuilds the role holders and the admin hierarchy of a Blueprint proxy from its events")
+  .addOptionalParam("proxy", "The address of the proxy, defaults to the one from the deployment manifest")
+  .addOptionalParam("startBlock", "The block to start reading events from", undefined, types.int)
+  .addOptionalParam("endBlock", "The block to audit the roles at, defaults to the latest one", undefined, types.int)
+  .addOptionalParam("batchSize", "The number of blocks to read events from in one request", 2000, types.int)
+  .addOptionalParam("output", "The path of the JSON report, defaults to a file in the reports directory")
+  .addOptionalParam("manifestDir", "The directory to read deployment manifests from", DEFAULT_MANIFEST_DIR)
+  .addOptionalParam("failOn", "The lowest severity of the risks that fail the audit: critical or warning", "critical")
+  .addFlag("strict", "Fail if any risk of the severity set by the failOn parameter or higher has been found")
+  .setAction(auditRoles);
@@ -0,0 +1,246 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, ContractTransactionResponse } from "ethers";
+import { DEFAULT_MANIFEST_DIR, DeploymentManifest, readManifest, writeManifest } from "./utils/manifest";
+import { fetchVersion } from "./utils/version";
+
+const DEFAULT_CONTRACT_NAME = "Blueprint";
+const CONFIGURABLE_ROLES: string[] = [
+  "GRANTOR_ROLE",
+  "MANAGER_ROLE",
+  "LIMITS_ADMIN_ROLE",
+  "FREEZER_ROLE",
+  "PAUSER_ROLE",
+  "RESCUER_ROLE"
+];
+const IERC20_ARTIFACT_NAME = "@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20";
+
+export interface DeployConfig {
+  token?: string;
+  operationalTreasury?: string;
+  roles?: Record<string, string[]>;
+}
+
+interface DeployTaskArgs {
+  token?: string;
+  deployConfig?: string;
+  manifestDir: string;
+  contract: string;
+}
+
+function loadDeployConfig(hre: HardhatRuntimeEnvironment, configPath?: string): DeployConfig {
+  if (!configPath) {
+    return {};
+  }
+  const config = JSON.parse(fs.readFileSync(configPath, "utf8")) as DeployConfig;
+
+  if (config.operationalTreasury != null && !hre.ethers.isAddress(config.operationalTreasury)) {
+    throw new Error(`The operational treasury in the deploy config is not an address: "${config.operationalTreasury}"`);
+  }
+  Object.entries(config.roles ?? {}).forEach(([roleName, accounts]) => {
+    if (!CONFIGURABLE_ROLES.includes(roleName)) {
+      throw new Error(
+        `The role in the deploy config is not supported: "${roleName}". ` +
+        `Supported roles: ${CONFIGURABLE_ROLES.join(", ")}`
+      );
+    }
+    accounts.forEach(account => {
+      if (!hre.ethers.isAddress(account)) {
+        throw new Error(`The account for role "${roleName}" in the deploy config is not an address: "${account}"`);
+      }
+    });
+  });
+
+  return config;
+}
+
+async function sendTx(txPromise: Promise<ContractTransactionResponse>): Promise<string> {
+  const tx = await txPromise;
+  await tx.wait();
+  return tx.hash;
+}
+
+async function deployProxy(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  token: string
+): Promise<DeploymentManifest> {
+  const factory = await hre.ethers.getContractFactory(contractName);
+  const proxy = await hre.upgrades.deployProxy(factory, [token], { kind: "uups" });
+  await proxy.waitForDeployment();
+  const proxyAddress = await proxy.getAddress();
+  const deploymentTx = proxy.deploymentTransaction();
+  const network = await hre.ethers.provider.getNetwork();
+  console.log(`✅ The ${contractName} proxy has been deployed and initialized at: ${proxyAddress}`);
+
+  return {
+    network: hre.network.name,
+    chainId: Number(network.chainId),
+    contractName,
+    proxy: proxyAddress,
+    implementation: await hre.upgrades.erc1967.getImplementationAddress(proxyAddress),
+    token,
+    version: { major: 0, minor: 0, patch: 0 },
+    transactions: {
+      deployment: deploymentTx?.hash ?? "",
+      roles: {}
+    },
+    updatedAt: ""
+  };
+}
+
+async function checkExistingDeployment(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  token: string
+) {
+  const code = await hre.ethers.provider.getCode(manifest.proxy);
+  if (code === "0x") {
+    throw new Error(
+      `The proxy from the deployment manifest has no code on the network. ` +
+      `Network: "${manifest.network}". Proxy: ${manifest.proxy}. Remove the manifest to deploy from scratch`
+    );
+  }
+  if (manifest.token.toLowerCase() !== token.toLowerCase()) {
+    throw new Error(
+      `The token from the deployment manifest differs from the requested one. ` +
+      `Manifest token: ${manifest.token}. Requested token: ${token}`
+    );
+  }
+  console.log(`ℹ️ The ${manifest.contractName} proxy is already deployed at: ${manifest.proxy}. Skipping deployment`);
+}
+
+async function configureOperationalTreasury(
+  hre: HardhatRuntimeEnvironment,
+  blueprint: Contract,
+  manifest: DeploymentManifest,
+  newTreasury: string
+) {
+  const oldTreasury: string = await blueprint.operationalTreasury();
+  if (oldTreasury.toLowerCase() === newTreasury.toLowerCase()) {
+    console.log(`ℹ️ The operational treasury is already configured: ${newTreasury}`);
+    return;
+  }
+  const token = await hre.ethers.getContractAt(IERC20_ARTIFACT_NAME, manifest.token);
+  if (await token.allowance(newTreasury, manifest.proxy) == 0n) {
+    throw new Error(
+      `The operational treasury has not granted an allowance to the proxy. ` +
+      `Treasury: ${newTreasury}. Proxy: ${manifest.proxy}. Approve the tokens and run the task again`
+    );
+  }
+  manifest.transactions.operationalTreasury = await sendTx(blueprint.setOperationalTreasury(newTreasury));
+  console.log(`✅ The operational treasury has been configured: ${newTreasury}`);
+}
+
+async function recordRoleTx(
+  manifest: DeploymentManifest,
+  roleName: string,
+  txPromise: Promise<ContractTransactionResponse>
+) {
+  const txHash = await sendTx(txPromise);
+  manifest.transactions.roles[roleName] = [...manifest.transactions.roles[roleName] ?? [], txHash];
+}
+
+async function findMissingAccounts(blueprint: Contract, roleName: string, accounts: string[]): Promise<string[]> {
+  const role: string = await blueprint[roleName]();
+  const missingAccounts: string[] = [];
+  for (const account of accounts) {
+    if (!(await blueprint.hasRole(role, account))) {
+      missingAccounts.push(account);
+    }
+  }
+  if (missingAccounts.length === 0) {
+    console.log(`ℹ️ The ${roleName} role is already granted to all the configured accounts`);
+  }
+  return missingAccounts;
+}
+
+async function grantRole(
+  blueprint: Contract,
+  manifest: DeploymentManifest,
+  roleName: string,
+  accounts: string[]
+) {
+  if (accounts.length === 0) {
+    return;
+  }
+  const role: string = await blueprint[roleName]();
+  await recordRoleTx(manifest, roleName, blueprint.grantRoleBatch(role, accounts));
+  console.log(`✅ The ${roleName} role has been granted to: ${accounts.join(", ")}`);
+}
+
+async function configureRoles(
+  hre: HardhatRuntimeEnvironment,
+  blueprint: Contract,
+  manifest: DeploymentManifest,
+  roles: Record<string, string[]>
+) {
+  const [deployer] = await hre.ethers.getSigners();
+  const missingAccounts: Record<string, string[]> = {};
+  for (const [roleName, accounts] of Object.entries(roles)) {
+    missingAccounts[roleName] = await findMissingAccounts(blueprint, roleName, accounts);
+  }
+
+  // The grantor role is administered by the owner, so it is granted first
+  await grantRole(blueprint, manifest, "GRANTOR_ROLE", missingAccounts["GRANTOR_ROLE"] ?? []);
+  const otherRoleNames = Object.keys(missingAccounts).filter(
+    roleName => roleName !== "GRANTOR_ROLE" && missingAccounts[roleName].length > 0
+  );
+  if (otherRoleNames.length === 0) {
+    return;
+  }
+
+  // Other roles are administered by the grantor, so the deployer gets the grantor role temporarily if needed
+  const grantorRole: string = await blueprint.GRANTOR_ROLE();
+  const isTemporaryGrantor = !(await blueprint.hasRole(grantorRole, deployer.address));
+  if (isTemporaryGrantor) {
+    await recordRoleTx(manifest, "GRANTOR_ROLE", blueprint.grantRole(grantorRole, deployer.address));
+  }
+  for (const roleName of otherRoleNames) {
+    await grantRole(blueprint, manifest, roleName, missingAccounts[roleName]);
+  }
+  if (isTemporaryGrantor) {
+    await recordRoleTx(manifest, "GRANTOR_ROLE", blueprint.revokeRole(grantorRole, deployer.address));
+  }
+}
+
+async function deploy(taskArgs: DeployTaskArgs, hre: HardhatRuntimeEnvironment): Promise<DeploymentManifest> {
+  const config = loadDeployConfig(hre, taskArgs.deployConfig);
+  const token = taskArgs.token ?? config.token;
+  if (!token || !hre.ethers.isAddress(token)) {
+    throw new Error(`The underlying token address is not provided or invalid: "${token}"`);
+  }
+
+  let manifest = readManifest(hre.network.name, taskArgs.manifestDir);
+  if (manifest) {
+    await checkExistingDeployment(hre, manifest, token);
+  } else {
+    manifest = await deployProxy(hre, taskArgs.contract, token);
+  }
+  writeManifest(manifest, taskArgs.manifestDir);
+
+  const blueprint = await hre.ethers.getContractAt(manifest.contractName, manifest.proxy);
+  if (config.operationalTreasury) {
+    await configureOperationalTreasury(hre, blueprint, manifest, config.operationalTreasury);
+    writeManifest(manifest, taskArgs.manifestDir);
+  }
+  if (config.roles) {
+    await configureRoles(hre, blueprint, manifest, config.roles);
+    writeManifest(manifest, taskArgs.manifestDir);
+  }
+
+  manifest.version = await fetchVersion(blueprint);
+  manifest.implementation = await hre.upgrades.erc1967.getImplementationAddress(manifest.proxy);
+  writeManifest(manifest, taskArgs.manifestDir);
+
+  console.log(`✅ The deployment manifest has been saved for the network: ${hre.network.name}`);
+  return manifest;
+}
+
+task("deploy", "Deploys the Blueprint proxy and records the deployment manifest for the network")
+  .addOptionalParam("token", "The address of the underlying token, overrides the deploy config value")
+  .addOptionalParam("deployConfig", "The path to a JSON deploy config with the treasury and roles to configure")
+  .addOptionalParam("manifestDir", "The directory to store deployment manifests in", DEFAULT_MANIFEST_DIR)
+  .addOptionalParam("contract", "The name of the contract to deploy", DEFAULT_CONTRACT_NAME, types.string)
+  .setAction(deploy);
@@ -0,0 +1,52 @@
+import * as path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BlueprintIndexer, JsonFileStore } from "../indexer";
+import { DEFAULT_MANIFEST_DIR, resolveProxyAndStartBlock } from "./utils/manifest";
+
+const DEFAULT_STORE_DIR = "indexer-data";
+
+interface IndexTaskArgs {
+  proxy?: string;
+  startBlock?: number;
+  confirmations: number;
+  store?: string;
+  manifestDir: string;
+  follow: boolean;
+  interval: number;
+}
+
+async function index(taskArgs: IndexTaskArgs, hre: HardhatRuntimeEnvironment): Promise<BlueprintIndexer> {
+  const { proxy, startBlock } = await resolveProxyAndStartBlock(hre, taskArgs);
+  const store = new JsonFileStore(taskArgs.store ?? path.join(DEFAULT_STORE_DIR, `${hre.network.name}.json`));
+  const indexer = new BlueprintIndexer(hre.ethers.provider, proxy, store, {
+    startBlock,
+    confirmations: taskArgs.confirmations
+  });
+
+  const result = await indexer.sync();
+  if (result.rolledBackToBlock != null) {
+    console.log(`⚠️ A chain reorganization has been detected. Rolled back to block: ${result.rolledBackToBlock}`);
+  }
+  console.log(
+    `✅ Indexed blocks ${result.fromBlock}..${result.toBlock} of proxy ${proxy}. ` +
+    `New events: ${result.eventCount}. Store: ${store.filePath}`
+  );
+
+  if (taskArgs.follow) {
+    console.log(`ℹ️ Following new blocks every ${taskArgs.interval} ms. Press Ctrl+C to stop`);
+    indexer.follow(taskArgs.interval);
+    await new Promise(() => {}); // Runs until the process is stopped
+  }
+  return indexer;
+}
+
+task("index", "Indexes the balance and operational treasury events of a Blueprint proxy")
+  .addOptionalParam("proxy", "The address of the proxy, defaults to the one from the deployment manifest")
+  .addOptionalParam("startBlock", "The block to start indexing from", undefined, types.int)
+  .addOptionalParam("confirmations", "The depth of a block to consider it confirmed", 12, types.int)
+  .addOptionalParam("store", "The path of the JSON file to store the indexed data in")
+  .addOptionalParam("manifestDir", "The directory to read deployment manifests from", DEFAULT_MANIFEST_DIR)
+  .addOptionalParam("interval", "The polling interval in milliseconds in the follow mode", 5000, types.int)
+  .addFlag("follow", "Keep indexing new blocks until the process is stopped")
+  .setAction(index);
@@ -0,0 +1,63 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  BlueprintIndexer,
+  IndexerStore,
+  JsonFileStore,
+  MemoryStore,
+  reconcile,
+  ReconciliationReport
+} from "../indexer";
+import { DEFAULT_MANIFEST_DIR, resolveProxyAndStartBlock } from "./utils/manifest";
+
+const DEFAULT_REPORT_DIR = "reconciliation-reports";
+
+interface ReconcileTaskArgs {
+  proxy?: string;
+  startBlock?: number;
+  confirmations: number;
+  store?: string;
+  output?: string;
+  manifestDir: string;
+}
+
+async function reconcileTask(
+  taskArgs: ReconcileTaskArgs,
+  hre: HardhatRuntimeEnvironment
+): Promise<ReconciliationReport> {
+  const { proxy, startBlock } = await resolveProxyAndStartBlock(hre, taskArgs);
+  const store: IndexerStore = taskArgs.store ? new JsonFileStore(taskArgs.store) : new MemoryStore();
+  const indexer = new BlueprintIndexer(hre.ethers.provider, proxy, store, {
+    startBlock,
+    confirmations: taskArgs.confirmations
+  });
+  await indexer.sync();
+
+  const report = await reconcile(indexer);
+  const reportPath = taskArgs.output ?? path.join(DEFAULT_REPORT_DIR, `${hre.network.name}-${report.toBlock}.json`);
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + "\n");
+
+  if (!report.ok) {
+    throw new Error(
+      `The reconciliation of proxy ${proxy} has found ${report.drifts.length} drift(s) ` +
+      `in blocks ${report.fromBlock}..${report.toBlock}. Report: ${reportPath}`
+    );
+  }
+  console.log(
+    `✅ No drift has been found for proxy ${proxy} in blocks ${report.fromBlock}..${report.toBlock}. ` +
+    `Accounts: ${report.accountCount}. Operations: ${report.operationCount}. Report: ${reportPath}`
+  );
+  return report;
+}
+
+task("reconcile", "Checks the state of a Blueprint proxy against the one rebuilt from its events")
+  .addOptionalParam("proxy", "The address of the proxy, defaults to the one from the deployment manifest")
+  .addOptionalParam("startBlock", "The block to start reading events from", undefined, types.int)
+  .addOptionalParam("confirmations", "The depth of a block to consider it confirmed", 12, types.int)
+  .addOptionalParam("store", "The JSON file of the indexer to reuse, the events are read from scratch if omitted")
+  .addOptionalParam("output", "The path of the JSON report, defaults to a file in the reports directory")
+  .addOptionalParam("manifestDir", "The directory to read deployment manifests from", DEFAULT_MANIFEST_DIR)
+  .setAction(reconcileTask);
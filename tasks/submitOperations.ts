@@ -0,0 +1,213 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  BlueprintClient,
+  decodeBlueprintError,
+  OperationItem,
+  OperationStatus
+} from "../client/index";
+import { parseCsv } from "./utils/csv";
+import { DEFAULT_MANIFEST_DIR, readManifestStrictly } from "./utils/manifest";
+
+const CSV_COLUMNS: string[] = ["kind", "account", "amount", "opId"];
+const DEFAULT_GAS_BUDGET = 10_000_000;
+const DEFAULT_MAX_BATCH_SIZE = 200;
+
+type OperationKind = "deposit" | "withdrawal";
+
+/**
+ * The status of a CSV row after the submission:
+ *
+ * - `executed` -- the operation has been executed by the task.
+ * - `skipped` --- the operation had been already executed on the contract before, so it has not been submitted.
+ * - `failed` ---- the operation has made its batch revert, see the `error` field.
+ * - `pending` --- the operation has not been submitted because a previous batch has failed.
+ */
+export type SubmissionStatus = "executed" | "skipped" | "failed" | "pending";
+
+export interface SubmissionRow {
+  line: number;
+  kind: OperationKind;
+  account: string;
+  amount: string;
+  opId: string;
+  status: SubmissionStatus;
+  tx?: string;
+  error?: string;
+}
+
+export interface SubmissionResults {
+  proxy: string;
+  file: string;
+  updatedAt: string;
+  counts: Record<SubmissionStatus, number>;
+  rows: SubmissionRow[];
+}
+
+interface SubmitOperationsTaskArgs {
+  file: string;
+  results?: string;
+  proxy?: string;
+  gasBudget: number;
+  maxBatchSize: number;
+  manifestDir: string;
+}
+
+function loadRows(hre: HardhatRuntimeEnvironment, file: string): SubmissionRow[] {
+  const seenOpIds = new Set<string>();
+  return parseCsv(fs.readFileSync(file, "utf8"), CSV_COLUMNS).map(({ line, values }) => {
+    const { kind, account, amount, opId } = values;
+    if (kind !== "deposit" && kind !== "withdrawal") {
+      throw new Error(`The kind of the operation on line ${line} must be "deposit" or "withdrawal": "${kind}"`);
+    }
+    if (!hre.ethers.isAddress(account)) {
+      throw new Error(`The account of the operation on line ${line} is not an address: "${account}"`);
+    }
+    if (!(/^\d+$/).test(amount)) {
+      throw new Error(`The amount of the operation on line ${line} is not a non-negative integer: "${amount}"`);
+    }
+    if (!hre.ethers.isHexString(opId, 32)) {
+      throw new Error(`The opId of the operation on line ${line} is not a 32-byte hex string: "${opId}"`);
+    }
+    if (seenOpIds.has(opId.toLowerCase())) {
+      throw new Error(`The opId of the operation on line ${line} is duplicated: ${opId}`);
+    }
+    seenOpIds.add(opId.toLowerCase());
+    return { line, kind, account, amount, opId, status: "pending" };
+  });
+}
+
+function writeResults(resultsPath: string, proxy: string, file: string, rows: SubmissionRow[]): SubmissionResults {
+  const counts: Record<SubmissionStatus, number> = { executed: 0, skipped: 0, failed: 0, pending: 0 };
+  rows.forEach(row => ++counts[row.status]);
+  const results: SubmissionResults = { proxy, file, updatedAt: new Date().toISOString(), counts, rows };
+  fs.writeFileSync(resultsPath, JSON.stringify(results, null, 2) + "\n");
+  return results;
+}
+
+function toItem(row: SubmissionRow): OperationItem {
+  return { account: row.account, amount: BigInt(row.amount), opId: row.opId };
+}
+
+/**
+ * Returns the number of rows from the start of the provided ones that can be executed in a single batch
+ * within the gas budget. The estimation is repeated with proportionally fewer rows until it fits the budget.
+ */
+async function fitBatchSize(
+  client: BlueprintClient,
+  rows: SubmissionRow[],
+  gasBudget: number,
+  maxBatchSize: number
+): Promise<number> {
+  const method = rows[0].kind === "deposit" ? "depositBatch" : "withdrawBatch";
+  let size = Math.min(rows.length, maxBatchSize);
+  for (;;) {
+    const gas = await client.contract.getFunction(method).estimateGas(rows.slice(0, size).map(toItem));
+    if (gas <= BigInt(gasBudget)) {
+      return size;
+    }
+    if (size === 1) {
+      throw new Error(`A single operation does not fit the gas budget. Estimated gas: ${gas}. Line: ${rows[0].line}`);
+    }
+    size = Math.max(1, Math.min(size - 1, Math.floor(size * gasBudget / Number(gas))));
+  }
+}
+
+/**
+ * Finds the row that makes a batch revert by estimating the gas of the batch prefixes.
+ *
+ * The contract reverts a batch with the original error of the failed item that does not contain its index,
+ * so the first prefix that cannot be executed ends with the failed row.
+ */
+async function findFailedRowIndex(client: BlueprintClient, rows: SubmissionRow[]): Promise<number> {
+  const method = rows[0].kind === "deposit" ? "depositBatch" : "withdrawBatch";
+  let low = 0;
+  let high = rows.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    const isPrefixExecutable = await client.contract.getFunction(method)
+      .estimateGas(rows.slice(0, middle + 1).map(toItem))
+      .then(() => true, () => false);
+    if (isPrefixExecutable) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+function describeError(error: unknown): string {
+  const decodedError = decodeBlueprintError(error);
+  return decodedError instanceof Error ? decodedError.message : String(decodedError);
+}
+
+async function submitOperations(
+  taskArgs: SubmitOperationsTaskArgs,
+  hre: HardhatRuntimeEnvironment
+): Promise<SubmissionResults> {
+  const proxy = taskArgs.proxy ?? readManifestStrictly(hre.network.name, taskArgs.manifestDir).proxy;
+  const resultsPath = taskArgs.results ?? `${taskArgs.file}.results.json`;
+  const [signer] = await hre.ethers.getSigners();
+  const client = new BlueprintClient(proxy, signer);
+  const rows = loadRows(hre, taskArgs.file);
+
+  for (const row of rows) {
+    if ((await client.getOperation(row.opId)).status !== OperationStatus.Nonexistent) {
+      row.status = "skipped";
+    }
+  }
+  const pendingRows = rows.filter(row => row.status === "pending");
+  console.log(`ℹ️ Operations to submit: ${pendingRows.length}. Already executed: ${rows.length - pendingRows.length}`);
+
+  let failure: string | undefined;
+  for (let start = 0; start < pendingRows.length && !failure;) {
+    // Only consecutive operations of the same kind are batched to keep the order of the file
+    let end = start + 1;
+    while (end < pendingRows.length && pendingRows[end].kind === pendingRows[start].kind) {
+      ++end;
+    }
+    const candidateRows = pendingRows.slice(start, end);
+    try {
+      const batchRows = candidateRows.slice(0, await fitBatchSize(
+        client,
+        candidateRows,
+        taskArgs.gasBudget,
+        taskArgs.maxBatchSize
+      ));
+      const items = batchRows.map(toItem);
+      const receipt = candidateRows[0].kind === "deposit"
+        ? await client.depositBatch(items)
+        : await client.withdrawBatch(items);
+      batchRows.forEach(row => {
+        row.status = "executed";
+        row.tx = receipt.hash;
+      });
+      start += batchRows.length;
+      console.log(`✅ Executed ${batchRows.length} ${candidateRows[0].kind} operation(s). Transaction: ${receipt.hash}`);
+    } catch (error) {
+      const failedRow = candidateRows[await findFailedRowIndex(client, candidateRows.slice(0, taskArgs.maxBatchSize))];
+      failedRow.status = "failed";
+      failedRow.error = describeError(error);
+      failure = `The operation on line ${failedRow.line} has failed: ${failedRow.error}`;
+    }
+    writeResults(resultsPath, proxy, taskArgs.file, rows);
+  }
+
+  const results = writeResults(resultsPath, proxy, taskArgs.file, rows);
+  if (failure) {
+    throw new Error(`${failure}. The following operations have not been submitted. Results: ${resultsPath}`);
+  }
+  console.log(`✅ All operations have been processed. Results: ${resultsPath}`);
+  return results;
+}
+
+task("submit-operations", "Submits deposit and withdrawal operations from a CSV file in batches")
+  .addParam("file", "The CSV file with the columns: kind (deposit or withdrawal), account, amount, opId")
+  .addOptionalParam("results", "The path of the JSON results file, defaults to the CSV file path with a suffix")
+  .addOptionalParam("proxy", "The address of the proxy, defaults to the one from the deployment manifest")
+  .addOptionalParam("gasBudget", "The maximum estimated gas of a batch transaction", DEFAULT_GAS_BUDGET, types.int)
+  .addOptionalParam("maxBatchSize", "The maximum number of operations in a batch", DEFAULT_MAX_BATCH_SIZE, types.int)
+  .addOptionalParam("manifestDir", "The directory to read deployment manifests from", DEFAULT_MANIFEST_DIR)
+  .setAction(submitOperations);
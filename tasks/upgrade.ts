@@ -0,0 +1,345 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, ContractFactory, dataSlice, getAddress, getCreateAddress, id, isCallException } from "ethers";
+import { DEFAULT_MANIFEST_DIR, DeploymentManifest, readManifestStrictly, writeManifest } from "./utils/manifest";
+import {
+  ContractVersion,
+  compareVersions,
+  fetchVersion,
+  formatVersion,
+  toContractVersion
+} from "./utils/version";
+
+interface UpgradeTaskArgs {
+  contract?: string;
+  callData: string;
+  owner?: string;
+  manifestDir: string;
+  execute: boolean;
+}
+
+/**
+ * The step of the upgrade performed by the task:
+ *
+ * - `schedule` -- the upgrade to the new implementation has not been scheduled yet, so the task schedules it.
+ * - `upgrade` --- the scheduled upgrade is ready or the deployed implementation cannot schedule upgrades,
+ *                 so the task executes it.
+ */
+export type UpgradeStep = "schedule" | "upgrade";
+
+export interface UpgradeResult {
+  proxy: string;
+  newImplementation: string;
+  newVersion: ContractVersion;
+  step: UpgradeStep;
+  data: string;
+  readyAt?: number;
+  tx?: string;
+}
+
+// The address to put the runtime code of the new implementation at to call it before the implementation is deployed
+const BUILD_PROBE_ADDRESS = getAddress(dataSlice(id("blueprint.upgrade.buildProbe"), 12));
+
+// The selector of the function that is present only in the implementations that schedule upgrades
+const GET_SCHEDULED_UPGRADE_SELECTOR = dataSlice(id("getScheduledUpgrade()"), 0, 4);
+
+type StateOverride = Record<string, { code: string }>;
+
+/**
+ * Calls a view function of the new implementation build without deploying it.
+ * The runtime code from the artifact is placed at a probe address through the state override of `eth_call`.
+ */
+async function callBuild(
+  hre: HardhatRuntimeEnvironment,
+  factory: ContractFactory,
+  runtimeCode: string,
+  functionName: string
+) {
+  const data = factory.interface.encodeFunctionData(functionName);
+  const stateOverride = { [BUILD_PROBE_ADDRESS]: { code: runtimeCode } };
+  const result = await hre.ethers.provider.send("eth_call", [
+    { to: BUILD_PROBE_ADDRESS, data },
+    "latest",
+    stateOverride
+  ]);
+  return factory.interface.decodeFunctionResult(functionName, result)[0];
+}
+
+async function checkVersion(
+  hre: HardhatRuntimeEnvironment,
+  proxy: Contract,
+  factory: ContractFactory,
+  contractName: string
+): Promise<ContractVersion> {
+  const { deployedBytecode } = await hre.artifacts.readArtifact(contractName);
+  const currentVersion = await fetchVersion(proxy);
+  const newVersion = toContractVersion(await callBuild(hre, factory, deployedBytecode, "$__VERSION"));
+  if (compareVersions(newVersion, currentVersion) <= 0) {
+    throw new Error(
+      `The version of the new implementation must be greater than the deployed one. ` +
+      `Deployed version: ${formatVersion(currentVersion)}. New version: ${formatVersion(newVersion)}`
+    );
+  }
+  const minCompatibleVersion = toContractVersion(
+    await callBuild(hre, factory, deployedBytecode, "$__MIN_COMPATIBLE_VERSION")
+  );
+  if (compareVersions(currentVersion, minCompatibleVersion) < 0) {
+    throw new Error(
+      `The deployed version is lower than the minimum compatible version of the new implementation. ` +
+      `Deployed version: ${formatVersion(currentVersion)}. ` +
+      `Minimum compatible version: ${formatVersion(minCompatibleVersion)}`
+    );
+  }
+  console.log(`✅ The version will be upgraded: ${formatVersion(currentVersion)} -> ${formatVersion(newVersion)}`);
+  return newVersion;
+}
+
+function getRevertData(error: unknown): string | undefined {
+  // The in-process Hardhat network and remote JSON-RPC providers both expose the revert data in the `data` field,
+  // but the Hardhat network nests it into an object if it cannot map the revert to the contract sources
+  let revertData = (error as { data?: unknown }).data;
+  if (revertData != null && typeof revertData === "object") {
+    revertData = (revertData as { data?: unknown }).data;
+  }
+  return typeof revertData === "string" ? revertData : undefined;
+}
+
+function describeRevert(proxy: Contract, error: unknown): string {
+  const revertData = getRevertData(error);
+  const parsedError = revertData !== undefined ? proxy.interface.parseError(revertData) : null;
+  if (parsedError) {
+    return `${parsedError.name}(${parsedError.args.join(", ")})`;
+  }
+  return isCallException(error) ? error.shortMessage : String(error);
+}
+
+/**
+ * Returns the runtime code the new implementation build would have if it were deployed at the provided address.
+ *
+ * The creation code is executed with `eth_call`, then the address it has been executed at is replaced in the result,
+ * because the UUPS implementation keeps its own address as an immutable to tell direct calls from delegate ones.
+ */
+async function fetchBuildCode(hre: HardhatRuntimeEnvironment, factory: ContractFactory, address: string) {
+  const provider = hre.ethers.provider;
+  const { data } = await factory.getDeployTransaction();
+  const createdAddress = getCreateAddress({
+    from: BUILD_PROBE_ADDRESS,
+    nonce: await provider.getTransactionCount(BUILD_PROBE_ADDRESS)
+  });
+  const code: string = await provider.call({ from: BUILD_PROBE_ADDRESS, data });
+  return code.split(createdAddress.slice(2).toLowerCase()).join(address.slice(2).toLowerCase());
+}
+
+async function simulateCall(
+  hre: HardhatRuntimeEnvironment,
+  proxy: Contract,
+  data: string,
+  from: string,
+  stateOverride: StateOverride
+) {
+  try {
+    await hre.ethers.provider.send("eth_call", [{ from, to: await proxy.getAddress(), data }, "latest", stateOverride]);
+  } catch (error) {
+    throw new Error(`The upgrade simulation has failed: ${describeRevert(proxy, error)}`);
+  }
+}
+
+async function simulateUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  proxy: Contract,
+  newImplementation: string,
+  newVersion: ContractVersion,
+  stepData: string,
+  upgradeData: string,
+  from: string,
+  stateOverride: StateOverride
+) {
+  const provider = hre.ethers.provider;
+  const proxyAddress = await proxy.getAddress();
+
+  await simulateCall(hre, proxy, stepData, from, stateOverride);
+  console.log(`✅ The transaction has been simulated with a call from: ${from}`);
+
+  // Remote networks cannot be rolled back, so the resulting proxy state is checked only on the local one
+  if (hre.network.name !== "hardhat") {
+    return;
+  }
+  const snapshotId = await provider.send("evm_snapshot", []);
+  try {
+    for (const [address, { code }] of Object.entries(stateOverride)) {
+      await provider.send("hardhat_setCode", [address, code]);
+    }
+    await provider.send("hardhat_impersonateAccount", [from]);
+    const signer = await hre.ethers.getSigner(from);
+    if (stepData !== upgradeData) {
+      // The upgrade is only being scheduled, so it is simulated after the scheduling and the delay
+      await (await signer.sendTransaction({ to: proxyAddress, data: stepData })).wait();
+      const { readyAt } = await proxy.getScheduledUpgrade();
+      const latestBlock = await provider.getBlock("latest");
+      await provider.send("evm_increaseTime", [Math.max(Number(readyAt) - (latestBlock?.timestamp ?? 0), 0)]);
+      await provider.send("evm_mine", []);
+      await simulateCall(hre, proxy, upgradeData, from, stateOverride);
+    }
+    await (await signer.sendTransaction({ to: proxyAddress, data: upgradeData })).wait();
+    const actualImplementation = await hre.upgrades.erc1967.getImplementationAddress(proxyAddress);
+    const actualVersion = await fetchVersion(proxy);
+    if (actualImplementation !== newImplementation || compareVersions(actualVersion, newVersion) !== 0) {
+      throw new Error(
+        `The proxy state after the simulated upgrade is unexpected. ` +
+        `Implementation: ${actualImplementation}. Version: ${formatVersion(actualVersion)}`
+      );
+    }
+  } finally {
+    await provider.send("hardhat_stopImpersonatingAccount", [from]);
+    await provider.send("evm_revert", [snapshotId]);
+  }
+  console.log(`✅ The upgrade has been simulated on a network snapshot with a transaction from: ${from}`);
+}
+
+/**
+ * Checks whether the deployed implementation of the proxy supports scheduling of upgrades.
+ *
+ * The implementations released before the scheduling do not have the `getScheduledUpgrade()` function,
+ * so a static call of it is reverted by the function dispatcher.
+ * The call is encoded by its selector, because the ABI of the deployed implementation may not have the function.
+ */
+async function isSchedulingSupported(hre: HardhatRuntimeEnvironment, proxy: Contract): Promise<boolean> {
+  try {
+    await hre.ethers.provider.call({ to: await proxy.getAddress(), data: GET_SCHEDULED_UPGRADE_SELECTOR });
+    return true;
+  } catch (error) {
+    if (isCallException(error) || getRevertData(error) !== undefined) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the address of the new implementation if it has been deployed and scheduled already, otherwise undefined.
+ * The scheduled implementation is considered the new one if its code is the same as the one of the build.
+ */
+async function findScheduledImplementation(
+  hre: HardhatRuntimeEnvironment,
+  proxy: Contract,
+  factory: ContractFactory
+): Promise<string | undefined> {
+  if (!(await isSchedulingSupported(hre, proxy))) {
+    return undefined;
+  }
+  const { newImplementation } = await proxy.getScheduledUpgrade();
+  if (newImplementation === hre.ethers.ZeroAddress) {
+    return undefined;
+  }
+  const code = await hre.ethers.provider.getCode(newImplementation);
+  return code === await fetchBuildCode(hre, factory, newImplementation) ? newImplementation : undefined;
+}
+
+/**
+ * Returns the step of the upgrade to the new implementation and the data of its transaction.
+ * Throws an error if the upgrade has been scheduled, but its delay has not passed yet.
+ */
+async function prepareStep(
+  hre: HardhatRuntimeEnvironment,
+  proxy: Contract,
+  newImplementation: string,
+  upgradeData: string
+): Promise<{ step: UpgradeStep; data: string; readyAt?: number }> {
+  if (!(await isSchedulingSupported(hre, proxy))) {
+    console.log(`ℹ️ The deployed implementation does not schedule upgrades, so the proxy is upgraded directly`);
+    return { step: "upgrade", data: upgradeData };
+  }
+  const scheduledUpgrade = await proxy.getScheduledUpgrade();
+  if (scheduledUpgrade.newImplementation !== newImplementation) {
+    const data = proxy.interface.encodeFunctionData("scheduleUpgrade", [newImplementation]);
+    return { step: "schedule", data };
+  }
+
+  const readyAt = Number(scheduledUpgrade.readyAt);
+  const latestBlock = await hre.ethers.provider.getBlock("latest");
+  if (readyAt > (latestBlock?.timestamp ?? 0)) {
+    throw new Error(
+      `The upgrade to the new implementation is scheduled, but it is not ready yet. ` +
+      `Ready at: ${new Date(readyAt * 1000).toISOString()}`
+    );
+  }
+  return { step: "upgrade", data: upgradeData, readyAt };
+}
+
+async function upgrade(taskArgs: UpgradeTaskArgs, hre: HardhatRuntimeEnvironment): Promise<UpgradeResult> {
+  const manifest: DeploymentManifest = readManifestStrictly(hre.network.name, taskArgs.manifestDir);
+  const [signer] = await hre.ethers.getSigners();
+  const proxy = await hre.ethers.getContractAt(manifest.contractName, manifest.proxy);
+  const contractName = taskArgs.contract ?? manifest.contractName;
+  const factory: ContractFactory = await hre.ethers.getContractFactory(contractName);
+
+  await hre.upgrades.validateUpgrade(manifest.proxy, factory, { kind: "uups" });
+  console.log(`✅ The storage layout of the new implementation is compatible with the deployed one`);
+
+  // All the checks that do not need the new implementation on-chain are done before it is deployed
+  const newVersion = await checkVersion(hre, proxy, factory, contractName);
+  const owner = getAddress(taskArgs.owner ?? signer.address);
+  const ownerRole: string = await proxy.OWNER_ROLE();
+  if (!(await proxy.hasRole(ownerRole, owner))) {
+    throw new Error(`The account to upgrade the proxy from does not have the owner role: ${owner}`);
+  }
+
+  // The new implementation is deployed only if the task is executed, otherwise its build is simulated at a probe
+  let newImplementation = await findScheduledImplementation(hre, proxy, factory);
+  let stateOverride: StateOverride = {};
+  if (newImplementation) {
+    console.log(`✅ The new implementation has been deployed and scheduled at: ${newImplementation}`);
+  } else if (taskArgs.execute) {
+    newImplementation = await hre.upgrades.prepareUpgrade(manifest.proxy, factory, { kind: "uups" }) as string;
+    console.log(`✅ The new implementation is deployed at: ${newImplementation}`);
+  } else {
+    newImplementation = BUILD_PROBE_ADDRESS;
+    stateOverride = { [newImplementation]: { code: await fetchBuildCode(hre, factory, newImplementation) } };
+    console.log(`ℹ️ The new implementation has not been deployed, its build is simulated at: ${newImplementation}`);
+  }
+
+  const upgradeData = proxy.interface.encodeFunctionData("upgradeToAndCall", [newImplementation, taskArgs.callData]);
+  const { step, data, readyAt } = await prepareStep(hre, proxy, newImplementation, upgradeData);
+  await simulateUpgrade(hre, proxy, newImplementation, newVersion, data, upgradeData, owner, stateOverride);
+
+  const result: UpgradeResult = { proxy: manifest.proxy, newImplementation, newVersion, step, data, readyAt };
+  if (newImplementation === BUILD_PROBE_ADDRESS) {
+    console.log(`ℹ️ Run the task with the execute flag to deploy the new implementation and prepare the ${step}`);
+    return result;
+  }
+  if (!taskArgs.execute || owner !== signer.address) {
+    console.log(`ℹ️ The ${step} transaction has not been sent. Send it from an owner account:`);
+    console.log(JSON.stringify({ to: manifest.proxy, data }, null, 2));
+    return result;
+  }
+
+  const tx = await signer.sendTransaction({ to: manifest.proxy, data });
+  await tx.wait();
+  result.tx = tx.hash;
+  if (step === "schedule") {
+    result.readyAt = Number((await proxy.getScheduledUpgrade()).readyAt);
+    console.log(
+      `✅ The upgrade has been scheduled. Transaction: ${tx.hash}. ` +
+      `Run the task again after: ${new Date(result.readyAt * 1000).toISOString()}`
+    );
+    return result;
+  }
+  manifest.implementation = newImplementation;
+  manifest.version = newVersion;
+  manifest.transactions.upgrades = [
+    ...manifest.transactions.upgrades ?? [],
+    { implementation: newImplementation, version: newVersion, tx: tx.hash }
+  ];
+  writeManifest(manifest, taskArgs.manifestDir);
+  console.log(`✅ The proxy has been upgraded to version ${formatVersion(newVersion)}. Transaction: ${tx.hash}`);
+
+  return result;
+}
+
+task("upgrade", "Validates a new Blueprint implementation, schedules and executes the upgrade of the manifest proxy")
+  .addOptionalParam("contract", "The name of the new implementation contract, defaults to the one from the manifest")
+  .addOptionalParam("callData", "The data of the call to execute after the upgrade", "0x")
+  .addOptionalParam("owner", "The owner account to send the upgrade from if it differs from the configured account")
+  .addOptionalParam("manifestDir", "The directory to read deployment manifests from", DEFAULT_MANIFEST_DIR)
+  .addFlag("execute", "Deploy the new implementation and send the upgrade transaction from the configured owner")
+  .setAction(upgrade);
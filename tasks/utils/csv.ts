@@ -0,0 +1,36 @@
+export interface CsvRow {
+  line: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Parses a simple CSV file with a header line.
+ *
+ * Quoted values are not supported. Empty lines and lines starting with `#` are skipped.
+ *
+ * @param content The content of the file.
+ * @param requiredColumns The columns that must be present in the header.
+ * @return The rows with their line numbers in the file starting from 1.
+ */
+export function parseCsv(content: string, requiredColumns: string[]): CsvRow[] {
+  const lines = content.split(/\r?\n/)
+    .map((text, index) => ({ line: index + 1, text: text.trim() }))
+    .filter(({ text }) => text !== "" && !text.startsWith("#"));
+  if (lines.length === 0) {
+    throw new Error("The CSV file is empty");
+  }
+
+  const header = lines[0].text.split(",").map(column => column.trim());
+  const missingColumns = requiredColumns.filter(column => !header.includes(column));
+  if (missingColumns.length > 0) {
+    throw new Error(`The CSV header does not contain the required columns: ${missingColumns.join(", ")}`);
+  }
+
+  return lines.slice(1).map(({ line, text }) => {
+    const cells = text.split(",").map(cell => cell.trim());
+    if (cells.length !== header.length) {
+      throw new Error(`The CSV line ${line} has ${cells.length} values instead of ${header.length}`);
+    }
+    return { line, values: Object.fromEntries(header.map((column, index) => [column, cells[index]])) };
+  });
+}
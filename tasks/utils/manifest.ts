@@ -0,0 +1,93 @@
+import * as fs from "fs";
+import * as path from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ContractVersion } from "./version";
+
+export const DEFAULT_MANIFEST_DIR = "deployments";
+
+export interface ManifestUpgrade {
+  implementation: string;
+  version: ContractVersion;
+  tx: string;
+}
+
+export interface ManifestTransactions {
+  deployment: string;
+  operationalTreasury?: string;
+  roles: Record<string, string[]>;
+  upgrades?: ManifestUpgrade[];
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  contractName: string;
+  proxy: string;
+  implementation: string;
+  token: string;
+  version: ContractVersion;
+  transactions: ManifestTransactions;
+  updatedAt: string;
+}
+
+export function getManifestPath(networkName: string, manifestDir: string = DEFAULT_MANIFEST_DIR): string {
+  return path.join(manifestDir, `${networkName}.json`);
+}
+
+export function readManifest(
+  networkName: string,
+  manifestDir: string = DEFAULT_MANIFEST_DIR
+): DeploymentManifest | undefined {
+  const manifestPath = getManifestPath(networkName, manifestDir);
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest;
+}
+
+export function readManifestStrictly(
+  networkName: string,
+  manifestDir: string = DEFAULT_MANIFEST_DIR
+): DeploymentManifest {
+  const manifest = readManifest(networkName, manifestDir);
+  if (!manifest) {
+    throw new Error(
+      `The deployment manifest has not been found for the network. ` +
+      `Network: "${networkName}". Expected path: "${getManifestPath(networkName, manifestDir)}"`
+    );
+  }
+  return manifest;
+}
+
+export function writeManifest(manifest: DeploymentManifest, manifestDir: string = DEFAULT_MANIFEST_DIR) {
+  manifest.updatedAt = new Date().toISOString();
+  fs.mkdirSync(manifestDir, { recursive: true });
+  fs.writeFileSync(getManifestPath(manifest.network, manifestDir), JSON.stringify(manifest, null, 2) + "\n");
+}
+
+export async function resolveProxyAndStartBlock(
+  hre: HardhatRuntimeEnvironment,
+  props: { proxy?: string; startBlock?: number; manifestDir: string }
+): Promise<{ proxy: string; startBlock: number }> {
+  if (props.proxy && props.startBlock != null) {
+    return { proxy: props.proxy, startBlock: props.startBlock };
+  }
+  if (props.proxy) {
+    // The deployment block from the manifest is only known for the proxy recorded in it
+    const manifest = readManifest(hre.network.name, props.manifestDir);
+    if (!manifest || manifest.proxy.toLowerCase() !== props.proxy.toLowerCase()) {
+      return { proxy: props.proxy, startBlock: 0 };
+    }
+  }
+  const manifest = readManifestStrictly(hre.network.name, props.manifestDir);
+  const receipt = await hre.ethers.provider.getTransactionReceipt(manifest.transactions.deployment);
+  if (!receipt) {
+    throw new Error(
+      `The deployment transaction from the manifest has not been found: ${manifest.transactions.deployment}`
+    );
+  }
+  return {
+    proxy: props.proxy ?? manifest.proxy,
+    startBlock: props.startBlock ?? receipt.blockNumber
+  };
+}
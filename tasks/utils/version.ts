@@ -0,0 +1,27 @@
+import { Contract, Result } from "ethers";
+
+export interface ContractVersion {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+export async function fetchVersion(contract: Contract): Promise<ContractVersion> {
+  return toContractVersion(await contract.$__VERSION());
+}
+
+export function toContractVersion(version: Result): ContractVersion {
+  return {
+    major: Number(version.major),
+    minor: Number(version.minor),
+    patch: Number(version.patch)
+  };
+}
+
+export function compareVersions(left: ContractVersion, right: ContractVersion): number {
+  return left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+}
+
+export function formatVersion(version: ContractVersion): string {
+  return `${version.major}.${version.minor}.${version.patch}`;
+}
@@ -0,0 +1,516 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { TransactionResponse, ZeroAddress } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { connect, proveTx } from "../eth";
+import { BehaviorFixture, getSignersExcept, setUpFixture } from "../common";
+
+// Events of the contract under test
+const EVENT_NAME_OWNER_TRANSFER_ACCEPTED = "OwnerTransferAccepted";
+const EVENT_NAME_OWNER_TRANSFER_CANCELLED = "OwnerTransferCancelled";
+const EVENT_NAME_OWNER_TRANSFER_DELAY_CHANGED = "OwnerTransferDelayChanged";
+const EVENT_NAME_OWNER_TRANSFER_PROPOSED = "OwnerTransferProposed";
+
+// Events of the library contracts
+const EVENT_NAME_ROLE_GRANTED = "RoleGranted";
+const EVENT_NAME_ROLE_REVOKED = "RoleRevoked";
+
+// Errors of the contract under test
+const ERROR_NAME_CALLER_NOT_PENDING_OWNER = "AccessControlExt_CallerNotPendingOwner";
+const ERROR_NAME_NEW_OWNER_ADDRESS_ZERO = "AccessControlExt_NewOwnerAddressZero";
+const ERROR_NAME_NEW_OWNER_ALREADY_OWNER = "AccessControlExt_NewOwnerAlreadyOwner";
+const ERROR_NAME_OWNER_ROLE_CHANGE_PROHIBITED = "AccessControlExt_OwnerRoleChangeProhibited";
+const ERROR_NAME_OWNER_TRANSFER_DELAY_ALREADY_CONFIGURED = "AccessControlExt_OwnerTransferDelayAlreadyConfigured";
+const ERROR_NAME_OWNER_TRANSFER_DELAY_INVALID = "AccessControlExt_OwnerTransferDelayInvalid";
+const ERROR_NAME_OWNER_TRANSFER_NOT_PENDING = "AccessControlExt_OwnerTransferNotPending";
+const ERROR_NAME_OWNER_TRANSFER_NOT_READY = "AccessControlExt_OwnerTransferNotReady";
+
+// Errors of the library contracts
+const ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT = "AccessControlUnauthorizedAccount";
+
+const OWNER_TRANSFER_DELAY = 7200n;
+const MIN_OWNER_TRANSFER_DELAY = 3600n;
+const MAX_OWNER_TRANSFER_DELAY = 30n * 86400n;
+
+const OWNER_ROLE: string = ethers.id("OWNER_ROLE");
+const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
+
+export interface AccessControlExtBehaviorOptions {
+  // The names of the roles of the contract that are administered by the grantor role, the first one is used in checks
+  grantorManagedRoles: string[];
+}
+
+/**
+ * Defines the tests of the {AccessControlExtUpgradeable} base contract for a contract built on it.
+ *
+ * @param fixture The fixture that deploys the contract under test.
+ * @param options The roles of the contract under test.
+ */
+export function shouldBehaveLikeAccessControlExt(
+  fixture: () => Promise<BehaviorFixture>,
+  options: AccessControlExtBehaviorOptions
+) {
+  const USER_ROLE: string = ethers.id(options.grantorManagedRoles[0]);
+
+  async function deployAndConfigureContract(): Promise<BehaviorFixture> {
+    const { contract, owner } = await fixture();
+    await proveTx(contract.grantRole(GRANTOR_ROLE, owner.address));
+
+    return { contract, owner };
+  }
+
+  async function deployAndProposeOwnerTransfer(): Promise<BehaviorFixture & { readyAt: bigint }> {
+    const { contract, owner } = await fixture();
+    const [newOwner] = await getSignersExcept(owner);
+    await proveTx(contract.setOwnerTransferDelay(OWNER_TRANSFER_DELAY));
+    await proveTx(contract.proposeOwnerTransfer(newOwner.address));
+    const readyAt = BigInt(await time.latest()) + OWNER_TRANSFER_DELAY;
+
+    return { contract, owner, readyAt };
+  }
+
+  async function deployAndProposeOwnerTransferWithMinDelay(): Promise<BehaviorFixture> {
+    const { contract, owner } = await fixture();
+    const [newOwner] = await getSignersExcept(owner);
+    await proveTx(contract.proposeOwnerTransfer(newOwner.address));
+
+    return { contract, owner };
+  }
+
+  describe("Behaves like 'AccessControlExtUpgradeable'", async () => {
+    let attacker: HardhatEthersSigner;
+    let users: HardhatEthersSigner[];
+    let userAddresses: string[];
+
+    before(async () => {
+      const { owner } = await setUpFixture(fixture);
+      const otherSigners = await getSignersExcept(owner);
+      // The first user is the new owner in the fixtures with a proposed owner transfer
+      users = otherSigners.slice(0, 3);
+      attacker = otherSigners[3];
+      userAddresses = users.map(user => user.address);
+    });
+
+    describe("Initial configuration", async () => {
+      it("The roles are configured as expected", async () => {
+        const { contract, owner } = await setUpFixture(fixture);
+
+        // The role hashes
+        expect(await contract.OWNER_ROLE()).to.equal(OWNER_ROLE);
+        expect(await contract.GRANTOR_ROLE()).to.equal(GRANTOR_ROLE);
+        for (const roleName of options.grantorManagedRoles) {
+          expect(await contract[roleName]()).to.equal(ethers.id(roleName));
+        }
+
+        // The role admins
+        expect(await contract.getRoleAdmin(OWNER_ROLE)).to.equal(OWNER_ROLE);
+        expect(await contract.getRoleAdmin(GRANTOR_ROLE)).to.equal(OWNER_ROLE);
+        for (const roleName of options.grantorManagedRoles) {
+          expect(await contract.getRoleAdmin(ethers.id(roleName))).to.equal(GRANTOR_ROLE, roleName);
+        }
+
+        // The owner should have the owner role, but not the other roles
+        expect(await contract.hasRole(OWNER_ROLE, owner.address)).to.equal(true);
+        expect(await contract.hasRole(GRANTOR_ROLE, owner.address)).to.equal(false);
+        for (const roleName of options.grantorManagedRoles) {
+          expect(await contract.hasRole(ethers.id(roleName), owner.address)).to.equal(false, roleName);
+        }
+
+        // The owner transfer settings
+        expect(await contract.ownerTransferDelay()).to.equal(MIN_OWNER_TRANSFER_DELAY);
+        expect(await contract.getPendingOwnerTransfer()).to.deep.equal([ZeroAddress, ZeroAddress, 0n]);
+      });
+    });
+
+    describe("Function 'grantRoleBatch()'", async () => {
+      describe("Executes as expected if the input account array contains", async () => {
+        it("A single account without the previously granted role", async () => {
+          const { contract, owner } = await setUpFixture(deployAndConfigureContract);
+          expect(await contract.hasRole(USER_ROLE, userAddresses[0])).to.equal(false);
+
+          await expect(contract.grantRoleBatch(USER_ROLE, [userAddresses[0]]))
+            .to.emit(contract, EVENT_NAME_ROLE_GRANTED)
+            .withArgs(USER_ROLE, userAddresses[0], owner.address);
+
+          expect(await contract.hasRole(USER_ROLE, userAddresses[0])).to.equal(true);
+        });
+
+        it("A single account with the previously granted role", async () => {
+          const { contract } = await setUpFixture(deployAndConfigureContract);
+          await proveTx(contract.grantRoleBatch(USER_ROLE, [userAddresses[0]]));
+          expect(await contract.hasRole(USER_ROLE, userAddresses[0])).to.equal(true);
+
+          await expect(contract.grantRoleBatch(USER_ROLE, [userAddresses[0]]))
+            .not.to.emit(contract, EVENT_NAME_ROLE_GRANTED);
+        });
+
+        it("Multiple accounts without the previously granted role", async () => {
+          const { contract, owner } = await setUpFixture(deployAndConfigureContract);
+          for (const userAddress of userAddresses) {
+            expect(await contract.hasRole(USER_ROLE, userAddress)).to.equal(false);
+          }
+
+          const tx: Promise<TransactionResponse> = contract.grantRoleBatch(USER_ROLE, userAddresses);
+
+          for (const userAddress of userAddresses) {
+            await expect(tx)
+              .to.emit(contract, EVENT_NAME_ROLE_GRANTED)
+              .withArgs(USER_ROLE, userAddress, owner.address);
+            expect(await contract.hasRole(USER_ROLE, userAddress)).to.equal(true);
+          }
+        });
+
+        it("No accounts", async () => {
+          const { contract } = await setUpFixture(deployAndConfigureContract);
+
+          await expect(contract.grantRoleBatch(USER_ROLE, []))
+            .not.to.emit(contract, EVENT_NAME_ROLE_GRANTED);
+        });
+      });
+
+      describe("Is reverted if", async () => {
+        it("The caller does not have the expected admin role", async () => {
+          const { contract } = await setUpFixture(deployAndConfigureContract);
+
+          await expect(connect(contract, attacker).grantRoleBatch(USER_ROLE, []))
+            .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+            .withArgs(attacker.address, GRANTOR_ROLE);
+        });
+
+        it("The provided role is the owner role", async () => {
+          const { contract } = await setUpFixture(deployAndConfigureContract);
+
+          await expect(contract.grantRoleBatch(OWNER_ROLE, [userAddresses[0]]))
+            .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_ROLE_CHANGE_PROHIBITED);
+        });
+      });
+    });
+
+    describe("Function 'revokeRoleBatch()'", async () => {
+      describe("Executes as expected if the input account array contains", async () => {
+        it("A single account with the previously granted role", async () => {
+          const { contract, owner } = await setUpFixture(deployAndConfigureContract);
+          await proveTx(contract.grantRoleBatch(USER_ROLE, [userAddresses[0]]));
+          expect(await contract.hasRole(USER_ROLE, userAddresses[0])).to.equal(true);
+
+          await expect(contract.revokeRoleBatch(USER_ROLE, [userAddresses[0]]))
+            .to.emit(contract, EVENT_NAME_ROLE_REVOKED)
+            .withArgs(USER_ROLE, userAddresses[0], owner.address);
+
+          expect(await contract.hasRole(USER_ROLE, userAddresses[0])).to.equal(false);
+        });
+
+        it("A single account without the previously granted role", async () => {
+          const { contract } = await setUpFixture(deployAndConfigureContract);
+          expect(await contract.hasRole(USER_ROLE, userAddresses[0])).to.equal(false);
+
+          await expect(contract.revokeRoleBatch(USER_ROLE, [userAddresses[0]]))
+            .not.to.emit(contract, EVENT_NAME_ROLE_REVOKED);
+        });
+
+        it("Multiple accounts with the previously granted role", async () => {
+          const { contract, owner } = await setUpFixture(deployAndConfigureContract);
+          await proveTx(contract.grantRoleBatch(USER_ROLE, userAddresses));
+          for (const userAddress of userAddresses) {
+            expect(await contract.hasRole(USER_ROLE, userAddress)).to.equal(true);
+          }
+
+          const tx: Promise<TransactionResponse> = contract.revokeRoleBatch(USER_ROLE, userAddresses);
+
+          for (const userAddress of userAddresses) {
+            await expect(tx)
+              .to.emit(contract, EVENT_NAME_ROLE_REVOKED)
+              .withArgs(USER_ROLE, userAddress, owner.address);
+            expect(await contract.hasRole(USER_ROLE, userAddress)).to.equal(false);
+          }
+        });
+
+        it("No accounts", async () => {
+          const { contract } = await setUpFixture(deployAndConfigureContract);
+
+          await expect(contract.revokeRoleBatch(USER_ROLE, []))
+            .not.to.emit(contract, EVENT_NAME_ROLE_REVOKED);
+        });
+      });
+
+      describe("Is reverted if", async () => {
+        it("The caller does not have the expected admin role", async () => {
+          const { contract } = await setUpFixture(deployAndConfigureContract);
+
+          await expect(connect(contract, attacker).revokeRoleBatch(USER_ROLE, []))
+            .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+            .withArgs(attacker.address, GRANTOR_ROLE);
+        });
+
+        it("The provided role is the owner role", async () => {
+          const { contract, owner } = await setUpFixture(deployAndConfigureContract);
+
+          await expect(contract.revokeRoleBatch(OWNER_ROLE, [owner.address]))
+            .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_ROLE_CHANGE_PROHIBITED);
+        });
+      });
+    });
+
+    describe("Functions 'grantRole()', 'revokeRole()' and 'renounceRole()'", async () => {
+      it("Execute as expected for roles other than the owner role", async () => {
+        const { contract, owner } = await setUpFixture(deployAndConfigureContract);
+
+        await expect(contract.grantRole(USER_ROLE, userAddresses[0]))
+          .to.emit(contract, EVENT_NAME_ROLE_GRANTED)
+          .withArgs(USER_ROLE, userAddresses[0], owner.address);
+        await expect(contract.revokeRole(USER_ROLE, userAddresses[0]))
+          .to.emit(contract, EVENT_NAME_ROLE_REVOKED)
+          .withArgs(USER_ROLE, userAddresses[0], owner.address);
+        await expect(contract.renounceRole(GRANTOR_ROLE, owner.address))
+          .to.emit(contract, EVENT_NAME_ROLE_REVOKED)
+          .withArgs(GRANTOR_ROLE, owner.address, owner.address);
+      });
+
+      describe("Are reverted if the provided role is the owner role and the function is", async () => {
+        it("'grantRole()'", async () => {
+          const { contract } = await setUpFixture(fixture);
+
+          await expect(contract.grantRole(OWNER_ROLE, userAddresses[0]))
+            .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_ROLE_CHANGE_PROHIBITED);
+        });
+
+        it("'revokeRole()'", async () => {
+          const { contract, owner } = await setUpFixture(fixture);
+
+          await expect(contract.revokeRole(OWNER_ROLE, owner.address))
+            .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_ROLE_CHANGE_PROHIBITED);
+        });
+
+        it("'renounceRole()'", async () => {
+          const { contract, owner } = await setUpFixture(fixture);
+
+          await expect(contract.renounceRole(OWNER_ROLE, owner.address))
+            .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_ROLE_CHANGE_PROHIBITED);
+        });
+      });
+    });
+
+    describe("Function 'setOwnerTransferDelay()'", async () => {
+      it("Executes as expected", async () => {
+        const { contract } = await setUpFixture(fixture);
+
+        await expect(contract.setOwnerTransferDelay(OWNER_TRANSFER_DELAY))
+          .to.emit(contract, EVENT_NAME_OWNER_TRANSFER_DELAY_CHANGED)
+          .withArgs(OWNER_TRANSFER_DELAY, MIN_OWNER_TRANSFER_DELAY);
+        expect(await contract.ownerTransferDelay()).to.equal(OWNER_TRANSFER_DELAY);
+
+        await expect(contract.setOwnerTransferDelay(MAX_OWNER_TRANSFER_DELAY))
+          .to.emit(contract, EVENT_NAME_OWNER_TRANSFER_DELAY_CHANGED)
+          .withArgs(MAX_OWNER_TRANSFER_DELAY, OWNER_TRANSFER_DELAY);
+
+        await expect(contract.setOwnerTransferDelay(MIN_OWNER_TRANSFER_DELAY))
+          .to.emit(contract, EVENT_NAME_OWNER_TRANSFER_DELAY_CHANGED)
+          .withArgs(MIN_OWNER_TRANSFER_DELAY, MAX_OWNER_TRANSFER_DELAY);
+        expect(await contract.ownerTransferDelay()).to.equal(MIN_OWNER_TRANSFER_DELAY);
+      });
+
+      it("Is reverted if the caller does not have the owner role", async () => {
+        const { contract } = await setUpFixture(fixture);
+
+        await expect(connect(contract, attacker).setOwnerTransferDelay(OWNER_TRANSFER_DELAY))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(attacker.address, OWNER_ROLE);
+      });
+
+      it("Is reverted if the new delay is out of the allowed range", async () => {
+        const { contract } = await setUpFixture(fixture);
+        expect(await contract.MIN_OWNER_TRANSFER_DELAY()).to.equal(MIN_OWNER_TRANSFER_DELAY);
+        expect(await contract.MAX_OWNER_TRANSFER_DELAY()).to.equal(MAX_OWNER_TRANSFER_DELAY);
+
+        await expect(contract.setOwnerTransferDelay(MIN_OWNER_TRANSFER_DELAY - 1n))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_TRANSFER_DELAY_INVALID);
+        await expect(contract.setOwnerTransferDelay(MAX_OWNER_TRANSFER_DELAY + 1n))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_TRANSFER_DELAY_INVALID);
+        await expect(contract.setOwnerTransferDelay(2n ** 64n - 1n))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_TRANSFER_DELAY_INVALID);
+      });
+
+      it("Is reverted if the new delay is zero", async () => {
+        const { contract } = await setUpFixture(fixture);
+        await proveTx(contract.setOwnerTransferDelay(OWNER_TRANSFER_DELAY));
+
+        await expect(contract.setOwnerTransferDelay(0n))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_TRANSFER_DELAY_INVALID);
+      });
+
+      it("Is reverted if the new delay is the same as the current one", async () => {
+        const { contract } = await setUpFixture(fixture);
+        await proveTx(contract.setOwnerTransferDelay(OWNER_TRANSFER_DELAY));
+
+        await expect(contract.setOwnerTransferDelay(OWNER_TRANSFER_DELAY))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_TRANSFER_DELAY_ALREADY_CONFIGURED);
+      });
+
+      it("Is reverted if the new delay is the minimum one and the delay has not been configured", async () => {
+        const { contract } = await setUpFixture(fixture);
+
+        await expect(contract.setOwnerTransferDelay(MIN_OWNER_TRANSFER_DELAY))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_TRANSFER_DELAY_ALREADY_CONFIGURED);
+      });
+    });
+
+    describe("Function 'proposeOwnerTransfer()'", async () => {
+      it("Executes as expected", async () => {
+        const { contract, owner } = await setUpFixture(fixture);
+        await proveTx(contract.setOwnerTransferDelay(OWNER_TRANSFER_DELAY));
+
+        const tx = contract.proposeOwnerTransfer(userAddresses[0]);
+        await proveTx(tx);
+        const readyAt = BigInt(await time.latest()) + OWNER_TRANSFER_DELAY;
+        await expect(tx)
+          .to.emit(contract, EVENT_NAME_OWNER_TRANSFER_PROPOSED)
+          .withArgs(owner.address, userAddresses[0], readyAt);
+        expect(await contract.getPendingOwnerTransfer()).to.deep.equal([owner.address, userAddresses[0], readyAt]);
+
+        // The proposal itself does not change the roles
+        expect(await contract.hasRole(OWNER_ROLE, owner.address)).to.equal(true);
+        expect(await contract.hasRole(OWNER_ROLE, userAddresses[0])).to.equal(false);
+      });
+
+      it("Applies the minimum delay if the delay has not been configured", async () => {
+        const { contract, owner } = await setUpFixture(fixture);
+
+        await proveTx(contract.proposeOwnerTransfer(userAddresses[0]));
+        const readyAt = BigInt(await time.latest()) + MIN_OWNER_TRANSFER_DELAY;
+
+        expect(await contract.getPendingOwnerTransfer()).to.deep.equal([owner.address, userAddresses[0], readyAt]);
+        await time.setNextBlockTimestamp(readyAt - 1n);
+        await expect(connect(contract, users[0]).acceptOwnerTransfer())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_TRANSFER_NOT_READY)
+          .withArgs(readyAt);
+      });
+
+      it("Replaces the previously proposed transfer", async () => {
+        const { contract, owner } = await setUpFixture(fixture);
+        await proveTx(contract.proposeOwnerTransfer(userAddresses[0]));
+
+        await proveTx(contract.proposeOwnerTransfer(userAddresses[1]));
+        const readyAt = BigInt(await time.latest()) + MIN_OWNER_TRANSFER_DELAY;
+        await time.increaseTo(readyAt);
+
+        expect(await contract.getPendingOwnerTransfer()).to.deep.equal([owner.address, userAddresses[1], readyAt]);
+        await expect(connect(contract, users[0]).acceptOwnerTransfer())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_CALLER_NOT_PENDING_OWNER)
+          .withArgs(userAddresses[0]);
+      });
+
+      it("Is reverted if the caller does not have the owner role", async () => {
+        const { contract } = await setUpFixture(fixture);
+
+        await expect(connect(contract, attacker).proposeOwnerTransfer(attacker.address))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(attacker.address, OWNER_ROLE);
+      });
+
+      it("Is reverted if the new owner address is zero", async () => {
+        const { contract } = await setUpFixture(fixture);
+
+        await expect(contract.proposeOwnerTransfer(ZeroAddress))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_NEW_OWNER_ADDRESS_ZERO);
+      });
+
+      it("Is reverted if the new owner already has the owner role", async () => {
+        const { contract, owner } = await setUpFixture(fixture);
+
+        await expect(contract.proposeOwnerTransfer(owner.address))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_NEW_OWNER_ALREADY_OWNER)
+          .withArgs(owner.address);
+      });
+    });
+
+    describe("Function 'acceptOwnerTransfer()'", async () => {
+      it("Executes as expected after the delay", async () => {
+        const { contract, owner, readyAt } = await setUpFixture(deployAndProposeOwnerTransfer);
+        await time.increaseTo(readyAt);
+
+        const tx = connect(contract, users[0]).acceptOwnerTransfer();
+        await expect(tx)
+          .to.emit(contract, EVENT_NAME_OWNER_TRANSFER_ACCEPTED)
+          .withArgs(owner.address, userAddresses[0]);
+        await expect(tx)
+          .to.emit(contract, EVENT_NAME_ROLE_GRANTED)
+          .withArgs(OWNER_ROLE, userAddresses[0], userAddresses[0]);
+        await expect(tx)
+          .to.emit(contract, EVENT_NAME_ROLE_REVOKED)
+          .withArgs(OWNER_ROLE, owner.address, userAddresses[0]);
+
+        expect(await contract.hasRole(OWNER_ROLE, userAddresses[0])).to.equal(true);
+        expect(await contract.hasRole(OWNER_ROLE, owner.address)).to.equal(false);
+        expect(await contract.getPendingOwnerTransfer()).to.deep.equal([ZeroAddress, ZeroAddress, 0n]);
+
+        // The new owner controls the contract
+        await expect(connect(contract, users[0]).setOwnerTransferDelay(MIN_OWNER_TRANSFER_DELAY))
+          .to.emit(contract, EVENT_NAME_OWNER_TRANSFER_DELAY_CHANGED);
+      });
+
+      it("Is reverted if the delay has not passed yet", async () => {
+        const { contract, readyAt } = await setUpFixture(deployAndProposeOwnerTransfer);
+        await time.setNextBlockTimestamp(readyAt - 1n);
+
+        await expect(connect(contract, users[0]).acceptOwnerTransfer())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_TRANSFER_NOT_READY)
+          .withArgs(readyAt);
+      });
+
+      it("Is reverted if the caller is not the pending owner", async () => {
+        const { contract, readyAt } = await setUpFixture(deployAndProposeOwnerTransfer);
+        await time.increaseTo(readyAt);
+
+        await expect(connect(contract, attacker).acceptOwnerTransfer())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_CALLER_NOT_PENDING_OWNER)
+          .withArgs(attacker.address);
+      });
+
+      it("Is reverted if the transfer has been cancelled", async () => {
+        const { contract, readyAt } = await setUpFixture(deployAndProposeOwnerTransfer);
+        await proveTx(contract.cancelOwnerTransfer());
+        await time.increaseTo(readyAt);
+
+        await expect(connect(contract, users[0]).acceptOwnerTransfer())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_CALLER_NOT_PENDING_OWNER)
+          .withArgs(userAddresses[0]);
+      });
+    });
+
+    describe("Function 'cancelOwnerTransfer()'", async () => {
+      it("Executes as expected if it is called by the owner", async () => {
+        const { contract, owner } = await setUpFixture(deployAndProposeOwnerTransferWithMinDelay);
+
+        await expect(contract.cancelOwnerTransfer())
+          .to.emit(contract, EVENT_NAME_OWNER_TRANSFER_CANCELLED)
+          .withArgs(owner.address, userAddresses[0]);
+        expect(await contract.getPendingOwnerTransfer()).to.deep.equal([ZeroAddress, ZeroAddress, 0n]);
+      });
+
+      it("Executes as expected if it is called by the pending owner", async () => {
+        const { contract, owner } = await setUpFixture(deployAndProposeOwnerTransferWithMinDelay);
+
+        await expect(connect(contract, users[0]).cancelOwnerTransfer())
+          .to.emit(contract, EVENT_NAME_OWNER_TRANSFER_CANCELLED)
+          .withArgs(owner.address, userAddresses[0]);
+        expect(await contract.getPendingOwnerTransfer()).to.deep.equal([ZeroAddress, ZeroAddress, 0n]);
+      });
+
+      it("Is reverted if the caller is neither the owner nor the pending owner", async () => {
+        const { contract } = await setUpFixture(deployAndProposeOwnerTransferWithMinDelay);
+
+        await expect(connect(contract, attacker).cancelOwnerTransfer())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(attacker.address, OWNER_ROLE);
+      });
+
+      it("Is reverted if there is no pending transfer", async () => {
+        const { contract } = await setUpFixture(fixture);
+
+        await expect(contract.cancelOwnerTransfer())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OWNER_TRANSFER_NOT_PENDING);
+      });
+    });
+  });
+}
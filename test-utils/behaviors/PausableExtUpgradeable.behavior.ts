@@ -0,0 +1,178 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { connect, proveTx } from "../eth";
+import { BehaviorFixture, getSignersExcept, setUpFixture } from "../common";
+
+// Events of the contract under test
+const EVENT_NAME_OPERATION_KIND_PAUSED = "OperationKindPaused";
+const EVENT_NAME_OPERATION_KIND_UNPAUSED = "OperationKindUnpaused";
+
+// Events of the library contracts
+const EVENT_NAME_PAUSED = "Paused";
+const EVENT_NAME_UNPAUSED = "Unpaused";
+
+// Errors of the contract under test
+const ERROR_NAME_OPERATION_KIND_NOT_PAUSED = "PausableExt_OperationKindNotPaused";
+const ERROR_NAME_OPERATION_KIND_PAUSED = "PausableExt_OperationKindPaused";
+
+// Errors of the library contracts
+const ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT = "AccessControlUnauthorizedAccount";
+
+const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
+const PAUSER_ROLE: string = ethers.id("PAUSER_ROLE");
+
+export interface PausableExtBehaviorOptions {
+  // Two different operation kinds of the contract, the mock ones are used by default
+  operationKinds?: [string, string];
+}
+
+/**
+ * Defines the tests of the {PausableExtUpgradeable} base contract for a contract built on it.
+ *
+ * @param fixture The fixture that deploys the contract under test.
+ * @param options The operation kinds of the contract under test.
+ */
+export function shouldBehaveLikePausableExt(
+  fixture: () => Promise<BehaviorFixture>,
+  options: PausableExtBehaviorOptions = {}
+) {
+  const [OPERATION_KIND_1, OPERATION_KIND_2] = options.operationKinds ?? [
+    ethers.id("MOCK_OPERATION_KIND_1"),
+    ethers.id("MOCK_OPERATION_KIND_2")
+  ];
+
+  async function deployAndConfigureContract(): Promise<BehaviorFixture> {
+    const { contract, owner } = await fixture();
+    const [pauser] = await getSignersExcept(owner);
+    await proveTx(contract.grantRole(GRANTOR_ROLE, owner.address));
+    await proveTx(contract.grantRole(PAUSER_ROLE, pauser.address));
+
+    return { contract, owner };
+  }
+
+  describe("Behaves like 'PausableExtUpgradeable'", async () => {
+    let pauser: HardhatEthersSigner;
+
+    before(async () => {
+      const { owner } = await setUpFixture(fixture);
+      // The pauser is the first non-owner signer like in the fixture with the configured roles
+      [pauser] = await getSignersExcept(owner);
+    });
+
+    describe("Initial configuration", async () => {
+      it("The pauser role and the unpaused state are configured as expected", async () => {
+        const { contract, owner } = await setUpFixture(fixture);
+
+        expect(await contract.PAUSER_ROLE()).to.equal(PAUSER_ROLE);
+        expect(await contract.getRoleAdmin(PAUSER_ROLE)).to.equal(GRANTOR_ROLE);
+        expect(await contract.hasRole(PAUSER_ROLE, owner.address)).to.equal(false);
+
+        expect(await contract.paused()).to.equal(false);
+        expect(await contract.isOperationKindPaused(OPERATION_KIND_1)).to.equal(false);
+        expect(await contract.isOperationKindPaused(OPERATION_KIND_2)).to.equal(false);
+      });
+    });
+
+    describe("Function 'pause()'", async () => {
+      it("Executes successfully and emits the correct event", async () => {
+        const { contract } = await setUpFixture(deployAndConfigureContract);
+
+        await expect(connect(contract, pauser).pause())
+          .to.emit(contract, EVENT_NAME_PAUSED)
+          .withArgs(pauser.address);
+
+        expect(await contract.paused()).to.equal(true);
+      });
+
+      it("Is reverted if the caller does not have the pauser role", async () => {
+        const { contract, owner } = await setUpFixture(deployAndConfigureContract);
+
+        await expect(contract.pause())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(owner.address, PAUSER_ROLE);
+      });
+    });
+
+    describe("Function 'unpause()'", async () => {
+      it("Executes successfully and emits the correct event", async () => {
+        const { contract } = await setUpFixture(deployAndConfigureContract);
+        await proveTx(connect(contract, pauser).pause());
+
+        await expect(connect(contract, pauser).unpause())
+          .to.emit(contract, EVENT_NAME_UNPAUSED)
+          .withArgs(pauser.address);
+
+        expect(await contract.paused()).to.equal(false);
+      });
+
+      it("Is reverted if the caller does not have the pauser role", async () => {
+        const { contract, owner } = await setUpFixture(deployAndConfigureContract);
+
+        await expect(contract.unpause())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(owner.address, PAUSER_ROLE);
+      });
+    });
+
+    describe("Function 'pauseOperationKind()'", async () => {
+      it("Executes successfully and emits the correct event", async () => {
+        const { contract } = await setUpFixture(deployAndConfigureContract);
+
+        await expect(connect(contract, pauser).pauseOperationKind(OPERATION_KIND_1))
+          .to.emit(contract, EVENT_NAME_OPERATION_KIND_PAUSED)
+          .withArgs(OPERATION_KIND_1, pauser.address);
+
+        expect(await contract.isOperationKindPaused(OPERATION_KIND_1)).to.equal(true);
+        expect(await contract.isOperationKindPaused(OPERATION_KIND_2)).to.equal(false);
+        expect(await contract.paused()).to.equal(false);
+      });
+
+      it("Is reverted if the caller does not have the pauser role", async () => {
+        const { contract, owner } = await setUpFixture(deployAndConfigureContract);
+
+        await expect(contract.pauseOperationKind(OPERATION_KIND_1))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(owner.address, PAUSER_ROLE);
+      });
+
+      it("Is reverted if the operation kind is already paused", async () => {
+        const { contract } = await setUpFixture(deployAndConfigureContract);
+        await proveTx(connect(contract, pauser).pauseOperationKind(OPERATION_KIND_1));
+
+        await expect(connect(contract, pauser).pauseOperationKind(OPERATION_KIND_1))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OPERATION_KIND_PAUSED)
+          .withArgs(OPERATION_KIND_1);
+      });
+    });
+
+    describe("Function 'unpauseOperationKind()'", async () => {
+      it("Executes successfully and emits the correct event", async () => {
+        const { contract } = await setUpFixture(deployAndConfigureContract);
+        await proveTx(connect(contract, pauser).pauseOperationKind(OPERATION_KIND_1));
+
+        await expect(connect(contract, pauser).unpauseOperationKind(OPERATION_KIND_1))
+          .to.emit(contract, EVENT_NAME_OPERATION_KIND_UNPAUSED)
+          .withArgs(OPERATION_KIND_1, pauser.address);
+
+        expect(await contract.isOperationKindPaused(OPERATION_KIND_1)).to.equal(false);
+      });
+
+      it("Is reverted if the caller does not have the pauser role", async () => {
+        const { contract, owner } = await setUpFixture(deployAndConfigureContract);
+
+        await expect(contract.unpauseOperationKind(OPERATION_KIND_1))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(owner.address, PAUSER_ROLE);
+      });
+
+      it("Is reverted if the operation kind is not paused", async () => {
+        const { contract } = await setUpFixture(deployAndConfigureContract);
+
+        await expect(connect(contract, pauser).unpauseOperationKind(OPERATION_KIND_1))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_OPERATION_KIND_NOT_PAUSED)
+          .withArgs(OPERATION_KIND_1);
+      });
+    });
+  });
+}
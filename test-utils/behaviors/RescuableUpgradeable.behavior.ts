@@ -0,0 +1,337 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { setBalance } from "@nomicfoundation/hardhat-network-helpers";
+import { connect, getAddress, proveTx } from "../eth";
+import { BehaviorFixture, getSignersExcept, setUpFixture } from "../common";
+
+// Events of the contract under test
+const EVENT_NAME_RESCUED = "Rescued";
+
+// Events of the library contracts
+const EVENT_NAME_TRANSFER = "Transfer";
+const EVENT_NAME_TRANSFER_BATCH = "TransferBatch";
+const EVENT_NAME_TRANSFER_SINGLE = "TransferSingle";
+
+// Errors of the contract under test
+const ERROR_NAME_ASSET_PROTECTED = "Rescuable_AssetProtected";
+
+// Errors of the library contracts
+const ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT = "AccessControlUnauthorizedAccount";
+const ERROR_NAME_ERC1155_INSUFFICIENT_BALANCE = "ERC1155InsufficientBalance";
+const ERROR_NAME_ERC721_INSUFFICIENT_APPROVAL = "ERC721InsufficientApproval";
+const ERROR_NAME_ERC721_INVALID_RECEIVER = "ERC721InvalidReceiver";
+const ERROR_NAME_FAILED_CALL = "FailedCall";
+const ERROR_NAME_INSUFFICIENT_BALANCE = "InsufficientBalance";
+
+const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
+const RESCUER_ROLE: string = ethers.id("RESCUER_ROLE");
+
+const ADDRESS_ZERO = ethers.ZeroAddress;
+const TOKEN_AMOUNT = 123;
+const TOKEN_ID = 42;
+const NATIVE_AMOUNT = 1000n;
+
+// The interface identifiers according to ERC-165
+const INTERFACE_ID_ERC165 = "0x01ffc9a7";
+const INTERFACE_ID_ACCESS_CONTROL = "0x7965db0b";
+const INTERFACE_ID_ERC1155_RECEIVER = "0x4e2312e0";
+const INTERFACE_ID_INVALID = "0xffffffff";
+
+interface RescuableFixture extends BehaviorFixture {
+  tokenMock: Contract;
+  erc721Mock: Contract;
+  erc1155Mock: Contract;
+}
+
+export interface RescuableBehaviorOptions {
+  // Protects an asset of the contract from rescue, the checks of the protection are skipped if it is not provided
+  protectAsset?: (contract: Contract, token: string) => Promise<void>;
+
+  // Whether the native coin can be protected by the hook above, true by default
+  isNativeProtectable?: boolean;
+}
+
+/**
+ * Defines the tests of the {RescuableUpgradeable} base contract for a contract built on it.
+ *
+ * The assets to rescue are minted to the contract with the token mocks of this repository.
+ *
+ * @param fixture The fixture that deploys the contract under test.
+ * @param options The hooks of the contract under test.
+ */
+export function shouldBehaveLikeRescuable(
+  fixture: () => Promise<BehaviorFixture>,
+  options: RescuableBehaviorOptions = {}
+) {
+  const { protectAsset, isNativeProtectable = true } = options;
+  const itIfProtectable = protectAsset ? it : it.skip;
+  const itIfNativeProtectable = protectAsset && isNativeProtectable ? it : it.skip;
+
+  async function deployAndConfigureAllContracts(): Promise<RescuableFixture> {
+    const { contract, owner } = await fixture();
+    const [rescuer] = await getSignersExcept(owner);
+    const contractAddress = getAddress(contract);
+
+    const tokenMockFactory = await ethers.getContractFactory("ERC20TokenMock");
+    const tokenMock = await tokenMockFactory.connect(owner).deploy("ERC20 Test", "TEST") as Contract;
+    await tokenMock.waitForDeployment();
+
+    const erc721MockFactory = await ethers.getContractFactory("ERC721TokenMock");
+    const erc721Mock = await erc721MockFactory.connect(owner).deploy("ERC721 Test", "TEST") as Contract;
+    await erc721Mock.waitForDeployment();
+
+    const erc1155MockFactory = await ethers.getContractFactory("ERC1155TokenMock");
+    const erc1155Mock = await erc1155MockFactory.connect(owner).deploy("https://example.com/{id}.json") as Contract;
+    await erc1155Mock.waitForDeployment();
+
+    await proveTx(tokenMock.mint(contractAddress, TOKEN_AMOUNT));
+    await proveTx(erc721Mock.mint(contractAddress, TOKEN_ID));
+    await proveTx(erc1155Mock.mint(contractAddress, TOKEN_ID, TOKEN_AMOUNT));
+    await setBalance(contractAddress, NATIVE_AMOUNT);
+    await proveTx(contract.grantRole(GRANTOR_ROLE, owner.address));
+    await proveTx(contract.grantRole(RESCUER_ROLE, rescuer.address));
+
+    return { contract, owner, tokenMock, erc721Mock, erc1155Mock };
+  }
+
+  describe("Behaves like 'RescuableUpgradeable'", async () => {
+    let rescuer: HardhatEthersSigner;
+    let stranger: HardhatEthersSigner;
+
+    before(async () => {
+      const { owner } = await setUpFixture(fixture);
+      // The rescuer is the first non-owner signer like in the fixture with the configured roles
+      [rescuer, stranger] = await getSignersExcept(owner);
+    });
+
+    describe("Initial configuration", async () => {
+      it("The rescuer role is configured as expected", async () => {
+        const { contract, owner } = await setUpFixture(fixture);
+
+        expect(await contract.RESCUER_ROLE()).to.equal(RESCUER_ROLE);
+        expect(await contract.getRoleAdmin(RESCUER_ROLE)).to.equal(GRANTOR_ROLE);
+        expect(await contract.hasRole(RESCUER_ROLE, owner.address)).to.equal(false);
+      });
+    });
+
+    describe("Function 'rescueERC20()'", async () => {
+      it("Executes as expected and emits the correct event", async () => {
+        const { contract, owner, tokenMock } = await setUpFixture(deployAndConfigureAllContracts);
+
+        const tx = connect(contract, rescuer).rescueERC20(getAddress(tokenMock), owner.address, TOKEN_AMOUNT);
+        await expect(tx).to.changeTokenBalances(
+          tokenMock,
+          [contract, owner, rescuer],
+          [-TOKEN_AMOUNT, +TOKEN_AMOUNT, 0]
+        );
+        await expect(tx)
+          .to.emit(tokenMock, EVENT_NAME_TRANSFER)
+          .withArgs(getAddress(contract), owner.address, TOKEN_AMOUNT);
+        await expect(tx)
+          .to.emit(contract, EVENT_NAME_RESCUED)
+          .withArgs(getAddress(tokenMock), owner.address, 0, TOKEN_AMOUNT);
+      });
+
+      it("Is reverted if the caller does not have the rescuer role", async () => {
+        const { contract, owner, tokenMock } = await setUpFixture(deployAndConfigureAllContracts);
+
+        await expect(contract.rescueERC20(getAddress(tokenMock), owner.address, TOKEN_AMOUNT))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(owner.address, RESCUER_ROLE);
+      });
+
+      itIfProtectable("Is reverted if the token is protected from rescue", async () => {
+        const { contract, owner, tokenMock } = await setUpFixture(deployAndConfigureAllContracts);
+        await protectAsset?.(contract, getAddress(tokenMock));
+
+        await expect(connect(contract, rescuer).rescueERC20(getAddress(tokenMock), owner.address, TOKEN_AMOUNT))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ASSET_PROTECTED)
+          .withArgs(getAddress(tokenMock));
+      });
+    });
+
+    describe("Function 'rescueNative()'", async () => {
+      it("Executes as expected and emits the correct event", async () => {
+        const { contract } = await setUpFixture(deployAndConfigureAllContracts);
+
+        const tx = connect(contract, rescuer).rescueNative(stranger.address, NATIVE_AMOUNT);
+        await expect(tx).to.changeEtherBalances(
+          [contract, stranger, rescuer],
+          [-NATIVE_AMOUNT, NATIVE_AMOUNT, 0],
+          { includeFee: false }
+        );
+        await expect(tx)
+          .to.emit(contract, EVENT_NAME_RESCUED)
+          .withArgs(ADDRESS_ZERO, stranger.address, 0, NATIVE_AMOUNT);
+      });
+
+      it("Is reverted if the caller does not have the rescuer role", async () => {
+        const { contract, owner } = await setUpFixture(deployAndConfigureAllContracts);
+
+        await expect(contract.rescueNative(stranger.address, NATIVE_AMOUNT))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(owner.address, RESCUER_ROLE);
+      });
+
+      itIfNativeProtectable("Is reverted if the native coin is protected from rescue", async () => {
+        const { contract } = await setUpFixture(deployAndConfigureAllContracts);
+        await protectAsset?.(contract, ADDRESS_ZERO);
+
+        await expect(connect(contract, rescuer).rescueNative(stranger.address, NATIVE_AMOUNT))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ASSET_PROTECTED)
+          .withArgs(ADDRESS_ZERO);
+      });
+
+      it("Is reverted if the contract balance is insufficient", async () => {
+        const { contract } = await setUpFixture(deployAndConfigureAllContracts);
+
+        await expect(connect(contract, rescuer).rescueNative(stranger.address, NATIVE_AMOUNT + 1n))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_INSUFFICIENT_BALANCE)
+          .withArgs(NATIVE_AMOUNT, NATIVE_AMOUNT + 1n);
+      });
+
+      it("Is reverted if the recipient does not accept the native coin", async () => {
+        const { contract, tokenMock } = await setUpFixture(deployAndConfigureAllContracts);
+
+        await expect(connect(contract, rescuer).rescueNative(getAddress(tokenMock), NATIVE_AMOUNT))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_FAILED_CALL);
+      });
+    });
+
+    describe("Function 'rescueERC721()'", async () => {
+      it("Executes as expected and emits the correct event", async () => {
+        const { contract, erc721Mock } = await setUpFixture(deployAndConfigureAllContracts);
+
+        const tx = connect(contract, rescuer).rescueERC721(getAddress(erc721Mock), stranger.address, TOKEN_ID);
+        await expect(tx)
+          .to.emit(erc721Mock, EVENT_NAME_TRANSFER)
+          .withArgs(getAddress(contract), stranger.address, TOKEN_ID);
+        await expect(tx)
+          .to.emit(contract, EVENT_NAME_RESCUED)
+          .withArgs(getAddress(erc721Mock), stranger.address, TOKEN_ID, 1);
+        expect(await erc721Mock.ownerOf(TOKEN_ID)).to.equal(stranger.address);
+      });
+
+      it("Is reverted if the caller does not have the rescuer role", async () => {
+        const { contract, owner, erc721Mock } = await setUpFixture(deployAndConfigureAllContracts);
+
+        await expect(contract.rescueERC721(getAddress(erc721Mock), stranger.address, TOKEN_ID))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(owner.address, RESCUER_ROLE);
+      });
+
+      itIfProtectable("Is reverted if the token is protected from rescue", async () => {
+        const { contract, erc721Mock } = await setUpFixture(deployAndConfigureAllContracts);
+        await protectAsset?.(contract, getAddress(erc721Mock));
+
+        await expect(connect(contract, rescuer).rescueERC721(getAddress(erc721Mock), stranger.address, TOKEN_ID))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ASSET_PROTECTED)
+          .withArgs(getAddress(erc721Mock));
+      });
+
+      it("Is reverted if the token is not owned by the contract", async () => {
+        const { contract, owner, erc721Mock } = await setUpFixture(deployAndConfigureAllContracts);
+        await proveTx(erc721Mock.mint(stranger.address, TOKEN_ID + 1));
+
+        await expect(connect(contract, rescuer).rescueERC721(getAddress(erc721Mock), owner.address, TOKEN_ID + 1))
+          .to.be.revertedWithCustomError(erc721Mock, ERROR_NAME_ERC721_INSUFFICIENT_APPROVAL)
+          .withArgs(getAddress(contract), TOKEN_ID + 1);
+      });
+
+      it("Is reverted if the recipient cannot receive the token", async () => {
+        const { contract, tokenMock, erc721Mock } = await setUpFixture(deployAndConfigureAllContracts);
+
+        await expect(
+          connect(contract, rescuer).rescueERC721(getAddress(erc721Mock), getAddress(tokenMock), TOKEN_ID)
+        ).to.be.revertedWithCustomError(erc721Mock, ERROR_NAME_ERC721_INVALID_RECEIVER)
+          .withArgs(getAddress(tokenMock));
+      });
+    });
+
+    describe("Function 'rescueERC1155()'", async () => {
+      it("Executes as expected and emits the correct event", async () => {
+        const { contract, erc1155Mock } = await setUpFixture(deployAndConfigureAllContracts);
+        const amount = TOKEN_AMOUNT - 1;
+
+        const tx = connect(contract, rescuer)
+          .rescueERC1155(getAddress(erc1155Mock), stranger.address, TOKEN_ID, amount);
+        await expect(tx)
+          .to.emit(erc1155Mock, EVENT_NAME_TRANSFER_SINGLE)
+          .withArgs(getAddress(contract), getAddress(contract), stranger.address, TOKEN_ID, amount);
+        await expect(tx)
+          .to.emit(contract, EVENT_NAME_RESCUED)
+          .withArgs(getAddress(erc1155Mock), stranger.address, TOKEN_ID, amount);
+        expect(await erc1155Mock.balanceOf(stranger.address, TOKEN_ID)).to.equal(amount);
+        expect(await erc1155Mock.balanceOf(getAddress(contract), TOKEN_ID)).to.equal(TOKEN_AMOUNT - amount);
+      });
+
+      it("Is reverted if the caller does not have the rescuer role", async () => {
+        const { contract, owner, erc1155Mock } = await setUpFixture(deployAndConfigureAllContracts);
+
+        await expect(contract.rescueERC1155(getAddress(erc1155Mock), stranger.address, TOKEN_ID, TOKEN_AMOUNT))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(owner.address, RESCUER_ROLE);
+      });
+
+      itIfProtectable("Is reverted if the token is protected from rescue", async () => {
+        const { contract, erc1155Mock } = await setUpFixture(deployAndConfigureAllContracts);
+        await protectAsset?.(contract, getAddress(erc1155Mock));
+
+        await expect(
+          connect(contract, rescuer).rescueERC1155(getAddress(erc1155Mock), stranger.address, TOKEN_ID, TOKEN_AMOUNT)
+        ).to.be.revertedWithCustomError(contract, ERROR_NAME_ASSET_PROTECTED)
+          .withArgs(getAddress(erc1155Mock));
+      });
+
+      it("Is reverted if the contract balance is insufficient", async () => {
+        const { contract, erc1155Mock } = await setUpFixture(deployAndConfigureAllContracts);
+        const amount = TOKEN_AMOUNT + 1;
+
+        await expect(
+          connect(contract, rescuer).rescueERC1155(getAddress(erc1155Mock), stranger.address, TOKEN_ID, amount)
+        ).to.be.revertedWithCustomError(erc1155Mock, ERROR_NAME_ERC1155_INSUFFICIENT_BALANCE)
+          .withArgs(getAddress(contract), TOKEN_AMOUNT, amount, TOKEN_ID);
+      });
+    });
+
+    describe("Functions 'onERC1155Received()' and 'onERC1155BatchReceived()'", async () => {
+      it("Accept the tokens transferred with the safe transfer functions", async () => {
+        const { contract, erc1155Mock } = await setUpFixture(deployAndConfigureAllContracts);
+        const contractAddress = getAddress(contract);
+        await proveTx(erc1155Mock.mint(stranger.address, TOKEN_ID, TOKEN_AMOUNT));
+        await proveTx(erc1155Mock.mint(stranger.address, TOKEN_ID + 1, TOKEN_AMOUNT));
+
+        await expect(
+          connect(erc1155Mock, stranger).safeTransferFrom(stranger.address, contractAddress, TOKEN_ID, 1, "0x")
+        ).to.emit(erc1155Mock, EVENT_NAME_TRANSFER_SINGLE)
+          .withArgs(stranger.address, stranger.address, contractAddress, TOKEN_ID, 1);
+        await expect(
+          connect(erc1155Mock, stranger).safeBatchTransferFrom(
+            stranger.address,
+            contractAddress,
+            [TOKEN_ID, TOKEN_ID + 1],
+            [2, 3],
+            "0x"
+          )
+        ).to.emit(erc1155Mock, EVENT_NAME_TRANSFER_BATCH)
+          .withArgs(stranger.address, stranger.address, contractAddress, [TOKEN_ID, TOKEN_ID + 1], [2, 3]);
+
+        expect(await erc1155Mock.balanceOf(contractAddress, TOKEN_ID)).to.equal(TOKEN_AMOUNT + 1 + 2);
+        expect(await erc1155Mock.balanceOf(contractAddress, TOKEN_ID + 1)).to.equal(3);
+      });
+    });
+
+    describe("Function 'supportsInterface()'", async () => {
+      it("Returns the expected values", async () => {
+        const { contract } = await setUpFixture(fixture);
+
+        expect(await contract.supportsInterface(INTERFACE_ID_ERC165)).to.equal(true);
+        expect(await contract.supportsInterface(INTERFACE_ID_ACCESS_CONTROL)).to.equal(true);
+        expect(await contract.supportsInterface(INTERFACE_ID_ERC1155_RECEIVER)).to.equal(true);
+        expect(await contract.supportsInterface(INTERFACE_ID_INVALID)).to.equal(false);
+      });
+    });
+  });
+}
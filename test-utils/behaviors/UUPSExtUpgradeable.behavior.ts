@@ -0,0 +1,284 @@
+import { ethers, network, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { connect, getAddress, proveTx } from "../eth";
+import { BehaviorFixture, getSignersExcept, setUpFixture } from "../common";
+
+// Events of the contract under test
+const EVENT_NAME_UPGRADE_CANCELLED = "UpgradeCancelled";
+const EVENT_NAME_UPGRADE_DELAY_CHANGED = "UpgradeDelayChanged";
+const EVENT_NAME_UPGRADE_SCHEDULED = "UpgradeScheduled";
+
+// Events of the library contracts
+const EVENT_NAME_UPGRADED = "Upgraded";
+
+// Errors of the contract under test
+const ERROR_NAME_IMPLEMENTATION_ADDRESS_NOT_CONTRACT = "UUPSExtUpgradeable_ImplementationAddressNotContract";
+const ERROR_NAME_IMPLEMENTATION_ADDRESS_ZERO = "UUPSExtUpgradeable_ImplementationAddressZero";
+const ERROR_NAME_IMPLEMENTATION_CODEHASH_MISMATCH = "UUPSExtUpgradeable_ImplementationCodehashMismatch";
+const ERROR_NAME_UPGRADE_DELAY_ALREADY_CONFIGURED = "UUPSExtUpgradeable_UpgradeDelayAlreadyConfigured";
+const ERROR_NAME_UPGRADE_DELAY_INVALID = "UUPSExtUpgradeable_UpgradeDelayInvalid";
+const ERROR_NAME_UPGRADE_NOT_READY = "UUPSExtUpgradeable_UpgradeNotReady";
+const ERROR_NAME_UPGRADE_NOT_SCHEDULED = "UUPSExtUpgradeable_UpgradeNotScheduled";
+
+// Errors of the library contracts
+const ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT = "AccessControlUnauthorizedAccount";
+
+const ADDRESS_ZERO = ethers.ZeroAddress;
+const HASH_ZERO = ethers.ZeroHash;
+const MIN_UPGRADE_DELAY = 3600n;
+const MAX_UPGRADE_DELAY = 30n * 86400n;
+
+export interface UUPSExtBehaviorOptions {
+  // The name of the contract of a new implementation that passes the upgrade validation of the contract under test
+  newImplementationContractName: string;
+
+  // The role that authorizes upgrades, the authorization checks are skipped if it is not provided
+  authorizationRole?: string;
+}
+
+/**
+ * Defines the tests of the {UUPSExtUpgradeable} base contract for a contract built on it.
+ *
+ * @param fixture The fixture that deploys the contract under test.
+ * @param options The new implementation and the authorization of the contract under test.
+ */
+export function shouldBehaveLikeUUPSExt(fixture: () => Promise<BehaviorFixture>, options: UUPSExtBehaviorOptions) {
+  const { authorizationRole } = options;
+  const itIfAuthorized = authorizationRole ? it : it.skip;
+
+  describe("Behaves like 'UUPSExtUpgradeable'", async () => {
+    let owner: HardhatEthersSigner;
+    let stranger: HardhatEthersSigner;
+
+    before(async () => {
+      ({ owner } = await setUpFixture(fixture));
+      [stranger] = await getSignersExcept(owner);
+    });
+
+    async function deployNewImplementation(): Promise<string> {
+      const factory = await ethers.getContractFactory(options.newImplementationContractName);
+      const newImplementation = await factory.connect(owner).deploy() as Contract;
+      await newImplementation.waitForDeployment();
+      return getAddress(newImplementation);
+    }
+
+    describe("Function 'scheduleUpgrade()'", async () => {
+      it("Executes as expected with the minimum delay if the delay has not been configured", async () => {
+        const { contract } = await setUpFixture(fixture);
+        const newImplementationAddress = await deployNewImplementation();
+        const codehash = ethers.keccak256(await ethers.provider.getCode(newImplementationAddress));
+
+        const tx = contract.scheduleUpgrade(newImplementationAddress);
+        await proveTx(tx);
+        const readyAt = BigInt(await time.latest()) + MIN_UPGRADE_DELAY;
+
+        await expect(tx)
+          .to.emit(contract, EVENT_NAME_UPGRADE_SCHEDULED)
+          .withArgs(newImplementationAddress, codehash, readyAt);
+        expect(await contract.getScheduledUpgrade()).to.deep.equal([newImplementationAddress, codehash, readyAt]);
+      });
+
+      it("Executes as expected with the configured delay", async () => {
+        const { contract } = await setUpFixture(fixture);
+        await proveTx(contract.setUpgradeDelay(MAX_UPGRADE_DELAY));
+        const newImplementationAddress = await deployNewImplementation();
+
+        await proveTx(contract.scheduleUpgrade(newImplementationAddress));
+
+        const readyAt = BigInt(await time.latest()) + MAX_UPGRADE_DELAY;
+        expect((await contract.getScheduledUpgrade()).readyAt).to.equal(readyAt);
+      });
+
+      it("Cancels and replaces the previously scheduled upgrade", async () => {
+        const { contract } = await setUpFixture(fixture);
+        const firstImplementationAddress = await deployNewImplementation();
+        const secondImplementationAddress = await deployNewImplementation();
+        await proveTx(contract.scheduleUpgrade(firstImplementationAddress));
+
+        await expect(contract.scheduleUpgrade(secondImplementationAddress))
+          .to.emit(contract, EVENT_NAME_UPGRADE_CANCELLED)
+          .withArgs(firstImplementationAddress);
+
+        expect((await contract.getScheduledUpgrade()).newImplementation).to.equal(secondImplementationAddress);
+        await expect(contract.upgradeToAndCall(firstImplementationAddress, "0x"))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_UPGRADE_NOT_SCHEDULED)
+          .withArgs(firstImplementationAddress);
+      });
+
+      itIfAuthorized("Is reverted if the caller does not have the authorization role", async () => {
+        const { contract } = await setUpFixture(fixture);
+        const newImplementationAddress = await deployNewImplementation();
+
+        await expect(connect(contract, stranger).scheduleUpgrade(newImplementationAddress))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(stranger.address, authorizationRole);
+      });
+
+      it("Is reverted if the new implementation address is zero", async () => {
+        const { contract } = await setUpFixture(fixture);
+        await expect(contract.scheduleUpgrade(ADDRESS_ZERO))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_IMPLEMENTATION_ADDRESS_ZERO);
+      });
+
+      it("Is reverted if the new implementation address is not a contract", async () => {
+        const { contract } = await setUpFixture(fixture);
+        await expect(contract.scheduleUpgrade(owner.address))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_IMPLEMENTATION_ADDRESS_NOT_CONTRACT);
+      });
+    });
+
+    describe("Function 'cancelUpgrade()'", async () => {
+      it("Executes as expected", async () => {
+        const { contract } = await setUpFixture(fixture);
+        const newImplementationAddress = await deployNewImplementation();
+        await proveTx(contract.scheduleUpgrade(newImplementationAddress));
+
+        await expect(contract.cancelUpgrade())
+          .to.emit(contract, EVENT_NAME_UPGRADE_CANCELLED)
+          .withArgs(newImplementationAddress);
+        expect(await contract.getScheduledUpgrade()).to.deep.equal([ADDRESS_ZERO, HASH_ZERO, 0n]);
+        await expect(contract.upgradeToAndCall(newImplementationAddress, "0x"))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_UPGRADE_NOT_SCHEDULED)
+          .withArgs(newImplementationAddress);
+      });
+
+      itIfAuthorized("Is reverted if the caller does not have the authorization role", async () => {
+        const { contract } = await setUpFixture(fixture);
+        await proveTx(contract.scheduleUpgrade(await deployNewImplementation()));
+
+        await expect(connect(contract, stranger).cancelUpgrade())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(stranger.address, authorizationRole);
+      });
+
+      it("Is reverted if there is no scheduled upgrade", async () => {
+        const { contract } = await setUpFixture(fixture);
+        await expect(contract.cancelUpgrade())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_UPGRADE_NOT_SCHEDULED)
+          .withArgs(ADDRESS_ZERO);
+      });
+    });
+
+    describe("Function 'setUpgradeDelay()'", async () => {
+      it("Executes as expected", async () => {
+        const { contract } = await setUpFixture(fixture);
+        expect(await contract.upgradeDelay()).to.equal(MIN_UPGRADE_DELAY);
+
+        await expect(contract.setUpgradeDelay(MAX_UPGRADE_DELAY))
+          .to.emit(contract, EVENT_NAME_UPGRADE_DELAY_CHANGED)
+          .withArgs(MAX_UPGRADE_DELAY, MIN_UPGRADE_DELAY);
+        expect(await contract.upgradeDelay()).to.equal(MAX_UPGRADE_DELAY);
+
+        await expect(contract.setUpgradeDelay(MIN_UPGRADE_DELAY))
+          .to.emit(contract, EVENT_NAME_UPGRADE_DELAY_CHANGED)
+          .withArgs(MIN_UPGRADE_DELAY, MAX_UPGRADE_DELAY);
+        expect(await contract.upgradeDelay()).to.equal(MIN_UPGRADE_DELAY);
+      });
+
+      itIfAuthorized("Is reverted if the caller does not have the authorization role", async () => {
+        const { contract } = await setUpFixture(fixture);
+
+        await expect(connect(contract, stranger).setUpgradeDelay(MAX_UPGRADE_DELAY))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(stranger.address, authorizationRole);
+      });
+
+      it("Is reverted if the new delay is out of the allowed range", async () => {
+        const { contract } = await setUpFixture(fixture);
+        expect(await contract.MIN_UPGRADE_DELAY()).to.equal(MIN_UPGRADE_DELAY);
+        expect(await contract.MAX_UPGRADE_DELAY()).to.equal(MAX_UPGRADE_DELAY);
+
+        await expect(contract.setUpgradeDelay(MIN_UPGRADE_DELAY - 1n))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_UPGRADE_DELAY_INVALID);
+        await expect(contract.setUpgradeDelay(MAX_UPGRADE_DELAY + 1n))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_UPGRADE_DELAY_INVALID);
+      });
+
+      it("Is reverted if the new delay is the same as the current one", async () => {
+        const { contract } = await setUpFixture(fixture);
+
+        // The minimum delay is applied until the delay is configured
+        await expect(contract.setUpgradeDelay(MIN_UPGRADE_DELAY))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_UPGRADE_DELAY_ALREADY_CONFIGURED);
+        await proveTx(contract.setUpgradeDelay(MAX_UPGRADE_DELAY));
+        await expect(contract.setUpgradeDelay(MAX_UPGRADE_DELAY))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_UPGRADE_DELAY_ALREADY_CONFIGURED);
+      });
+    });
+
+    describe("Function 'upgradeToAndCall()'", async () => {
+      it("Executes as expected after the delay of the scheduled upgrade", async () => {
+        const { contract } = await setUpFixture(fixture);
+        const newImplementationAddress = await deployNewImplementation();
+        await proveTx(contract.scheduleUpgrade(newImplementationAddress));
+        await time.increase(MIN_UPGRADE_DELAY);
+
+        await expect(contract.upgradeToAndCall(newImplementationAddress, "0x"))
+          .to.emit(contract, EVENT_NAME_UPGRADED)
+          .withArgs(newImplementationAddress);
+        expect(await upgrades.erc1967.getImplementationAddress(getAddress(contract)))
+          .to.equal(newImplementationAddress);
+        expect(await contract.getScheduledUpgrade()).to.deep.equal([ADDRESS_ZERO, HASH_ZERO, 0n]);
+      });
+
+      itIfAuthorized("Is reverted if the caller does not have the authorization role", async () => {
+        const { contract } = await setUpFixture(fixture);
+        const newImplementationAddress = await deployNewImplementation();
+        await proveTx(contract.scheduleUpgrade(newImplementationAddress));
+
+        await expect(connect(contract, stranger).upgradeToAndCall(newImplementationAddress, "0x"))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(stranger.address, authorizationRole);
+      });
+
+      it("Is reverted if the new implementation address is zero", async () => {
+        const { contract } = await setUpFixture(fixture);
+        await expect(contract.upgradeToAndCall(ADDRESS_ZERO, "0x"))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_IMPLEMENTATION_ADDRESS_ZERO);
+      });
+
+      it("Is reverted if the new implementation address is not a contract", async () => {
+        const { contract } = await setUpFixture(fixture);
+        await expect(contract.upgradeToAndCall(owner.address, "0x"))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_IMPLEMENTATION_ADDRESS_NOT_CONTRACT);
+      });
+
+      it("Is reverted if the upgrade has not been scheduled", async () => {
+        const { contract } = await setUpFixture(fixture);
+        const newImplementationAddress = await deployNewImplementation();
+
+        await expect(contract.upgradeToAndCall(newImplementationAddress, "0x"))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_UPGRADE_NOT_SCHEDULED)
+          .withArgs(newImplementationAddress);
+      });
+
+      it("Is reverted if the delay of the scheduled upgrade has not passed yet", async () => {
+        const { contract } = await setUpFixture(fixture);
+        const newImplementationAddress = await deployNewImplementation();
+        await proveTx(contract.scheduleUpgrade(newImplementationAddress));
+        const readyAt = BigInt(await time.latest()) + MIN_UPGRADE_DELAY;
+        await time.setNextBlockTimestamp(readyAt - 1n);
+
+        await expect(contract.upgradeToAndCall(newImplementationAddress, "0x"))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_UPGRADE_NOT_READY)
+          .withArgs(readyAt);
+      });
+
+      it("Is reverted if the code of the new implementation has been changed since the scheduling", async () => {
+        const { contract } = await setUpFixture(fixture);
+        const newImplementationAddress = await deployNewImplementation();
+        await proveTx(contract.scheduleUpgrade(newImplementationAddress));
+        await time.increase(MIN_UPGRADE_DELAY);
+        const newCode = (await ethers.provider.getCode(newImplementationAddress)) + "00";
+        await network.provider.send("hardhat_setCode", [newImplementationAddress, newCode]);
+
+        await expect(contract.upgradeToAndCall(newImplementationAddress, "0x"))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_IMPLEMENTATION_CODEHASH_MISMATCH)
+          .withArgs(ethers.keccak256(newCode));
+      });
+    });
+  });
+}
@@ -1,7 +1,19 @@
 import { expect } from "chai";
-import { network } from "hardhat";
+import { ethers, network } from "hardhat";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 
+/**
+ * The fixture of a contract under test for the shared behavior suites of the base contracts.
+ *
+ * The contract must be deployed freshly and connected to its owner.
+ */
+export interface BehaviorFixture {
+  contract: Contract;
+  owner: HardhatEthersSigner;
+}
+
 export function checkEquality<T extends Record<string, unknown>>(
   actualObject: T,
   expectedObject: T,
@@ -37,3 +49,8 @@ export async function setUpFixture<T>(func: () => Promise<T>): Promise<T> {
 export function maxUintForBits(numberOfBits: number): bigint {
   return 2n ** BigInt(numberOfBits) - 1n;
 }
+
+export async function getSignersExcept(excludedSigner: HardhatEthersSigner): Promise<HardhatEthersSigner[]> {
+  const signers = await ethers.getSigners();
+  return signers.filter(signer => signer.address !== excludedSigner.address);
+}
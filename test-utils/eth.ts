@@ -1,7 +1,15 @@
 import { upgrades } from "hardhat";
-import { BaseContract, Contract, ContractFactory, TransactionReceipt, TransactionResponse } from "ethers";
+import {
+  BaseContract,
+  Contract,
+  ContractFactory,
+  Signature,
+  TransactionReceipt,
+  TransactionResponse
+} from "ethers";
 import { expect } from "chai";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 
 export async function checkContractUupsUpgrading(
   contract: Contract,
@@ -14,6 +22,12 @@ export async function checkContractUupsUpgrading(
   await newImplementation.waitForDeployment();
   const expectedNewImplementationAddress = await newImplementation.getAddress();
 
+  await proveTx(contract.scheduleUpgrade(expectedNewImplementationAddress));
+  const { readyAt } = await contract.getScheduledUpgrade();
+  if (readyAt > await time.latest()) {
+    await time.increaseTo(readyAt);
+  }
+
   if (upgradeFunctionSignature === "upgradeToAndCall(address,bytes)") {
     await proveTx(contract[upgradeFunctionSignature](expectedNewImplementationAddress, "0x"));
   } else {
@@ -25,6 +39,25 @@ export async function checkContractUupsUpgrading(
   expect(actualNewImplementationAddress).not.to.eq(oldImplementationAddress);
 }
 
+export async function checkContractUupsUpgradingRejected(
+  contract: Contract,
+  contractFactory: ContractFactory,
+  expectedErrorName: string
+) {
+  const contractAddress = await contract.getAddress();
+  const oldImplementationAddress = await upgrades.erc1967.getImplementationAddress(contractAddress);
+  const newImplementation = await contractFactory.deploy();
+  await newImplementation.waitForDeployment();
+  const newImplementationAddress = await newImplementation.getAddress();
+
+  await expect(contract.scheduleUpgrade(newImplementationAddress))
+    .to.be.revertedWithCustomError(contract, expectedErrorName);
+  await expect(contract.upgradeToAndCall(newImplementationAddress, "0x"))
+    .to.be.revertedWithCustomError(contract, expectedErrorName);
+
+  expect(await upgrades.erc1967.getImplementationAddress(contractAddress)).to.eq(oldImplementationAddress);
+}
+
 export function connect(contract: BaseContract, signer: HardhatEthersSigner): Contract {
   return contract.connect(signer) as Contract;
 }
@@ -45,3 +78,32 @@ export async function proveTx(txResponsePromise: Promise<TransactionResponse>):
   }
   return txReceipt as TransactionReceipt;
 }
+
+export async function signPermit(
+  token: Contract,
+  owner: HardhatEthersSigner,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<{ value: bigint; deadline: bigint; v: number; r: string; s: string }> {
+  const domain = {
+    name: await token.name(),
+    version: "1",
+    chainId: (await owner.provider.getNetwork()).chainId,
+    verifyingContract: getAddress(token)
+  };
+  const types = {
+    Permit: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" }
+    ]
+  };
+  const nonce: bigint = await token.nonces(owner.address);
+  const signature = Signature.from(
+    await owner.signTypedData(domain, types, { owner: owner.address, spender, value, nonce, deadline })
+  );
+  return { value, deadline, v: signature.v, r: signature.r, s: signature.s };
+}
@@ -1,9 +1,20 @@
-import { ethers, upgrades } from "hardhat";
+import hre, { ethers, upgrades } from "hardhat";
 import { expect } from "chai";
 import { Contract, ContractFactory, TransactionResponse } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { checkContractUupsUpgrading, connect, getAddress, proveTx } from "../test-utils/eth";
-import { checkEquality, maxUintForBits, setUpFixture } from "../test-utils/common";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  checkContractUupsUpgradingRejected,
+  connect,
+  getAddress,
+  proveTx,
+  signPermit
+} from "../test-utils/eth";
+import { BehaviorFixture, checkEquality, maxUintForBits, setUpFixture } from "../test-utils/common";
+import { shouldBehaveLikeAccessControlExt } from "../test-utils/behaviors/AccessControlExtUpgradeable.behavior";
+import { shouldBehaveLikePausableExt } from "../test-utils/behaviors/PausableExtUpgradeable.behavior";
+import { shouldBehaveLikeRescuable } from "../test-utils/behaviors/RescuableUpgradeable.behavior";
+import { shouldBehaveLikeUUPSExt } from "../test-utils/behaviors/UUPSExtUpgradeable.behavior";
 
 const ADDRESS_ZERO = ethers.ZeroAddress;
 const ALLOWANCE_MAX = ethers.MaxUint256;
@@ -12,8 +23,13 @@ const BALANCE_INITIAL = 1000_000_000_000n;
 const OWNER_ROLE: string = ethers.id("OWNER_ROLE");
 const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
 const PAUSER_ROLE: string = ethers.id("PAUSER_ROLE");
-const RESCUER_ROLE: string = ethers.id("RESCUER_ROLE");
 const MANAGER_ROLE: string = ethers.id("MANAGER_ROLE");
+const LIMITS_ADMIN_ROLE: string = ethers.id("LIMITS_ADMIN_ROLE");
+const FREEZER_ROLE: string = ethers.id("FREEZER_ROLE");
+const RESCUER_ROLE: string = ethers.id("RESCUER_ROLE");
+
+const DEPOSIT_OPERATION_KIND: string = ethers.id("DEPOSIT_OPERATION_KIND");
+const WITHDRAWAL_OPERATION_KIND: string = ethers.id("WITHDRAWAL_OPERATION_KIND");
 
 const OP_ID_ARRAY: string[] = [
   ethers.encodeBytes32String("MOCK OP_ID 1"),
@@ -33,36 +49,120 @@ const TOKEN_AMOUNTS: number[] = [
 ];
 
 // Events of the contracts under test
+const EVENT_NAME_ACCOUNT_FROZEN = "AccountFrozen";
+const EVENT_NAME_ACCOUNT_LIMITS_CHANGED = "AccountLimitsChanged";
+const EVENT_NAME_ACCOUNT_UNFROZEN = "AccountUnfrozen";
 const EVENT_NAME_BALANCE_UPDATED = "BalanceUpdated";
+const EVENT_NAME_DEFAULT_LIMITS_CHANGED = "DefaultLimitsChanged";
+const EVENT_NAME_DEPOSIT_FEE_RULE_CHANGED = "DepositFeeRuleChanged";
+const EVENT_NAME_DEPOSITED_FROM = "DepositedFrom";
+const EVENT_NAME_FEE_CHARGED = "FeeCharged";
+const EVENT_NAME_FEE_TREASURY_CHANGED = "FeeTreasuryChanged";
+const EVENT_NAME_OPERATION_REVERTED = "OperationReverted";
 const EVENT_NAME_OPERATIONAL_TREASURY_CHANGED = "OperationalTreasuryChanged";
+const EVENT_NAME_TOKEN_BALANCE_UPDATED = "TokenBalanceUpdated";
+const EVENT_NAME_TOKEN_OPERATION_REVERTED = "TokenOperationReverted";
+const EVENT_NAME_TOKEN_OPERATIONAL_TREASURY_CHANGED = "TokenOperationalTreasuryChanged";
+const EVENT_NAME_TOKEN_REGISTERED = "TokenRegistered";
+const EVENT_NAME_WITHDRAWAL_FEE_RULE_CHANGED = "WithdrawalFeeRuleChanged";
+const EVENT_NAME_WITHDRAWN_TO = "WithdrawnTo";
 
 // Errors of the library contracts
+const ERROR_NAME_ERC2612_EXPIRED_SIGNATURE = "ERC2612ExpiredSignature";
+const ERROR_NAME_ERC2612_INVALID_SIGNER = "ERC2612InvalidSigner";
 const ERROR_NAME_Access_Control_Unauthorized_Account = "AccessControlUnauthorizedAccount";
 const ERROR_NAME_Enforced_Pause = "EnforcedPause";
 const ERROR_NAME_Invalid_Initialization = "InvalidInitialization";
+const ERROR_NAME_OPERATION_KIND_PAUSED = "PausableExt_OperationKindPaused";
+const ERROR_NAME_UPGRADE_NOT_SCHEDULED = "UUPSExtUpgradeable_UpgradeNotScheduled";
 
 // Errors of the contracts under test
 const ERROR_NAME_ACCOUNT_ADDRESS_ZERO = "Blueprint_AccountAddressZero";
+const ERROR_NAME_ACCOUNT_ALREADY_FROZEN = "Blueprint_AccountAlreadyFrozen";
+const ERROR_NAME_ACCOUNT_FROZEN = "Blueprint_AccountFrozen";
+const ERROR_NAME_ACCOUNT_NOT_FROZEN = "Blueprint_AccountNotFrozen";
 const ERROR_NAME_AMOUNT_EXCESS = "Blueprint_AmountExcess";
 const ERROR_NAME_BALANCE_EXCESS = "Blueprint_BalanceExcess";
+const ERROR_NAME_BALANCE_INSUFFICIENT = "Blueprint_BalanceInsufficient";
+const ERROR_NAME_BALANCE_LIMIT_EXCEEDED = "Blueprint_BalanceLimitExceeded";
+const ERROR_NAME_COUNTERPARTY_ADDRESS_ZERO = "Blueprint_CounterpartyAddressZero";
+const ERROR_NAME_DAILY_DEPOSIT_LIMIT_EXCEEDED = "Blueprint_DailyDepositLimitExceeded";
+const ERROR_NAME_DAILY_WITHDRAWAL_LIMIT_EXCEEDED = "Blueprint_DailyWithdrawalLimitExceeded";
+const ERROR_NAME_FEE_RATE_EXCESS = "Blueprint_FeeRateExcess";
+const ERROR_NAME_FEE_RULE_ALREADY_CONFIGURED = "Blueprint_FeeRuleAlreadyConfigured";
+const ERROR_NAME_FEE_TREASURY_ADDRESS_ZERO = "Blueprint_FeeTreasuryAddressZero";
 const ERROR_NAME_IMPLEMENTATION_ADDRESS_INVALID = "Blueprint_ImplementationAddressInvalid";
+const ERROR_NAME_IMPLEMENTATION_VERSION_INCOMPATIBLE = "Blueprint_ImplementationVersionIncompatible";
+const ERROR_NAME_IMPLEMENTATION_VERSION_NOT_GREATER = "Blueprint_ImplementationVersionNotGreater";
+const ERROR_NAME_LIMITS_ALREADY_CONFIGURED = "Blueprint_LimitsAlreadyConfigured";
 const ERROR_NAME_OPERATION_ALREADY_EXECUTED = "Blueprint_OperationAlreadyExecuted";
+const ERROR_NAME_OPERATION_ALREADY_REVERTED = "Blueprint_OperationAlreadyReverted";
+const ERROR_NAME_OPERATION_AMOUNT_LIMIT_EXCEEDED = "Blueprint_OperationAmountLimitExceeded";
 const ERROR_NAME_OPERATION_ID_ZERO = "Blueprint_OperationIdZero";
+const ERROR_NAME_OPERATION_NONEXISTENT = "Blueprint_OperationNonexistent";
 const ERROR_NAME_OPERATIONAL_TREASURY_ADDRESS_ZERO = "Blueprint_OperationalTreasuryAddressZero";
+const ERROR_NAME_PERMIT_FAILED = "Blueprint_PermitFailed";
 const ERROR_NAME_TOKEN_ADDRESS_ZERO = "Blueprint_TokenAddressZero";
+const ERROR_NAME_TOKEN_ALREADY_REGISTERED = "Blueprint_TokenAlreadyRegistered";
+const ERROR_NAME_TOKEN_NOT_SUPPORTED = "Blueprint_TokenNotSupported";
 const ERROR_NAME_TREASURY_ADDRESS_ALREADY_CONFIGURED = "Blueprint_TreasuryAddressAlreadyConfigured";
 const ERROR_NAME_TREASURY_ALLOWANCE_ZERO = "Blueprint_TreasuryAllowanceZero";
+const ERROR_NAME_WITHDRAWAL_FEE_EXCESS = "Blueprint_WithdrawalFeeExcess";
+const ERROR_NAME_BLUEPRINT_ADDRESS_ZERO = "BlueprintLens_BlueprintAddressZero";
+
+const FEE_RATE_DENOMINATOR = 10000n;
+const FEE_RATE = 150n; // 1.5%
+const FEE_MINIMUM = 1000n;
+
+const DAY_DURATION = 86400;
+
+// The gas budgets of a deposit without a fee and limits including the growth of the operation history
+const DEPOSIT_GAS_BUDGET_FIRST = 185_000n;
+const DEPOSIT_GAS_BUDGET_NEXT = 135_000n;
+
+const MIN_UPGRADE_DELAY = 3600n;
+
+const FREEZE_REASON_CODE = 42n;
+const UNFREEZE_REASON_CODE = 43n;
 
 const EXPECTED_VERSION: Version = {
   major: 1,
-  minor: 1,
+  minor: 2,
+  patch: 0
+};
+const EXPECTED_MIN_COMPATIBLE_VERSION: Version = {
+  major: 0,
+  minor: 0,
   patch: 0
 };
 
 enum OperationStatus {
   Nonexistent = 0,
   Deposit = 1,
-  Withdrawal = 2
+  Withdrawal = 2,
+  DepositReverted = 3,
+  WithdrawalReverted = 4
+}
+
+enum PreviewResult {
+  Success = 0,
+  ContractPaused = 1,
+  AccountAddressZero = 2,
+  OperationIdZero = 3,
+  AmountExcess = 4,
+  AccountFrozen = 5,
+  OperationalTreasuryAddressZero = 6,
+  OperationAlreadyExecuted = 7,
+  BalanceInsufficient = 8,
+  BalanceExcess = 9,
+  OperationAmountLimitExceeded = 10,
+  BalanceLimitExceeded = 11,
+  DailyDepositLimitExceeded = 12,
+  DailyWithdrawalLimitExceeded = 13,
+  FeeTreasuryAddressZero = 14,
+  AccountAllowanceInsufficient = 15,
+  TreasuryAllowanceInsufficient = 16,
+  WithdrawalFeeExcess = 17
 }
 
 interface Version {
@@ -77,6 +177,9 @@ interface Operation {
   status: OperationStatus;
   account: string;
   amount: bigint;
+  fee: bigint;
+  token: string;
+  counterparty: string;
 
   // Indexing signature to ensure that fields are iterated over in a key-value style
   [key: string]: number | string | bigint;
@@ -91,6 +194,33 @@ interface AccountState {
   [key: string]: string | bigint;
 }
 
+interface FeeRule {
+  rate: bigint;
+  minimum: bigint;
+
+  // Indexing signature to ensure that fields are iterated over in a key-value style
+  [key: string]: bigint;
+}
+
+interface Limits {
+  maxBalance: bigint;
+  maxOperationAmount: bigint;
+  maxDailyDeposit: bigint;
+  maxDailyWithdrawal: bigint;
+
+  // Indexing signature to ensure that fields are iterated over in a key-value style
+  [key: string]: bigint;
+}
+
+interface DailyVolume {
+  day: bigint;
+  depositVolume: bigint;
+  withdrawalVolume: bigint;
+
+  // Indexing signature to ensure that fields are iterated over in a key-value style
+  [key: string]: bigint;
+}
+
 interface TestOperation extends Operation {
   opId: string;
 }
@@ -98,7 +228,22 @@ interface TestOperation extends Operation {
 const defaultOperation: Operation = {
   status: OperationStatus.Nonexistent,
   account: ADDRESS_ZERO,
-  amount: 0n
+  amount: 0n,
+  fee: 0n,
+  token: ADDRESS_ZERO,
+  counterparty: ADDRESS_ZERO
+};
+
+const defaultFeeRule: FeeRule = {
+  rate: 0n,
+  minimum: 0n
+};
+
+const defaultLimits: Limits = {
+  maxBalance: 0n,
+  maxOperationAmount: 0n,
+  maxDailyDeposit: 0n,
+  maxDailyWithdrawal: 0n
 };
 
 const defaultAccountState: AccountState = {
@@ -107,35 +252,73 @@ const defaultAccountState: AccountState = {
   operationCount: 0n
 };
 
+interface OperationItem {
+  account: string;
+  amount: bigint;
+  opId: string;
+}
+
 interface Fixture {
   blueprint: Contract;
   tokenMock: Contract;
 }
 
+interface MultiTokenFixture extends Fixture {
+  secondTokenMock: Contract;
+}
+
+interface LensFixture extends Fixture {
+  lens: Contract;
+}
+
+function convertToOperationItem(testOp: TestOperation): OperationItem {
+  return {
+    account: testOp.account,
+    amount: testOp.amount,
+    opId: testOp.opId
+  };
+}
+
 function convertToOperation(testOp: TestOperation): Operation {
   return {
     account: testOp.account,
     amount: testOp.amount,
-    status: testOp.status
+    status: testOp.status,
+    fee: testOp.fee,
+    token: testOp.token,
+    counterparty: testOp.counterparty
   };
 }
 
+function convertToTuple(limits: Limits): bigint[] {
+  return [limits.maxBalance, limits.maxOperationAmount, limits.maxDailyDeposit, limits.maxDailyWithdrawal];
+}
+
+function calculateFee(feeRule: FeeRule, amount: bigint): bigint {
+  const fee = amount * feeRule.rate / FEE_RATE_DENOMINATOR;
+  return fee < feeRule.minimum ? feeRule.minimum : fee;
+}
+
 describe("Contracts 'Blueprint'", async () => {
   let blueprintFactory: ContractFactory;
 
   let deployer: HardhatEthersSigner;
   let manager: HardhatEthersSigner;
   let operationalTreasury: HardhatEthersSigner;
+  let feeTreasury: HardhatEthersSigner;
+  let limitsAdmin: HardhatEthersSigner;
+  let freezer: HardhatEthersSigner;
   let stranger: HardhatEthersSigner;
   let user: HardhatEthersSigner;
   let users: HardhatEthersSigner[];
 
   before(async () => {
     let moreUsers: HardhatEthersSigner[];
-    [deployer, manager, operationalTreasury, stranger, user, ...moreUsers] = await ethers.getSigners();
+    [deployer, manager, operationalTreasury, feeTreasury, limitsAdmin, freezer, stranger, user, ...moreUsers] =
+      await ethers.getSigners();
     users = [user, ...moreUsers];
 
-    // The contract factories with the explicitly specified deployer account
+    // The contract factory with the explicitly specified deployer account
     blueprintFactory = await ethers.getContractFactory("BlueprintTestable");
     blueprintFactory = blueprintFactory.connect(deployer);
   });
@@ -174,6 +357,8 @@ describe("Contracts 'Blueprint'", async () => {
 
     await proveTx(blueprint.grantRole(GRANTOR_ROLE, deployer.address));
     await proveTx(blueprint.grantRole(MANAGER_ROLE, manager.address));
+    await proveTx(blueprint.grantRole(LIMITS_ADMIN_ROLE, limitsAdmin.address));
+    await proveTx(blueprint.grantRole(FREEZER_ROLE, freezer.address));
     await proveTx(connect(tokenMock, operationalTreasury).approve(getAddress(blueprint), ALLOWANCE_MAX));
     await proveTx(blueprint.setOperationalTreasury(operationalTreasury.address));
 
@@ -192,6 +377,31 @@ describe("Contracts 'Blueprint'", async () => {
     return fixture;
   }
 
+  async function deployAndConfigureContractsWithSecondToken(): Promise<MultiTokenFixture> {
+    const fixture = await deployAndConfigureContracts();
+    const { blueprint } = fixture;
+    const secondTokenMock = await deployTokenMock();
+
+    await proveTx(blueprint.registerToken(getAddress(secondTokenMock)));
+    await proveTx(connect(secondTokenMock, operationalTreasury).approve(getAddress(blueprint), ALLOWANCE_MAX));
+    await proveTx(blueprint.setTokenOperationalTreasury(getAddress(secondTokenMock), operationalTreasury.address));
+    await proveTx(secondTokenMock.mint(operationalTreasury.address, BALANCE_INITIAL));
+    await proveTx(secondTokenMock.mint(user.address, BALANCE_INITIAL));
+    await proveTx(connect(secondTokenMock, user).approve(getAddress(blueprint), ALLOWANCE_MAX));
+
+    return { ...fixture, secondTokenMock };
+  }
+
+  async function deployAndConfigureContractsWithLens(): Promise<LensFixture> {
+    const fixture = await deployAndConfigureContracts();
+    const lensFactory = await ethers.getContractFactory("BlueprintLens");
+    let lens = await lensFactory.deploy(getAddress(fixture.blueprint)) as Contract;
+    await lens.waitForDeployment();
+    lens = connect(lens, deployer); // Explicitly specifying the initial account
+
+    return { ...fixture, lens };
+  }
+
   function createTestOperations(num: number = 1): TestOperation[] {
     const operations: TestOperation[] = [];
     const maxNum = Math.min(OP_ID_ARRAY.length, TOKEN_AMOUNTS.length, users.length);
@@ -203,7 +413,10 @@ describe("Contracts 'Blueprint'", async () => {
         opId: OP_ID_ARRAY[i],
         account: users[i].address,
         amount: BigInt(TOKEN_AMOUNTS[i]),
-        status: OperationStatus.Nonexistent
+        status: OperationStatus.Nonexistent,
+        fee: 0n,
+        token: ADDRESS_ZERO,
+        counterparty: ADDRESS_ZERO
       });
     }
     return operations;
@@ -220,15 +433,40 @@ describe("Contracts 'Blueprint'", async () => {
     }
   }
 
+  async function increaseTimeToNextDay(): Promise<bigint> {
+    const nextDay = Math.floor(await time.latest() / DAY_DURATION) + 1;
+    await time.increaseTo(nextDay * DAY_DURATION);
+    return BigInt(nextDay);
+  }
+
   async function pauseContract(contract: Contract) {
     await proveTx(contract.grantRole(GRANTOR_ROLE, deployer.address));
     await proveTx(contract.grantRole(PAUSER_ROLE, deployer.address));
     await proveTx(contract.pause());
   }
 
-  async function executeAndCheckOperation(props: { newOperationStatus: OperationStatus; amount: bigint }) {
+  async function pauseOperationKind(contract: Contract, operationKind: string) {
+    await proveTx(contract.grantRole(GRANTOR_ROLE, deployer.address));
+    await proveTx(contract.grantRole(PAUSER_ROLE, deployer.address));
+    await proveTx(contract.pauseOperationKind(operationKind));
+  }
+
+  async function executeAndCheckOperation(props: {
+    newOperationStatus: OperationStatus;
+    amount: bigint;
+    feeRule?: FeeRule;
+  }) {
     const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
     const [testOp] = createTestOperations();
+    if (props.feeRule) {
+      await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+      if (props.newOperationStatus === OperationStatus.Deposit) {
+        await proveTx(blueprint.setDepositFeeRule(props.feeRule.rate, props.feeRule.minimum));
+      } else {
+        await proveTx(blueprint.setWithdrawalFeeRule(props.feeRule.rate, props.feeRule.minimum));
+      }
+      testOp.fee = calculateFee(props.feeRule, props.amount);
+    }
     const expectedAccountState: AccountState = { ...defaultAccountState };
     const oldBalance = props.amount * 3n + 123n;
     testOp.status = props.newOperationStatus;
@@ -258,14 +496,38 @@ describe("Contracts 'Blueprint'", async () => {
     await expect(tx)
       .to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED)
       .withArgs(testOp.opId, testOp.account, newBalance, oldBalance);
+    if (testOp.fee > 0n) {
+      await expect(tx)
+        .to.emit(blueprint, EVENT_NAME_FEE_CHARGED)
+        .withArgs(testOp.opId, testOp.account, testOp.fee);
+    } else {
+      await expect(tx).not.to.emit(blueprint, EVENT_NAME_FEE_CHARGED);
+    }
 
     await expect(tx).to.changeTokenBalances(
       tokenMock,
-      [getAddress(blueprint), testOp.account, operationalTreasury.address],
-      [0, oldBalance - newBalance, -(oldBalance - newBalance)]
+      [getAddress(blueprint), testOp.account, operationalTreasury.address, feeTreasury.address],
+      [0, oldBalance - newBalance - testOp.fee, -(oldBalance - newBalance), testOp.fee]
     );
   }
 
+  async function deployContractsForBehavior(): Promise<BehaviorFixture> {
+    const { blueprint } = await deployContracts();
+    return { contract: blueprint, owner: deployer };
+  }
+
+  shouldBehaveLikeAccessControlExt(deployContractsForBehavior, {
+    grantorManagedRoles: ["MANAGER_ROLE", "LIMITS_ADMIN_ROLE", "FREEZER_ROLE", "PAUSER_ROLE", "RESCUER_ROLE"]
+  });
+  shouldBehaveLikePausableExt(deployContractsForBehavior, {
+    operationKinds: [DEPOSIT_OPERATION_KIND, WITHDRAWAL_OPERATION_KIND]
+  });
+  shouldBehaveLikeRescuable(deployContractsForBehavior);
+  shouldBehaveLikeUUPSExt(deployContractsForBehavior, {
+    newImplementationContractName: "BlueprintNextVersionTestable",
+    authorizationRole: OWNER_ROLE
+  });
+
   describe("Function 'initialize()'", async () => {
     it("Configures the contract as expected and emits the correct event", async () => {
       const { blueprint, tokenMock } = await setUpFixture(deployContracts);
@@ -273,34 +535,21 @@ describe("Contracts 'Blueprint'", async () => {
       // The underlying token contract address
       expect(await blueprint.underlyingToken()).to.equal(getAddress(tokenMock));
 
-      // Role hashes
-      expect(await blueprint.OWNER_ROLE()).to.equal(OWNER_ROLE);
-      expect(await blueprint.GRANTOR_ROLE()).to.equal(GRANTOR_ROLE);
-      expect(await blueprint.PAUSER_ROLE()).to.equal(PAUSER_ROLE);
-      expect(await blueprint.RESCUER_ROLE()).to.equal(RESCUER_ROLE);
-      expect(await blueprint.MANAGER_ROLE()).to.equal(MANAGER_ROLE);
-
-      // The role admins
-      expect(await blueprint.getRoleAdmin(OWNER_ROLE)).to.equal(OWNER_ROLE);
-      expect(await blueprint.getRoleAdmin(GRANTOR_ROLE)).to.equal(OWNER_ROLE);
-      expect(await blueprint.getRoleAdmin(PAUSER_ROLE)).to.equal(GRANTOR_ROLE);
-      expect(await blueprint.getRoleAdmin(RESCUER_ROLE)).to.equal(GRANTOR_ROLE);
-      expect(await blueprint.getRoleAdmin(MANAGER_ROLE)).to.equal(GRANTOR_ROLE);
-
-      // The deployer should have the owner role, but not the other roles
-      expect(await blueprint.hasRole(OWNER_ROLE, deployer.address)).to.equal(true);
-      expect(await blueprint.hasRole(GRANTOR_ROLE, deployer.address)).to.equal(false);
-      expect(await blueprint.hasRole(PAUSER_ROLE, deployer.address)).to.equal(false);
-      expect(await blueprint.hasRole(RESCUER_ROLE, deployer.address)).to.equal(false);
-      expect(await blueprint.hasRole(MANAGER_ROLE, deployer.address)).to.equal(false);
-
-      // The initial contract state is unpaused
-      expect(await blueprint.paused()).to.equal(false);
+      // The operation kind identifiers
+      expect(await blueprint.DEPOSIT_OPERATION_KIND()).to.equal(DEPOSIT_OPERATION_KIND);
+      expect(await blueprint.WITHDRAWAL_OPERATION_KIND()).to.equal(WITHDRAWAL_OPERATION_KIND);
 
       // Default values of the internal structures, mappings and variables. Also checks the set of fields
       checkEquality(await blueprint.getOperation(OP_ID_ZERO), defaultOperation);
       checkEquality(await blueprint.getAccountState(ADDRESS_ZERO), defaultAccountState);
       expect(await blueprint.operationalTreasury()).to.equal(ADDRESS_ZERO);
+      expect(await blueprint.feeTreasury()).to.equal(ADDRESS_ZERO);
+      checkEquality(await blueprint.depositFeeRule(), defaultFeeRule);
+      checkEquality(await blueprint.withdrawalFeeRule(), defaultFeeRule);
+      checkEquality(await blueprint.defaultLimits(), defaultLimits);
+      checkEquality(await blueprint.getAccountLimits(ADDRESS_ZERO), defaultLimits);
+      expect(await blueprint.isAccountFrozen(ADDRESS_ZERO)).to.equal(false);
+      expect(await blueprint.getSupportedTokens()).to.deep.equal([getAddress(tokenMock)]);
     });
 
     it("Is reverted if it is called a second time", async () => {
@@ -331,32 +580,78 @@ describe("Contracts 'Blueprint'", async () => {
   });
 
   describe("Function 'upgradeToAndCall()'", async () => {
-    it("Executes as expected", async () => {
-      const { blueprint } = await setUpFixture(deployContracts);
-      await checkContractUupsUpgrading(blueprint, blueprintFactory);
+    it("Upgrades the proxy of version 1.1.0 to the current version and keeps its state", async () => {
+      const tokenMock = await deployTokenMock();
+      const legacyFactory = await ethers.getContractFactory("BlueprintLegacyTestable");
+      const legacyBlueprint = await upgrades.deployProxy(
+        legacyFactory.connect(deployer),
+        [getAddress(tokenMock)]
+      ) as Contract;
+      await legacyBlueprint.waitForDeployment();
+      checkEquality(await legacyBlueprint.$__VERSION(), { major: 1, minor: 1, patch: 0 });
+
+      // The implementation of version 1.1.0 is upgraded by the owner immediately
+      const blueprint = await upgrades.upgradeProxy(legacyBlueprint, blueprintFactory) as Contract;
+
+      checkEquality(await blueprint.$__VERSION(), EXPECTED_VERSION);
+      expect(await blueprint.underlyingToken()).to.equal(getAddress(tokenMock));
+      expect(await blueprint.hasRole(OWNER_ROLE, deployer.address)).to.equal(true);
+      expect(await blueprint.getRoleAdmin(GRANTOR_ROLE)).to.equal(OWNER_ROLE);
+      expect(await blueprint.upgradeDelay()).to.equal(MIN_UPGRADE_DELAY);
+
+      // The further upgrades of the proxy must be scheduled
+      const nextVersionFactory = await ethers.getContractFactory("BlueprintNextVersionTestable");
+      const nextImplementation = await nextVersionFactory.connect(deployer).deploy() as Contract;
+      await nextImplementation.waitForDeployment();
+      await expect(blueprint.upgradeToAndCall(getAddress(nextImplementation), "0x"))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_UPGRADE_NOT_SCHEDULED)
+        .withArgs(getAddress(nextImplementation));
+    });
+
+    it("Is reverted if the provided implementation address does not belong to a blueprint contract", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployContracts);
+
+      await expect(blueprint.upgradeToAndCall(getAddress(tokenMock), "0x"))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_IMPLEMENTATION_ADDRESS_INVALID);
+    });
+
+    it("Is reverted if the scheduled implementation does not belong to a blueprint contract", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployContracts);
+
+      await expect(blueprint.scheduleUpgrade(getAddress(tokenMock)))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_IMPLEMENTATION_ADDRESS_INVALID);
     });
 
-    it("Is reverted if the caller does not have the owner role", async () => {
+    it("Is reverted if the version of the new implementation is lower than the current one", async () => {
       const { blueprint } = await setUpFixture(deployContracts);
+      const previousVersionFactory = await ethers.getContractFactory("BlueprintPreviousVersionTestable");
 
-      await expect(connect(blueprint, user).upgradeToAndCall(getAddress(blueprint), "0x"))
-        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
-        .withArgs(user.address, OWNER_ROLE);
+      await checkContractUupsUpgradingRejected(
+        blueprint,
+        previousVersionFactory.connect(deployer),
+        ERROR_NAME_IMPLEMENTATION_VERSION_NOT_GREATER
+      );
     });
 
-    it("Is reverted if the caller does not have the owner role", async () => {
+    it("Is reverted if the version of the new implementation equals the current one", async () => {
       const { blueprint } = await setUpFixture(deployContracts);
 
-      await expect(connect(blueprint, user).upgradeToAndCall(getAddress(blueprint), "0x"))
-        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
-        .withArgs(user.address, OWNER_ROLE);
+      await checkContractUupsUpgradingRejected(
+        blueprint,
+        blueprintFactory,
+        ERROR_NAME_IMPLEMENTATION_VERSION_NOT_GREATER
+      );
     });
 
-    it("Is reverted if the provided implementation address does not belong to a blueprint contract", async () => {
-      const { blueprint, tokenMock } = await setUpFixture(deployContracts);
+    it("Is reverted if the current version is lower than the minimum compatible one of the new version", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
+      const incompatibleVersionFactory = await ethers.getContractFactory("BlueprintIncompatibleVersionTestable");
 
-      await expect(blueprint.upgradeToAndCall(getAddress(tokenMock), "0x"))
-        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_IMPLEMENTATION_ADDRESS_INVALID);
+      await checkContractUupsUpgradingRejected(
+        blueprint,
+        incompatibleVersionFactory.connect(deployer),
+        ERROR_NAME_IMPLEMENTATION_VERSION_INCOMPATIBLE
+      );
     });
   });
 
@@ -368,6 +663,14 @@ describe("Contracts 'Blueprint'", async () => {
     });
   });
 
+  describe("Function '$__MIN_COMPATIBLE_VERSION()'", async () => {
+    it("Returns expected values", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const minCompatibleVersion = await blueprint.$__MIN_COMPATIBLE_VERSION();
+      checkEquality(minCompatibleVersion, EXPECTED_MIN_COMPATIBLE_VERSION);
+    });
+  });
+
   describe("Function 'setOperationalTreasury()", async () => {
     it("Executes as expected and emits the correct event", async () => {
       const { blueprint, tokenMock } = await setUpFixture(deployContracts);
@@ -427,153 +730,442 @@ describe("Contracts 'Blueprint'", async () => {
     });
   });
 
-  describe("Function 'deposit()", async () => {
-    describe("Executes as expected for a new account if", async () => {
-      it("The amount is non-zero", async () => {
-        await executeAndCheckOperation({ newOperationStatus: OperationStatus.Deposit, amount: 123456789n });
-      });
+  describe("Function 'setFeeTreasury()", async () => {
+    it("Executes as expected and emits the correct event", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-      it("The amount is zero", async () => {
-        await executeAndCheckOperation({ newOperationStatus: OperationStatus.Deposit, amount: 0n });
-      });
-    });
+      await expect(blueprint.setFeeTreasury(feeTreasury.address))
+        .to.emit(blueprint, EVENT_NAME_FEE_TREASURY_CHANGED)
+        .withArgs(feeTreasury.address, ADDRESS_ZERO);
 
-    describe("Is reverted if", async () => {
-      it("The caller does not have the manager role", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
+      expect(await blueprint.feeTreasury()).to.eq(feeTreasury.address);
 
-        await expect(connect(blueprint, stranger).deposit(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
-          .withArgs(stranger.address, MANAGER_ROLE);
+      // Zeroing the fee treasury address is allowed
+      await expect(blueprint.setFeeTreasury(ADDRESS_ZERO))
+        .to.emit(blueprint, EVENT_NAME_FEE_TREASURY_CHANGED)
+        .withArgs(ADDRESS_ZERO, feeTreasury.address);
 
-        // Even if it is called by a deployer
-        await expect(connect(blueprint, deployer).deposit(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
-          .withArgs(deployer.address, MANAGER_ROLE);
-      });
+      expect(await blueprint.feeTreasury()).to.eq(ADDRESS_ZERO);
+    });
 
-      it("The contract is paused", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
-        await pauseContract(blueprint);
+    it("Is reverted if caller does not have the owner role", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
-      });
+      await expect(connect(blueprint, stranger).setFeeTreasury(feeTreasury.address))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(stranger.address, OWNER_ROLE);
+    });
 
-      it("The provided operation identifier is zero", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
-        testOp.opId = OP_ID_ZERO;
+    it("Is reverted if the new fee treasury address is the same as the previous one", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ID_ZERO);
-      });
+      await expect(blueprint.setFeeTreasury(ADDRESS_ZERO))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TREASURY_ADDRESS_ALREADY_CONFIGURED);
 
-      it("The provided account address is zero", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
-        testOp.account = ADDRESS_ZERO;
+      await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
 
-        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_ADDRESS_ZERO);
-      });
+      await expect(blueprint.setFeeTreasury(feeTreasury.address))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TREASURY_ADDRESS_ALREADY_CONFIGURED);
+    });
+  });
 
-      it("The provided amount is greater than 64-bit unsigned integer", async () => {
-        const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
-        testOp.amount = maxUintForBits(64) + 1n;
-        await proveTx(tokenMock.mint(testOp.account, testOp.amount));
+  describe("Function 'setDepositFeeRule()", async () => {
+    it("Executes as expected and emits the correct event", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_AMOUNT_EXCESS);
-      });
+      await expect(blueprint.setDepositFeeRule(FEE_RATE, FEE_MINIMUM))
+        .to.emit(blueprint, EVENT_NAME_DEPOSIT_FEE_RULE_CHANGED)
+        .withArgs(FEE_RATE, FEE_MINIMUM, 0, 0);
 
-      it("The operational treasury is not configured", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
-        await proveTx(blueprint.setOperationalTreasury(ADDRESS_ZERO));
+      checkEquality(await blueprint.depositFeeRule(), { rate: FEE_RATE, minimum: FEE_MINIMUM });
+      checkEquality(await blueprint.withdrawalFeeRule(), defaultFeeRule);
 
-        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATIONAL_TREASURY_ADDRESS_ZERO);
-      });
+      // The maximum rate is 100%
+      await expect(blueprint.setDepositFeeRule(FEE_RATE_DENOMINATOR, 0))
+        .to.emit(blueprint, EVENT_NAME_DEPOSIT_FEE_RULE_CHANGED)
+        .withArgs(FEE_RATE_DENOMINATOR, 0, FEE_RATE, FEE_MINIMUM);
+    });
 
-      it("The operation with the provided identifier is already executed", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
-        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+    it("Is reverted if caller does not have the owner role", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ALREADY_EXECUTED)
-          .withArgs(testOp.opId);
-      });
+      await expect(connect(blueprint, stranger).setDepositFeeRule(FEE_RATE, FEE_MINIMUM))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(stranger.address, OWNER_ROLE);
+    });
 
-      it("The result account balance is greater than 64-bit unsigned integer", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
-        const accountState: AccountState = { ...defaultAccountState };
-        accountState.balance = maxUintForBits(64) + 1n - testOp.amount;
-        await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
+    it("Is reverted if the new fee rate is greater than 100%", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_BALANCE_EXCESS);
-      });
+      await expect(blueprint.setDepositFeeRule(FEE_RATE_DENOMINATOR + 1n, FEE_MINIMUM))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_FEE_RATE_EXCESS);
+    });
 
-      it("The operation count is greater than 32-bit unsigned integer", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
-        const accountState: AccountState = { ...defaultAccountState };
-        accountState.operationCount = maxUintForBits(32);
-        await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
+    it("Is reverted if the new fee rule is the same as the previous one", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithPanic("0x11");
-      });
+      await expect(blueprint.setDepositFeeRule(0, 0))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_FEE_RULE_ALREADY_CONFIGURED);
     });
   });
 
-  describe("Function 'withdraw()", async () => {
-    describe("Executes as expected for a new account if", async () => {
-      it("The amount is non-zero", async () => {
-        await executeAndCheckOperation({ newOperationStatus: OperationStatus.Withdrawal, amount: 123456789n });
-      });
+  describe("Function 'setWithdrawalFeeRule()", async () => {
+    it("Executes as expected and emits the correct event", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-      it("The amount is zero", async () => {
-        await executeAndCheckOperation({ newOperationStatus: OperationStatus.Withdrawal, amount: 0n });
-      });
+      await expect(blueprint.setWithdrawalFeeRule(FEE_RATE, FEE_MINIMUM))
+        .to.emit(blueprint, EVENT_NAME_WITHDRAWAL_FEE_RULE_CHANGED)
+        .withArgs(FEE_RATE, FEE_MINIMUM, 0, 0);
+
+      checkEquality(await blueprint.withdrawalFeeRule(), { rate: FEE_RATE, minimum: FEE_MINIMUM });
+      checkEquality(await blueprint.depositFeeRule(), defaultFeeRule);
     });
 
-    describe("Is reverted if", async () => {
-      it("The caller does not have the manager role", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
+    it("Is reverted if caller does not have the owner role", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-        await expect(connect(blueprint, stranger).withdraw(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
-          .withArgs(stranger.address, MANAGER_ROLE);
+      await expect(connect(blueprint, stranger).setWithdrawalFeeRule(FEE_RATE, FEE_MINIMUM))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(stranger.address, OWNER_ROLE);
+    });
 
-        // Even if it is called by a deployer
-        await expect(connect(blueprint, deployer).withdraw(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
-          .withArgs(deployer.address, MANAGER_ROLE);
-      });
+    it("Is reverted if the new fee rate is greater than 100%", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-      it("The contract is paused", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
-        await pauseContract(blueprint);
+      await expect(blueprint.setWithdrawalFeeRule(FEE_RATE_DENOMINATOR + 1n, FEE_MINIMUM))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_FEE_RATE_EXCESS);
+    });
 
-        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
-      });
+    it("Is reverted if the new fee rule is the same as the previous one", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
 
-      it("The provided operation identifier is zero", async () => {
-        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
-        const [testOp] = createTestOperations();
-        testOp.opId = OP_ID_ZERO;
+      await expect(blueprint.setWithdrawalFeeRule(0, 0))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_FEE_RULE_ALREADY_CONFIGURED);
+    });
+  });
 
-        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+  describe("Function 'setDefaultLimits()", async () => {
+    it("Executes as expected and emits the correct event", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const limits: Limits = {
+        maxBalance: 1000_000n,
+        maxOperationAmount: 100_000n,
+        maxDailyDeposit: 200_000n,
+        maxDailyWithdrawal: 300_000n
+      };
+
+      await expect(connect(blueprint, limitsAdmin).setDefaultLimits(limits))
+        .to.emit(blueprint, EVENT_NAME_DEFAULT_LIMITS_CHANGED)
+        .withArgs(convertToTuple(limits), convertToTuple(defaultLimits));
+
+      checkEquality(await blueprint.defaultLimits(), limits);
+      checkEquality(await blueprint.getEffectiveLimits(user.address), limits);
+    });
+
+    it("Is reverted if caller does not have the limits admin role", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const limits: Limits = { ...defaultLimits, maxBalance: 1000_000n };
+
+      await expect(connect(blueprint, stranger).setDefaultLimits(limits))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(stranger.address, LIMITS_ADMIN_ROLE);
+
+      // Even if it is called by the owner
+      await expect(connect(blueprint, deployer).setDefaultLimits(limits))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(deployer.address, LIMITS_ADMIN_ROLE);
+    });
+
+    it("Is reverted if the new limits are the same as the previous ones", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+
+      await expect(connect(blueprint, limitsAdmin).setDefaultLimits(defaultLimits))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_LIMITS_ALREADY_CONFIGURED);
+    });
+  });
+
+  describe("Function 'setAccountLimits()", async () => {
+    it("Executes as expected and emits the correct event", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const defaults: Limits = {
+        maxBalance: 1000_000n,
+        maxOperationAmount: 100_000n,
+        maxDailyDeposit: 200_000n,
+        maxDailyWithdrawal: 300_000n
+      };
+      const limits: Limits = { ...defaultLimits, maxBalance: 5000_000n, maxDailyWithdrawal: 400_000n };
+      await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits(defaults));
+
+      await expect(connect(blueprint, limitsAdmin).setAccountLimits(user.address, limits))
+        .to.emit(blueprint, EVENT_NAME_ACCOUNT_LIMITS_CHANGED)
+        .withArgs(user.address, convertToTuple(limits), convertToTuple(defaultLimits));
+
+      // Only the non-zero fields of the account limits override the default ones
+      checkEquality(await blueprint.getAccountLimits(user.address), limits);
+      checkEquality(await blueprint.getEffectiveLimits(user.address), {
+        ...defaults,
+        maxBalance: limits.maxBalance,
+        maxDailyWithdrawal: limits.maxDailyWithdrawal
+      });
+      checkEquality(await blueprint.getEffectiveLimits(stranger.address), defaults);
+
+      // The override is removed by setting zero limits
+      await expect(connect(blueprint, limitsAdmin).setAccountLimits(user.address, defaultLimits))
+        .to.emit(blueprint, EVENT_NAME_ACCOUNT_LIMITS_CHANGED)
+        .withArgs(user.address, convertToTuple(defaultLimits), convertToTuple(limits));
+      checkEquality(await blueprint.getEffectiveLimits(user.address), defaults);
+    });
+
+    it("Is reverted if caller does not have the limits admin role", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const limits: Limits = { ...defaultLimits, maxBalance: 1000_000n };
+
+      await expect(connect(blueprint, stranger).setAccountLimits(user.address, limits))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(stranger.address, LIMITS_ADMIN_ROLE);
+    });
+
+    it("Is reverted if the provided account address is zero", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const limits: Limits = { ...defaultLimits, maxBalance: 1000_000n };
+
+      await expect(connect(blueprint, limitsAdmin).setAccountLimits(ADDRESS_ZERO, limits))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_ADDRESS_ZERO);
+    });
+
+    it("Is reverted if the new limits are the same as the previous ones", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+
+      await expect(connect(blueprint, limitsAdmin).setAccountLimits(user.address, defaultLimits))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_LIMITS_ALREADY_CONFIGURED);
+    });
+  });
+
+  describe("Function 'registerToken()", async () => {
+    it("Executes as expected and emits the correct event", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployContracts);
+      const secondTokenMock = await deployTokenMock();
+
+      await expect(blueprint.registerToken(getAddress(secondTokenMock)))
+        .to.emit(blueprint, EVENT_NAME_TOKEN_REGISTERED)
+        .withArgs(getAddress(secondTokenMock));
+
+      expect(await blueprint.getSupportedTokens()).to.deep.equal([getAddress(tokenMock), getAddress(secondTokenMock)]);
+      expect(await blueprint.getTokenOperationalTreasury(getAddress(secondTokenMock))).to.equal(ADDRESS_ZERO);
+      expect(await blueprint.underlyingToken()).to.equal(getAddress(tokenMock));
+    });
+
+    it("Is reverted if caller does not have the owner role", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
+
+      await expect(connect(blueprint, stranger).registerToken(user.address))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(stranger.address, OWNER_ROLE);
+    });
+
+    it("Is reverted if the provided token address is zero", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
+
+      await expect(blueprint.registerToken(ADDRESS_ZERO))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TOKEN_ADDRESS_ZERO);
+    });
+
+    it("Is reverted if the provided token is already supported", async () => {
+      const { blueprint, tokenMock, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+
+      await expect(blueprint.registerToken(getAddress(tokenMock)))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TOKEN_ALREADY_REGISTERED)
+        .withArgs(getAddress(tokenMock));
+      await expect(blueprint.registerToken(getAddress(secondTokenMock)))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TOKEN_ALREADY_REGISTERED)
+        .withArgs(getAddress(secondTokenMock));
+    });
+  });
+
+  describe("Function 'rescueERC20()", async () => {
+    it("Rescues the default underlying token sent to the contract by mistake", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+      await proveTx(blueprint.grantRole(RESCUER_ROLE, deployer.address));
+      await proveTx(connect(blueprint, manager).deposit(user.address, 100n, OP_ID_ARRAY[0]));
+      await proveTx(connect(tokenMock, user).transfer(getAddress(blueprint), 10n));
+
+      const tx = blueprint.rescueERC20(getAddress(tokenMock), user.address, 10n);
+      await expect(tx).to.changeTokenBalances(
+        tokenMock,
+        [blueprint, user, operationalTreasury],
+        [-10n, 10n, 0n]
+      );
+      expect(await blueprint.balanceOf(user.address)).to.equal(100n);
+    });
+  });
+
+  describe("Function 'setTokenOperationalTreasury()", async () => {
+    it("Executes as expected for an additional token and emits the correct event", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
+      const secondTokenMock = await deployTokenMock();
+      const token = getAddress(secondTokenMock);
+      await proveTx(blueprint.registerToken(token));
+      await proveTx(connect(secondTokenMock, operationalTreasury).approve(getAddress(blueprint), ALLOWANCE_MAX));
+
+      const tx = blueprint.setTokenOperationalTreasury(token, operationalTreasury.address);
+      await expect(tx)
+        .to.emit(blueprint, EVENT_NAME_TOKEN_OPERATIONAL_TREASURY_CHANGED)
+        .withArgs(token, operationalTreasury.address, ADDRESS_ZERO);
+      await expect(tx).not.to.emit(blueprint, EVENT_NAME_OPERATIONAL_TREASURY_CHANGED);
+
+      expect(await blueprint.getTokenOperationalTreasury(token)).to.eq(operationalTreasury.address);
+      expect(await blueprint.operationalTreasury()).to.eq(ADDRESS_ZERO);
+
+      // Zeroing the operational treasury address is allowed
+      await expect(blueprint.setTokenOperationalTreasury(token, ADDRESS_ZERO))
+        .to.emit(blueprint, EVENT_NAME_TOKEN_OPERATIONAL_TREASURY_CHANGED)
+        .withArgs(token, ADDRESS_ZERO, operationalTreasury.address);
+    });
+
+    it("Executes as expected for the default token like the 'setOperationalTreasury()' function", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployContracts);
+      await proveTx(connect(tokenMock, operationalTreasury).approve(getAddress(blueprint), ALLOWANCE_MAX));
+
+      await expect(blueprint.setTokenOperationalTreasury(getAddress(tokenMock), operationalTreasury.address))
+        .to.emit(blueprint, EVENT_NAME_OPERATIONAL_TREASURY_CHANGED)
+        .withArgs(operationalTreasury.address, ADDRESS_ZERO);
+
+      expect(await blueprint.operationalTreasury()).to.eq(operationalTreasury.address);
+      expect(await blueprint.getTokenOperationalTreasury(getAddress(tokenMock))).to.eq(operationalTreasury.address);
+    });
+
+    it("Is reverted if caller does not have the owner role", async () => {
+      const { blueprint, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+
+      await expect(
+        connect(blueprint, stranger).setTokenOperationalTreasury(getAddress(secondTokenMock), ADDRESS_ZERO)
+      ).to.be.revertedWithCustomError(
+        blueprint,
+        ERROR_NAME_Access_Control_Unauthorized_Account
+      ).withArgs(stranger.address, OWNER_ROLE);
+    });
+
+    it("Is reverted if the provided token is not supported", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
+
+      await expect(blueprint.setTokenOperationalTreasury(user.address, operationalTreasury.address))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TOKEN_NOT_SUPPORTED)
+        .withArgs(user.address);
+      await expect(blueprint.getTokenOperationalTreasury(user.address))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TOKEN_NOT_SUPPORTED)
+        .withArgs(user.address);
+    });
+
+    it("Is reverted if the new operational treasury address is the same as the previous one", async () => {
+      const { blueprint, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+
+      await expect(blueprint.setTokenOperationalTreasury(getAddress(secondTokenMock), operationalTreasury.address))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TREASURY_ADDRESS_ALREADY_CONFIGURED);
+    });
+
+    it("Is reverted if the operational treasury has not provided an allowance of the token", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployContracts);
+      const secondTokenMock = await deployTokenMock();
+      await proveTx(blueprint.registerToken(getAddress(secondTokenMock)));
+
+      // The allowance of the default token does not count
+      await proveTx(connect(tokenMock, operationalTreasury).approve(getAddress(blueprint), ALLOWANCE_MAX));
+
+      await expect(blueprint.setTokenOperationalTreasury(getAddress(secondTokenMock), operationalTreasury.address))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TREASURY_ALLOWANCE_ZERO);
+    });
+  });
+
+  describe("Function 'deposit()", async () => {
+    describe("Executes as expected for a new account if", async () => {
+      it("The amount is non-zero", async () => {
+        await executeAndCheckOperation({ newOperationStatus: OperationStatus.Deposit, amount: 123456789n });
+      });
+
+      it("The amount is zero", async () => {
+        await executeAndCheckOperation({ newOperationStatus: OperationStatus.Deposit, amount: 0n });
+      });
+
+      it("The fee rule is configured and the rate-based fee is greater than the minimum", async () => {
+        await executeAndCheckOperation({
+          newOperationStatus: OperationStatus.Deposit,
+          amount: 123456789n,
+          feeRule: { rate: FEE_RATE, minimum: FEE_MINIMUM }
+        });
+      });
+
+      it("The fee rule is configured and the rate-based fee is less than the minimum", async () => {
+        await executeAndCheckOperation({
+          newOperationStatus: OperationStatus.Deposit,
+          amount: FEE_MINIMUM,
+          feeRule: { rate: FEE_RATE, minimum: FEE_MINIMUM }
+        });
+      });
+
+      it("The limits are configured and the operation reaches them exactly", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const limits: Limits = {
+          ...defaultLimits,
+          maxBalance: testOp.amount * 2n,
+          maxOperationAmount: testOp.amount,
+          maxDailyDeposit: testOp.amount * 2n
+        };
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits(limits));
+        const day = await increaseTimeToNextDay();
+
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[0]));
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+
+        expect(await blueprint.balanceOf(testOp.account)).to.equal(limits.maxBalance);
+        checkEquality<DailyVolume>(await blueprint.getDailyVolume(testOp.account), {
+          day,
+          depositVolume: testOp.amount * 2n,
+          withdrawalVolume: 0n
+        });
+      });
+    });
+
+    describe("Is reverted if", async () => {
+      it("The caller does not have the manager role", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+
+        await expect(connect(blueprint, stranger).deposit(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(stranger.address, MANAGER_ROLE);
+
+        // Even if it is called by a deployer
+        await expect(connect(blueprint, deployer).deposit(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(deployer.address, MANAGER_ROLE);
+      });
+
+      it("The contract is paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await pauseContract(blueprint);
+
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
+      });
+
+      it("Deposits are paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await pauseOperationKind(blueprint, DEPOSIT_OPERATION_KIND);
+
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_KIND_PAUSED)
+          .withArgs(DEPOSIT_OPERATION_KIND);
+      });
+
+      it("The provided operation identifier is zero", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        testOp.opId = OP_ID_ZERO;
+
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
           .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ID_ZERO);
       });
 
@@ -582,7 +1174,7 @@ describe("Contracts 'Blueprint'", async () => {
         const [testOp] = createTestOperations();
         testOp.account = ADDRESS_ZERO;
 
-        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
           .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_ADDRESS_ZERO);
       });
 
@@ -592,7 +1184,7 @@ describe("Contracts 'Blueprint'", async () => {
         testOp.amount = maxUintForBits(64) + 1n;
         await proveTx(tokenMock.mint(testOp.account, testOp.amount));
 
-        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
           .to.be.revertedWithCustomError(blueprint, ERROR_NAME_AMOUNT_EXCESS);
       });
 
@@ -601,29 +1193,38 @@ describe("Contracts 'Blueprint'", async () => {
         const [testOp] = createTestOperations();
         await proveTx(blueprint.setOperationalTreasury(ADDRESS_ZERO));
 
-        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
           .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATIONAL_TREASURY_ADDRESS_ZERO);
       });
 
+      it("The fee is non-zero, but the fee treasury is not configured", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(blueprint.setDepositFeeRule(FEE_RATE, FEE_MINIMUM));
+
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_FEE_TREASURY_ADDRESS_ZERO);
+      });
+
       it("The operation with the provided identifier is already executed", async () => {
         const { blueprint } = await setUpFixture(deployAndConfigureContracts);
         const [testOp] = createTestOperations();
         await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
 
-        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
           .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ALREADY_EXECUTED)
           .withArgs(testOp.opId);
       });
 
-      it("The result account balance is below zero", async () => {
+      it("The result account balance is greater than 64-bit unsigned integer", async () => {
         const { blueprint } = await setUpFixture(deployAndConfigureContracts);
         const [testOp] = createTestOperations();
         const accountState: AccountState = { ...defaultAccountState };
-        accountState.balance = testOp.amount - 1n;
+        accountState.balance = maxUintForBits(64) + 1n - testOp.amount;
         await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
 
-        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
-          .to.be.revertedWithPanic("0x11");
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_BALANCE_EXCESS);
       });
 
       it("The operation count is greater than 32-bit unsigned integer", async () => {
@@ -631,12 +1232,1769 @@ describe("Contracts 'Blueprint'", async () => {
         const [testOp] = createTestOperations();
         const accountState: AccountState = { ...defaultAccountState };
         accountState.operationCount = maxUintForBits(32);
-        accountState.balance = maxUintForBits(64);
         await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
 
-        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
           .to.be.revertedWithPanic("0x11");
       });
+
+      it("The account is frozen", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, freezer).freezeAccount(testOp.account, FREEZE_REASON_CODE));
+
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_FROZEN)
+          .withArgs(testOp.account);
+      });
+
+      it("The amount is greater than the operation amount limit", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const limit = testOp.amount - 1n;
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits({
+          ...defaultLimits,
+          maxOperationAmount: limit
+        }));
+
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_AMOUNT_LIMIT_EXCEEDED)
+          .withArgs(testOp.account, testOp.amount, limit);
+      });
+
+      it("The result account balance is greater than the balance limit of the account", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const limit = testOp.amount * 2n - 1n;
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits({ ...defaultLimits, maxBalance: limit * 10n }));
+        await proveTx(connect(blueprint, limitsAdmin).setAccountLimits(testOp.account, {
+          ...defaultLimits,
+          maxBalance: limit
+        }));
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_BALANCE_LIMIT_EXCEEDED)
+          .withArgs(testOp.account, testOp.amount * 2n, limit);
+      });
+
+      it("The daily volume of deposits would be greater than the daily deposit limit", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const limit = testOp.amount * 2n - 1n;
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits({ ...defaultLimits, maxDailyDeposit: limit }));
+        await increaseTimeToNextDay();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+
+        await expect(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_DAILY_DEPOSIT_LIMIT_EXCEEDED)
+          .withArgs(testOp.account, testOp.amount, testOp.amount, limit);
+
+        // The volume is reset on the next day
+        await increaseTimeToNextDay();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+      });
+    });
+  });
+
+  describe("Function 'depositWithPermit()", async () => {
+    async function prepareAccountWithoutAllowance(): Promise<{
+      blueprint: Contract;
+      tokenMock: Contract;
+      testOp: TestOperation;
+      deadline: bigint;
+    }> {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+      const [testOp] = createTestOperations();
+      await proveTx(connect(tokenMock, user).approve(getAddress(blueprint), 0));
+      const deadline = BigInt(await time.latest()) + 3600n;
+      return { blueprint, tokenMock, testOp, deadline };
+    }
+
+    describe("Executes as expected if", async () => {
+      it("The permit is valid", async () => {
+        const { blueprint, tokenMock, testOp, deadline } = await prepareAccountWithoutAllowance();
+        const permit = await signPermit(tokenMock, user, getAddress(blueprint), testOp.amount, deadline);
+
+        const tx = connect(blueprint, manager).depositWithPermit(testOp.account, testOp.amount, testOp.opId, permit);
+
+        await expect(tx)
+          .to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED)
+          .withArgs(testOp.opId, testOp.account, testOp.amount, 0);
+        await expect(tx).to.changeTokenBalances(
+          tokenMock,
+          [testOp.account, operationalTreasury.address],
+          [-testOp.amount, testOp.amount]
+        );
+        expect(await tokenMock.allowance(testOp.account, getAddress(blueprint))).to.equal(0);
+      });
+
+      it("The permit has been already consumed by front-running", async () => {
+        const { blueprint, tokenMock, testOp, deadline } = await prepareAccountWithoutAllowance();
+        const permit = await signPermit(tokenMock, user, getAddress(blueprint), testOp.amount, deadline);
+        await proveTx(connect(tokenMock, stranger).permit(
+          testOp.account,
+          getAddress(blueprint),
+          permit.value,
+          permit.deadline,
+          permit.v,
+          permit.r,
+          permit.s
+        ));
+
+        const tx = connect(blueprint, manager).depositWithPermit(testOp.account, testOp.amount, testOp.opId, permit);
+        await proveTx(tx);
+
+        expect(await blueprint.balanceOf(testOp.account)).to.equal(testOp.amount);
+      });
+
+      it("The permit covers the amount and the fee", async () => {
+        const { blueprint, tokenMock, testOp, deadline } = await prepareAccountWithoutAllowance();
+        const feeRule: FeeRule = { rate: FEE_RATE, minimum: FEE_MINIMUM };
+        await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+        await proveTx(blueprint.setDepositFeeRule(feeRule.rate, feeRule.minimum));
+        const fee = calculateFee(feeRule, testOp.amount);
+        const permit = await signPermit(tokenMock, user, getAddress(blueprint), testOp.amount + fee, deadline);
+
+        const tx = connect(blueprint, manager).depositWithPermit(testOp.account, testOp.amount, testOp.opId, permit);
+
+        await expect(tx).to.emit(blueprint, EVENT_NAME_FEE_CHARGED).withArgs(testOp.opId, testOp.account, fee);
+        await expect(tx).to.changeTokenBalances(
+          tokenMock,
+          [testOp.account, operationalTreasury.address, feeTreasury.address],
+          [-(testOp.amount + fee), testOp.amount, fee]
+        );
+      });
+    });
+
+    describe("Is reverted if", async () => {
+      it("The caller does not have the manager role", async () => {
+        const { blueprint, tokenMock, testOp, deadline } = await prepareAccountWithoutAllowance();
+        const permit = await signPermit(tokenMock, user, getAddress(blueprint), testOp.amount, deadline);
+
+        await expect(connect(blueprint, stranger).depositWithPermit(testOp.account, testOp.amount, testOp.opId, permit))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(stranger.address, MANAGER_ROLE);
+      });
+
+      it("The contract is paused", async () => {
+        const { blueprint, tokenMock, testOp, deadline } = await prepareAccountWithoutAllowance();
+        const permit = await signPermit(tokenMock, user, getAddress(blueprint), testOp.amount, deadline);
+        await pauseContract(blueprint);
+
+        await expect(connect(blueprint, manager).depositWithPermit(testOp.account, testOp.amount, testOp.opId, permit))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
+      });
+
+      it("The permit is signed by another account and there is no allowance", async () => {
+        const { blueprint, tokenMock, testOp, deadline } = await prepareAccountWithoutAllowance();
+        const permit = await signPermit(tokenMock, stranger, getAddress(blueprint), testOp.amount, deadline);
+        const expectedSelector = tokenMock.interface.getError(ERROR_NAME_ERC2612_INVALID_SIGNER)?.selector ?? "";
+
+        // The signer recovered by the token is unpredictable, so only the selector of the reason is checked
+        await expect(connect(blueprint, manager).depositWithPermit(testOp.account, testOp.amount, testOp.opId, permit))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_PERMIT_FAILED)
+          .withArgs((reason: string) => reason.startsWith(expectedSelector));
+      });
+
+      it("The permit is expired and there is no allowance", async () => {
+        const { blueprint, tokenMock, testOp } = await prepareAccountWithoutAllowance();
+        const deadline = BigInt(await time.latest());
+        const permit = await signPermit(tokenMock, user, getAddress(blueprint), testOp.amount, deadline);
+        const expectedReason = tokenMock.interface.encodeErrorResult(ERROR_NAME_ERC2612_EXPIRED_SIGNATURE, [deadline]);
+
+        await expect(connect(blueprint, manager).depositWithPermit(testOp.account, testOp.amount, testOp.opId, permit))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_PERMIT_FAILED)
+          .withArgs(expectedReason);
+      });
+
+      it("The permit has been consumed, but the allowance is not sufficient for the amount and the fee", async () => {
+        const { blueprint, tokenMock, testOp, deadline } = await prepareAccountWithoutAllowance();
+        await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+        await proveTx(blueprint.setDepositFeeRule(FEE_RATE, FEE_MINIMUM));
+        const permit = await signPermit(tokenMock, user, getAddress(blueprint), testOp.amount, deadline);
+        await proveTx(connect(tokenMock, stranger).permit(
+          testOp.account,
+          getAddress(blueprint),
+          permit.value,
+          permit.deadline,
+          permit.v,
+          permit.r,
+          permit.s
+        ));
+
+        await expect(connect(blueprint, manager).depositWithPermit(testOp.account, testOp.amount, testOp.opId, permit))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_PERMIT_FAILED);
+      });
+
+      it("The operation does not meet the requirements of a deposit", async () => {
+        const { blueprint, tokenMock, testOp, deadline } = await prepareAccountWithoutAllowance();
+        const permit = await signPermit(tokenMock, user, getAddress(blueprint), testOp.amount, deadline);
+
+        await expect(connect(blueprint, manager).depositWithPermit(testOp.account, testOp.amount, OP_ID_ZERO, permit))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ID_ZERO);
+      });
+    });
+  });
+
+  describe("Function 'withdraw()", async () => {
+    describe("Executes as expected for a new account if", async () => {
+      it("The amount is non-zero", async () => {
+        await executeAndCheckOperation({ newOperationStatus: OperationStatus.Withdrawal, amount: 123456789n });
+      });
+
+      it("The amount is zero", async () => {
+        await executeAndCheckOperation({ newOperationStatus: OperationStatus.Withdrawal, amount: 0n });
+      });
+
+      it("The fee rule is configured", async () => {
+        await executeAndCheckOperation({
+          newOperationStatus: OperationStatus.Withdrawal,
+          amount: 123456789n,
+          feeRule: { rate: FEE_RATE, minimum: FEE_MINIMUM }
+        });
+      });
+    });
+
+    describe("Is reverted if", async () => {
+      it("The caller does not have the manager role", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+
+        await expect(connect(blueprint, stranger).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(stranger.address, MANAGER_ROLE);
+
+        // Even if it is called by a deployer
+        await expect(connect(blueprint, deployer).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(deployer.address, MANAGER_ROLE);
+      });
+
+      it("The contract is paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await pauseContract(blueprint);
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
+      });
+
+      it("Withdrawals are paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+        await pauseOperationKind(blueprint, WITHDRAWAL_OPERATION_KIND);
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_KIND_PAUSED)
+          .withArgs(WITHDRAWAL_OPERATION_KIND);
+
+        // Deposits are still allowed
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+      });
+
+      it("The provided operation identifier is zero", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        testOp.opId = OP_ID_ZERO;
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ID_ZERO);
+      });
+
+      it("The provided account address is zero", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        testOp.account = ADDRESS_ZERO;
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_ADDRESS_ZERO);
+      });
+
+      it("The provided amount is greater than 64-bit unsigned integer", async () => {
+        const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        testOp.amount = maxUintForBits(64) + 1n;
+        await proveTx(tokenMock.mint(testOp.account, testOp.amount));
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_AMOUNT_EXCESS);
+      });
+
+      it("The operational treasury is not configured", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(blueprint.setOperationalTreasury(ADDRESS_ZERO));
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATIONAL_TREASURY_ADDRESS_ZERO);
+      });
+
+      it("The fee is non-zero, but the fee treasury is not configured", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const accountState: AccountState = { ...defaultAccountState, balance: testOp.amount };
+        await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
+        await proveTx(blueprint.setWithdrawalFeeRule(0, FEE_MINIMUM));
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_FEE_TREASURY_ADDRESS_ZERO);
+      });
+
+      it("The fee is greater than the amount", async () => {
+        const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const accountState: AccountState = { ...defaultAccountState, balance: testOp.amount };
+        await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
+        await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+        await proveTx(blueprint.setWithdrawalFeeRule(0, testOp.amount + 1n));
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_WITHDRAWAL_FEE_EXCESS)
+          .withArgs(testOp.amount, testOp.amount + 1n);
+
+        // The fee that is equal to the amount can be deducted
+        await proveTx(blueprint.setWithdrawalFeeRule(0, testOp.amount));
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.changeTokenBalances(
+            tokenMock,
+            [testOp.account, operationalTreasury.address, feeTreasury.address],
+            [0, -testOp.amount, testOp.amount]
+          );
+      });
+
+      it("The operation with the provided identifier is already executed", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ALREADY_EXECUTED)
+          .withArgs(testOp.opId);
+      });
+
+      it("The result account balance is below zero", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const accountState: AccountState = { ...defaultAccountState };
+        accountState.balance = testOp.amount - 1n;
+        await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_BALANCE_INSUFFICIENT)
+          .withArgs(testOp.account, accountState.balance, testOp.amount);
+      });
+
+      it("The operation count is greater than 32-bit unsigned integer", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const accountState: AccountState = { ...defaultAccountState };
+        accountState.operationCount = maxUintForBits(32);
+        accountState.balance = maxUintForBits(64);
+        await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithPanic("0x11");
+      });
+
+      it("The account is frozen", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+        await proveTx(connect(blueprint, freezer).freezeAccount(testOp.account, FREEZE_REASON_CODE));
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_FROZEN)
+          .withArgs(testOp.account);
+      });
+
+      it("The amount is greater than the operation amount limit", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const limit = testOp.amount - 1n;
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+        await proveTx(connect(blueprint, limitsAdmin).setAccountLimits(testOp.account, {
+          ...defaultLimits,
+          maxOperationAmount: limit
+        }));
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_AMOUNT_LIMIT_EXCEEDED)
+          .withArgs(testOp.account, testOp.amount, limit);
+      });
+
+      it("The daily volume of withdrawals would be greater than the daily withdrawal limit", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const limit = testOp.amount * 2n - 1n;
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount * 3n, OP_ID_ARRAY[1]));
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits({
+          ...defaultLimits,
+          maxDailyWithdrawal: limit
+        }));
+        const day = await increaseTimeToNextDay();
+        await proveTx(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, OP_ID_ARRAY[2]));
+
+        await expect(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_DAILY_WITHDRAWAL_LIMIT_EXCEEDED)
+          .withArgs(testOp.account, testOp.amount, testOp.amount, limit);
+        checkEquality<DailyVolume>(await blueprint.getDailyVolume(testOp.account), {
+          day,
+          depositVolume: 0n,
+          withdrawalVolume: testOp.amount
+        });
+
+        // The volume is reset on the next day
+        await increaseTimeToNextDay();
+        await proveTx(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId));
+      });
+    });
+  });
+
+  describe("Functions 'depositToken()' and 'withdrawToken()", async () => {
+    it("Execute as expected for an additional token", async () => {
+      const { blueprint, tokenMock, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+      const token = getAddress(secondTokenMock);
+      const [depositOp, withdrawalOp] = createTestOperations(2).map(testOp => ({
+        ...testOp,
+        account: user.address,
+        amount: BigInt(TOKEN_AMOUNT),
+        token
+      }));
+      depositOp.status = OperationStatus.Deposit;
+      withdrawalOp.status = OperationStatus.Withdrawal;
+      withdrawalOp.amount = depositOp.amount / 3n;
+      const expectedAccountState: AccountState = { ...defaultAccountState };
+
+      const depositTx = connect(blueprint, manager).depositToken(token, user.address, depositOp.amount, depositOp.opId);
+      await expect(depositTx)
+        .to.emit(blueprint, EVENT_NAME_TOKEN_BALANCE_UPDATED)
+        .withArgs(depositOp.opId, user.address, token, depositOp.amount, 0n);
+      await expect(depositTx).not.to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED);
+      await expect(depositTx).to.changeTokenBalances(
+        secondTokenMock,
+        [user.address, operationalTreasury.address],
+        [-depositOp.amount, depositOp.amount]
+      );
+      await expect(depositTx).to.changeTokenBalances(tokenMock, [user.address, operationalTreasury.address], [0, 0]);
+      processOperation(expectedAccountState, depositOp);
+
+      const withdrawalTx =
+        connect(blueprint, manager).withdrawToken(token, user.address, withdrawalOp.amount, withdrawalOp.opId);
+      await expect(withdrawalTx)
+        .to.emit(blueprint, EVENT_NAME_TOKEN_BALANCE_UPDATED)
+        .withArgs(withdrawalOp.opId, user.address, token, depositOp.amount - withdrawalOp.amount, depositOp.amount);
+      await expect(withdrawalTx).to.changeTokenBalances(
+        secondTokenMock,
+        [user.address, operationalTreasury.address],
+        [withdrawalOp.amount, -withdrawalOp.amount]
+      );
+      processOperation(expectedAccountState, withdrawalOp);
+
+      checkEquality(await blueprint.getOperation(depositOp.opId), convertToOperation(depositOp));
+      checkEquality(await blueprint.getOperation(withdrawalOp.opId), convertToOperation(withdrawalOp));
+      checkEquality(await blueprint.getAccountTokenState(user.address, token), expectedAccountState);
+      expect(await blueprint.balanceOfToken(user.address, token)).to.equal(expectedAccountState.balance);
+
+      // The balance in the default token is tracked separately
+      checkEquality(await blueprint.getAccountState(user.address), defaultAccountState);
+      expect(await blueprint.balanceOfToken(user.address, getAddress(tokenMock))).to.equal(0n);
+    });
+
+    it("Execute as expected for the default token like the 'deposit()' and 'withdraw()' functions", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+      const token = getAddress(tokenMock);
+      const [testOp] = createTestOperations();
+      testOp.status = OperationStatus.Deposit;
+
+      await expect(connect(blueprint, manager).depositToken(token, testOp.account, testOp.amount, testOp.opId))
+        .to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED)
+        .withArgs(testOp.opId, testOp.account, testOp.amount, 0n);
+      await expect(connect(blueprint, manager).withdrawToken(token, testOp.account, testOp.amount, OP_ID_ARRAY[1]))
+        .to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED)
+        .withArgs(OP_ID_ARRAY[1], testOp.account, 0n, testOp.amount);
+
+      checkEquality(await blueprint.getOperation(testOp.opId), convertToOperation(testOp));
+      expect(await blueprint.balanceOfToken(testOp.account, token)).to.equal(await blueprint.balanceOf(testOp.account));
+    });
+
+    it("Apply the fee rules to an additional token and charge the fees in it", async () => {
+      const { blueprint, tokenMock, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+      const token = getAddress(secondTokenMock);
+      const [depositOp, withdrawalOp] = createTestOperations(2).map(testOp => ({ ...testOp, account: user.address }));
+      withdrawalOp.amount = depositOp.amount / 3n;
+      const feeRule: FeeRule = { rate: FEE_RATE, minimum: FEE_MINIMUM };
+      const depositFee = calculateFee(feeRule, depositOp.amount);
+      const withdrawalFee = calculateFee(feeRule, withdrawalOp.amount);
+      await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+      await proveTx(blueprint.setDepositFeeRule(FEE_RATE, FEE_MINIMUM));
+      await proveTx(blueprint.setWithdrawalFeeRule(FEE_RATE, FEE_MINIMUM));
+
+      const depositTx = connect(blueprint, manager).depositToken(token, user.address, depositOp.amount, depositOp.opId);
+      await expect(depositTx)
+        .to.emit(blueprint, EVENT_NAME_FEE_CHARGED)
+        .withArgs(depositOp.opId, user.address, depositFee);
+      await expect(depositTx).to.changeTokenBalances(
+        secondTokenMock,
+        [user.address, operationalTreasury.address, feeTreasury.address],
+        [-depositOp.amount - depositFee, depositOp.amount, depositFee]
+      );
+      await expect(depositTx).to.changeTokenBalances(tokenMock, [user.address, feeTreasury.address], [0, 0]);
+
+      const withdrawalTx =
+        connect(blueprint, manager).withdrawToken(token, user.address, withdrawalOp.amount, withdrawalOp.opId);
+      await expect(withdrawalTx)
+        .to.emit(blueprint, EVENT_NAME_FEE_CHARGED)
+        .withArgs(withdrawalOp.opId, user.address, withdrawalFee);
+      await expect(withdrawalTx).to.changeTokenBalances(secondTokenMock, [feeTreasury.address], [withdrawalFee]);
+
+      expect((await blueprint.getOperation(depositOp.opId)).fee).to.equal(depositFee);
+      expect((await blueprint.getOperation(withdrawalOp.opId)).fee).to.equal(withdrawalFee);
+    });
+
+    it("Apply the limits to an additional token and track its daily volumes separately", async () => {
+      const { blueprint, tokenMock, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+      const token = getAddress(secondTokenMock);
+      const [testOp] = createTestOperations().map(testOp => ({ ...testOp, account: user.address }));
+      const limit = testOp.amount * 2n - 1n;
+      await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits({
+        ...defaultLimits,
+        maxOperationAmount: testOp.amount,
+        maxDailyDeposit: limit
+      }));
+      const day = await increaseTimeToNextDay();
+      await proveTx(connect(blueprint, manager).depositToken(token, user.address, testOp.amount, OP_ID_ARRAY[1]));
+      await proveTx(connect(blueprint, manager).deposit(user.address, testOp.amount, OP_ID_ARRAY[2]));
+
+      await expect(connect(blueprint, manager).depositToken(token, user.address, testOp.amount + 1n, testOp.opId))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_AMOUNT_LIMIT_EXCEEDED)
+        .withArgs(user.address, testOp.amount + 1n, testOp.amount);
+      await expect(connect(blueprint, manager).depositToken(token, user.address, testOp.amount, testOp.opId))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_DAILY_DEPOSIT_LIMIT_EXCEEDED)
+        .withArgs(user.address, testOp.amount, testOp.amount, limit);
+      const expectedVolume: DailyVolume = { day, depositVolume: testOp.amount, withdrawalVolume: 0n };
+      checkEquality<DailyVolume>(await blueprint.getTokenDailyVolume(user.address, token), expectedVolume);
+      checkEquality<DailyVolume>(await blueprint.getDailyVolume(user.address), expectedVolume);
+      checkEquality<DailyVolume>(
+        await blueprint.getTokenDailyVolume(user.address, getAddress(tokenMock)),
+        expectedVolume
+      );
+
+      // The reversal removes the operation from the daily volume of its token only
+      await proveTx(connect(blueprint, manager).revertOperation(OP_ID_ARRAY[1]));
+      checkEquality<DailyVolume>(
+        await blueprint.getTokenDailyVolume(user.address, token),
+        { ...expectedVolume, depositVolume: 0n }
+      );
+      checkEquality<DailyVolume>(await blueprint.getDailyVolume(user.address), expectedVolume);
+    });
+
+    describe("Is reverted if", async () => {
+      it("The caller does not have the manager role", async () => {
+        const { blueprint, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+        const token = getAddress(secondTokenMock);
+        const [testOp] = createTestOperations();
+
+        await expect(connect(blueprint, stranger).depositToken(token, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(stranger.address, MANAGER_ROLE);
+        await expect(connect(blueprint, stranger).withdrawToken(token, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(stranger.address, MANAGER_ROLE);
+      });
+
+      it("The contract is paused", async () => {
+        const { blueprint, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+        const token = getAddress(secondTokenMock);
+        const [testOp] = createTestOperations();
+        await pauseContract(blueprint);
+
+        await expect(connect(blueprint, manager).depositToken(token, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
+        await expect(connect(blueprint, manager).withdrawToken(token, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
+      });
+
+      it("The kind of the operation is paused", async () => {
+        const { blueprint, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+        const token = getAddress(secondTokenMock);
+        const [testOp] = createTestOperations();
+        await pauseOperationKind(blueprint, DEPOSIT_OPERATION_KIND);
+        await proveTx(blueprint.pauseOperationKind(WITHDRAWAL_OPERATION_KIND));
+
+        await expect(connect(blueprint, manager).depositToken(token, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_KIND_PAUSED)
+          .withArgs(DEPOSIT_OPERATION_KIND);
+        await expect(connect(blueprint, manager).withdrawToken(token, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_KIND_PAUSED)
+          .withArgs(WITHDRAWAL_OPERATION_KIND);
+      });
+
+      it("The provided token is not supported", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+        const [testOp] = createTestOperations();
+
+        await expect(connect(blueprint, manager).depositToken(ADDRESS_ZERO, testOp.account, 1n, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TOKEN_NOT_SUPPORTED)
+          .withArgs(ADDRESS_ZERO);
+        await expect(connect(blueprint, manager).withdrawToken(user.address, testOp.account, 0n, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_TOKEN_NOT_SUPPORTED)
+          .withArgs(user.address);
+      });
+
+      it("The operational treasury of the token is not configured", async () => {
+        const { blueprint, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+        const token = getAddress(secondTokenMock);
+        const [testOp] = createTestOperations();
+        await proveTx(blueprint.setTokenOperationalTreasury(token, ADDRESS_ZERO));
+
+        await expect(connect(blueprint, manager).depositToken(token, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATIONAL_TREASURY_ADDRESS_ZERO);
+      });
+
+      it("The operation with the provided identifier is already executed with another token", async () => {
+        const { blueprint, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+
+        await expect(
+          connect(blueprint, manager).depositToken(
+            getAddress(secondTokenMock),
+            testOp.account,
+            testOp.amount,
+            testOp.opId
+          )
+        ).to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ALREADY_EXECUTED).withArgs(testOp.opId);
+      });
+    });
+  });
+
+  describe("Functions 'depositFrom()' and 'withdrawTo()", async () => {
+    it("Execute as expected with another payer and recipient", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+      const [depositOp, withdrawalOp] = createTestOperations(2).map(testOp => ({ ...testOp, account: user.address }));
+      const counterparty = users[1].address;
+      depositOp.status = OperationStatus.Deposit;
+      depositOp.counterparty = counterparty;
+      withdrawalOp.status = OperationStatus.Withdrawal;
+      withdrawalOp.amount = depositOp.amount / 3n;
+      withdrawalOp.counterparty = counterparty;
+      const feeRule: FeeRule = { rate: FEE_RATE, minimum: FEE_MINIMUM };
+      await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+      await proveTx(blueprint.setDepositFeeRule(feeRule.rate, feeRule.minimum));
+      await proveTx(blueprint.setWithdrawalFeeRule(feeRule.rate, feeRule.minimum));
+      depositOp.fee = calculateFee(feeRule, depositOp.amount);
+      withdrawalOp.fee = calculateFee(feeRule, withdrawalOp.amount);
+      const expectedAccountState: AccountState = { ...defaultAccountState };
+
+      const depositTx =
+        connect(blueprint, manager).depositFrom(counterparty, user.address, depositOp.amount, depositOp.opId);
+      await expect(depositTx)
+        .to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED)
+        .withArgs(depositOp.opId, user.address, depositOp.amount, 0n);
+      await expect(depositTx)
+        .to.emit(blueprint, EVENT_NAME_DEPOSITED_FROM)
+        .withArgs(depositOp.opId, user.address, counterparty);
+      await expect(depositTx)
+        .to.emit(blueprint, EVENT_NAME_FEE_CHARGED)
+        .withArgs(depositOp.opId, user.address, depositOp.fee);
+      await expect(depositTx).to.changeTokenBalances(
+        tokenMock,
+        [user.address, counterparty, operationalTreasury.address, feeTreasury.address],
+        [0, -(depositOp.amount + depositOp.fee), depositOp.amount, depositOp.fee]
+      );
+      processOperation(expectedAccountState, depositOp);
+
+      const withdrawalTx =
+        connect(blueprint, manager).withdrawTo(user.address, counterparty, withdrawalOp.amount, withdrawalOp.opId);
+      await expect(withdrawalTx)
+        .to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED)
+        .withArgs(withdrawalOp.opId, user.address, depositOp.amount - withdrawalOp.amount, depositOp.amount);
+      await expect(withdrawalTx)
+        .to.emit(blueprint, EVENT_NAME_WITHDRAWN_TO)
+        .withArgs(withdrawalOp.opId, user.address, counterparty);
+      await expect(withdrawalTx).to.changeTokenBalances(
+        tokenMock,
+        [user.address, counterparty, operationalTreasury.address, feeTreasury.address],
+        [0, withdrawalOp.amount - withdrawalOp.fee, -withdrawalOp.amount, withdrawalOp.fee]
+      );
+      processOperation(expectedAccountState, withdrawalOp);
+
+      checkEquality(await blueprint.getOperation(depositOp.opId), convertToOperation(depositOp));
+      checkEquality(await blueprint.getOperation(withdrawalOp.opId), convertToOperation(withdrawalOp));
+      checkEquality(await blueprint.getAccountState(user.address), expectedAccountState);
+      checkEquality(await blueprint.getAccountState(counterparty), defaultAccountState);
+    });
+
+    it("Execute as expected for the account itself like the 'deposit()' and 'withdraw()' functions", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+      const [testOp] = createTestOperations();
+      testOp.status = OperationStatus.Deposit;
+
+      const depositTx =
+        connect(blueprint, manager).depositFrom(testOp.account, testOp.account, testOp.amount, testOp.opId);
+      await expect(depositTx).not.to.emit(blueprint, EVENT_NAME_DEPOSITED_FROM);
+      await expect(depositTx).to.changeTokenBalances(tokenMock, [testOp.account], [-testOp.amount]);
+      const withdrawalTx =
+        connect(blueprint, manager).withdrawTo(testOp.account, testOp.account, testOp.amount, OP_ID_ARRAY[1]);
+      await expect(withdrawalTx).not.to.emit(blueprint, EVENT_NAME_WITHDRAWN_TO);
+      await expect(withdrawalTx).to.changeTokenBalances(tokenMock, [testOp.account], [testOp.amount]);
+
+      checkEquality(await blueprint.getOperation(testOp.opId), convertToOperation(testOp));
+    });
+
+    it("Transfer the tokens back to or from the payer and recipient when the operations are reverted", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+      const [depositOp, withdrawalOp] = createTestOperations(2).map(testOp => ({ ...testOp, account: user.address }));
+      const counterparty = users[1].address;
+      withdrawalOp.amount = depositOp.amount / 3n;
+      await proveTx(
+        connect(blueprint, manager).depositFrom(counterparty, user.address, depositOp.amount, depositOp.opId)
+      );
+      await proveTx(
+        connect(blueprint, manager).withdrawTo(user.address, counterparty, withdrawalOp.amount, withdrawalOp.opId)
+      );
+
+      await expect(connect(blueprint, manager).revertOperation(withdrawalOp.opId)).to.changeTokenBalances(
+        tokenMock,
+        [user.address, counterparty, operationalTreasury.address],
+        [0, -withdrawalOp.amount, withdrawalOp.amount]
+      );
+      await expect(connect(blueprint, manager).revertOperation(depositOp.opId)).to.changeTokenBalances(
+        tokenMock,
+        [user.address, counterparty, operationalTreasury.address],
+        [0, depositOp.amount, -depositOp.amount]
+      );
+
+      expect(await blueprint.balanceOf(user.address)).to.equal(0n);
+      expect((await blueprint.getOperation(depositOp.opId)).counterparty).to.equal(counterparty);
+    });
+
+    describe("Is reverted if", async () => {
+      it("The caller does not have the manager role", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+
+        await expect(connect(blueprint, stranger).depositFrom(user.address, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(stranger.address, MANAGER_ROLE);
+        await expect(connect(blueprint, stranger).withdrawTo(testOp.account, user.address, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(stranger.address, MANAGER_ROLE);
+      });
+
+      it("The contract is paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await pauseContract(blueprint);
+
+        await expect(connect(blueprint, manager).depositFrom(user.address, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
+        await expect(connect(blueprint, manager).withdrawTo(testOp.account, user.address, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
+      });
+
+      it("The kind of the operation is paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await pauseOperationKind(blueprint, DEPOSIT_OPERATION_KIND);
+        await proveTx(blueprint.pauseOperationKind(WITHDRAWAL_OPERATION_KIND));
+
+        await expect(connect(blueprint, manager).depositFrom(user.address, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_KIND_PAUSED)
+          .withArgs(DEPOSIT_OPERATION_KIND);
+        await expect(connect(blueprint, manager).withdrawTo(testOp.account, user.address, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_KIND_PAUSED)
+          .withArgs(WITHDRAWAL_OPERATION_KIND);
+      });
+
+      it("The provided payer or recipient address is zero", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+
+        await expect(connect(blueprint, manager).depositFrom(ADDRESS_ZERO, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_COUNTERPARTY_ADDRESS_ZERO);
+        await expect(connect(blueprint, manager).withdrawTo(testOp.account, ADDRESS_ZERO, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_COUNTERPARTY_ADDRESS_ZERO);
+      });
+
+      it("The operation with the provided identifier is already executed", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+
+        await expect(connect(blueprint, manager).depositFrom(user.address, testOp.account, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ALREADY_EXECUTED)
+          .withArgs(testOp.opId);
+        await expect(connect(blueprint, manager).withdrawTo(testOp.account, user.address, testOp.amount, testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ALREADY_EXECUTED)
+          .withArgs(testOp.opId);
+      });
+    });
+  });
+
+  describe("Function 'depositBatch()", async () => {
+    it("Executes as expected and emits the correct events", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+      const testOps = createTestOperations(3);
+
+      const tx = connect(blueprint, manager).depositBatch(testOps.map(convertToOperationItem));
+      await proveTx(tx);
+
+      for (const testOp of testOps) {
+        testOp.status = OperationStatus.Deposit;
+        const expectedAccountState: AccountState = { ...defaultAccountState };
+        processOperation(expectedAccountState, testOp);
+        checkEquality(await blueprint.getOperation(testOp.opId), convertToOperation(testOp));
+        checkEquality(await blueprint.getAccountState(testOp.account), expectedAccountState);
+        await expect(tx)
+          .to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED)
+          .withArgs(testOp.opId, testOp.account, testOp.amount, 0);
+      }
+      const totalAmount = testOps.reduce((sum, testOp) => sum + testOp.amount, 0n);
+      await expect(tx).to.changeTokenBalances(
+        tokenMock,
+        [getAddress(blueprint), operationalTreasury.address, ...testOps.map(testOp => testOp.account)],
+        [0, totalAmount, ...testOps.map(testOp => -testOp.amount)]
+      );
+    });
+
+    it("Executes as expected if the list of items is empty", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+
+      await expect(connect(blueprint, manager).depositBatch([]))
+        .not.to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED);
+    });
+
+    describe("Is reverted if", async () => {
+      it("The caller does not have the manager role", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const items = createTestOperations(2).map(convertToOperationItem);
+
+        await expect(connect(blueprint, stranger).depositBatch(items))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(stranger.address, MANAGER_ROLE);
+      });
+
+      it("The contract is paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const items = createTestOperations(2).map(convertToOperationItem);
+        await pauseContract(blueprint);
+
+        await expect(connect(blueprint, manager).depositBatch(items))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
+      });
+
+      it("Deposits are paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const items = createTestOperations(2).map(convertToOperationItem);
+        await pauseOperationKind(blueprint, DEPOSIT_OPERATION_KIND);
+
+        await expect(connect(blueprint, manager).depositBatch(items))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_KIND_PAUSED)
+          .withArgs(DEPOSIT_OPERATION_KIND);
+      });
+
+      it("An item fails, and the batch is reverted with the original error of the item", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const items = createTestOperations(3).map(convertToOperationItem);
+        items[2].opId = items[0].opId;
+
+        await expect(connect(blueprint, manager).depositBatch(items))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ALREADY_EXECUTED)
+          .withArgs(items[0].opId);
+      });
+    });
+  });
+
+  describe("Function 'withdrawBatch()", async () => {
+    it("Executes as expected and emits the correct events", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+      const testOps = createTestOperations(3);
+      const oldBalance = BigInt(TOKEN_AMOUNTS[TOKEN_AMOUNTS.length - 1]);
+      for (const testOp of testOps) {
+        const accountState: AccountState = { ...defaultAccountState, balance: oldBalance };
+        await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
+      }
+
+      const tx = connect(blueprint, manager).withdrawBatch(testOps.map(convertToOperationItem));
+      await proveTx(tx);
+
+      for (const testOp of testOps) {
+        testOp.status = OperationStatus.Withdrawal;
+        const expectedAccountState: AccountState = { ...defaultAccountState, balance: oldBalance };
+        processOperation(expectedAccountState, testOp);
+        checkEquality(await blueprint.getOperation(testOp.opId), convertToOperation(testOp));
+        checkEquality(await blueprint.getAccountState(testOp.account), expectedAccountState);
+        await expect(tx)
+          .to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED)
+          .withArgs(testOp.opId, testOp.account, oldBalance - testOp.amount, oldBalance);
+      }
+      const totalAmount = testOps.reduce((sum, testOp) => sum + testOp.amount, 0n);
+      await expect(tx).to.changeTokenBalances(
+        tokenMock,
+        [getAddress(blueprint), operationalTreasury.address, ...testOps.map(testOp => testOp.account)],
+        [0, -totalAmount, ...testOps.map(testOp => testOp.amount)]
+      );
+    });
+
+    describe("Is reverted if", async () => {
+      it("The caller does not have the manager role", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const items = createTestOperations(2).map(convertToOperationItem);
+
+        await expect(connect(blueprint, stranger).withdrawBatch(items))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(stranger.address, MANAGER_ROLE);
+      });
+
+      it("The contract is paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const items = createTestOperations(2).map(convertToOperationItem);
+        await pauseContract(blueprint);
+
+        await expect(connect(blueprint, manager).withdrawBatch(items))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
+      });
+
+      it("Withdrawals are paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const items = createTestOperations(2).map(convertToOperationItem);
+        await pauseOperationKind(blueprint, WITHDRAWAL_OPERATION_KIND);
+
+        await expect(connect(blueprint, manager).withdrawBatch(items))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_KIND_PAUSED)
+          .withArgs(WITHDRAWAL_OPERATION_KIND);
+      });
+
+      it("An item fails, and the batch is reverted with the original error of the item", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const testOps = createTestOperations(2);
+        const accountState: AccountState = { ...defaultAccountState, balance: testOps[0].amount };
+        await proveTx(blueprint.setAccountState(testOps[0].account, accountState)); // Call via the testable version.
+
+        await expect(connect(blueprint, manager).withdrawBatch(testOps.map(convertToOperationItem)))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_BALANCE_INSUFFICIENT)
+          .withArgs(testOps[1].account, 0n, testOps[1].amount);
+      });
+    });
+  });
+
+  describe("Function 'revertOperation()", async () => {
+    async function executeAndCheckReversal(props: { originalOperationStatus: OperationStatus }) {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+      const [testOp] = createTestOperations();
+      const initialBalance = testOp.amount * 2n;
+      const expectedAccountState: AccountState = { ...defaultAccountState, balance: initialBalance };
+      await proveTx(blueprint.setAccountState(testOp.account, expectedAccountState)); // Call via the testable version.
+      testOp.status = props.originalOperationStatus;
+      if (props.originalOperationStatus === OperationStatus.Deposit) {
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+      } else {
+        await proveTx(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId));
+      }
+      processOperation(expectedAccountState, testOp);
+      const oldBalance = expectedAccountState.balance;
+
+      const tx = connect(blueprint, manager).revertOperation(testOp.opId);
+      await proveTx(tx);
+
+      expectedAccountState.balance = initialBalance;
+      expectedAccountState.operationCount += 1n;
+      testOp.status = props.originalOperationStatus === OperationStatus.Deposit
+        ? OperationStatus.DepositReverted
+        : OperationStatus.WithdrawalReverted;
+      checkEquality(await blueprint.getOperation(testOp.opId), convertToOperation(testOp));
+      checkEquality(await blueprint.getAccountState(testOp.account), expectedAccountState);
+
+      await expect(tx)
+        .to.emit(blueprint, EVENT_NAME_OPERATION_REVERTED)
+        .withArgs(testOp.opId, testOp.account, initialBalance, oldBalance);
+      await expect(tx).not.to.emit(blueprint, EVENT_NAME_BALANCE_UPDATED);
+      await expect(tx).to.changeTokenBalances(
+        tokenMock,
+        [getAddress(blueprint), testOp.account, operationalTreasury.address],
+        [0, oldBalance - initialBalance, -(oldBalance - initialBalance)]
+      );
+    }
+
+    describe("Executes as expected if the original operation is", async () => {
+      it("A deposit", async () => {
+        await executeAndCheckReversal({ originalOperationStatus: OperationStatus.Deposit });
+      });
+
+      it("A withdrawal", async () => {
+        await executeAndCheckReversal({ originalOperationStatus: OperationStatus.Withdrawal });
+      });
+
+      it("A deposit with a fee, and the fee is not refunded", async () => {
+        const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const fee = calculateFee({ rate: FEE_RATE, minimum: FEE_MINIMUM }, testOp.amount);
+        await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+        await proveTx(blueprint.setDepositFeeRule(FEE_RATE, FEE_MINIMUM));
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+
+        const tx = connect(blueprint, manager).revertOperation(testOp.opId);
+        await expect(tx)
+          .to.emit(blueprint, EVENT_NAME_OPERATION_REVERTED)
+          .withArgs(testOp.opId, testOp.account, 0n, testOp.amount);
+        await expect(tx).to.changeTokenBalances(
+          tokenMock,
+          [testOp.account, operationalTreasury.address, feeTreasury.address],
+          [testOp.amount, -testOp.amount, 0]
+        );
+        expect((await blueprint.getOperation(testOp.opId)).fee).to.equal(fee);
+      });
+
+      it("A withdrawal with a fee, and only the amount without the fee is returned", async () => {
+        const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const fee = calculateFee({ rate: FEE_RATE, minimum: FEE_MINIMUM }, testOp.amount);
+        const initialBalance = testOp.amount * 2n;
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, initialBalance, OP_ID_ARRAY[1]));
+        await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+        await proveTx(blueprint.setWithdrawalFeeRule(FEE_RATE, FEE_MINIMUM));
+        await proveTx(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId));
+
+        const tx = connect(blueprint, manager).revertOperation(testOp.opId);
+        await expect(tx)
+          .to.emit(blueprint, EVENT_NAME_OPERATION_REVERTED)
+          .withArgs(testOp.opId, testOp.account, initialBalance - fee, initialBalance - testOp.amount);
+        await expect(tx).to.changeTokenBalances(
+          tokenMock,
+          [testOp.account, operationalTreasury.address, feeTreasury.address],
+          [-(testOp.amount - fee), testOp.amount - fee, 0]
+        );
+        expect(await blueprint.balanceOf(testOp.account)).to.equal(initialBalance - fee);
+      });
+
+      it("A deposit of an additional token", async () => {
+        const { blueprint, tokenMock, secondTokenMock } =
+          await setUpFixture(deployAndConfigureContractsWithSecondToken);
+        const token = getAddress(secondTokenMock);
+        const amount = BigInt(TOKEN_AMOUNT);
+        const opId = OP_ID_ARRAY[0];
+        await proveTx(connect(blueprint, manager).depositToken(token, user.address, amount, opId));
+
+        const tx = connect(blueprint, manager).revertOperation(opId);
+        await expect(tx)
+          .to.emit(blueprint, EVENT_NAME_TOKEN_OPERATION_REVERTED)
+          .withArgs(opId, user.address, token, 0n, amount);
+        await expect(tx).not.to.emit(blueprint, EVENT_NAME_OPERATION_REVERTED);
+        await expect(tx).to.changeTokenBalances(
+          secondTokenMock,
+          [user.address, operationalTreasury.address],
+          [amount, -amount]
+        );
+        await expect(tx).to.changeTokenBalances(tokenMock, [user.address, operationalTreasury.address], [0, 0]);
+
+        expect((await blueprint.getOperation(opId)).status).to.equal(OperationStatus.DepositReverted);
+        expect(await blueprint.balanceOfToken(user.address, token)).to.equal(0n);
+      });
+
+      it("A withdrawal, and the reversal exceeds the operation and daily limits of the account", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+        await proveTx(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId));
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits({
+          maxBalance: 0n,
+          maxOperationAmount: 1n,
+          maxDailyDeposit: 1n,
+          maxDailyWithdrawal: 1n
+        }));
+
+        await proveTx(connect(blueprint, manager).revertOperation(testOp.opId));
+
+        expect(await blueprint.balanceOf(testOp.account)).to.equal(testOp.amount);
+      });
+
+      it("A deposit and a withdrawal included in the daily volume, and the volume is reduced", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [depositOp, withdrawalOp] = createTestOperations(2).map(testOp => ({ ...testOp, account: user.address }));
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits({
+          ...defaultLimits,
+          maxDailyDeposit: depositOp.amount * 10n,
+          maxDailyWithdrawal: withdrawalOp.amount * 10n
+        }));
+        const day = await increaseTimeToNextDay();
+        await proveTx(connect(blueprint, manager).deposit(user.address, depositOp.amount, OP_ID_ARRAY[2]));
+        await proveTx(connect(blueprint, manager).deposit(user.address, depositOp.amount, depositOp.opId));
+        await proveTx(connect(blueprint, manager).withdraw(user.address, withdrawalOp.amount, withdrawalOp.opId));
+
+        await proveTx(connect(blueprint, manager).revertOperation(withdrawalOp.opId));
+        await proveTx(connect(blueprint, manager).revertOperation(depositOp.opId));
+
+        checkEquality<DailyVolume>(await blueprint.getDailyVolume(user.address), {
+          day,
+          depositVolume: depositOp.amount,
+          withdrawalVolume: 0n
+        });
+      });
+
+      it("A deposit included in the volume of a previous day, and the current volume is not changed", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits({
+          ...defaultLimits,
+          maxDailyDeposit: testOp.amount * 10n
+        }));
+        await increaseTimeToNextDay();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+        const day = await increaseTimeToNextDay();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+
+        await proveTx(connect(blueprint, manager).revertOperation(testOp.opId));
+
+        checkEquality<DailyVolume>(await blueprint.getDailyVolume(testOp.account), {
+          day,
+          depositVolume: testOp.amount,
+          withdrawalVolume: 0n
+        });
+      });
+    });
+
+    describe("Is reverted if", async () => {
+      it("The caller does not have the manager role", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+
+        await expect(connect(blueprint, stranger).revertOperation(testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(stranger.address, MANAGER_ROLE);
+
+        // Even if it is called by a deployer
+        await expect(connect(blueprint, deployer).revertOperation(testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+          .withArgs(deployer.address, MANAGER_ROLE);
+      });
+
+      it("The contract is paused", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+        await pauseContract(blueprint);
+
+        await expect(connect(blueprint, manager).revertOperation(testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Enforced_Pause);
+      });
+
+      it("The operational treasury is not configured", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+        await proveTx(blueprint.setOperationalTreasury(ADDRESS_ZERO));
+
+        await expect(connect(blueprint, manager).revertOperation(testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATIONAL_TREASURY_ADDRESS_ZERO);
+      });
+
+      it("The account of the operation is frozen", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+        await proveTx(connect(blueprint, freezer).freezeAccount(testOp.account, FREEZE_REASON_CODE));
+
+        await expect(connect(blueprint, manager).revertOperation(testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_FROZEN)
+          .withArgs(testOp.account);
+      });
+
+      it("The operation with the provided identifier does not exist", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+
+        await expect(connect(blueprint, manager).revertOperation(testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_NONEXISTENT)
+          .withArgs(testOp.opId);
+      });
+
+      it("The operation with the provided identifier is already reverted", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+        await proveTx(connect(blueprint, manager).revertOperation(testOp.opId));
+
+        await expect(connect(blueprint, manager).revertOperation(testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_OPERATION_ALREADY_REVERTED)
+          .withArgs(testOp.opId);
+      });
+
+      it("The reversal of a deposit would make the account balance negative", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+        await proveTx(connect(blueprint, manager).withdraw(testOp.account, 1n, OP_ID_ARRAY[1]));
+
+        await expect(connect(blueprint, manager).revertOperation(testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_BALANCE_INSUFFICIENT)
+          .withArgs(testOp.account, testOp.amount - 1n, testOp.amount);
+      });
+
+      it("The reversal of a withdrawal would make the balance greater than 64-bit unsigned integer", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        const accountState: AccountState = { ...defaultAccountState, balance: testOp.amount };
+        await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
+        await proveTx(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId));
+        accountState.balance = maxUintForBits(64) - testOp.amount + 1n;
+        await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
+
+        await expect(connect(blueprint, manager).revertOperation(testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_BALANCE_EXCESS);
+      });
+
+      it("The reversal of a withdrawal would make the balance greater than the limit of the account", async () => {
+        const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+        await proveTx(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId));
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, 1n, OP_ID_ARRAY[2]));
+        await proveTx(connect(blueprint, limitsAdmin).setAccountLimits(testOp.account, {
+          ...defaultLimits,
+          maxBalance: testOp.amount
+        }));
+
+        await expect(connect(blueprint, manager).revertOperation(testOp.opId))
+          .to.be.revertedWithCustomError(blueprint, ERROR_NAME_BALANCE_LIMIT_EXCEEDED)
+          .withArgs(testOp.account, testOp.amount + 1n, testOp.amount);
+      });
+    });
+  });
+
+  describe("Function 'freezeAccount()", async () => {
+    it("Executes as expected and emits the correct event", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+
+      await expect(connect(blueprint, freezer).freezeAccount(user.address, FREEZE_REASON_CODE))
+        .to.emit(blueprint, EVENT_NAME_ACCOUNT_FROZEN)
+        .withArgs(user.address, FREEZE_REASON_CODE);
+
+      expect(await blueprint.isAccountFrozen(user.address)).to.equal(true);
+      expect(await blueprint.isAccountFrozen(stranger.address)).to.equal(false);
+    });
+
+    it("Executes as expected even if the contract is paused", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      await pauseContract(blueprint);
+
+      await proveTx(connect(blueprint, freezer).freezeAccount(user.address, FREEZE_REASON_CODE));
+
+      expect(await blueprint.isAccountFrozen(user.address)).to.equal(true);
+    });
+
+    it("Is reverted if the caller does not have the freezer role", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+
+      await expect(connect(blueprint, stranger).freezeAccount(user.address, FREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(stranger.address, FREEZER_ROLE);
+
+      // Even if it is called by the owner
+      await expect(connect(blueprint, deployer).freezeAccount(user.address, FREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(deployer.address, FREEZER_ROLE);
+    });
+
+    it("Is reverted if the provided account address is zero", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+
+      await expect(connect(blueprint, freezer).freezeAccount(ADDRESS_ZERO, FREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_ADDRESS_ZERO);
+    });
+
+    it("Is reverted if the account is already frozen", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      await proveTx(connect(blueprint, freezer).freezeAccount(user.address, FREEZE_REASON_CODE));
+
+      await expect(connect(blueprint, freezer).freezeAccount(user.address, FREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_ALREADY_FROZEN)
+        .withArgs(user.address);
+    });
+  });
+
+  describe("Function 'freezeAccountBatch()", async () => {
+    it("Executes as expected and emits the correct events", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const accounts = users.slice(0, 3).map(signer => signer.address);
+
+      const tx = connect(blueprint, freezer).freezeAccountBatch(accounts, FREEZE_REASON_CODE);
+      await proveTx(tx);
+
+      for (const account of accounts) {
+        await expect(tx).to.emit(blueprint, EVENT_NAME_ACCOUNT_FROZEN).withArgs(account, FREEZE_REASON_CODE);
+        expect(await blueprint.isAccountFrozen(account)).to.equal(true);
+      }
+    });
+
+    it("Is reverted if the caller does not have the freezer role", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+
+      await expect(connect(blueprint, stranger).freezeAccountBatch([user.address], FREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(stranger.address, FREEZER_ROLE);
+    });
+
+    it("Is reverted if one of the accounts is already frozen", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const accounts = users.slice(0, 3).map(signer => signer.address);
+      await proveTx(connect(blueprint, freezer).freezeAccount(accounts[1], FREEZE_REASON_CODE));
+
+      await expect(connect(blueprint, freezer).freezeAccountBatch(accounts, FREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_ALREADY_FROZEN)
+        .withArgs(accounts[1]);
+    });
+  });
+
+  describe("Function 'unfreezeAccount()", async () => {
+    it("Executes as expected and emits the correct event", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const [testOp] = createTestOperations();
+      await proveTx(connect(blueprint, freezer).freezeAccount(testOp.account, FREEZE_REASON_CODE));
+
+      await expect(connect(blueprint, freezer).unfreezeAccount(testOp.account, UNFREEZE_REASON_CODE))
+        .to.emit(blueprint, EVENT_NAME_ACCOUNT_UNFROZEN)
+        .withArgs(testOp.account, UNFREEZE_REASON_CODE);
+
+      expect(await blueprint.isAccountFrozen(testOp.account)).to.equal(false);
+
+      // Operations are allowed again
+      await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+    });
+
+    it("Is reverted if the caller does not have the freezer role", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      await proveTx(connect(blueprint, freezer).freezeAccount(user.address, FREEZE_REASON_CODE));
+
+      await expect(connect(blueprint, stranger).unfreezeAccount(user.address, UNFREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(stranger.address, FREEZER_ROLE);
+    });
+
+    it("Is reverted if the account is not frozen", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+
+      await expect(connect(blueprint, freezer).unfreezeAccount(user.address, UNFREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_NOT_FROZEN)
+        .withArgs(user.address);
+    });
+  });
+
+  describe("Function 'unfreezeAccountBatch()", async () => {
+    it("Executes as expected and emits the correct events", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const accounts = users.slice(0, 3).map(signer => signer.address);
+      await proveTx(connect(blueprint, freezer).freezeAccountBatch(accounts, FREEZE_REASON_CODE));
+
+      const tx = connect(blueprint, freezer).unfreezeAccountBatch(accounts, UNFREEZE_REASON_CODE);
+      await proveTx(tx);
+
+      for (const account of accounts) {
+        await expect(tx).to.emit(blueprint, EVENT_NAME_ACCOUNT_UNFROZEN).withArgs(account, UNFREEZE_REASON_CODE);
+        expect(await blueprint.isAccountFrozen(account)).to.equal(false);
+      }
+    });
+
+    it("Is reverted if the caller does not have the freezer role", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+
+      await expect(connect(blueprint, stranger).unfreezeAccountBatch([user.address], UNFREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(stranger.address, FREEZER_ROLE);
+    });
+
+    it("Is reverted if one of the accounts is not frozen", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const accounts = users.slice(0, 3).map(signer => signer.address);
+      await proveTx(connect(blueprint, freezer).freezeAccount(accounts[0], FREEZE_REASON_CODE));
+
+      await expect(connect(blueprint, freezer).unfreezeAccountBatch(accounts, UNFREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_ACCOUNT_NOT_FROZEN)
+        .withArgs(accounts[1]);
+    });
+  });
+
+  describe("The freezer role", async () => {
+    it("Is granted and revoked only by an account with the grantor role", async () => {
+      const { blueprint } = await setUpFixture(deployContracts);
+
+      // The owner cannot grant the role without having the grantor role
+      await expect(blueprint.grantRole(FREEZER_ROLE, freezer.address))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(deployer.address, GRANTOR_ROLE);
+
+      await proveTx(blueprint.grantRole(GRANTOR_ROLE, deployer.address));
+      await proveTx(blueprint.grantRole(FREEZER_ROLE, freezer.address));
+      expect(await blueprint.hasRole(FREEZER_ROLE, freezer.address)).to.equal(true);
+
+      // The freezer cannot grant its own role
+      await expect(connect(blueprint, freezer).grantRole(FREEZER_ROLE, stranger.address))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(freezer.address, GRANTOR_ROLE);
+
+      // A revoked freezer cannot freeze accounts anymore
+      await proveTx(blueprint.revokeRole(FREEZER_ROLE, freezer.address));
+      await expect(connect(blueprint, freezer).freezeAccount(user.address, FREEZE_REASON_CODE))
+        .to.be.revertedWithCustomError(blueprint, ERROR_NAME_Access_Control_Unauthorized_Account)
+        .withArgs(freezer.address, FREEZER_ROLE);
+    });
+  });
+
+  describe("Function 'getDailyVolume()", async () => {
+    it("Returns the volume of the current day only", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const [testOp] = createTestOperations();
+      await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits({
+        ...defaultLimits,
+        maxDailyDeposit: testOp.amount * 10n
+      }));
+      const day = await increaseTimeToNextDay();
+      await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+
+      checkEquality<DailyVolume>(await blueprint.getDailyVolume(testOp.account), {
+        day,
+        depositVolume: testOp.amount,
+        withdrawalVolume: 0n
+      });
+
+      await increaseTimeToNextDay();
+      checkEquality<DailyVolume>(await blueprint.getDailyVolume(testOp.account), {
+        day: day + 1n,
+        depositVolume: 0n,
+        withdrawalVolume: 0n
+      });
+    });
+
+    it("Does not track the volume if the related daily limit is not applied", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const [testOp] = createTestOperations();
+      const day = await increaseTimeToNextDay();
+      await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+
+      checkEquality<DailyVolume>(await blueprint.getDailyVolume(testOp.account), {
+        day,
+        depositVolume: 0n,
+        withdrawalVolume: 0n
+      });
+    });
+  });
+
+  describe("Functions 'getAccountOperationIds()' and 'getAccountOperations()", async () => {
+    async function executeOperations(blueprint: Contract): Promise<TestOperation[]> {
+      const testOps = createTestOperations(OP_ID_ARRAY.length).map(testOp => ({ ...testOp, account: user.address }));
+      for (const [i, testOp] of testOps.entries()) {
+        if (i % 2 === 0) {
+          testOp.status = OperationStatus.Deposit;
+          await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+        } else {
+          testOp.status = OperationStatus.Withdrawal;
+          testOp.amount = 1n;
+          await proveTx(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId));
+        }
+      }
+      return testOps;
+    }
+
+    it("Return the pages of the operations of an account in the execution order", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const testOps = await executeOperations(blueprint);
+      const opIds = testOps.map(testOp => testOp.opId);
+
+      expect(await blueprint.getAccountOperationIds(user.address, 0, 100)).to.deep.equal(opIds);
+      expect(await blueprint.getAccountOperationIds(user.address, 1, 2)).to.deep.equal(opIds.slice(1, 3));
+      expect(await blueprint.getAccountOperationIds(user.address, 3, 100)).to.deep.equal(opIds.slice(3));
+      expect(await blueprint.getAccountOperationIds(user.address, opIds.length, 100)).to.deep.equal([]);
+      expect(await blueprint.getAccountOperationIds(user.address, 0, 0)).to.deep.equal([]);
+      expect(await blueprint.getAccountOperationIds(stranger.address, 0, 100)).to.deep.equal([]);
+
+      const operations = await blueprint.getAccountOperations(user.address, 1, 3);
+      expect(operations.length).to.equal(3);
+      for (let i = 0; i < operations.length; ++i) {
+        checkEquality(operations[i], convertToOperation(testOps[i + 1]));
+      }
+      expect(await blueprint.getAccountOperations(user.address, opIds.length, 1)).to.deep.equal([]);
+    });
+
+    it("Do not return a reversal as a separate operation unlike the operation count", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const testOps = await executeOperations(blueprint);
+      await proveTx(connect(blueprint, manager).revertOperation(testOps[1].opId));
+
+      expect(await blueprint.getAccountOperationIds(user.address, 0, 100))
+        .to.deep.equal(testOps.map(testOp => testOp.opId));
+      const [operation] = await blueprint.getAccountOperations(user.address, 1, 1);
+      expect(operation.status).to.equal(OperationStatus.WithdrawalReverted);
+
+      // The reversal is counted as an operation of the account state in addition to the original operation
+      const accountState = await blueprint.getAccountState(user.address);
+      expect(accountState.operationCount).to.equal(testOps.length + 1);
+      expect(accountState.lastOpId).to.equal(testOps[1].opId);
+    });
+
+    it("Return the operations with all tokens unlike the operation counts kept for each token", async () => {
+      const { blueprint, secondTokenMock } = await setUpFixture(deployAndConfigureContractsWithSecondToken);
+      const token = getAddress(secondTokenMock);
+      const [firstOpId, secondOpId, thirdOpId] = OP_ID_ARRAY;
+      await proveTx(connect(blueprint, manager).deposit(user.address, TOKEN_AMOUNT, firstOpId));
+      await proveTx(connect(blueprint, manager).depositToken(token, user.address, TOKEN_AMOUNT, secondOpId));
+      await proveTx(connect(blueprint, manager).withdrawToken(token, user.address, TOKEN_AMOUNT, thirdOpId));
+      await proveTx(connect(blueprint, manager).revertOperation(thirdOpId));
+
+      expect(await blueprint.getAccountOperationIds(user.address, 0, 100))
+        .to.deep.equal([firstOpId, secondOpId, thirdOpId]);
+      expect((await blueprint.getAccountState(user.address)).operationCount).to.equal(1);
+      expect((await blueprint.getAccountTokenState(user.address, token)).operationCount).to.equal(3);
+    });
+
+    it("Keep the gas of deposits within the budget", async function () {
+      // The coverage instrumentation increases the gas consumption, so the budgets are not applicable
+      if ((hre as unknown as { __SOLIDITY_COVERAGE_RUNNING?: boolean }).__SOLIDITY_COVERAGE_RUNNING) {
+        this.skip();
+      }
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const [firstOpId, nextOpId] = OP_ID_ARRAY;
+
+      const firstReceipt = await proveTx(connect(blueprint, manager).deposit(user.address, TOKEN_AMOUNT, firstOpId));
+      const nextReceipt = await proveTx(connect(blueprint, manager).deposit(user.address, TOKEN_AMOUNT, nextOpId));
+
+      expect(firstReceipt.gasUsed).to.be.lessThanOrEqual(DEPOSIT_GAS_BUDGET_FIRST);
+      expect(nextReceipt.gasUsed).to.be.lessThanOrEqual(DEPOSIT_GAS_BUDGET_NEXT);
+    });
+  });
+
+  describe("Function 'BlueprintLens.constructor()'", async () => {
+    it("Binds the lens to the provided blueprint contract", async () => {
+      const { blueprint, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+
+      expect(await lens.blueprint()).to.equal(getAddress(blueprint));
+    });
+
+    describe("Is reverted if", async () => {
+      it("The provided blueprint address is zero", async () => {
+        const lensFactory = await ethers.getContractFactory("BlueprintLens");
+
+        await expect(lensFactory.deploy(ADDRESS_ZERO))
+          .to.be.revertedWithCustomError(lensFactory, ERROR_NAME_BLUEPRINT_ADDRESS_ZERO);
+      });
+
+      it("The provided address is not a blueprint contract", async () => {
+        const { tokenMock } = await setUpFixture(deployAndConfigureContracts);
+        const lensFactory = await ethers.getContractFactory("BlueprintLens");
+
+        await expect(lensFactory.deploy(getAddress(tokenMock))).to.be.revertedWithoutReason();
+      });
+    });
+  });
+
+  describe("Function 'BlueprintLens.previewDeposit()", async () => {
+    async function checkPreview(lens: Contract, testOp: TestOperation, expectedResult: PreviewResult) {
+      const [result, newBalance] = await lens.previewDeposit(testOp.account, testOp.amount, testOp.opId);
+      expect(result).to.equal(expectedResult);
+      expect(newBalance).to.equal(0n);
+    }
+
+    it("Returns the balance after the deposit if it can be executed", async () => {
+      const { blueprint, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+      const [testOp] = createTestOperations();
+      await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+      await proveTx(blueprint.setDepositFeeRule(FEE_RATE, FEE_MINIMUM));
+      await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+
+      const [result, newBalance] = await lens.previewDeposit(testOp.account, testOp.amount, testOp.opId);
+      expect(result).to.equal(PreviewResult.Success);
+      expect(newBalance).to.equal(testOp.amount * 2n);
+
+      await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+      expect(await blueprint.balanceOf(testOp.account)).to.equal(newBalance);
+    });
+
+    describe("Returns the reason code if", async () => {
+      it("The contract is paused", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+        const [testOp] = createTestOperations();
+        await pauseContract(blueprint);
+
+        await checkPreview(lens, testOp, PreviewResult.ContractPaused);
+      });
+
+      it("Deposits are paused", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+        const [testOp] = createTestOperations();
+        await pauseOperationKind(blueprint, DEPOSIT_OPERATION_KIND);
+
+        await checkPreview(lens, testOp, PreviewResult.ContractPaused);
+      });
+
+      it("The parameters of the operation are invalid", async () => {
+        const { lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+        const [testOp] = createTestOperations();
+
+        await checkPreview(lens, { ...testOp, account: ADDRESS_ZERO }, PreviewResult.AccountAddressZero);
+        await checkPreview(lens, { ...testOp, opId: OP_ID_ZERO }, PreviewResult.OperationIdZero);
+        await checkPreview(lens, { ...testOp, amount: maxUintForBits(64) + 1n }, PreviewResult.AmountExcess);
+      });
+
+      it("The account is frozen", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, freezer).freezeAccount(testOp.account, FREEZE_REASON_CODE));
+
+        await checkPreview(lens, testOp, PreviewResult.AccountFrozen);
+      });
+
+      it("The operational treasury is not configured", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+        const [testOp] = createTestOperations();
+        await proveTx(blueprint.setOperationalTreasury(ADDRESS_ZERO));
+
+        await checkPreview(lens, testOp, PreviewResult.OperationalTreasuryAddressZero);
+      });
+
+      it("The operation with the provided identifier is already executed", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, testOp.amount, testOp.opId));
+
+        await checkPreview(lens, testOp, PreviewResult.OperationAlreadyExecuted);
+      });
+
+      it("The result account balance is greater than 64-bit unsigned integer", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+        const [testOp] = createTestOperations();
+        const accountState: AccountState = { ...defaultAccountState, balance: maxUintForBits(64) };
+        await proveTx(blueprint.setAccountState(testOp.account, accountState)); // Call via the testable version.
+
+        await checkPreview(lens, testOp, PreviewResult.BalanceExcess);
+      });
+
+      it("The operation exceeds the limits applied to the account", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+        const [testOp] = createTestOperations();
+        const limits: Limits = { ...defaultLimits, maxOperationAmount: testOp.amount - 1n };
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits(limits));
+        await checkPreview(lens, testOp, PreviewResult.OperationAmountLimitExceeded);
+
+        limits.maxOperationAmount = 0n;
+        limits.maxBalance = testOp.amount - 1n;
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits(limits));
+        await checkPreview(lens, testOp, PreviewResult.BalanceLimitExceeded);
+
+        limits.maxBalance = 0n;
+        limits.maxDailyDeposit = testOp.amount + 1n;
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits(limits));
+        await proveTx(connect(blueprint, manager).deposit(testOp.account, 2n, OP_ID_ARRAY[1]));
+        await checkPreview(lens, testOp, PreviewResult.DailyDepositLimitExceeded);
+
+        // The volume of the previous days is not taken into account
+        await increaseTimeToNextDay();
+        const [result] = await lens.previewDeposit(testOp.account, testOp.amount, testOp.opId);
+        expect(result).to.equal(PreviewResult.Success);
+      });
+
+      it("The fee is non-zero, but the fee treasury is not configured", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+        const [testOp] = createTestOperations();
+        await proveTx(blueprint.setDepositFeeRule(FEE_RATE, FEE_MINIMUM));
+
+        await checkPreview(lens, testOp, PreviewResult.FeeTreasuryAddressZero);
+      });
+
+      it("The allowance of the account does not cover the amount and the fee", async () => {
+        const { blueprint, tokenMock, lens } = await setUpFixture(deployAndConfigureContractsWithLens);
+        const [testOp] = createTestOperations();
+        await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+        await proveTx(blueprint.setDepositFeeRule(FEE_RATE, FEE_MINIMUM));
+        const allowance = testOp.amount + calculateFee({ rate: FEE_RATE, minimum: FEE_MINIMUM }, testOp.amount) - 1n;
+        await proveTx(connect(tokenMock, users[0]).approve(getAddress(blueprint), allowance));
+
+        await checkPreview(lens, testOp, PreviewResult.AccountAllowanceInsufficient);
+      });
+    });
+  });
+
+  describe("Function 'BlueprintLens.previewWithdraw()", async () => {
+    async function checkPreview(lens: Contract, testOp: TestOperation, expectedResult: PreviewResult) {
+      const [result, newBalance] = await lens.previewWithdraw(testOp.account, testOp.amount, testOp.opId);
+      expect(result).to.equal(expectedResult);
+      expect(newBalance).to.equal(0n);
+    }
+
+    async function deployAndDeposit(): Promise<LensFixture> {
+      const fixture = await deployAndConfigureContractsWithLens();
+      const [testOp] = createTestOperations();
+      await proveTx(connect(fixture.blueprint, manager).deposit(testOp.account, testOp.amount, OP_ID_ARRAY[1]));
+      return fixture;
+    }
+
+    it("Returns the balance after the withdrawal if it can be executed", async () => {
+      const { blueprint, lens } = await setUpFixture(deployAndDeposit);
+      const [testOp] = createTestOperations();
+      const amount = testOp.amount / 3n;
+
+      const [result, newBalance] = await lens.previewWithdraw(testOp.account, amount, testOp.opId);
+      expect(result).to.equal(PreviewResult.Success);
+      expect(newBalance).to.equal(testOp.amount - amount);
+
+      await proveTx(connect(blueprint, manager).withdraw(testOp.account, amount, testOp.opId));
+      expect(await blueprint.balanceOf(testOp.account)).to.equal(newBalance);
+    });
+
+    it("Does not require the allowance of the account because the fee is deducted from the amount", async () => {
+      const { blueprint, tokenMock, lens } = await setUpFixture(deployAndDeposit);
+      const [testOp] = createTestOperations();
+      await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+      await proveTx(blueprint.setWithdrawalFeeRule(FEE_RATE, FEE_MINIMUM));
+      await proveTx(connect(tokenMock, users[0]).approve(getAddress(blueprint), 0n));
+
+      const [result] = await lens.previewWithdraw(testOp.account, testOp.amount, testOp.opId);
+      expect(result).to.equal(PreviewResult.Success);
+      await proveTx(connect(blueprint, manager).withdraw(testOp.account, testOp.amount, testOp.opId));
+    });
+
+    describe("Returns the reason code if", async () => {
+      it("Withdrawals are paused", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndDeposit);
+        const [testOp] = createTestOperations();
+        await pauseOperationKind(blueprint, WITHDRAWAL_OPERATION_KIND);
+
+        await checkPreview(lens, testOp, PreviewResult.ContractPaused);
+      });
+
+      it("The balance of the account is less than the amount", async () => {
+        const { lens } = await setUpFixture(deployAndDeposit);
+        const [testOp] = createTestOperations();
+
+        await checkPreview(lens, { ...testOp, amount: testOp.amount + 1n }, PreviewResult.BalanceInsufficient);
+      });
+
+      it("The daily volume of withdrawals would exceed the limit", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndDeposit);
+        const [testOp] = createTestOperations();
+        const limits: Limits = { ...defaultLimits, maxDailyWithdrawal: testOp.amount - 1n };
+        await proveTx(connect(blueprint, limitsAdmin).setDefaultLimits(limits));
+
+        await checkPreview(lens, testOp, PreviewResult.DailyWithdrawalLimitExceeded);
+      });
+
+      it("The allowance of the operational treasury does not cover the amount", async () => {
+        const { blueprint, tokenMock, lens } = await setUpFixture(deployAndDeposit);
+        const [testOp] = createTestOperations();
+        await proveTx(connect(tokenMock, operationalTreasury).approve(getAddress(blueprint), testOp.amount - 1n));
+
+        await checkPreview(lens, testOp, PreviewResult.TreasuryAllowanceInsufficient);
+      });
+
+      it("The fee is greater than the amount", async () => {
+        const { blueprint, lens } = await setUpFixture(deployAndDeposit);
+        const [testOp] = createTestOperations();
+        await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+        await proveTx(blueprint.setWithdrawalFeeRule(0, testOp.amount + 1n));
+
+        await checkPreview(lens, testOp, PreviewResult.WithdrawalFeeExcess);
+      });
     });
   });
 
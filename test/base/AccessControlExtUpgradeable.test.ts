@@ -1,32 +1,20 @@
 import { ethers, upgrades } from "hardhat";
 import { expect } from "chai";
-import { Contract, TransactionResponse } from "ethers";
+import { Contract } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { connect, proveTx } from "../../test-utils/eth";
-import { setUpFixture } from "../../test-utils/common";
+import { connect } from "../../test-utils/eth";
+import { BehaviorFixture, setUpFixture } from "../../test-utils/common";
+import { shouldBehaveLikeAccessControlExt } from "../../test-utils/behaviors/AccessControlExtUpgradeable.behavior";
 
 describe("Contract 'AccessControlExtUpgradeable'", async () => {
-  // Events of the library contracts
-  const EVENT_NAME_ROLE_GRANTED = "RoleGranted";
-  const EVENT_NAME_ROLE_REVOKED = "RoleRevoked";
-
   // Errors of the library contracts
-  const ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT = "AccessControlUnauthorizedAccount";
   const ERROR_NAME_INVALID_INITIALIZATION = "InvalidInitialization";
   const ERROR_NAME_NOT_INITIALIZING = "NotInitializing";
 
-  const OWNER_ROLE: string = ethers.id("OWNER_ROLE");
-  const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
-  const USER_ROLE: string = ethers.id("USER_ROLE");
-
   let deployer: HardhatEthersSigner;
-  let attacker: HardhatEthersSigner;
-  let users: HardhatEthersSigner[];
-  let userAddresses: string[];
 
   before(async () => {
-    [deployer, attacker, ...users] = await ethers.getSigners();
-    userAddresses = [users[0].address, users[1].address, users[2].address];
+    [deployer] = await ethers.getSigners();
   });
 
   async function deployAccessControlExtMock(): Promise<{ accessControlExtMock: Contract }> {
@@ -42,33 +30,14 @@ describe("Contract 'AccessControlExtUpgradeable'", async () => {
     return { accessControlExtMock };
   }
 
-  async function deployAndConfigureAccessControlExtMock(): Promise<{ accessControlExtMock: Contract }> {
+  async function deployAccessControlExtMockForBehavior(): Promise<BehaviorFixture> {
     const { accessControlExtMock } = await deployAccessControlExtMock();
-    await proveTx(accessControlExtMock.grantRole(GRANTOR_ROLE, deployer.address));
-
-    return { accessControlExtMock };
+    return { contract: accessControlExtMock, owner: deployer };
   }
 
-  describe("Function 'initialize()' and internal initializers", async () => {
-    it("The external initializer configures the contract as expected", async () => {
-      const { accessControlExtMock } = await setUpFixture(deployAccessControlExtMock);
-
-      // The role hashes
-      expect((await accessControlExtMock.OWNER_ROLE()).toLowerCase()).to.equal(OWNER_ROLE);
-      expect((await accessControlExtMock.GRANTOR_ROLE()).toLowerCase()).to.equal(GRANTOR_ROLE);
-      expect((await accessControlExtMock.USER_ROLE()).toLowerCase()).to.equal(USER_ROLE);
-
-      // The role admins
-      expect(await accessControlExtMock.getRoleAdmin(OWNER_ROLE)).to.equal(OWNER_ROLE);
-      expect(await accessControlExtMock.getRoleAdmin(GRANTOR_ROLE)).to.equal(OWNER_ROLE);
-      expect(await accessControlExtMock.getRoleAdmin(USER_ROLE)).to.equal(GRANTOR_ROLE);
-
-      // The deployer should have the owner role, but not the other roles
-      expect(await accessControlExtMock.hasRole(OWNER_ROLE, deployer.address)).to.equal(true);
-      expect(await accessControlExtMock.hasRole(GRANTOR_ROLE, deployer.address)).to.equal(false);
-      expect(await accessControlExtMock.hasRole(USER_ROLE, deployer.address)).to.equal(false);
-    });
+  shouldBehaveLikeAccessControlExt(deployAccessControlExtMockForBehavior, { grantorManagedRoles: ["USER_ROLE"] });
 
+  describe("Function 'initialize()' and internal initializers", async () => {
     it("The external initializer is reverted if it is called a second time", async () => {
       const { accessControlExtMock } = await setUpFixture(deployAccessControlExtMock);
       await expect(accessControlExtMock.initialize())
@@ -81,121 +50,4 @@ describe("Contract 'AccessControlExtUpgradeable'", async () => {
         .to.be.revertedWithCustomError(accessControlExtMock, ERROR_NAME_NOT_INITIALIZING);
     });
   });
-
-  describe("Function 'grantRoleBatch()'", async () => {
-    describe("Executes as expected if the input account array contains", async () => {
-      it("A single account without the previously granted role", async () => {
-        const { accessControlExtMock } = await setUpFixture(deployAndConfigureAccessControlExtMock);
-        expect(await accessControlExtMock.hasRole(USER_ROLE, userAddresses[0])).to.equal(false);
-
-        await expect(accessControlExtMock.grantRoleBatch(USER_ROLE, [userAddresses[0]]))
-          .to.emit(accessControlExtMock, EVENT_NAME_ROLE_GRANTED)
-          .withArgs(USER_ROLE, userAddresses[0], deployer.address);
-
-        expect(await accessControlExtMock.hasRole(USER_ROLE, userAddresses[0])).to.equal(true);
-      });
-
-      it("A single account with the previously granted role", async () => {
-        const { accessControlExtMock } = await setUpFixture(deployAndConfigureAccessControlExtMock);
-        await proveTx(accessControlExtMock.grantRoleBatch(USER_ROLE, [userAddresses[0]]));
-        expect(await accessControlExtMock.hasRole(USER_ROLE, userAddresses[0])).to.equal(true);
-
-        await expect(accessControlExtMock.grantRoleBatch(USER_ROLE, [userAddresses[0]]))
-          .not.to.emit(accessControlExtMock, EVENT_NAME_ROLE_GRANTED);
-      });
-
-      it("Multiple accounts without the previously granted role", async () => {
-        const { accessControlExtMock } = await setUpFixture(deployAndConfigureAccessControlExtMock);
-        for (const userAddress of userAddresses) {
-          expect(await accessControlExtMock.hasRole(USER_ROLE, userAddress)).to.equal(false);
-        }
-
-        const tx: Promise<TransactionResponse> = accessControlExtMock.grantRoleBatch(USER_ROLE, userAddresses);
-
-        for (const userAddress of userAddresses) {
-          await expect(tx)
-            .to.emit(accessControlExtMock, EVENT_NAME_ROLE_GRANTED)
-            .withArgs(USER_ROLE, userAddress, deployer.address);
-          expect(await accessControlExtMock.hasRole(USER_ROLE, userAddress)).to.equal(true);
-        }
-      });
-
-      it("No accounts", async () => {
-        const { accessControlExtMock } = await setUpFixture(deployAndConfigureAccessControlExtMock);
-
-        await expect(accessControlExtMock.grantRoleBatch(USER_ROLE, []))
-          .not.to.emit(accessControlExtMock, EVENT_NAME_ROLE_GRANTED);
-      });
-    });
-
-    describe("Is reverted if", async () => {
-      it("The caller does not have the expected admin role", async () => {
-        const { accessControlExtMock } = await setUpFixture(deployAndConfigureAccessControlExtMock);
-
-        const accessControlExtMockViaAttacker = connect(accessControlExtMock, attacker);
-        await expect(accessControlExtMockViaAttacker.grantRoleBatch(USER_ROLE, []))
-          .to.be.revertedWithCustomError(accessControlExtMock, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
-          .withArgs(attacker.address, GRANTOR_ROLE);
-      });
-    });
-  });
-
-  describe("Function 'revokeRoleBatch()'", async () => {
-    describe("Executes as expected if the input account array contains", async () => {
-      it("A single account with the previously granted role", async () => {
-        const { accessControlExtMock } = await setUpFixture(deployAndConfigureAccessControlExtMock);
-        await proveTx(accessControlExtMock.grantRoleBatch(USER_ROLE, [userAddresses[0]]));
-        expect(await accessControlExtMock.hasRole(USER_ROLE, userAddresses[0])).to.equal(true);
-
-        await expect(accessControlExtMock.revokeRoleBatch(USER_ROLE, [userAddresses[0]]))
-          .to.emit(accessControlExtMock, EVENT_NAME_ROLE_REVOKED)
-          .withArgs(USER_ROLE, userAddresses[0], deployer.address);
-
-        expect(await accessControlExtMock.hasRole(USER_ROLE, userAddresses[0])).to.equal(false);
-      });
-
-      it("A single account without the previously granted role", async () => {
-        const { accessControlExtMock } = await setUpFixture(deployAndConfigureAccessControlExtMock);
-        expect(await accessControlExtMock.hasRole(USER_ROLE, userAddresses[0])).to.equal(false);
-
-        await expect(accessControlExtMock.revokeRoleBatch(USER_ROLE, [userAddresses[0]]))
-          .not.to.emit(accessControlExtMock, EVENT_NAME_ROLE_REVOKED);
-      });
-
-      it("Multiple accounts with the previously granted role", async () => {
-        const { accessControlExtMock } = await setUpFixture(deployAndConfigureAccessControlExtMock);
-        await proveTx(accessControlExtMock.grantRoleBatch(USER_ROLE, userAddresses));
-        for (const userAddress of userAddresses) {
-          expect(await accessControlExtMock.hasRole(USER_ROLE, userAddress)).to.equal(true);
-        }
-
-        const tx: Promise<TransactionResponse> = accessControlExtMock.revokeRoleBatch(USER_ROLE, userAddresses);
-
-        for (const userAddress of userAddresses) {
-          await expect(tx)
-            .to.emit(accessControlExtMock, EVENT_NAME_ROLE_REVOKED)
-            .withArgs(USER_ROLE, userAddress, deployer.address);
-          expect(await accessControlExtMock.hasRole(USER_ROLE, userAddress)).to.equal(false);
-        }
-      });
-
-      it("No accounts", async () => {
-        const { accessControlExtMock } = await setUpFixture(deployAndConfigureAccessControlExtMock);
-
-        await expect(accessControlExtMock.revokeRoleBatch(USER_ROLE, []))
-          .not.to.emit(accessControlExtMock, EVENT_NAME_ROLE_REVOKED);
-      });
-    });
-
-    describe("Is reverted if", async () => {
-      it("The caller does not have the expected admin role", async () => {
-        const { accessControlExtMock } = await setUpFixture(deployAndConfigureAccessControlExtMock);
-
-        const accessControlExtMockViaAttacker = connect(accessControlExtMock, attacker);
-        await expect(accessControlExtMockViaAttacker.revokeRoleBatch(USER_ROLE, []))
-          .to.be.revertedWithCustomError(accessControlExtMock, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
-          .withArgs(attacker.address, GRANTOR_ROLE);
-      });
-    });
-  });
 });
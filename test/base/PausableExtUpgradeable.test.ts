@@ -3,22 +3,27 @@ import { expect } from "chai";
 import { Contract } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { connect, proveTx } from "../../test-utils/eth";
-import { setUpFixture } from "../../test-utils/common";
+import { BehaviorFixture, setUpFixture } from "../../test-utils/common";
+import { shouldBehaveLikePausableExt } from "../../test-utils/behaviors/PausableExtUpgradeable.behavior";
 
 describe("Contract 'PausableExtUpgradeable'", async () => {
-  // Events of the library contracts
-  const EVENT_NAME_PAUSED = "Paused";
-  const EVENT_NAME_UNPAUSED = "Unpaused";
+  // Events of the contract under test
+  const EVENT_NAME_MOCK_OPERATION_EXECUTED = "MockOperationExecuted";
+
+  // Errors of the contract under test
+  const ERROR_NAME_OPERATION_KIND_PAUSED = "PausableExt_OperationKindPaused";
 
   // Errors of the library contracts
-  const ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT = "AccessControlUnauthorizedAccount";
+  const ERROR_NAME_ENFORCED_PAUSE = "EnforcedPause";
   const ERROR_NAME_INVALID_INITIALIZATION = "InvalidInitialization";
   const ERROR_NAME_NOT_INITIALIZING = "NotInitializing";
 
-  const OWNER_ROLE: string = ethers.id("OWNER_ROLE");
   const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
   const PAUSER_ROLE: string = ethers.id("PAUSER_ROLE");
 
+  const OPERATION_KIND_1: string = ethers.id("MOCK_OPERATION_KIND_1");
+  const OPERATION_KIND_2: string = ethers.id("MOCK_OPERATION_KIND_2");
+
   let deployer: HardhatEthersSigner;
   let pauser: HardhatEthersSigner;
 
@@ -47,29 +52,14 @@ describe("Contract 'PausableExtUpgradeable'", async () => {
     return { pausableExtMock };
   }
 
-  describe("Function 'initialize()' and internal initializers", async () => {
-    it("The external initializer configures the contract as expected", async () => {
-      const { pausableExtMock } = await setUpFixture(deployPausableExtMock);
-
-      // The role hashes
-      expect((await pausableExtMock.OWNER_ROLE()).toLowerCase()).to.equal(OWNER_ROLE);
-      expect((await pausableExtMock.GRANTOR_ROLE()).toLowerCase()).to.equal(GRANTOR_ROLE);
-      expect((await pausableExtMock.PAUSER_ROLE()).toLowerCase()).to.equal(PAUSER_ROLE);
-
-      // The role admins
-      expect(await pausableExtMock.getRoleAdmin(OWNER_ROLE)).to.equal(OWNER_ROLE);
-      expect(await pausableExtMock.getRoleAdmin(GRANTOR_ROLE)).to.equal(OWNER_ROLE);
-      expect(await pausableExtMock.getRoleAdmin(PAUSER_ROLE)).to.equal(GRANTOR_ROLE);
-
-      // The deployer should have the owner role, but not the other roles
-      expect(await pausableExtMock.hasRole(OWNER_ROLE, deployer.address)).to.equal(true);
-      expect(await pausableExtMock.hasRole(GRANTOR_ROLE, deployer.address)).to.equal(false);
-      expect(await pausableExtMock.hasRole(PAUSER_ROLE, deployer.address)).to.equal(false);
+  async function deployPausableExtMockForBehavior(): Promise<BehaviorFixture> {
+    const { pausableExtMock } = await deployPausableExtMock();
+    return { contract: pausableExtMock, owner: deployer };
+  }
 
-      // The initial contract state is unpaused
-      expect(await pausableExtMock.paused()).to.equal(false);
-    });
+  shouldBehaveLikePausableExt(deployPausableExtMockForBehavior);
 
+  describe("Function 'initialize()' and internal initializers", async () => {
     it("The external initializer is reverted if it is called a second time", async () => {
       const { pausableExtMock } = await setUpFixture(deployPausableExtMock);
       await expect(pausableExtMock.initialize())
@@ -83,44 +73,31 @@ describe("Contract 'PausableExtUpgradeable'", async () => {
     });
   });
 
-  describe("Function 'pause()'", async () => {
-    it("Executes successfully and emits the correct event", async () => {
+  describe("Modifier 'whenOperationKindNotPaused()'", async () => {
+    it("Allows the operation if neither the contract nor the operation kind is paused", async () => {
       const { pausableExtMock } = await setUpFixture(deployAndConfigurePausableExtMock);
+      await proveTx(connect(pausableExtMock, pauser).pauseOperationKind(OPERATION_KIND_2));
 
-      await expect(connect(pausableExtMock, pauser).pause())
-        .to.emit(pausableExtMock, EVENT_NAME_PAUSED)
-        .withArgs(pauser.address);
-
-      expect(await pausableExtMock.paused()).to.equal(true);
+      await expect(pausableExtMock.executeOperation(OPERATION_KIND_1))
+        .to.emit(pausableExtMock, EVENT_NAME_MOCK_OPERATION_EXECUTED)
+        .withArgs(OPERATION_KIND_1);
     });
 
-    it("Is reverted if the caller does not have the pauser role", async () => {
+    it("Reverts the operation if the operation kind is paused", async () => {
       const { pausableExtMock } = await setUpFixture(deployAndConfigurePausableExtMock);
+      await proveTx(connect(pausableExtMock, pauser).pauseOperationKind(OPERATION_KIND_1));
 
-      await expect(pausableExtMock.pause())
-        .to.be.revertedWithCustomError(pausableExtMock, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
-        .withArgs(deployer.address, PAUSER_ROLE);
+      await expect(pausableExtMock.executeOperation(OPERATION_KIND_1))
+        .to.be.revertedWithCustomError(pausableExtMock, ERROR_NAME_OPERATION_KIND_PAUSED)
+        .withArgs(OPERATION_KIND_1);
     });
-  });
 
-  describe("Function 'unpause()'", async () => {
-    it("Executes successfully and emits the correct event", async () => {
+    it("Reverts the operation if the contract is paused", async () => {
       const { pausableExtMock } = await setUpFixture(deployAndConfigurePausableExtMock);
       await proveTx(connect(pausableExtMock, pauser).pause());
 
-      await expect(connect(pausableExtMock, pauser).unpause())
-        .to.emit(pausableExtMock, EVENT_NAME_UNPAUSED)
-        .withArgs(pauser.address);
-
-      expect(await pausableExtMock.paused()).to.equal(false);
-    });
-
-    it("Is reverted if the caller does not have the pauser role", async () => {
-      const { pausableExtMock } = await setUpFixture(deployAndConfigurePausableExtMock);
-
-      await expect(pausableExtMock.unpause())
-        .to.be.revertedWithCustomError(pausableExtMock, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
-        .withArgs(deployer.address, PAUSER_ROLE);
+      await expect(pausableExtMock.executeOperation(OPERATION_KIND_1))
+        .to.be.revertedWithCustomError(pausableExtMock, ERROR_NAME_ENFORCED_PAUSE);
     });
   });
 });
@@ -2,29 +2,19 @@ import { ethers, upgrades } from "hardhat";
 import { expect } from "chai";
 import { Contract } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { connect, getAddress, proveTx } from "../../test-utils/eth";
-import { setUpFixture } from "../../test-utils/common";
+import { connect, proveTx } from "../../test-utils/eth";
+import { BehaviorFixture, setUpFixture } from "../../test-utils/common";
+import { shouldBehaveLikeRescuable } from "../../test-utils/behaviors/RescuableUpgradeable.behavior";
 
 describe("Contract 'RescuableUpgradeable'", async () => {
-  // Events of the library contracts
-  const EVENT_NAME_TRANSFER = "Transfer";
-
   // Errors of the library contracts
-  const ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT = "AccessControlUnauthorizedAccount";
   const ERROR_NAME_INVALID_INITIALIZATION = "InvalidInitialization";
   const ERROR_NAME_NOT_INITIALIZING = "NotInitializing";
 
-  const OWNER_ROLE: string = ethers.id("OWNER_ROLE");
-  const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
-  const RESCUER_ROLE: string = ethers.id("RESCUER_ROLE");
-
-  const TOKEN_AMOUNT = 123;
-
   let deployer: HardhatEthersSigner;
-  let rescuer: HardhatEthersSigner;
 
   before(async () => {
-    [deployer, rescuer] = await ethers.getSigners();
+    [deployer] = await ethers.getSigners();
   });
 
   async function deployRescuableMock(): Promise<{ rescuableMock: Contract }> {
@@ -40,56 +30,18 @@ describe("Contract 'RescuableUpgradeable'", async () => {
     return { rescuableMock };
   }
 
-  async function deployTokenMock(): Promise<{ tokenMock: Contract }> {
-    // The token contract factory with the explicitly specified deployer account
-    let tokenMockFactory = await ethers.getContractFactory("ERC20TokenMock");
-    tokenMockFactory = tokenMockFactory.connect(deployer);
-
-    // The token contract with the explicitly specified initial account
-    let tokenMock = await tokenMockFactory.deploy("ERC20 Test", "TEST") as Contract;
-    await tokenMock.waitForDeployment();
-    tokenMock = connect(tokenMock, deployer); // Explicitly specifying the initial account
-
-    return { tokenMock };
-  }
-
-  async function deployAndConfigureAllContracts(): Promise<{
-    rescuableMock: Contract;
-    tokenMock: Contract;
-  }> {
+  async function deployRescuableMockForBehavior(): Promise<BehaviorFixture> {
     const { rescuableMock } = await deployRescuableMock();
-    const { tokenMock } = await deployTokenMock();
-
-    await proveTx(tokenMock.mint(getAddress(rescuableMock), TOKEN_AMOUNT));
-    await proveTx(rescuableMock.grantRole(GRANTOR_ROLE, deployer.address));
-    await proveTx(rescuableMock.grantRole(RESCUER_ROLE, rescuer.address));
-
-    return {
-      rescuableMock,
-      tokenMock
-    };
+    return { contract: rescuableMock, owner: deployer };
   }
 
-  describe("Function 'initialize()' and internal initializers", async () => {
-    it("The external initializer configures the contract as expected", async () => {
-      const { rescuableMock } = await setUpFixture(deployRescuableMock);
-
-      // The role hashes
-      expect((await rescuableMock.OWNER_ROLE()).toLowerCase()).to.equal(OWNER_ROLE);
-      expect((await rescuableMock.GRANTOR_ROLE()).toLowerCase()).to.equal(GRANTOR_ROLE);
-      expect((await rescuableMock.RESCUER_ROLE()).toLowerCase()).to.equal(RESCUER_ROLE);
-
-      // The role admins
-      expect(await rescuableMock.getRoleAdmin(OWNER_ROLE)).to.equal(OWNER_ROLE);
-      expect(await rescuableMock.getRoleAdmin(GRANTOR_ROLE)).to.equal(OWNER_ROLE);
-      expect(await rescuableMock.getRoleAdmin(RESCUER_ROLE)).to.equal(GRANTOR_ROLE);
+  async function protectAsset(rescuableMock: Contract, token: string) {
+    await proveTx(rescuableMock.setTokenProtection(token, true));
+  }
 
-      // The deployer should have the owner role, but not the other roles
-      expect(await rescuableMock.hasRole(OWNER_ROLE, deployer.address)).to.equal(true);
-      expect(await rescuableMock.hasRole(GRANTOR_ROLE, deployer.address)).to.equal(false);
-      expect(await rescuableMock.hasRole(RESCUER_ROLE, deployer.address)).to.equal(false);
-    });
+  shouldBehaveLikeRescuable(deployRescuableMockForBehavior, { protectAsset });
 
+  describe("Function 'initialize()' and internal initializers", async () => {
     it("The external initializer is reverted if it is called a second time", async () => {
       const { rescuableMock } = await setUpFixture(deployRescuableMock);
       await expect(rescuableMock.initialize())
@@ -102,28 +54,4 @@ describe("Contract 'RescuableUpgradeable'", async () => {
         .to.be.revertedWithCustomError(rescuableMock, ERROR_NAME_NOT_INITIALIZING);
     });
   });
-
-  describe("Function 'rescueERC20()'", async () => {
-    it("Executes as expected and emits the correct event", async () => {
-      const { rescuableMock, tokenMock } = await setUpFixture(deployAndConfigureAllContracts);
-
-      const rescuableMockConnected = connect(rescuableMock, rescuer);
-      const tx = rescuableMockConnected.rescueERC20(getAddress(tokenMock), deployer.address, TOKEN_AMOUNT);
-      await expect(tx).to.changeTokenBalances(
-        tokenMock,
-        [rescuableMock, deployer, rescuer],
-        [-TOKEN_AMOUNT, +TOKEN_AMOUNT, 0]
-      );
-      await expect(tx)
-        .to.emit(tokenMock, EVENT_NAME_TRANSFER)
-        .withArgs(getAddress(rescuableMock), deployer.address, TOKEN_AMOUNT);
-    });
-
-    it("Is reverted if the caller does not have the rescuer role", async () => {
-      const { rescuableMock, tokenMock } = await setUpFixture(deployAndConfigureAllContracts);
-      await expect(rescuableMock.rescueERC20(getAddress(tokenMock), deployer.address, TOKEN_AMOUNT))
-        .to.be.revertedWithCustomError(rescuableMock, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
-        .withArgs(deployer.address, RESCUER_ROLE);
-    });
-  });
 });
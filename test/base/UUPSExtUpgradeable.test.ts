@@ -2,23 +2,23 @@ import { ethers, upgrades } from "hardhat";
 import { expect } from "chai";
 import { Contract, ContractFactory } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { connect } from "../../test-utils/eth";
-import { setUpFixture } from "../../test-utils/common";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { connect, getAddress, proveTx } from "../../test-utils/eth";
+import { BehaviorFixture, setUpFixture } from "../../test-utils/common";
+import { shouldBehaveLikeUUPSExt } from "../../test-utils/behaviors/UUPSExtUpgradeable.behavior";
 
-const ADDRESS_ZERO = ethers.ZeroAddress;
+const MIN_UPGRADE_DELAY = 3600n;
+const MAX_UPGRADE_DELAY = 30n * 86400n;
 
 describe("Contract 'UUPSExtUpgradeable'", async () => {
   // Events of the contracts under test
+  const EVENT_NAME_MOCK_AUTHORIZE_UPGRADE_SCHEDULING_CALL = "MockAuthorizeUpgradeSchedulingCall";
   const EVENT_NAME_MOCK_VALIDATE_UPGRADE_CALL = "MockValidateUpgradeCall";
 
   // Errors of the library contracts
   const ERROR_NAME_INVALID_INITIALIZATION = "InvalidInitialization";
   const ERROR_NAME_NOT_INITIALIZING = "NotInitializing";
 
-  // Errors of the contract under test
-  const ERROR_NAME_IMPLEMENTATION_ADDRESS_NOT_CONTRACT = "UUPSExtUpgradeable_ImplementationAddressNotContract";
-  const ERROR_NAME_IMPLEMENTATION_ADDRESS_ZERO = "UUPSExtUpgradeable_ImplementationAddressZero";
-
   let uupsExtensionFactory: ContractFactory;
   let deployer: HardhatEthersSigner;
 
@@ -39,6 +39,19 @@ describe("Contract 'UUPSExtUpgradeable'", async () => {
     return { uupsExtension };
   }
 
+  async function deployContractForBehavior(): Promise<BehaviorFixture> {
+    const { uupsExtension } = await deployContract();
+    return { contract: uupsExtension, owner: deployer };
+  }
+
+  async function deployNewImplementation(): Promise<string> {
+    const newImplementation = await uupsExtensionFactory.deploy() as Contract;
+    await newImplementation.waitForDeployment();
+    return getAddress(newImplementation);
+  }
+
+  shouldBehaveLikeUUPSExt(deployContractForBehavior, { newImplementationContractName: "UUPSExtUpgradeableMock" });
+
   describe("Function 'initialize()' and internal initializers", async () => {
     it("The external initializer is reverted if it is called a second time", async () => {
       const { uupsExtension } = await setUpFixture(deployContract);
@@ -53,29 +66,28 @@ describe("Contract 'UUPSExtUpgradeable'", async () => {
     });
   });
 
-  describe("Function 'upgradeToAndCall()'", async () => {
-    it("Executes as expected", async () => {
+  describe("Internal hooks", async () => {
+    it("The upgrade validation hook is called when an upgrade is scheduled and executed", async () => {
       const { uupsExtension } = await setUpFixture(deployContract);
+      const newImplementationAddress = await deployNewImplementation();
 
-      const newImplementation = await uupsExtensionFactory.deploy();
-      await newImplementation.waitForDeployment();
-      const newImplementationAddress = await newImplementation.getAddress();
-
+      await expect(uupsExtension.scheduleUpgrade(newImplementationAddress))
+        .to.emit(uupsExtension, EVENT_NAME_MOCK_VALIDATE_UPGRADE_CALL)
+        .withArgs(newImplementationAddress);
+      await time.increase(MIN_UPGRADE_DELAY);
       await expect(uupsExtension.upgradeToAndCall(newImplementationAddress, "0x"))
         .to.emit(uupsExtension, EVENT_NAME_MOCK_VALIDATE_UPGRADE_CALL)
         .withArgs(newImplementationAddress);
     });
 
-    it("Is reverted if the new implementation address is zero", async () => {
+    it("The scheduling authorization hook is called when an upgrade is cancelled or the delay is changed", async () => {
       const { uupsExtension } = await setUpFixture(deployContract);
-      await expect(uupsExtension.upgradeToAndCall(ADDRESS_ZERO, "0x"))
-        .to.be.revertedWithCustomError(uupsExtension, ERROR_NAME_IMPLEMENTATION_ADDRESS_ZERO);
-    });
+      await proveTx(uupsExtension.scheduleUpgrade(await deployNewImplementation()));
 
-    it("Is reverted if the new implementation address is not a contract", async () => {
-      const { uupsExtension } = await setUpFixture(deployContract);
-      await expect(uupsExtension.upgradeToAndCall(deployer.address, "0x"))
-        .to.be.revertedWithCustomError(uupsExtension, ERROR_NAME_IMPLEMENTATION_ADDRESS_NOT_CONTRACT);
+      await expect(uupsExtension.cancelUpgrade())
+        .to.emit(uupsExtension, EVENT_NAME_MOCK_AUTHORIZE_UPGRADE_SCHEDULING_CALL);
+      await expect(uupsExtension.setUpgradeDelay(MAX_UPGRADE_DELAY))
+        .to.emit(uupsExtension, EVENT_NAME_MOCK_AUTHORIZE_UPGRADE_SCHEDULING_CALL);
     });
   });
 });
@@ -0,0 +1,398 @@
+import { artifacts, ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Contract, ErrorFragment, Interface } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { connect, getAddress, proveTx, signPermit } from "../../test-utils/eth";
+import { setUpFixture } from "../../test-utils/common";
+import {
+  AccessControlExtOwnerRoleChangeProhibitedError,
+  AccessControlUnauthorizedAccountError,
+  BLUEPRINT_ABI,
+  BLUEPRINT_LENS_ABI,
+  BlueprintClient,
+  BlueprintAccountFrozenError,
+  BlueprintBalanceInsufficientError,
+  BlueprintCustomError,
+  BlueprintDailyDepositLimitExceededError,
+  BlueprintOperationAlreadyExecutedError,
+  BlueprintPanicError,
+  BlueprintOperationKind,
+  BlueprintPermitFailedError,
+  BlueprintRole,
+  BlueprintUnknownRevertError,
+  decodeBlueprintError,
+  EnforcedPauseError,
+  ERC2612ExpiredSignatureError,
+  OperationStatus,
+  PausableExtOperationKindPausedError,
+  PreviewResult
+} from "../../client/index";
+import clientPackage from "../../client/package.json";
+
+const ALLOWANCE_MAX = ethers.MaxUint256;
+const BALANCE_INITIAL = 1000_000_000_000n;
+const OP_ID = ethers.encodeBytes32String("MOCK OP_ID 1");
+const OP_ID_2 = ethers.encodeBytes32String("MOCK OP_ID 2");
+const TOKEN_AMOUNT = 12345678n;
+
+interface Fixture {
+  blueprint: Contract;
+  tokenMock: Contract;
+  lens: Contract;
+}
+
+describe("Client 'BlueprintClient'", async () => {
+  let deployer: HardhatEthersSigner;
+  let manager: HardhatEthersSigner;
+  let operationalTreasury: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+
+  before(async () => {
+    [deployer, manager, operationalTreasury, user] = await ethers.getSigners();
+  });
+
+  async function deployAndConfigureContracts(): Promise<Fixture> {
+    const tokenMockFactory = await ethers.getContractFactory("ERC20TokenMock");
+    const tokenMock = await tokenMockFactory.connect(deployer).deploy("ERC20 Test", "TEST") as Contract;
+    await tokenMock.waitForDeployment();
+
+    const blueprintFactory = await ethers.getContractFactory("Blueprint");
+    let blueprint = await upgrades.deployProxy(blueprintFactory.connect(deployer), [getAddress(tokenMock)]) as Contract;
+    await blueprint.waitForDeployment();
+    blueprint = connect(blueprint, deployer);
+
+    await proveTx(blueprint.grantRole(BlueprintRole.GRANTOR_ROLE, deployer.address));
+    await proveTx(blueprint.grantRole(BlueprintRole.MANAGER_ROLE, manager.address));
+    await proveTx(blueprint.grantRole(BlueprintRole.PAUSER_ROLE, deployer.address));
+    await proveTx(blueprint.grantRole(BlueprintRole.LIMITS_ADMIN_ROLE, deployer.address));
+    await proveTx(blueprint.grantRole(BlueprintRole.FREEZER_ROLE, deployer.address));
+    await proveTx(connect(tokenMock, operationalTreasury).approve(getAddress(blueprint), ALLOWANCE_MAX));
+    await proveTx(blueprint.setOperationalTreasury(operationalTreasury.address));
+    await proveTx(tokenMock.mint(operationalTreasury.address, BALANCE_INITIAL));
+    await proveTx(tokenMock.mint(user.address, BALANCE_INITIAL));
+    await proveTx(connect(tokenMock, user).approve(getAddress(blueprint), ALLOWANCE_MAX));
+
+    const lensFactory = await ethers.getContractFactory("BlueprintLens");
+    const lens = await lensFactory.connect(deployer).deploy(getAddress(blueprint)) as Contract;
+    await lens.waitForDeployment();
+
+    return { blueprint, tokenMock, lens };
+  }
+
+  it("Has the package version equal to the version of the contract described by its ABI", async () => {
+    const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+    const client = new BlueprintClient(getAddress(blueprint), deployer);
+    const { major, minor, patch } = await client.version();
+
+    expect(clientPackage.version).to.equal(`${major}.${minor}.${patch}`);
+  });
+
+  describe("Executes as expected and returns typed values for", async () => {
+    it("The primary functions", async () => {
+      const { blueprint, tokenMock, lens } = await setUpFixture(deployAndConfigureContracts);
+      const client = new BlueprintClient(getAddress(blueprint), manager, getAddress(lens));
+
+      const receipt = await client.deposit(user.address, TOKEN_AMOUNT, OP_ID);
+
+      expect(receipt.status).to.equal(1);
+      expect(await client.getOperation(OP_ID)).to.deep.equal({
+        status: OperationStatus.Deposit,
+        account: user.address,
+        amount: TOKEN_AMOUNT,
+        fee: 0n,
+        token: ethers.ZeroAddress,
+        counterparty: ethers.ZeroAddress
+      });
+      expect(await client.getAccountState(user.address)).to.deep.equal({
+        lastOpId: OP_ID,
+        balance: TOKEN_AMOUNT,
+        operationCount: 1n
+      });
+      expect(await client.balanceOf(user.address)).to.equal(TOKEN_AMOUNT);
+      expect(await client.getAccountOperationIds(user.address, 0, 10)).to.deep.equal([OP_ID]);
+      expect(await client.getAccountOperations(user.address, 0, 10))
+        .to.deep.equal([await client.getOperation(OP_ID)]);
+      expect(await client.previewWithdraw(user.address, TOKEN_AMOUNT, OP_ID_2))
+        .to.deep.equal({ result: PreviewResult.Success, newBalance: 0n });
+      expect(await client.previewDeposit(user.address, TOKEN_AMOUNT, OP_ID))
+        .to.deep.equal({ result: PreviewResult.OperationAlreadyExecuted, newBalance: 0n });
+      expect(await client.underlyingToken()).to.equal(getAddress(tokenMock));
+      expect(await client.operationalTreasury()).to.equal(operationalTreasury.address);
+      expect(await client.version()).to.deep.equal({ major: 1, minor: 2, patch: 0 });
+      expect(await client.minCompatibleVersion()).to.deep.equal({ major: 0, minor: 0, patch: 0 });
+    });
+
+    it("The functions with a payer or a recipient", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const client = new BlueprintClient(getAddress(blueprint), manager);
+
+      await client.depositFrom(user.address, deployer.address, TOKEN_AMOUNT, OP_ID);
+      await client.withdrawTo(deployer.address, user.address, TOKEN_AMOUNT, OP_ID_2);
+
+      expect((await client.getOperation(OP_ID)).counterparty).to.equal(user.address);
+      expect((await client.getOperation(OP_ID_2)).counterparty).to.equal(user.address);
+      expect(await client.balanceOf(deployer.address)).to.equal(0n);
+    });
+
+    it("The admin functions", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+      const client = new BlueprintClient(getAddress(blueprint), deployer);
+
+      await client.grantRoleBatch(BlueprintRole.RESCUER_ROLE, [user.address]);
+      expect(await client.hasRole(BlueprintRole.RESCUER_ROLE, user.address)).to.equal(true);
+
+      await client.pause();
+      expect(await client.paused()).to.equal(true);
+      await client.pauseOperationKind(BlueprintOperationKind.DEPOSIT_OPERATION_KIND);
+      expect(await client.isOperationKindPaused(BlueprintOperationKind.DEPOSIT_OPERATION_KIND)).to.equal(true);
+      await client.unpauseOperationKind(BlueprintOperationKind.DEPOSIT_OPERATION_KIND);
+      expect(await client.isOperationKindPaused(BlueprintOperationKind.DEPOSIT_OPERATION_KIND)).to.equal(false);
+
+      await client.setOperationalTreasury(ethers.ZeroAddress);
+      expect(await client.operationalTreasury()).to.equal(ethers.ZeroAddress);
+
+      await client.setFeeTreasury(user.address);
+      await client.setWithdrawalFeeRule(150, 1000n);
+      expect(await client.feeTreasury()).to.equal(user.address);
+      expect(await client.withdrawalFeeRule()).to.deep.equal({ rate: 150, minimum: 1000n });
+      expect(await client.depositFeeRule()).to.deep.equal({ rate: 0, minimum: 0n });
+
+      const defaultLimits = { maxBalance: 1000n, maxOperationAmount: 0n, maxDailyDeposit: 0n, maxDailyWithdrawal: 0n };
+      const accountLimits = { ...defaultLimits, maxBalance: 0n, maxOperationAmount: 100n };
+      await client.setDefaultLimits(defaultLimits);
+      await client.setAccountLimits(user.address, accountLimits);
+      expect(await client.defaultLimits()).to.deep.equal(defaultLimits);
+      expect(await client.getAccountLimits(user.address)).to.deep.equal(accountLimits);
+      expect(await client.getEffectiveLimits(user.address))
+        .to.deep.equal({ ...defaultLimits, maxOperationAmount: 100n });
+      expect((await client.getDailyVolume(user.address)).depositVolume).to.equal(0n);
+
+      await client.registerToken(user.address);
+      expect(await client.getSupportedTokens()).to.deep.equal([getAddress(tokenMock), user.address]);
+      expect(await client.getTokenOperationalTreasury(user.address)).to.equal(ethers.ZeroAddress);
+      expect(await client.balanceOfToken(user.address, user.address)).to.equal(0n);
+      expect((await client.getTokenDailyVolume(user.address, user.address)).withdrawalVolume).to.equal(0n);
+
+      expect(await client.ownerTransferDelay()).to.equal(3600n);
+      await client.setOwnerTransferDelay(7200n);
+      expect(await client.ownerTransferDelay()).to.equal(7200n);
+      await client.proposeOwnerTransfer(user.address);
+      expect(await client.getPendingOwnerTransfer())
+        .to.deep.include({ proposer: deployer.address, newOwner: user.address });
+      await time.increase(7200);
+      await new BlueprintClient(getAddress(blueprint), user).acceptOwnerTransfer();
+      expect(await client.hasRole(BlueprintRole.OWNER_ROLE, user.address)).to.equal(true);
+      expect(await client.hasRole(BlueprintRole.OWNER_ROLE, deployer.address)).to.equal(false);
+
+      const nextVersionFactory = await ethers.getContractFactory("BlueprintNextVersionTestable");
+      const newImplementation = await nextVersionFactory.deploy() as Contract;
+      await newImplementation.waitForDeployment();
+      const ownerClient = new BlueprintClient(getAddress(blueprint), user);
+      await ownerClient.setUpgradeDelay(7200n);
+      await ownerClient.scheduleUpgrade(getAddress(newImplementation));
+      expect(await ownerClient.upgradeDelay()).to.equal(7200n);
+      expect((await ownerClient.getScheduledUpgrade()).newImplementation).to.equal(getAddress(newImplementation));
+      await ownerClient.cancelUpgrade();
+      expect((await ownerClient.getScheduledUpgrade()).readyAt).to.equal(0n);
+    });
+  });
+
+  describe("Throws typed errors if", async () => {
+    it("The operation with the provided identifier is already executed", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const client = new BlueprintClient(getAddress(blueprint), manager);
+      await client.deposit(user.address, TOKEN_AMOUNT, OP_ID);
+
+      const error = await client.deposit(user.address, TOKEN_AMOUNT, OP_ID).catch(error => error);
+
+      expect(error).to.be.instanceOf(BlueprintOperationAlreadyExecutedError);
+      expect(error.errorName).to.equal("Blueprint_OperationAlreadyExecuted");
+      expect(error.opId).to.equal(OP_ID);
+    });
+
+    it("The caller does not have the needed role", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const client = new BlueprintClient(getAddress(blueprint), user);
+
+      const error = await client.deposit(user.address, TOKEN_AMOUNT, OP_ID).catch(error => error);
+
+      expect(error).to.be.instanceOf(AccessControlUnauthorizedAccountError);
+      expect(error.account).to.equal(user.address);
+      expect(error.neededRole).to.equal(BlueprintRole.MANAGER_ROLE);
+    });
+
+    it("The owner role is granted directly", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const client = new BlueprintClient(getAddress(blueprint), deployer);
+
+      const error = await client.grantRole(BlueprintRole.OWNER_ROLE, user.address).catch(error => error);
+
+      expect(error).to.be.instanceOf(AccessControlExtOwnerRoleChangeProhibitedError);
+    });
+
+    it("The contract is paused", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      await proveTx(blueprint.pause());
+      const client = new BlueprintClient(getAddress(blueprint), manager);
+
+      const error = await client.withdraw(user.address, TOKEN_AMOUNT, OP_ID).catch(error => error);
+
+      expect(error).to.be.instanceOf(EnforcedPauseError);
+    });
+
+    it("The withdrawals are paused", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      await proveTx(blueprint.pauseOperationKind(BlueprintOperationKind.WITHDRAWAL_OPERATION_KIND));
+      const client = new BlueprintClient(getAddress(blueprint), manager);
+
+      const error = await client.withdraw(user.address, TOKEN_AMOUNT, OP_ID).catch(error => error);
+
+      expect(error).to.be.instanceOf(PausableExtOperationKindPausedError);
+      expect(error.operationKind).to.equal(BlueprintOperationKind.WITHDRAWAL_OPERATION_KIND);
+    });
+
+    it("An item of a batch operation fails", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const client = new BlueprintClient(getAddress(blueprint), manager);
+      const item = { account: user.address, amount: TOKEN_AMOUNT, opId: OP_ID };
+
+      const error = await client.depositBatch([item, item]).catch(error => error);
+
+      expect(error).to.be.instanceOf(BlueprintOperationAlreadyExecutedError);
+      expect(error.opId).to.equal(OP_ID);
+    });
+
+    it("The account is frozen", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      await new BlueprintClient(getAddress(blueprint), deployer).freezeAccountBatch([user.address], 1n);
+      const client = new BlueprintClient(getAddress(blueprint), manager);
+
+      const error = await client.deposit(user.address, TOKEN_AMOUNT, OP_ID).catch(error => error);
+
+      expect(error).to.be.instanceOf(BlueprintAccountFrozenError);
+      expect(error.account).to.equal(user.address);
+      expect(await client.isAccountFrozen(user.address)).to.equal(true);
+    });
+
+    it("The operation exceeds a limit", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      await proveTx(blueprint.setDefaultLimits({
+        maxBalance: 0n,
+        maxOperationAmount: 0n,
+        maxDailyDeposit: TOKEN_AMOUNT - 1n,
+        maxDailyWithdrawal: 0n
+      }));
+      const client = new BlueprintClient(getAddress(blueprint), manager);
+
+      const error = await client.deposit(user.address, TOKEN_AMOUNT, OP_ID).catch(error => error);
+
+      expect(error).to.be.instanceOf(BlueprintDailyDepositLimitExceededError);
+      expect(error.account).to.equal(user.address);
+      expect(error.volume).to.equal(0n);
+      expect(error.amount).to.equal(TOKEN_AMOUNT);
+      expect(error.limit).to.equal(TOKEN_AMOUNT - 1n);
+    });
+
+    it("The permit of a deposit cannot be consumed", async () => {
+      const { blueprint, tokenMock } = await setUpFixture(deployAndConfigureContracts);
+      await proveTx(connect(tokenMock, user).approve(getAddress(blueprint), 0));
+      const deadline = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      const permit = await signPermit(tokenMock, user, getAddress(blueprint), TOKEN_AMOUNT, deadline);
+      const client = new BlueprintClient(getAddress(blueprint), manager);
+
+      const error = await client.depositWithPermit(user.address, TOKEN_AMOUNT, OP_ID, permit).catch(error => error);
+
+      expect(error).to.be.instanceOf(BlueprintPermitFailedError);
+      expect(error.permitError).to.be.instanceOf(ERC2612ExpiredSignatureError);
+      expect(error.permitError.deadline).to.equal(deadline);
+    });
+
+    it("The balance of the account is insufficient for the withdrawal", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const client = new BlueprintClient(getAddress(blueprint), manager);
+
+      const error = await client.withdraw(user.address, TOKEN_AMOUNT, OP_ID).catch(error => error);
+
+      expect(error).to.be.instanceOf(BlueprintBalanceInsufficientError);
+      expect(error.account).to.equal(user.address);
+      expect(error.balance).to.equal(0n);
+      expect(error.amount).to.equal(TOKEN_AMOUNT);
+    });
+
+    it("A preview is requested without the lens address", async () => {
+      const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+      const client = new BlueprintClient(getAddress(blueprint), manager);
+
+      await expect(client.previewDeposit(user.address, TOKEN_AMOUNT, OP_ID))
+        .to.be.rejectedWith("The address of the BlueprintLens contract is not provided to the client");
+    });
+  });
+
+  describe("Function 'decodeBlueprintError()'", async () => {
+    it("Returns errors without revert data as is", async () => {
+      const error = new Error("Network error");
+      expect(decodeBlueprintError(error)).to.equal(error);
+    });
+
+    it("Returns a panic error for the panic revert data", async () => {
+      const data = new Interface(["error Panic(uint256 code)"]).encodeErrorResult("Panic", [0x11]);
+      const error = decodeBlueprintError({ data });
+      expect(error).to.be.instanceOf(BlueprintPanicError);
+      expect((error as BlueprintPanicError).code).to.equal(0x11n);
+    });
+
+    it("Returns an unknown revert error for unknown revert data", async () => {
+      const error = decodeBlueprintError({ data: "0x12345678" });
+      expect(error).to.be.instanceOf(BlueprintUnknownRevertError);
+    });
+  });
+
+  describe("The client ABI and errors", async () => {
+    it("Map every custom error of the contract to a dedicated class", async () => {
+      const { abi } = await artifacts.readArtifact("Blueprint");
+      const contractInterface = new Interface(abi);
+      const clientInterface = new Interface(BLUEPRINT_ABI);
+
+      contractInterface.forEachError((fragment: ErrorFragment) => {
+        expect(clientInterface.getError(fragment.format()), `Missing error: ${fragment.format()}`).not.to.equal(null);
+        if (!(/^(Blueprint|UUPSExtUpgradeable|AccessControlExt|PausableExt|Rescuable)_/).test(fragment.name)) {
+          return;
+        }
+        const args = fragment.inputs.map(input => ethers.AbiCoder.defaultAbiCoder().getDefaultValue([input])[0]);
+        const error = decodeBlueprintError({ data: contractInterface.encodeErrorResult(fragment, args) });
+        expect(error).to.be.instanceOf(BlueprintCustomError);
+        expect((error as BlueprintCustomError).constructor, `No class for: ${fragment.name}`)
+          .not.to.equal(BlueprintCustomError);
+      });
+    });
+
+    it("Cover every function and event of the contract", async () => {
+      const { abi } = await artifacts.readArtifact("Blueprint");
+      const contractInterface = new Interface(abi);
+      const clientInterface = new Interface(BLUEPRINT_ABI);
+
+      contractInterface.forEachFunction(fragment => {
+        expect(clientInterface.getFunction(fragment.format()), `Missing function: ${fragment.format()}`)
+          .not.to.equal(null);
+      });
+      contractInterface.forEachEvent(fragment => {
+        expect(clientInterface.getEvent(fragment.format()), `Missing event: ${fragment.format()}`).not.to.equal(null);
+      });
+    });
+
+    it("Cover every function and error of the lens contract", async () => {
+      const { abi } = await artifacts.readArtifact("BlueprintLens");
+      const contractInterface = new Interface(abi);
+      const clientInterface = new Interface(BLUEPRINT_LENS_ABI);
+
+      contractInterface.forEachFunction(fragment => {
+        expect(clientInterface.getFunction(fragment.format()), `Missing function: ${fragment.format()}`)
+          .not.to.equal(null);
+      });
+      contractInterface.forEachError(fragment => {
+        expect(clientInterface.getError(fragment.format()), `Missing error: ${fragment.format()}`).not.to.equal(null);
+      });
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Contract, Filter, Provider } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { connect, getAddress, proveTx } from "../../test-utils/eth";
+import { setUpFixture } from "../../test-utils/common";
+import { BlueprintIndexer, JsonFileStore, MemoryStore } from "../../indexer";
+
+const ALLOWANCE_MAX = ethers.MaxUint256;
+const BALANCE_INITIAL = 1000_000_000_000n;
+const OP_ID_ARRAY: string[] = [
+  ethers.encodeBytes32String("MOCK OP_ID 1"),
+  ethers.encodeBytes32String("MOCK OP_ID 2"),
+  ethers.encodeBytes32String("MOCK OP_ID 3")
+];
+const TOKEN_AMOUNT = 12345678n;
+
+const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
+const MANAGER_ROLE: string = ethers.id("MANAGER_ROLE");
+const FREEZER_ROLE: string = ethers.id("FREEZER_ROLE");
+
+interface Fixture {
+  blueprint: Contract;
+  startBlock: number;
+}
+
+describe("Indexer 'BlueprintIndexer'", async () => {
+  let deployer: HardhatEthersSigner;
+  let manager: HardhatEthersSigner;
+  let operationalTreasury: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+
+  before(async () => {
+    [deployer, manager, operationalTreasury, user] = await ethers.getSigners();
+  });
+
+  async function deployAndConfigureContracts(): Promise<Fixture> {
+    const tokenMockFactory = await ethers.getContractFactory("ERC20TokenMock");
+    const tokenMock = await tokenMockFactory.connect(deployer).deploy("ERC20 Test", "TEST") as Contract;
+    await tokenMock.waitForDeployment();
+
+    const startBlock = await ethers.provider.getBlockNumber() + 1;
+    const blueprintFactory = await ethers.getContractFactory("Blueprint");
+    let blueprint = await upgrades.deployProxy(blueprintFactory.connect(deployer), [getAddress(tokenMock)]) as Contract;
+    await blueprint.waitForDeployment();
+    blueprint = connect(blueprint, deployer);
+
+    await proveTx(blueprint.grantRole(GRANTOR_ROLE, deployer.address));
+    await proveTx(blueprint.grantRole(MANAGER_ROLE, manager.address));
+    await proveTx(blueprint.grantRole(FREEZER_ROLE, manager.address));
+    await proveTx(connect(tokenMock, operationalTreasury).approve(getAddress(blueprint), ALLOWANCE_MAX));
+    await proveTx(blueprint.setOperationalTreasury(operationalTreasury.address));
+    await proveTx(tokenMock.mint(operationalTreasury.address, BALANCE_INITIAL));
+    await proveTx(tokenMock.mint(user.address, BALANCE_INITIAL));
+    await proveTx(connect(tokenMock, user).approve(getAddress(blueprint), ALLOWANCE_MAX));
+
+    return { blueprint, startBlock };
+  }
+
+  async function deposit(blueprint: Contract, opId: string, amount: bigint = TOKEN_AMOUNT): Promise<number> {
+    const receipt = await proveTx(connect(blueprint, manager).deposit(user.address, amount, opId));
+    return receipt.blockNumber;
+  }
+
+  it("Indexes the events of confirmed blocks only", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    const indexer = new BlueprintIndexer(ethers.provider, getAddress(blueprint), new MemoryStore(), {
+      startBlock,
+      confirmations: 2
+    });
+    await deposit(blueprint, OP_ID_ARRAY[0]);
+
+    const firstResult = await indexer.sync();
+    expect(firstResult.eventCount).to.equal(1); // Only the treasury change is confirmed
+    expect(indexer.getBalanceUpdates()).to.have.lengthOf(0);
+    expect(indexer.getTreasuryChanges()).to.have.lengthOf(1);
+
+    await mine(2);
+    const secondResult = await indexer.sync();
+    expect(secondResult.eventCount).to.equal(1);
+    expect(indexer.getBalanceUpdates()).to.have.lengthOf(1);
+    expect(indexer.lastIndexedBlock).to.equal(await ethers.provider.getBlockNumber() - 2);
+  });
+
+  it("Answers the queries about accounts, operations and the treasury", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    const indexer = new BlueprintIndexer(ethers.provider, getAddress(blueprint), new MemoryStore(), {
+      startBlock,
+      confirmations: 0
+    });
+    const firstBlock = await deposit(blueprint, OP_ID_ARRAY[0], TOKEN_AMOUNT);
+    const secondBlock = await deposit(blueprint, OP_ID_ARRAY[1], TOKEN_AMOUNT * 2n);
+    await proveTx(connect(blueprint, manager).withdraw(user.address, TOKEN_AMOUNT, OP_ID_ARRAY[2]));
+    await indexer.sync();
+
+    const operations = indexer.getOperationsForAccount(user.address);
+    expect(operations.map(record => record.opId)).to.deep.equal(OP_ID_ARRAY);
+    expect(operations[2].oldBalance).to.equal(TOKEN_AMOUNT * 3n);
+    expect(operations[2].newBalance).to.equal(TOKEN_AMOUNT * 2n);
+    expect(indexer.getOperation(OP_ID_ARRAY[1])?.blockNumber).to.equal(secondBlock);
+    expect(indexer.getOperationsForAccount(deployer.address)).to.deep.equal([]);
+
+    expect(indexer.getBalanceAt(user.address, firstBlock - 1)).to.equal(0n);
+    expect(indexer.getBalanceAt(user.address, firstBlock)).to.equal(TOKEN_AMOUNT);
+    expect(indexer.getBalanceAt(user.address, secondBlock)).to.equal(TOKEN_AMOUNT * 3n);
+    expect(indexer.getBalanceAt(user.address, indexer.lastIndexedBlock)).to.equal(await blueprint.balanceOf(user));
+    expect(() => indexer.getBalanceAt(user.address, indexer.lastIndexedBlock + 1))
+      .to.throw("The block has not been indexed yet");
+
+    expect(indexer.getTreasuryAt(startBlock)).to.equal(undefined);
+    expect(indexer.getTreasuryAt(firstBlock)).to.equal(operationalTreasury.address);
+  });
+
+  it("Answers the queries about account freezes", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    const indexer = new BlueprintIndexer(ethers.provider, getAddress(blueprint), new MemoryStore(), {
+      startBlock,
+      confirmations: 0
+    });
+    const freezeReceipt = await proveTx(connect(blueprint, manager).freezeAccount(user.address, 42n));
+    const unfreezeReceipt = await proveTx(connect(blueprint, manager).unfreezeAccount(user.address, 43n));
+    await indexer.sync();
+
+    const records = indexer.getFreezeChanges(user.address);
+    expect(records.map(record => [record.frozen, record.reasonCode])).to.deep.equal([[true, 42n], [false, 43n]]);
+    expect(records[0].txHash).to.equal(freezeReceipt.hash);
+    expect(indexer.getFreezeChanges(deployer.address)).to.deep.equal([]);
+    expect(indexer.isFrozenAt(user.address, freezeReceipt.blockNumber - 1)).to.equal(false);
+    expect(indexer.isFrozenAt(user.address, freezeReceipt.blockNumber)).to.equal(true);
+    expect(indexer.isFrozenAt(user.address, unfreezeReceipt.blockNumber)).to.equal(false);
+  });
+
+  it("Keeps the records in the chain order if the provider returns the logs of a batch in another order", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    const provider = {
+      getBlockNumber: () => ethers.provider.getBlockNumber(),
+      getBlock: (blockNumber: number) => ethers.provider.getBlock(blockNumber),
+      getLogs: async (filter: Filter) => (await ethers.provider.getLogs(filter)).reverse()
+    } as unknown as Provider;
+    const indexer = new BlueprintIndexer(provider, getAddress(blueprint), new MemoryStore(), {
+      startBlock,
+      confirmations: 0
+    });
+    const firstBlock = await deposit(blueprint, OP_ID_ARRAY[0], TOKEN_AMOUNT);
+    await deposit(blueprint, OP_ID_ARRAY[1], TOKEN_AMOUNT * 2n);
+    await indexer.sync();
+    await deposit(blueprint, OP_ID_ARRAY[2], TOKEN_AMOUNT * 3n);
+    await indexer.sync();
+
+    const operations = indexer.getOperationsForAccount(user.address);
+    expect(operations.map(record => record.opId)).to.deep.equal(OP_ID_ARRAY);
+    expect(indexer.getBalanceAt(user.address, firstBlock)).to.equal(TOKEN_AMOUNT);
+    expect(indexer.getBalanceAt(user.address, indexer.lastIndexedBlock)).to.equal(TOKEN_AMOUNT * 6n);
+  });
+
+  it("Persists the indexed data to a JSON file and resumes from it", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "blueprint-indexer-"));
+    const storePath = path.join(tempDir, "index.json");
+    try {
+      const options = { startBlock, confirmations: 0 };
+      const indexer =
+        new BlueprintIndexer(ethers.provider, getAddress(blueprint), new JsonFileStore(storePath), options);
+      await deposit(blueprint, OP_ID_ARRAY[0]);
+      await indexer.sync();
+
+      const resumedIndexer =
+        new BlueprintIndexer(ethers.provider, getAddress(blueprint), new JsonFileStore(storePath), options);
+      expect(resumedIndexer.lastIndexedBlock).to.equal(indexer.lastIndexedBlock);
+      expect(resumedIndexer.getBalanceUpdates()).to.deep.equal(indexer.getBalanceUpdates());
+
+      await deposit(blueprint, OP_ID_ARRAY[1]);
+      const result = await resumedIndexer.sync();
+      expect(result.fromBlock).to.equal(indexer.lastIndexedBlock + 1);
+      expect(result.eventCount).to.equal(1);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("Rolls back and indexes again the blocks that have been reorganized", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    const indexer = new BlueprintIndexer(ethers.provider, getAddress(blueprint), new MemoryStore(), {
+      startBlock,
+      confirmations: 0,
+      batchSize: 1
+    });
+    await indexer.sync();
+    const forkBlock = indexer.lastIndexedBlock;
+    const snapshotId = await ethers.provider.send("evm_snapshot", []);
+    await deposit(blueprint, OP_ID_ARRAY[0]);
+    await indexer.sync();
+    expect(indexer.getOperation(OP_ID_ARRAY[0])).not.to.equal(undefined);
+
+    // Replace the block with the indexed deposit by another one
+    await ethers.provider.send("evm_revert", [snapshotId]);
+    await deposit(blueprint, OP_ID_ARRAY[1]);
+    const result = await indexer.sync();
+
+    expect(result.rolledBackToBlock).to.equal(forkBlock);
+    expect(indexer.getOperation(OP_ID_ARRAY[0])).to.equal(undefined);
+    expect(indexer.getOperation(OP_ID_ARRAY[1])).not.to.equal(undefined);
+  });
+
+  it("Fails if the store belongs to another proxy", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    const store = new MemoryStore();
+    const options = { startBlock, confirmations: 0 };
+    await new BlueprintIndexer(ethers.provider, getAddress(blueprint), store, options).sync();
+
+    expect(() => new BlueprintIndexer(ethers.provider, user.address, store, options))
+      .to.throw("The indexer store belongs to another proxy");
+  });
+});
@@ -0,0 +1,259 @@
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { connect, getAddress, proveTx } from "../../test-utils/eth";
+import { setUpFixture } from "../../test-utils/common";
+import { BlueprintIndexer, MemoryStore, reconcile, ReconciliationReport } from "../../indexer";
+
+const ALLOWANCE_MAX = ethers.MaxUint256;
+const BALANCE_INITIAL = 1000_000_000_000n;
+const OP_ID_ARRAY: string[] = [
+  ethers.encodeBytes32String("MOCK OP_ID 1"),
+  ethers.encodeBytes32String("MOCK OP_ID 2"),
+  ethers.encodeBytes32String("MOCK OP_ID 3")
+];
+const TOKEN_AMOUNT = 12345678n;
+const FEE_RATE = 150n;
+
+const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
+const MANAGER_ROLE: string = ethers.id("MANAGER_ROLE");
+
+interface Fixture {
+  blueprint: Contract;
+  tokenMock: Contract;
+  startBlock: number;
+}
+
+describe("Function 'reconcile()'", async () => {
+  let deployer: HardhatEthersSigner;
+  let manager: HardhatEthersSigner;
+  let operationalTreasury: HardhatEthersSigner;
+  let newTreasury: HardhatEthersSigner;
+  let feeTreasury: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+
+  before(async () => {
+    [deployer, manager, operationalTreasury, newTreasury, feeTreasury, user] = await ethers.getSigners();
+  });
+
+  async function deployTokenMock(): Promise<Contract> {
+    const tokenMockFactory = await ethers.getContractFactory("ERC20TokenMock");
+    const tokenMock = await tokenMockFactory.connect(deployer).deploy("ERC20 Test", "TEST") as Contract;
+    await tokenMock.waitForDeployment();
+    return tokenMock;
+  }
+
+  async function deployAndConfigureContracts(): Promise<Fixture> {
+    const tokenMock = await deployTokenMock();
+
+    const startBlock = await ethers.provider.getBlockNumber() + 1;
+    const blueprintFactory = await ethers.getContractFactory("BlueprintTestable");
+    let blueprint = await upgrades.deployProxy(blueprintFactory.connect(deployer), [getAddress(tokenMock)]) as Contract;
+    await blueprint.waitForDeployment();
+    blueprint = connect(blueprint, deployer);
+
+    await proveTx(blueprint.grantRole(GRANTOR_ROLE, deployer.address));
+    await proveTx(blueprint.grantRole(MANAGER_ROLE, manager.address));
+    for (const treasury of [operationalTreasury, newTreasury]) {
+      await proveTx(connect(tokenMock, treasury).approve(getAddress(blueprint), ALLOWANCE_MAX));
+      await proveTx(tokenMock.mint(treasury.address, BALANCE_INITIAL));
+    }
+    await proveTx(blueprint.setOperationalTreasury(operationalTreasury.address));
+    await proveTx(tokenMock.mint(user.address, BALANCE_INITIAL));
+    await proveTx(connect(tokenMock, user).approve(getAddress(blueprint), ALLOWANCE_MAX));
+
+    return { blueprint, tokenMock, startBlock };
+  }
+
+  async function executeOperations(blueprint: Contract) {
+    await proveTx(connect(blueprint, manager).deposit(user.address, TOKEN_AMOUNT * 3n, OP_ID_ARRAY[0]));
+    await proveTx(blueprint.setOperationalTreasury(newTreasury.address));
+    await proveTx(connect(blueprint, manager).withdraw(user.address, TOKEN_AMOUNT, OP_ID_ARRAY[1]));
+  }
+
+  async function syncIndexer(blueprint: Contract, startBlock: number): Promise<BlueprintIndexer> {
+    const indexer = new BlueprintIndexer(ethers.provider, getAddress(blueprint), new MemoryStore(), {
+      startBlock,
+      confirmations: 0
+    });
+    await indexer.sync();
+    return indexer;
+  }
+
+  async function syncAndReconcile(blueprint: Contract, startBlock: number): Promise<ReconciliationReport> {
+    return reconcile(await syncIndexer(blueprint, startBlock));
+  }
+
+  it("Reports no drift if the contract state matches the events and token transfers", async () => {
+    const { blueprint, tokenMock, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    await executeOperations(blueprint);
+    // A transfer to the treasury outside of operations must be ignored
+    await proveTx(connect(tokenMock, user).transfer(newTreasury.address, TOKEN_AMOUNT));
+
+    const report = await syncAndReconcile(blueprint, startBlock);
+
+    expect(report.drifts).to.deep.equal([]);
+    expect(report.ok).to.equal(true);
+    expect(report.token).to.equal(getAddress(tokenMock));
+    expect(report.accountCount).to.equal(1);
+    expect(report.operationCount).to.equal(2);
+    expect(report.sumOfBalances).to.equal((TOKEN_AMOUNT * 2n).toString());
+    expect(report.netTokenFlow).to.equal((TOKEN_AMOUNT * 2n).toString());
+  });
+
+  it("Reports no drift if operations have been reverted", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    await executeOperations(blueprint);
+    await proveTx(connect(blueprint, manager).revertOperation(OP_ID_ARRAY[1]));
+    await proveTx(connect(blueprint, manager).revertOperation(OP_ID_ARRAY[0]));
+
+    const indexer = await syncIndexer(blueprint, startBlock);
+    const report = await reconcile(indexer);
+
+    expect(report.drifts).to.deep.equal([]);
+    expect(report.operationCount).to.equal(4);
+    expect(report.sumOfBalances).to.equal("0");
+    expect(indexer.getOperation(OP_ID_ARRAY[1])?.reversal).to.equal(undefined);
+    expect(indexer.getReversal(OP_ID_ARRAY[1])?.newBalance).to.equal(TOKEN_AMOUNT * 3n);
+  });
+
+  it("Reports no drift if fees have been charged", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+    await proveTx(blueprint.setDepositFeeRule(FEE_RATE, 0));
+    await executeOperations(blueprint);
+
+    const indexer = await syncIndexer(blueprint, startBlock);
+    const report = await reconcile(indexer);
+
+    expect(report.drifts).to.deep.equal([]);
+    expect(indexer.getFee(OP_ID_ARRAY[0])).to.equal(TOKEN_AMOUNT * 3n * FEE_RATE / 10000n);
+    expect(indexer.getFee(OP_ID_ARRAY[1])).to.equal(0n);
+  });
+
+  it("Reports no drift if the fee of a withdrawal has been deducted from the amount", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    const fee = TOKEN_AMOUNT * FEE_RATE / 10000n;
+    await proveTx(blueprint.setFeeTreasury(feeTreasury.address));
+    await proveTx(blueprint.setWithdrawalFeeRule(FEE_RATE, 0));
+    await executeOperations(blueprint);
+    await proveTx(connect(blueprint, manager).revertOperation(OP_ID_ARRAY[1]));
+
+    const indexer = await syncIndexer(blueprint, startBlock);
+    const report = await reconcile(indexer);
+
+    expect(report.drifts).to.deep.equal([]);
+    expect(indexer.getFee(OP_ID_ARRAY[1])).to.equal(fee);
+    // The fee is not refunded by the reversal
+    expect(report.sumOfBalances).to.equal((TOKEN_AMOUNT * 3n - fee).toString());
+    expect(report.netTokenFlow).to.equal(report.sumOfBalances);
+  });
+
+  it("Reports no drift if operations have been paid by a payer or sent to a recipient", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    const managedBlueprint = connect(blueprint, manager);
+    await proveTx(managedBlueprint.depositFrom(user.address, deployer.address, TOKEN_AMOUNT, OP_ID_ARRAY[0]));
+    await proveTx(managedBlueprint.withdrawTo(deployer.address, user.address, TOKEN_AMOUNT, OP_ID_ARRAY[1]));
+    await proveTx(managedBlueprint.revertOperation(OP_ID_ARRAY[1]));
+
+    const report = await syncAndReconcile(blueprint, startBlock);
+
+    expect(report.drifts).to.deep.equal([]);
+    expect(report.operationCount).to.equal(3);
+    expect(report.sumOfBalances).to.equal(TOKEN_AMOUNT.toString());
+  });
+
+  it("Reports no drift if operations have been executed with an additional token", async () => {
+    const { blueprint, tokenMock, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    const secondTokenMock = await deployTokenMock();
+    const secondToken = getAddress(secondTokenMock);
+    await proveTx(blueprint.registerToken(secondToken));
+    await proveTx(connect(secondTokenMock, newTreasury).approve(getAddress(blueprint), ALLOWANCE_MAX));
+    await proveTx(blueprint.setTokenOperationalTreasury(secondToken, newTreasury.address));
+    await proveTx(secondTokenMock.mint(newTreasury.address, BALANCE_INITIAL));
+    await proveTx(secondTokenMock.mint(user.address, BALANCE_INITIAL));
+    await proveTx(connect(secondTokenMock, user).approve(getAddress(blueprint), ALLOWANCE_MAX));
+    const managedBlueprint = connect(blueprint, manager);
+    await proveTx(managedBlueprint.deposit(user.address, TOKEN_AMOUNT, OP_ID_ARRAY[0]));
+    await proveTx(managedBlueprint.depositToken(secondToken, user.address, TOKEN_AMOUNT * 3n, OP_ID_ARRAY[1]));
+    await proveTx(managedBlueprint.withdrawToken(secondToken, user.address, TOKEN_AMOUNT, OP_ID_ARRAY[2]));
+    await proveTx(managedBlueprint.revertOperation(OP_ID_ARRAY[2]));
+
+    const indexer = await syncIndexer(blueprint, startBlock);
+    const report = await reconcile(indexer);
+
+    expect(report.drifts).to.deep.equal([]);
+    expect(report.token).to.equal(getAddress(tokenMock));
+    expect(report.accountCount).to.equal(1);
+    expect(report.operationCount).to.equal(4);
+    expect(report.sumOfBalances).to.equal(TOKEN_AMOUNT.toString());
+    expect(report.additionalTokens).to.deep.equal([{
+      token: secondToken,
+      sumOfBalances: (TOKEN_AMOUNT * 3n).toString(),
+      netTokenFlow: (TOKEN_AMOUNT * 3n).toString()
+    }]);
+    expect(indexer.getOperation(OP_ID_ARRAY[1])?.token).to.equal(secondToken);
+    expect(indexer.getReversal(OP_ID_ARRAY[2])?.token).to.equal(secondToken);
+    expect(indexer.getBalanceAt(user.address, indexer.lastIndexedBlock)).to.equal(TOKEN_AMOUNT);
+    expect(indexer.getBalanceAt(user.address, indexer.lastIndexedBlock, secondToken)).to.equal(TOKEN_AMOUNT * 3n);
+    expect(indexer.getTreasuryAt(indexer.lastIndexedBlock)).to.equal(operationalTreasury.address);
+    expect(indexer.getTreasuryAt(indexer.lastIndexedBlock, secondToken)).to.equal(newTreasury.address);
+  });
+
+  it("Reports the drift of an account state with the offending account", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    await executeOperations(blueprint);
+    await proveTx(blueprint.setAccountState(user.address, {
+      lastOpId: OP_ID_ARRAY[2],
+      balance: TOKEN_AMOUNT,
+      operationCount: 5
+    }));
+
+    const report = await syncAndReconcile(blueprint, startBlock);
+
+    expect(report.ok).to.equal(false);
+    expect(report.offendingAccounts).to.deep.equal([user.address]);
+    expect(report.offendingOpIds).to.deep.equal([]);
+    expect(report.drifts).to.deep.equal([
+      {
+        kind: "ACCOUNT_BALANCE",
+        account: user.address,
+        expected: (TOKEN_AMOUNT * 2n).toString(),
+        actual: TOKEN_AMOUNT.toString()
+      },
+      { kind: "ACCOUNT_OPERATION_COUNT", account: user.address, expected: "2", actual: "5" },
+      { kind: "ACCOUNT_LAST_OP_ID", account: user.address, expected: OP_ID_ARRAY[1], actual: OP_ID_ARRAY[2] },
+      { kind: "TOKEN_FLOW", expected: (TOKEN_AMOUNT * 2n).toString(), actual: TOKEN_AMOUNT.toString() }
+    ]);
+  });
+
+  it("Reports the gap between the consecutive events of an account", async () => {
+    const { blueprint, startBlock } = await setUpFixture(deployAndConfigureContracts);
+    await executeOperations(blueprint);
+    // The account state is reset, so the next deposit starts from the zero balance and reuses the operation count
+    await proveTx(blueprint.setAccountState(user.address, {
+      lastOpId: ethers.ZeroHash,
+      balance: 0,
+      operationCount: 0
+    }));
+    await proveTx(connect(blueprint, manager).deposit(user.address, TOKEN_AMOUNT, OP_ID_ARRAY[2]));
+
+    const report = await syncAndReconcile(blueprint, startBlock);
+
+    expect(report.ok).to.equal(false);
+    expect(report.offendingOpIds).to.deep.equal([OP_ID_ARRAY[2]]);
+    expect(report.drifts.map(drift => drift.kind)).to.deep.equal([
+      "EVENT_BALANCE_GAP",
+      "ACCOUNT_OPERATION_COUNT",
+      "TOKEN_FLOW"
+    ]);
+    expect(report.drifts[0]).to.deep.equal({
+      kind: "EVENT_BALANCE_GAP",
+      account: user.address,
+      opId: OP_ID_ARRAY[2],
+      expected: (TOKEN_AMOUNT * 2n).toString(),
+      actual: "0"
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, network, run, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { connect, getAddress, proveTx } from "../../test-utils/eth";
+import { DeploymentManifest } from "../../tasks/utils/manifest";
+import { DeployConfig } from "../../tasks/deploy";
+import { RoleAuditEntry, RoleAuditReport } from "../../tasks/auditRoles";
+
+const DEFAULT_ADMIN_ROLE: string = ethers.ZeroHash;
+const OWNER_ROLE: string = ethers.id("OWNER_ROLE");
+const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
+const MANAGER_ROLE: string = ethers.id("MANAGER_ROLE");
+
+describe("Task 'audit-roles'", async () => {
+  let deployer: HardhatEthersSigner;
+  let grantor: HardhatEthersSigner;
+  let manager: HardhatEthersSigner;
+  let newOwner: HardhatEthersSigner;
+
+  let manifestDir: string;
+  let reportPath: string;
+  let tokenMock: Contract;
+
+  before(async () => {
+    [deployer, grantor, manager, newOwner] = await ethers.getSigners();
+  });
+
+  beforeEach(async () => {
+    manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), "blueprint-deployments-"));
+    reportPath = path.join(manifestDir, "role-audit.json");
+
+    let tokenMockFactory = await ethers.getContractFactory("ERC20TokenMock");
+    tokenMockFactory = tokenMockFactory.connect(deployer);
+    tokenMock = await tokenMockFactory.deploy("ERC20 Test", "TEST") as Contract;
+    await tokenMock.waitForDeployment();
+  });
+
+  afterEach(async () => {
+    fs.rmSync(manifestDir, { recursive: true, force: true });
+  });
+
+  async function deploy(roles: Record<string, string[]>): Promise<DeploymentManifest> {
+    const deployConfig = path.join(manifestDir, "deploy.config.json");
+    const config: DeployConfig = { token: getAddress(tokenMock), roles };
+    fs.writeFileSync(deployConfig, JSON.stringify(config));
+    return run("deploy", { deployConfig, manifestDir });
+  }
+
+  function getEntry(report: RoleAuditReport, role: string): RoleAuditEntry {
+    const entry = report.roles.find(item => item.role === role);
+    if (!entry) {
+      throw new Error(`The role has not been found in the report: ${role}`);
+    }
+    return entry;
+  }
+
+  it("Rebuilds the role holders and the admin hierarchy and writes the JSON report", async () => {
+    const manifest = await deploy({ GRANTOR_ROLE: [grantor.address], MANAGER_ROLE: [manager.address] });
+
+    const report: RoleAuditReport = await run("audit-roles", { manifestDir, output: reportPath });
+
+    expect(JSON.parse(fs.readFileSync(reportPath, "utf8"))).to.deep.equal(report);
+    expect(report.network).to.equal(network.name);
+    expect(report.proxy).to.equal(manifest.proxy);
+    expect(report.toBlock).to.equal(await ethers.provider.getBlockNumber());
+    expect(getEntry(report, OWNER_ROLE).holders.map(holder => holder.account)).to.deep.equal([deployer.address]);
+    expect(getEntry(report, OWNER_ROLE).holders[0].isContract).to.equal(false);
+    // The temporary grantor role of the deployer must not be among the holders
+    expect(getEntry(report, GRANTOR_ROLE).holders.map(holder => holder.account)).to.deep.equal([grantor.address]);
+    expect(getEntry(report, MANAGER_ROLE).holders.map(holder => holder.account)).to.deep.equal([manager.address]);
+    expect(getEntry(report, MANAGER_ROLE).adminName).to.equal("GRANTOR_ROLE");
+    expect(report.roles.some(entry => entry.role === DEFAULT_ADMIN_ROLE)).to.equal(false);
+
+    expect(report.adminTree).to.have.lengthOf(1);
+    const [ownerNode] = report.adminTree;
+    expect(ownerNode.name).to.equal("OWNER_ROLE");
+    expect(ownerNode.children.map(node => node.name)).to.deep.equal(["GRANTOR_ROLE"]);
+    expect(ownerNode.children[0].children.map(node => node.name)).to.have.members([
+      "PAUSER_ROLE",
+      "RESCUER_ROLE",
+      "MANAGER_ROLE",
+      "LIMITS_ADMIN_ROLE",
+      "FREEZER_ROLE"
+    ]);
+
+    // The warnings do not fail the audit with the default threshold
+    expect(report.failOn).to.equal("critical");
+    expect(report.ok).to.equal(true);
+    expect(report.findings.map(finding => finding.code)).to.deep.equal(["SINGLE_OWNER"]);
+  });
+
+  it("Flags an externally owned account that holds both the owner and manager roles", async () => {
+    await deploy({ MANAGER_ROLE: [deployer.address] });
+
+    const report: RoleAuditReport = await run("audit-roles", { manifestDir, output: reportPath });
+
+    expect(report.findings.map(finding => finding.code)).to.deep.equal(["SINGLE_OWNER", "EOA_OWNER_AND_MANAGER"]);
+    expect(report.findings[1].accounts).to.deep.equal([deployer.address]);
+  });
+
+  it("Follows the transfer of the owner role", async () => {
+    const manifest = await deploy({});
+    const blueprint = await ethers.getContractAt("Blueprint", manifest.proxy);
+    await proveTx(blueprint.proposeOwnerTransfer(newOwner.address));
+    await time.increase(await blueprint.ownerTransferDelay());
+    await proveTx(connect(blueprint, newOwner).acceptOwnerTransfer());
+
+    const report: RoleAuditReport = await run("audit-roles", { manifestDir, output: reportPath });
+
+    expect(getEntry(report, OWNER_ROLE).holders.map(holder => holder.account)).to.deep.equal([newOwner.address]);
+    expect(report.findings[0].accounts).to.deep.equal([newOwner.address]);
+  });
+
+  it("Audits the roles at the provided end block", async () => {
+    const manifest = await deploy({ MANAGER_ROLE: [manager.address] });
+    const endBlock = await ethers.provider.getBlockNumber();
+    const blueprint = await ethers.getContractAt("Blueprint", manifest.proxy);
+    await proveTx(blueprint.grantRole(GRANTOR_ROLE, deployer.address));
+    await proveTx(blueprint.revokeRole(MANAGER_ROLE, manager.address));
+
+    const report: RoleAuditReport = await run("audit-roles", { manifestDir, endBlock, output: reportPath });
+
+    expect(report.toBlock).to.equal(endBlock);
+    expect(getEntry(report, GRANTOR_ROLE).holders).to.deep.equal([]);
+    expect(getEntry(report, MANAGER_ROLE).holders.map(holder => holder.account)).to.deep.equal([manager.address]);
+  });
+
+  it("Reads the events from the genesis block if the provided proxy differs from the manifest one", async () => {
+    await deploy({});
+    const blueprintFactory = await ethers.getContractFactory("Blueprint");
+    const anotherBlueprint = await upgrades.deployProxy(blueprintFactory.connect(newOwner), [getAddress(tokenMock)]);
+    await anotherBlueprint.waitForDeployment();
+    const proxy = getAddress(anotherBlueprint);
+
+    const report: RoleAuditReport = await run("audit-roles", { proxy, manifestDir, output: reportPath });
+
+    expect(report.proxy).to.equal(proxy);
+    expect(report.fromBlock).to.equal(0);
+    expect(getEntry(report, OWNER_ROLE).holders.map(holder => holder.account)).to.deep.equal([newOwner.address]);
+  });
+
+  it("Fails if a critical risk has been found and the strict flag is set", async () => {
+    const manifest = await deploy({});
+    // The events of the deployment are skipped, so the owner role has no holders
+    const startBlock = await ethers.provider.getBlockNumber() + 1;
+    const taskArgs = { proxy: manifest.proxy, startBlock, manifestDir, output: reportPath, strict: true };
+
+    await expect(run("audit-roles", taskArgs)).to.be.rejectedWith("The role audit of proxy");
+    const report: RoleAuditReport = JSON.parse(fs.readFileSync(reportPath, "utf8"));
+    expect(report.ok).to.equal(false);
+    expect(report.findings.map(finding => finding.code)).to.deep.equal(["NO_OWNER"]);
+  });
+
+  it("Fails on warnings only if they are included by the threshold and the strict flag is set", async () => {
+    await deploy({});
+
+    const report: RoleAuditReport = await run("audit-roles", { manifestDir, output: reportPath, strict: true });
+    expect(report.findings.map(finding => finding.code)).to.deep.equal(["SINGLE_OWNER"]);
+
+    await expect(run("audit-roles", { manifestDir, output: reportPath, strict: true, failOn: "warning" }))
+      .to.be.rejectedWith("The role audit of proxy");
+    expect(JSON.parse(fs.readFileSync(reportPath, "utf8")).ok).to.equal(false);
+  });
+
+  it("Fails if the provided severity threshold is unknown", async () => {
+    await deploy({});
+
+    await expect(run("audit-roles", { manifestDir, output: reportPath, failOn: "info" }))
+      .to.be.rejectedWith('The severity is unknown: "info"');
+  });
+});
@@ -0,0 +1,163 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, network, run, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { connect, getAddress, proveTx } from "../../test-utils/eth";
+import { DeploymentManifest, getManifestPath } from "../../tasks/utils/manifest";
+import { DeployConfig } from "../../tasks/deploy";
+
+const ALLOWANCE_MAX = ethers.MaxUint256;
+
+const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
+const MANAGER_ROLE: string = ethers.id("MANAGER_ROLE");
+const LIMITS_ADMIN_ROLE: string = ethers.id("LIMITS_ADMIN_ROLE");
+const FREEZER_ROLE: string = ethers.id("FREEZER_ROLE");
+const PAUSER_ROLE: string = ethers.id("PAUSER_ROLE");
+
+describe("Task 'deploy'", async () => {
+  let deployer: HardhatEthersSigner;
+  let grantor: HardhatEthersSigner;
+  let manager: HardhatEthersSigner;
+  let pauser: HardhatEthersSigner;
+  let operationalTreasury: HardhatEthersSigner;
+  let limitsAdmin: HardhatEthersSigner;
+  let freezer: HardhatEthersSigner;
+
+  let manifestDir: string;
+  let tokenMock: Contract;
+
+  before(async () => {
+    [deployer, grantor, manager, pauser, operationalTreasury, limitsAdmin, freezer] = await ethers.getSigners();
+  });
+
+  beforeEach(async () => {
+    manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), "blueprint-deployments-"));
+
+    let tokenMockFactory = await ethers.getContractFactory("ERC20TokenMock");
+    tokenMockFactory = tokenMockFactory.connect(deployer);
+    tokenMock = await tokenMockFactory.deploy("ERC20 Test", "TEST") as Contract;
+    await tokenMock.waitForDeployment();
+  });
+
+  afterEach(async () => {
+    fs.rmSync(manifestDir, { recursive: true, force: true });
+  });
+
+  function writeDeployConfig(config: DeployConfig): string {
+    const configPath = path.join(manifestDir, "deploy.config.json");
+    fs.writeFileSync(configPath, JSON.stringify(config));
+    return configPath;
+  }
+
+  function readManifestFile(): DeploymentManifest {
+    return JSON.parse(fs.readFileSync(getManifestPath(network.name, manifestDir), "utf8"));
+  }
+
+  it("Deploys the proxy and writes the manifest with the expected fields", async () => {
+    const manifest: DeploymentManifest = await run("deploy", { token: getAddress(tokenMock), manifestDir });
+    const blueprint = await ethers.getContractAt("Blueprint", manifest.proxy);
+
+    expect(readManifestFile()).to.deep.equal(manifest);
+    expect(manifest.network).to.equal(network.name);
+    expect(manifest.chainId).to.equal(Number((await ethers.provider.getNetwork()).chainId));
+    expect(manifest.contractName).to.equal("Blueprint");
+    expect(manifest.token).to.equal(getAddress(tokenMock));
+    expect(manifest.implementation).to.equal(await upgrades.erc1967.getImplementationAddress(manifest.proxy));
+    expect(manifest.transactions.deployment).to.match(/^0x[0-9a-f]{64}$/);
+    expect(manifest.transactions.operationalTreasury).to.equal(undefined);
+    expect(manifest.transactions.roles).to.deep.equal({});
+
+    const version = await blueprint.$__VERSION();
+    expect(manifest.version).to.deep.equal({
+      major: Number(version.major),
+      minor: Number(version.minor),
+      patch: Number(version.patch)
+    });
+    expect(await blueprint.underlyingToken()).to.equal(getAddress(tokenMock));
+  });
+
+  it("Configures the operational treasury and roles from the deploy config", async () => {
+    const deployConfig = writeDeployConfig({
+      token: getAddress(tokenMock),
+      roles: {
+        GRANTOR_ROLE: [grantor.address],
+        MANAGER_ROLE: [manager.address],
+        LIMITS_ADMIN_ROLE: [limitsAdmin.address],
+        FREEZER_ROLE: [freezer.address],
+        PAUSER_ROLE: [pauser.address]
+      }
+    });
+    const { proxy } = await run("deploy", { deployConfig, manifestDir });
+    const blueprint = await ethers.getContractAt("Blueprint", proxy);
+
+    expect(await blueprint.hasRole(GRANTOR_ROLE, grantor.address)).to.equal(true);
+    expect(await blueprint.hasRole(MANAGER_ROLE, manager.address)).to.equal(true);
+    expect(await blueprint.hasRole(LIMITS_ADMIN_ROLE, limitsAdmin.address)).to.equal(true);
+    expect(await blueprint.hasRole(FREEZER_ROLE, freezer.address)).to.equal(true);
+    expect(await blueprint.hasRole(PAUSER_ROLE, pauser.address)).to.equal(true);
+    // The temporary grantor role of the deployer must be revoked
+    expect(await blueprint.hasRole(GRANTOR_ROLE, deployer.address)).to.equal(false);
+
+    await proveTx(connect(tokenMock, operationalTreasury).approve(proxy, ALLOWANCE_MAX));
+    fs.writeFileSync(deployConfig, JSON.stringify({
+      token: getAddress(tokenMock),
+      operationalTreasury: operationalTreasury.address
+    }));
+    const manifest: DeploymentManifest = await run("deploy", { deployConfig, manifestDir });
+
+    expect(await blueprint.operationalTreasury()).to.equal(operationalTreasury.address);
+    expect(manifest.transactions.operationalTreasury).to.match(/^0x[0-9a-f]{64}$/);
+    expect(manifest.transactions.roles["GRANTOR_ROLE"]).to.have.lengthOf(3); // Grant, temporary grant, revoke
+    expect(manifest.transactions.roles["MANAGER_ROLE"]).to.have.lengthOf(1);
+    expect(manifest.transactions.roles["LIMITS_ADMIN_ROLE"]).to.have.lengthOf(1);
+    expect(manifest.transactions.roles["FREEZER_ROLE"]).to.have.lengthOf(1);
+    expect(manifest.transactions.roles["PAUSER_ROLE"]).to.have.lengthOf(1);
+  });
+
+  it("Is idempotent when it is run again with the same config", async () => {
+    const deployConfig = writeDeployConfig({
+      token: getAddress(tokenMock),
+      roles: { MANAGER_ROLE: [manager.address] }
+    });
+    const firstManifest: DeploymentManifest = await run("deploy", { deployConfig, manifestDir });
+    const nonceBefore = await ethers.provider.getTransactionCount(deployer.address);
+
+    const secondManifest: DeploymentManifest = await run("deploy", { deployConfig, manifestDir });
+
+    expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonceBefore);
+    expect(secondManifest.proxy).to.equal(firstManifest.proxy);
+    expect(secondManifest.implementation).to.equal(firstManifest.implementation);
+    expect(secondManifest.transactions).to.deep.equal(firstManifest.transactions);
+  });
+
+  describe("Fails if", async () => {
+    it("The token address is not provided", async () => {
+      await expect(run("deploy", { manifestDir }))
+        .to.be.rejectedWith("The underlying token address is not provided or invalid");
+    });
+
+    it("The token differs from the one in the existing manifest", async () => {
+      await run("deploy", { token: getAddress(tokenMock), manifestDir });
+
+      await expect(run("deploy", { token: deployer.address, manifestDir }))
+        .to.be.rejectedWith("The token from the deployment manifest differs from the requested one");
+    });
+
+    it("The deploy config contains an unsupported role", async () => {
+      const deployConfig = writeDeployConfig({ roles: { OWNER_ROLE: [deployer.address] } });
+
+      await expect(run("deploy", { token: getAddress(tokenMock), deployConfig, manifestDir }))
+        .to.be.rejectedWith("The role in the deploy config is not supported");
+    });
+
+    it("The operational treasury has not granted an allowance to the proxy", async () => {
+      const deployConfig = writeDeployConfig({ operationalTreasury: operationalTreasury.address });
+
+      await expect(run("deploy", { token: getAddress(tokenMock), deployConfig, manifestDir }))
+        .to.be.rejectedWith("The operational treasury has not granted an allowance to the proxy");
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, run, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { connect, getAddress, proveTx } from "../../test-utils/eth";
+import { setUpFixture } from "../../test-utils/common";
+import { SubmissionResults } from "../../tasks/submitOperations";
+
+const ALLOWANCE_MAX = ethers.MaxUint256;
+const BALANCE_INITIAL = 1000_000_000_000n;
+const OP_ID_ARRAY: string[] = [
+  ethers.encodeBytes32String("MOCK OP_ID 1"),
+  ethers.encodeBytes32String("MOCK OP_ID 2"),
+  ethers.encodeBytes32String("MOCK OP_ID 3"),
+  ethers.encodeBytes32String("MOCK OP_ID 4")
+];
+const TOKEN_AMOUNT = 12345678n;
+const GAS_BUDGET = 250_000;
+
+const GRANTOR_ROLE: string = ethers.id("GRANTOR_ROLE");
+const MANAGER_ROLE: string = ethers.id("MANAGER_ROLE");
+
+interface Fixture {
+  blueprint: Contract;
+}
+
+describe("Task 'submit-operations'", async () => {
+  let deployer: HardhatEthersSigner;
+  let operationalTreasury: HardhatEthersSigner;
+  let user: HardhatEthersSigner;
+
+  let tempDir: string;
+  let csvPath: string;
+
+  before(async () => {
+    [deployer, operationalTreasury, user] = await ethers.getSigners();
+  });
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "blueprint-operations-"));
+    csvPath = path.join(tempDir, "operations.csv");
+  });
+
+  afterEach(async () => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function deployAndConfigureContracts(): Promise<Fixture> {
+    const tokenMockFactory = await ethers.getContractFactory("ERC20TokenMock");
+    const tokenMock = await tokenMockFactory.connect(deployer).deploy("ERC20 Test", "TEST") as Contract;
+    await tokenMock.waitForDeployment();
+
+    const blueprintFactory = await ethers.getContractFactory("Blueprint");
+    let blueprint = await upgrades.deployProxy(blueprintFactory.connect(deployer), [getAddress(tokenMock)]) as Contract;
+    await blueprint.waitForDeployment();
+    blueprint = connect(blueprint, deployer);
+
+    // The task sends transactions from the first signer, so it is the manager
+    await proveTx(blueprint.grantRole(GRANTOR_ROLE, deployer.address));
+    await proveTx(blueprint.grantRole(MANAGER_ROLE, deployer.address));
+    await proveTx(connect(tokenMock, operationalTreasury).approve(getAddress(blueprint), ALLOWANCE_MAX));
+    await proveTx(blueprint.setOperationalTreasury(operationalTreasury.address));
+    await proveTx(tokenMock.mint(operationalTreasury.address, BALANCE_INITIAL));
+    await proveTx(tokenMock.mint(user.address, BALANCE_INITIAL));
+    await proveTx(connect(tokenMock, user).approve(getAddress(blueprint), ALLOWANCE_MAX));
+
+    return { blueprint };
+  }
+
+  function writeCsv(rows: [string, bigint, string][]) {
+    const lines = rows.map(([kind, amount, opId]) => `${kind},${user.address},${amount},${opId}`);
+    fs.writeFileSync(csvPath, ["kind,account,amount,opId", ...lines].join("\n") + "\n");
+  }
+
+  function getTransactionHashes(results: SubmissionResults): Set<string | undefined> {
+    return new Set(results.rows.filter(row => row.status === "executed").map(row => row.tx));
+  }
+
+  it("Executes the operations in batches and writes the results file", async () => {
+    const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+    writeCsv([
+      ["deposit", TOKEN_AMOUNT, OP_ID_ARRAY[0]],
+      ["deposit", TOKEN_AMOUNT, OP_ID_ARRAY[1]],
+      ["withdrawal", TOKEN_AMOUNT, OP_ID_ARRAY[2]]
+    ]);
+
+    const results: SubmissionResults = await run("submit-operations", { file: csvPath, proxy: getAddress(blueprint) });
+
+    expect(JSON.parse(fs.readFileSync(`${csvPath}.results.json`, "utf8"))).to.deep.equal(results);
+    expect(results.counts).to.deep.equal({ executed: 3, skipped: 0, failed: 0, pending: 0 });
+    expect(results.rows.map(row => row.line)).to.deep.equal([2, 3, 4]);
+    expect(getTransactionHashes(results).size).to.equal(2); // One deposit batch and one withdrawal batch
+    expect(await blueprint.balanceOf(user.address)).to.equal(TOKEN_AMOUNT);
+  });
+
+  it("Splits the operations into several batches to fit the gas budget", async () => {
+    const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+    writeCsv(OP_ID_ARRAY.map(opId => ["deposit", TOKEN_AMOUNT, opId]));
+
+    const results: SubmissionResults = await run("submit-operations", {
+      file: csvPath,
+      proxy: getAddress(blueprint),
+      gasBudget: GAS_BUDGET
+    });
+
+    expect(results.counts.executed).to.equal(OP_ID_ARRAY.length);
+    expect(getTransactionHashes(results).size).to.be.greaterThan(1);
+    for (const txHash of getTransactionHashes(results)) {
+      const receipt = await ethers.provider.getTransactionReceipt(txHash!);
+      expect(receipt?.gasUsed).to.be.lessThanOrEqual(BigInt(GAS_BUDGET));
+    }
+  });
+
+  it("Skips the operations that have been already executed", async () => {
+    const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+    await proveTx(blueprint.deposit(user.address, TOKEN_AMOUNT, OP_ID_ARRAY[0]));
+    writeCsv([
+      ["deposit", TOKEN_AMOUNT, OP_ID_ARRAY[0]],
+      ["deposit", TOKEN_AMOUNT, OP_ID_ARRAY[1]]
+    ]);
+
+    const results: SubmissionResults = await run("submit-operations", { file: csvPath, proxy: getAddress(blueprint) });
+
+    expect(results.rows.map(row => row.status)).to.deep.equal(["skipped", "executed"]);
+    expect(await blueprint.balanceOf(user.address)).to.equal(TOKEN_AMOUNT * 2n);
+  });
+
+  it("Stops at the failed batch and records the failed operation in the results file", async () => {
+    const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+    writeCsv([
+      ["deposit", TOKEN_AMOUNT, OP_ID_ARRAY[0]],
+      ["withdrawal", TOKEN_AMOUNT, OP_ID_ARRAY[1]],
+      ["withdrawal", TOKEN_AMOUNT, OP_ID_ARRAY[2]],
+      ["deposit", TOKEN_AMOUNT, OP_ID_ARRAY[3]]
+    ]);
+
+    await expect(run("submit-operations", { file: csvPath, proxy: getAddress(blueprint) }))
+      .to.be.rejectedWith("The operation on line 4 has failed");
+
+    const results: SubmissionResults = JSON.parse(fs.readFileSync(`${csvPath}.results.json`, "utf8"));
+    expect(results.rows.map(row => row.status)).to.deep.equal(["executed", "pending", "failed", "pending"]);
+    expect(results.rows[2].error).to.contain("Blueprint_BalanceInsufficient");
+    expect(await blueprint.balanceOf(user.address)).to.equal(TOKEN_AMOUNT);
+  });
+
+  it("Fails if the CSV file contains a duplicated operation identifier", async () => {
+    const { blueprint } = await setUpFixture(deployAndConfigureContracts);
+    writeCsv([
+      ["deposit", TOKEN_AMOUNT, OP_ID_ARRAY[0]],
+      ["withdrawal", TOKEN_AMOUNT, OP_ID_ARRAY[0]]
+    ]);
+
+    await expect(run("submit-operations", { file: csvPath, proxy: getAddress(blueprint) }))
+      .to.be.rejectedWith("The opId of the operation on line 3 is duplicated");
+  });
+});
@@ -0,0 +1,199 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, network, run, upgrades } from "hardhat";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { connect, getAddress, proveTx } from "../../test-utils/eth";
+import { DeploymentManifest, readManifestStrictly } from "../../tasks/utils/manifest";
+import { UpgradeResult } from "../../tasks/upgrade";
+
+const CURRENT_CONTRACT_NAME = "Blueprint";
+const NEXT_VERSION_CONTRACT_NAME = "BlueprintNextVersionTestable";
+const INCOMPATIBLE_VERSION_CONTRACT_NAME = "BlueprintIncompatibleVersionTestable";
+const LEGACY_CONTRACT_NAME = "BlueprintLegacyTestable";
+
+describe("Task 'upgrade'", async () => {
+  let deployer: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+
+  let manifestDir: string;
+  let manifest: DeploymentManifest;
+  let blueprint: Contract;
+
+  before(async () => {
+    [deployer, stranger] = await ethers.getSigners();
+  });
+
+  beforeEach(async () => {
+    manifestDir = fs.mkdtempSync(path.join(os.tmpdir(), "blueprint-deployments-"));
+
+    let tokenMockFactory = await ethers.getContractFactory("ERC20TokenMock");
+    tokenMockFactory = tokenMockFactory.connect(deployer);
+    const tokenMock = await tokenMockFactory.deploy("ERC20 Test", "TEST") as Contract;
+    await tokenMock.waitForDeployment();
+
+    manifest = await run("deploy", { token: getAddress(tokenMock), manifestDir });
+    blueprint = await ethers.getContractAt("Blueprint", manifest.proxy);
+  });
+
+  afterEach(async () => {
+    fs.rmSync(manifestDir, { recursive: true, force: true });
+  });
+
+  it("Simulates the scheduling without deploying the new implementation if the execute flag is not set", async () => {
+    const nonce = await ethers.provider.getTransactionCount(deployer.address);
+
+    const result: UpgradeResult = await run("upgrade", { contract: NEXT_VERSION_CONTRACT_NAME, manifestDir });
+
+    expect(result.step).to.equal("schedule");
+    expect(result.tx).to.equal(undefined);
+    expect(result.data).to.equal(blueprint.interface.encodeFunctionData("scheduleUpgrade", [result.newImplementation]));
+    expect(await ethers.provider.getCode(result.newImplementation)).to.equal("0x");
+    expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonce);
+    expect((await blueprint.getScheduledUpgrade()).newImplementation).to.equal(ethers.ZeroAddress);
+    expect(await upgrades.erc1967.getImplementationAddress(manifest.proxy)).to.equal(manifest.implementation);
+    expect(readManifestStrictly(network.name, manifestDir).implementation).to.equal(manifest.implementation);
+  });
+
+  it("Schedules the upgrade, then upgrades the proxy and updates the manifest if the execute flag is set", async () => {
+    const scheduleResult: UpgradeResult = await run("upgrade", {
+      contract: NEXT_VERSION_CONTRACT_NAME,
+      manifestDir,
+      execute: true
+    });
+
+    expect(scheduleResult.step).to.equal("schedule");
+    expect((await blueprint.getScheduledUpgrade()).newImplementation).to.equal(scheduleResult.newImplementation);
+    expect(await upgrades.erc1967.getImplementationAddress(manifest.proxy)).to.equal(manifest.implementation);
+    await time.increaseTo(scheduleResult.readyAt!);
+
+    const result: UpgradeResult = await run("upgrade", {
+      contract: NEXT_VERSION_CONTRACT_NAME,
+      manifestDir,
+      execute: true
+    });
+    const newManifest = readManifestStrictly(network.name, manifestDir);
+
+    expect(result.step).to.equal("upgrade");
+    expect(result.newImplementation).to.equal(scheduleResult.newImplementation);
+    expect(result.data).to.equal(
+      blueprint.interface.encodeFunctionData("upgradeToAndCall", [result.newImplementation, "0x"])
+    );
+    expect(await upgrades.erc1967.getImplementationAddress(manifest.proxy)).to.equal(result.newImplementation);
+    expect(newManifest.implementation).to.equal(result.newImplementation);
+    expect(newManifest.version).to.deep.equal(result.newVersion);
+    expect(newManifest.transactions.upgrades).to.deep.equal([
+      { implementation: result.newImplementation, version: result.newVersion, tx: result.tx }
+    ]);
+  });
+
+  it("Prints the upgrade calldata with the scheduled implementation if the execute flag is not set", async () => {
+    const scheduleResult: UpgradeResult = await run("upgrade", {
+      contract: NEXT_VERSION_CONTRACT_NAME,
+      manifestDir,
+      execute: true
+    });
+    await time.increaseTo(scheduleResult.readyAt!);
+    const nonce = await ethers.provider.getTransactionCount(deployer.address);
+
+    const result: UpgradeResult = await run("upgrade", { contract: NEXT_VERSION_CONTRACT_NAME, manifestDir });
+
+    expect(result.step).to.equal("upgrade");
+    expect(result.tx).to.equal(undefined);
+    expect(result.newImplementation).to.equal(scheduleResult.newImplementation);
+    expect(result.data).to.equal(
+      blueprint.interface.encodeFunctionData("upgradeToAndCall", [result.newImplementation, "0x"])
+    );
+    expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonce);
+    expect(await upgrades.erc1967.getImplementationAddress(manifest.proxy)).to.equal(manifest.implementation);
+  });
+
+  it("Deploys the new implementation and prints the scheduling calldata if the owner is another account", async () => {
+    await proveTx(blueprint.proposeOwnerTransfer(stranger.address));
+    await time.increase(await blueprint.ownerTransferDelay());
+    await proveTx(connect(blueprint, stranger).acceptOwnerTransfer());
+
+    const result: UpgradeResult = await run("upgrade", {
+      contract: NEXT_VERSION_CONTRACT_NAME,
+      owner: stranger.address,
+      manifestDir,
+      execute: true
+    });
+
+    expect(result.step).to.equal("schedule");
+    expect(result.tx).to.equal(undefined);
+    expect(result.data).to.equal(blueprint.interface.encodeFunctionData("scheduleUpgrade", [result.newImplementation]));
+    expect(await ethers.provider.getCode(result.newImplementation)).to.not.equal("0x");
+    expect((await blueprint.getScheduledUpgrade()).newImplementation).to.equal(ethers.ZeroAddress);
+  });
+
+  it("Upgrades the proxy directly if the deployed implementation does not schedule upgrades", async () => {
+    fs.rmSync(manifestDir, { recursive: true, force: true });
+    const legacyManifest: DeploymentManifest =
+      await run("deploy", { token: manifest.token, manifestDir, contract: LEGACY_CONTRACT_NAME });
+
+    // The deployed implementation reproduces the release of version 1.1.0, the new one is the current contract
+    const result: UpgradeResult = await run("upgrade", {
+      contract: CURRENT_CONTRACT_NAME,
+      manifestDir,
+      execute: true
+    });
+
+    expect(result.step).to.equal("upgrade");
+    expect(result.data).to.equal(
+      blueprint.interface.encodeFunctionData("upgradeToAndCall", [result.newImplementation, "0x"])
+    );
+    expect(await upgrades.erc1967.getImplementationAddress(legacyManifest.proxy)).to.equal(result.newImplementation);
+    expect(legacyManifest.version).to.deep.equal({ major: 1, minor: 1, patch: 0 });
+    expect(result.newVersion).to.deep.equal({ major: 1, minor: 2, patch: 0 });
+    expect(readManifestStrictly(network.name, manifestDir).version).to.deep.equal(result.newVersion);
+  });
+
+  describe("Fails if", async () => {
+    it("The deployment manifest does not exist", async () => {
+      fs.rmSync(manifestDir, { recursive: true, force: true });
+
+      await expect(run("upgrade", { contract: NEXT_VERSION_CONTRACT_NAME, manifestDir }))
+        .to.be.rejectedWith("The deployment manifest has not been found for the network");
+    });
+
+    it("The version of the new implementation is not greater than the deployed one", async () => {
+      const nonce = await ethers.provider.getTransactionCount(deployer.address);
+
+      await expect(run("upgrade", { manifestDir }))
+        .to.be.rejectedWith("The version of the new implementation must be greater than the deployed one");
+      expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonce);
+    });
+
+    it("The deployed version is lower than the minimum compatible version of the new implementation", async () => {
+      const nonce = await ethers.provider.getTransactionCount(deployer.address);
+
+      await expect(run("upgrade", { contract: INCOMPATIBLE_VERSION_CONTRACT_NAME, manifestDir }))
+        .to.be.rejectedWith("The deployed version is lower than the minimum compatible version");
+      expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonce);
+    });
+
+    it("The account to upgrade from does not have the owner role", async () => {
+      await expect(run("upgrade", { contract: NEXT_VERSION_CONTRACT_NAME, owner: stranger.address, manifestDir }))
+        .to.be.rejectedWith("The account to upgrade the proxy from does not have the owner role");
+    });
+
+    it("The scheduled upgrade is not ready yet", async () => {
+      await run("upgrade", { contract: NEXT_VERSION_CONTRACT_NAME, manifestDir, execute: true });
+
+      await expect(run("upgrade", { contract: NEXT_VERSION_CONTRACT_NAME, manifestDir, execute: true }))
+        .to.be.rejectedWith("The upgrade to the new implementation is scheduled, but it is not ready yet");
+    });
+
+    it("The simulated upgrade is reverted", async () => {
+      const callData = blueprint.interface.encodeFunctionData("initialize", [stranger.address]);
+
+      await expect(run("upgrade", { contract: NEXT_VERSION_CONTRACT_NAME, callData, manifestDir }))
+        .to.be.rejectedWith("The upgrade simulation has failed: InvalidInitialization()");
+      expect(await upgrades.erc1967.getImplementationAddress(manifest.proxy)).to.equal(manifest.implementation);
+    });
+  });
+});